@@ -4,59 +4,43 @@ import { useEffect, useState, useCallback, useRef, use } from 'react';
 import { useRouter, useSearchParams } from 'next/navigation';
 import { useSocket } from '@/hooks/useSocket';
 import { useGame } from '@/hooks/useGame';
-import { Board } from '@/components/game/Board';
-import { ChessBoard } from '@/components/game/ChessBoard';
-import { Connect4Board } from '@/components/game/Connect4Board';
-import { ReversiBoard } from '@/components/game/ReversiBoard';
-import { TicTacToeBoard } from '@/components/game/TicTacToeBoard';
-import { GomokuBoard } from '@/components/game/GomokuBoard';
-import { MancalaBoard } from '@/components/game/MancalaBoard';
-import { DotsBoxesBoard } from '@/components/game/DotsBoxesBoard';
-import { NavalBattleBoard } from '@/components/game/NavalBattleBoard';
-import { GoBoard } from '@/components/game/GoBoard';
-import { BackgammonBoard } from '@/components/game/BackgammonBoard';
-import { CribbageBoard } from '@/components/game/CribbageBoard';
+import { BOARD_COMPONENTS } from '@/components/game/boardComponents';
 import { Chat } from '@/components/game/Chat';
 import { GameLobby } from '@/components/game/GameLobby';
 import { GameOverModal } from '@/components/game/GameOverModal';
+import { GameClock } from '@/components/game/GameClock';
+import { MoveList } from '@/components/game/MoveList';
 import { ConnectionStatus } from '@/components/ui/ConnectionStatus';
 import { Modal } from '@/components/ui/Modal';
 import { Button } from '@/components/ui/Button';
 import { Input } from '@/components/ui/Input';
 import { ErrorBoundary } from '@/components/ui/ErrorBoundary';
-import { GameType } from '@/lib/types';
-import { GAMES } from '@/lib/games';
+import { GameType, ClockView } from '@/lib/types';
+import { authHeaders } from '@/lib/accounts';
+import { useGames } from '@/hooks/useGames';
+import { useAccount } from '@/hooks/useAccount';
+import { useCorrespondence } from '@/hooks/useCorrespondence';
 import { GameIcon } from '@/components/ui/GameIcons';
-import { ComponentType } from 'react';
+import { describeMatchResult, describeMatchScore, matchFormatLabel } from '@/lib/match';
 
-interface BoardProps {
-  gameState: unknown;
-  playerId: string;
-  onMove: (from: { row: number; col: number }, to: { row: number; col: number }) => void;
-  onQuit: () => void;
-}
-
-const BOARD_COMPONENTS: Record<GameType, ComponentType<BoardProps>> = {
-  checkers: Board as ComponentType<BoardProps>,
-  chess: ChessBoard as ComponentType<BoardProps>,
-  connect4: Connect4Board as ComponentType<BoardProps>,
-  reversi: ReversiBoard as ComponentType<BoardProps>,
-  tictactoe: TicTacToeBoard as ComponentType<BoardProps>,
-  gomoku: GomokuBoard as ComponentType<BoardProps>,
-  mancala: MancalaBoard as ComponentType<BoardProps>,
-  dotsboxes: DotsBoxesBoard as ComponentType<BoardProps>,
-  navalbattle: NavalBattleBoard as ComponentType<BoardProps>,
-  go: GoBoard as ComponentType<BoardProps>,
-  backgammon: BackgammonBoard as ComponentType<BoardProps>,
-  cribbage: CribbageBoard as ComponentType<BoardProps>,
+// Games the server can export, with the file format it produces
+const EXPORT_FORMATS: Partial<Record<GameType, string>> = {
+  chess: 'PGN',
+  go: 'SGF',
 };
 
+// Games whose finished moves can be listed and annotated
+const REVIEW_GAMES: GameType[] = ['chess'];
+
 export default function RoomPage({ params }: { params: Promise<{ roomCode: string }> }) {
   const { roomCode } = use(params);
   const router = useRouter();
   const searchParams = useSearchParams();
   const { socket, connected } = useSocket();
   const game = useGame({ socket });
+  const { getGame } = useGames();
+  const { account } = useAccount();
+  const { games: correspondenceGames } = useCorrespondence({ socket, account });
 
   const [nameInput, setNameInput] = useState(searchParams.get('name') || '');
   const [hasJoined, setHasJoined] = useState(() => {
@@ -66,7 +50,15 @@ export default function RoomPage({ params }: { params: Promise<{ roomCode: strin
   });
   const [nameError, setNameError] = useState('');
   const [roomError, setRoomError] = useState<string | null>(null);
+  // Seats are taken but the room can be watched
+  const [spectateOnly, setSpectateOnly] = useState(false);
+  const [canSpectate, setCanSpectate] = useState(false);
   const [chatCollapsed, setChatCollapsed] = useState(false);
+  // The game-over results put away to go through the move list; a new result shows again
+  const [reviewedResult, setReviewedResult] = useState<object | null>(null);
+  const reviewing = !!game.gameOver && reviewedResult === game.gameOver;
+  // The signed-in account already holds a place here (e.g. from another tab)
+  const [accountSeated, setAccountSeated] = useState(false);
   const [checking, setChecking] = useState(() => {
     // Skip REST check if we have a session for this room
     const savedRoom = sessionStorage.getItem('roomCode');
@@ -74,6 +66,12 @@ export default function RoomPage({ params }: { params: Promise<{ roomCode: strin
   });
 
   const code = roomCode.toUpperCase();
+  // Correspondence games elsewhere that are waiting on this player
+  const otherTurns = correspondenceGames.filter(g => g.yourTurn && g.roomCode !== code).length;
+
+  useEffect(() => {
+    if (account) setNameInput(name => name || account.username);
+  }, [account]);
 
   // Track previous connection state to detect reconnections
   const wasConnected = useRef(false);
@@ -81,7 +79,7 @@ export default function RoomPage({ params }: { params: Promise<{ roomCode: strin
   // Check if the room exists
   useEffect(() => {
     const serverUrl = process.env.NEXT_PUBLIC_SERVER_URL || 'http://localhost:3001';
-    fetch(`${serverUrl}/api/rooms/${code}`)
+    fetch(`${serverUrl}/api/rooms/${code}`, { headers: authHeaders() })
       .then(res => {
         if (!res.ok) {
           setRoomError('Room not found');
@@ -91,11 +89,17 @@ export default function RoomPage({ params }: { params: Promise<{ roomCode: strin
       .then(data => {
         if (data.error) {
           setRoomError(data.error);
-        } else if (data.isFull) {
+          return;
+        }
+        setCanSpectate(!!data.allowSpectators);
+        setAccountSeated(!!data.seated);
+        if (data.isFull && !data.seated) {
           const savedRoom = sessionStorage.getItem('roomCode');
           const savedToken = sessionStorage.getItem('sessionToken');
           if (savedRoom === code && savedToken) {
             // This might be a reconnection, let socket handle it
+          } else if (data.allowSpectators) {
+            setSpectateOnly(true);
           } else {
             setRoomError('Room is full');
           }
@@ -109,22 +113,23 @@ export default function RoomPage({ params }: { params: Promise<{ roomCode: strin
       });
   }, [code]);
 
-  // Auto-join if we have a session token for this room (reconnection)
+  // Auto-join if we have a session token for this room or our account is
+  // already in it (reconnection)
   useEffect(() => {
     if (!socket || !connected || hasJoined || checking) return;
 
     const savedRoom = sessionStorage.getItem('roomCode');
     const savedToken = sessionStorage.getItem('sessionToken');
 
-    if (savedRoom === code && savedToken) {
+    if ((savedRoom === code && savedToken) || accountSeated) {
       socket.emit('room:join', {
         roomCode: code,
         playerName: 'reconnecting',
-        sessionToken: savedToken,
+        sessionToken: savedRoom === code ? savedToken : undefined,
       });
       setHasJoined(true);
     }
-  }, [socket, connected, code, hasJoined, checking]);
+  }, [socket, connected, code, hasJoined, checking, accountSeated]);
 
   // Also try auto-join if name is provided in URL
   useEffect(() => {
@@ -132,11 +137,11 @@ export default function RoomPage({ params }: { params: Promise<{ roomCode: strin
 
     const urlName = searchParams.get('name');
     if (urlName && urlName.trim().length >= 3) {
-      game.joinRoom(code, urlName.trim());
+      game.joinRoom(code, urlName.trim(), spectateOnly);
       setHasJoined(true);
     }
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [socket, connected, code, hasJoined, checking, roomError, searchParams]);
+  }, [socket, connected, code, hasJoined, checking, roomError, spectateOnly, searchParams]);
 
   // Re-join room when socket reconnects (e.g. after server restart)
   useEffect(() => {
@@ -150,17 +155,17 @@ export default function RoomPage({ params }: { params: Promise<{ roomCode: strin
       // Socket reconnected after a disconnect — re-join the room
       const savedToken = sessionStorage.getItem('sessionToken');
       const savedRoom = sessionStorage.getItem('roomCode');
-      if (savedToken && savedRoom === code) {
+      if ((savedToken && savedRoom === code) || accountSeated) {
         socket.emit('room:join', {
           roomCode: code,
           playerName: 'reconnecting',
-          sessionToken: savedToken,
+          sessionToken: savedRoom === code ? savedToken : undefined,
         });
       }
     }
 
     wasConnected.current = connected;
-  }, [socket, connected, hasJoined, code]);
+  }, [socket, connected, hasJoined, code, accountSeated]);
 
   // Track when we successfully join
   useEffect(() => {
@@ -171,7 +176,7 @@ export default function RoomPage({ params }: { params: Promise<{ roomCode: strin
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [game.players, code]);
 
-  const handleJoin = useCallback(() => {
+  const handleJoin = useCallback((spectate: boolean) => {
     const trimmed = nameInput.trim();
     if (trimmed.length < 3 || trimmed.length > 20) {
       setNameError('Name must be 3-20 characters');
@@ -181,20 +186,21 @@ export default function RoomPage({ params }: { params: Promise<{ roomCode: strin
       setNameError('Only letters, numbers, and spaces');
       return;
     }
-    game.joinRoom(code, trimmed);
+    game.joinRoom(code, trimmed, spectate);
     setHasJoined(true);
   }, [nameInput, code, game]);
 
   const [showLeaveConfirm, setShowLeaveConfirm] = useState(false);
 
   const handleLeave = () => {
-    if (game.roomStatus === 'playing' && !showLeaveConfirm) {
+    if (game.roomStatus === 'playing' && !game.isSpectator && !showLeaveConfirm) {
       setShowLeaveConfirm(true);
       return;
     }
     sessionStorage.removeItem('sessionToken');
     sessionStorage.removeItem('roomCode');
     sessionStorage.removeItem('playerId');
+    sessionStorage.removeItem('role');
     sessionStorage.removeItem('players');
     sessionStorage.removeItem('roomStatus');
     sessionStorage.removeItem('gameState');
@@ -221,7 +227,7 @@ export default function RoomPage({ params }: { params: Promise<{ roomCode: strin
           <p className="text-wood-400 mb-6">
             {roomError === 'Room not found'
               ? 'This room does not exist or has expired.'
-              : 'This room already has two players.'}
+              : 'Every seat is taken and this room does not allow spectators.'}
           </p>
           <Button onClick={() => router.push('/')}>Back to Home</Button>
         </div>
@@ -244,9 +250,12 @@ export default function RoomPage({ params }: { params: Promise<{ roomCode: strin
     return (
       <div className="min-h-screen flex items-center justify-center p-6">
         <div className="max-w-sm w-full bg-wood-900/60 border border-wood-700 rounded-2xl p-8">
-          <h2 className="text-2xl font-bold text-cream-100 mb-2">Join Room</h2>
+          <h2 className="text-2xl font-bold text-cream-100 mb-2">
+            {spectateOnly ? 'Watch Room' : 'Join Room'}
+          </h2>
           <p className="text-wood-400 text-sm mb-6">
             Room code: <span className="font-mono font-bold text-cream-200">{code}</span>
+            {spectateOnly && <span className="block mt-1">Every seat is taken — you can watch as a spectator.</span>}
           </p>
 
           <div className="mb-6">
@@ -260,16 +269,27 @@ export default function RoomPage({ params }: { params: Promise<{ roomCode: strin
                 setNameError('');
               }}
               maxLength={20}
-              onKeyDown={e => e.key === 'Enter' && handleJoin()}
+              onKeyDown={e => e.key === 'Enter' && handleJoin(spectateOnly)}
             />
             {nameError && <p className="text-red-400 text-sm mt-1">{nameError}</p>}
             {game.error && <p className="text-red-400 text-sm mt-1">{game.error}</p>}
           </div>
 
           <div className="flex gap-3">
-            <Button onClick={handleJoin} disabled={!nameInput.trim()}>
-              Join Game
-            </Button>
+            {!spectateOnly && (
+              <Button onClick={() => handleJoin(false)} disabled={!nameInput.trim()}>
+                Join Game
+              </Button>
+            )}
+            {canSpectate && (
+              <Button
+                variant={spectateOnly ? 'primary' : 'secondary'}
+                onClick={() => handleJoin(true)}
+                disabled={!nameInput.trim()}
+              >
+                Watch
+              </Button>
+            )}
             <Button variant="ghost" onClick={() => router.push('/')}>
               Back
             </Button>
@@ -283,8 +303,9 @@ export default function RoomPage({ params }: { params: Promise<{ roomCode: strin
   const creatorId = game.creatorId || game.players[0]?.id || '';
 
   // Determine opponent connection status
-  const opponent = game.players.find(p => p.id !== game.playerId);
-  const opponentDisconnected = opponent && !opponent.connected;
+  const disconnectedOpponent = game.isSpectator
+    ? undefined
+    : game.players.find(p => p.id !== game.playerId && !p.connected);
 
   return (
     <div className="min-h-screen flex flex-col">
@@ -299,9 +320,46 @@ export default function RoomPage({ params }: { params: Promise<{ roomCode: strin
           </button>
           <span className="text-wood-500 text-sm">|</span>
           <span className="font-mono text-wood-300 text-sm tracking-wider">{code}</span>
+          {game.roomStatus !== 'waiting' && game.players.length > 0 && (
+            <span className="hidden sm:inline text-cream-200 text-sm">
+              {game.players.map(p => (p.rating != null ? `${p.name} (${p.rating})` : p.name)).join(' vs ')}
+            </span>
+          )}
+          {game.rated && (
+            <span className="text-xs bg-yellow-900/60 text-yellow-300 px-2 py-0.5 rounded-full">Rated</span>
+          )}
+          {game.match && (
+            <span className="text-xs bg-wood-800 text-cream-200 px-2 py-0.5 rounded-full">
+              {matchFormatLabel(game.match)} · {describeMatchScore(game.match, game.players)}
+            </span>
+          )}
         </div>
         <div className="flex items-center gap-4">
+          {otherTurns > 0 && (
+            <button
+              onClick={() => router.push('/')}
+              className="text-xs bg-yellow-500 text-wood-950 px-2 py-0.5 rounded-full hover:bg-yellow-400 transition-colors"
+            >
+              Your turn in {otherTurns} other game{otherTurns === 1 ? '' : 's'}
+            </button>
+          )}
           <ConnectionStatus connected={connected} />
+          {game.spectators.length > 0 && (
+            <span className="text-wood-400 text-sm">{game.spectators.filter(s => s.connected).length} watching</span>
+          )}
+          {game.isSpectator && (
+            <span className="text-xs bg-wood-700 text-cream-200 px-2 py-0.5 rounded-full">Spectating</span>
+          )}
+          {game.roomStatus === 'playing' && !game.isSpectator && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={game.requestTakeback}
+              disabled={!!game.takebackRequest}
+            >
+              {game.takebackRequest?.playerId === game.playerId ? 'Takeback requested...' : 'Takeback'}
+            </Button>
+          )}
           <Button variant="ghost" size="sm" onClick={handleLeave}>
             Leave
           </Button>
@@ -316,9 +374,9 @@ export default function RoomPage({ params }: { params: Promise<{ roomCode: strin
       )}
 
       {/* Disconnection banner */}
-      {opponentDisconnected && game.roomStatus === 'playing' && (
+      {disconnectedOpponent && game.roomStatus === 'playing' && (
         <div className="bg-yellow-900/50 border-b border-yellow-700 px-4 py-2 text-center text-yellow-200 text-sm">
-          {opponent.name} disconnected — waiting for reconnection (forfeit in 60s)...
+          {disconnectedOpponent.name} disconnected — waiting for reconnection (forfeit in 60s)...
         </div>
       )}
 
@@ -329,10 +387,16 @@ export default function RoomPage({ params }: { params: Promise<{ roomCode: strin
             <GameLobby
               roomCode={code}
               players={game.players}
+              spectators={game.spectators}
+              allowSpectators={game.allowSpectators}
+              rated={game.rated}
               playerId={game.playerId || ''}
               creatorId={creatorId}
               gameType={game.gameType}
               onStart={game.startGame}
+              onToggleSpectators={game.setSpectatorsAllowed}
+              onAddBot={game.addBot}
+              onRemoveBot={game.removeBot}
             />
           </div>
         )}
@@ -344,7 +408,7 @@ export default function RoomPage({ params }: { params: Promise<{ roomCode: strin
                 <GameIcon gameId={game.gameType || 'checkers'} />
               </div>
               <p className="text-cream-200 text-lg font-medium">
-                Switching to {GAMES.find(g => g.id === game.gameType)?.name || 'new game'}...
+                Switching to {getGame(game.gameType)?.name || 'new game'}...
               </p>
             </div>
           </div>
@@ -353,29 +417,67 @@ export default function RoomPage({ params }: { params: Promise<{ roomCode: strin
         {(game.roomStatus === 'playing' || game.roomStatus === 'finished') && !game.switchingGame && !!game.gameState && (
           <div className="flex flex-col lg:flex-row gap-4 max-w-7xl mx-auto">
             {/* Game Board */}
-            <div className="flex-1 flex items-start justify-center">
+            <div className="flex-1 flex flex-col items-center">
+              {(() => {
+                const clock = (game.gameState as { clock?: ClockView }).clock;
+                if (!clock) return null;
+                return <GameClock clock={clock} players={game.players} playerId={game.playerId || ''} />;
+              })()}
               <ErrorBoundary key={game.gameType}>
                 {(() => {
                   const gameType = game.gameType || 'checkers';
                   const BoardComponent = BOARD_COMPONENTS[gameType as GameType];
                   if (!BoardComponent) return null;
+                  if (game.isSpectator) {
+                    // Read-only: spectators get the board without any way to act on it
+                    return (
+                      <div className="pointer-events-none select-none">
+                        <BoardComponent
+                          gameState={game.gameState}
+                          playerId={game.playerId || ''}
+                          onMove={() => {}}
+                          onQuit={handleLeave}
+                        />
+                      </div>
+                    );
+                  }
                   return (
                     <BoardComponent
                       gameState={game.gameState}
                       playerId={game.playerId || ''}
                       onMove={game.makeMove}
                       onQuit={handleLeave}
+                      onResign={game.roomStatus === 'playing' ? game.resign : undefined}
+                      onOfferDraw={
+                        game.roomStatus === 'playing' && !game.drawOffer ? game.offerDraw : undefined
+                      }
+                      onClaimDraw={game.roomStatus === 'playing' ? game.claimDraw : undefined}
                     />
                   );
                 })()}
               </ErrorBoundary>
+              {EXPORT_FORMATS[game.gameType as GameType] && (
+                <button
+                  onClick={game.exportGame}
+                  className="mt-3 text-sm text-wood-400 hover:text-cream-100 underline transition-colors"
+                >
+                  Download {EXPORT_FORMATS[game.gameType as GameType]}
+                </button>
+              )}
             </div>
 
-            {/* Chat */}
+            {/* Move list, in review, above the chat */}
             <div className="lg:w-80 shrink-0">
+              {reviewing && (
+                <MoveList
+                  moves={game.moveList}
+                  onAnnotate={game.isSpectator ? undefined : game.annotateMove}
+                  onClose={() => setReviewedResult(null)}
+                />
+              )}
               <Chat
                 messages={game.chatMessages}
-                onSend={game.sendMessage}
+                onSend={game.isSpectator ? undefined : game.sendMessage}
                 isCollapsed={chatCollapsed}
                 onToggle={() => setChatCollapsed(!chatCollapsed)}
               />
@@ -390,7 +492,7 @@ export default function RoomPage({ params }: { params: Promise<{ roomCode: strin
           <div className="text-center">
             <h2 className="text-xl font-bold text-cream-100 mb-3">Leave Game?</h2>
             <p className="text-cream-200 text-sm mb-6">
-              This will end the game for both players. Are you sure you want to leave?
+              This will end the game for everyone. Are you sure you want to leave?
             </p>
             <div className="flex gap-3 justify-center">
               <Button
@@ -410,18 +512,77 @@ export default function RoomPage({ params }: { params: Promise<{ roomCode: strin
         </Modal>
       )}
 
+      {/* Takeback Request Modal (opponent asked to undo) */}
+      {game.takebackRequest && game.takebackRequest.playerId !== game.playerId && !game.isSpectator && !game.gameOver && (
+        <Modal open={true}>
+          <div className="text-center">
+            <h2 className="text-xl font-bold text-cream-100 mb-3">Takeback Requested</h2>
+            <p className="text-cream-200 text-sm mb-6">
+              {game.takebackRequest.playerName} wants to take back their last move. Allow it?
+            </p>
+            <div className="flex gap-3 justify-center">
+              <Button variant="primary" onClick={() => game.respondTakeback(true)}>
+                Accept
+              </Button>
+              <Button variant="secondary" onClick={() => game.respondTakeback(false)}>
+                Decline
+              </Button>
+            </div>
+          </div>
+        </Modal>
+      )}
+
+      {/* Draw Offer Modal */}
+      {game.drawOffer && game.drawOffer.playerId !== game.playerId && !game.isSpectator && !game.gameOver && (
+        <Modal open={true}>
+          <div className="text-center">
+            <h2 className="text-xl font-bold text-cream-100 mb-3">Draw Offered</h2>
+            <p className="text-cream-200 text-sm mb-6">
+              {game.drawOffer.playerName} offers a draw. Accept and end the game?
+            </p>
+            <div className="flex gap-3 justify-center">
+              <Button variant="primary" onClick={() => game.respondDraw(true)}>
+                Accept Draw
+              </Button>
+              <Button variant="secondary" onClick={() => game.respondDraw(false)}>
+                Decline
+              </Button>
+            </div>
+          </div>
+        </Modal>
+      )}
+
       {/* Game Over Modal */}
-      {game.gameOver && (
+      {game.gameOver && !reviewing && (
         <GameOverModal
           open={true}
           winnerName={game.gameOver.winnerName}
           reason={game.gameOver.reason}
           isWinner={game.gameOver.winner === game.playerId}
+          isDraw={game.gameOver.winner === ''}
+          isSpectator={game.isSpectator}
           onPlayAgain={game.restartGame}
           onLeave={handleLeave}
-          onSwitchGame={game.switchGame}
+          // A match keeps its game (or the decathlon picks the next one) until it is over
+          onSwitchGame={
+            game.match && (!game.match.finished || game.match.format.type === 'decathlon') ? undefined : game.switchGame
+          }
           currentGameType={game.gameType || undefined}
           isCreator={game.playerId === creatorId}
+          exportFormat={EXPORT_FORMATS[game.gameType as GameType]}
+          onExport={game.exportGame}
+          onReview={
+            REVIEW_GAMES.includes(game.gameType as GameType)
+              ? () => {
+                  setReviewedResult(game.gameOver);
+                  game.requestMoveList();
+                }
+              : undefined
+          }
+          replayId={game.gameOver.replayId}
+          ratingChange={game.playerId ? game.gameOver.ratings?.[game.playerId] : undefined}
+          matchResult={game.match ? describeMatchResult(game.match, game.players) : undefined}
+          matchInProgress={game.match ? !game.match.finished : false}
         />
       )}
     </div>
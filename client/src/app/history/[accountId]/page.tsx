@@ -0,0 +1,197 @@
+'use client';
+
+import { useEffect, useState, use } from 'react';
+import { useRouter } from 'next/navigation';
+import { Button } from '@/components/ui/Button';
+import { GameIcon } from '@/components/ui/GameIcons';
+import { useGames } from '@/hooks/useGames';
+import { fetchAccount } from '@/lib/accounts';
+import { fetchGameHistory, fetchHeadToHead } from '@/lib/history';
+import { AccountInfo, ArchivedGameSummary, GameType, HeadToHead } from '@/lib/types';
+
+type Outcome = 'Win' | 'Loss' | 'Draw';
+
+const OUTCOME_CLASSES: Record<Outcome, string> = {
+  Win: 'bg-green-900/60 text-green-300',
+  Loss: 'bg-red-900/60 text-red-300',
+  Draw: 'bg-wood-700 text-cream-200',
+};
+
+function outcomeFor(game: ArchivedGameSummary, accountId: string): Outcome {
+  if (game.winner === null) return 'Draw';
+  const me = game.players.find(p => p.accountId === accountId);
+  return me?.id === game.winner ? 'Win' : 'Loss';
+}
+
+function formatDuration(ms: number): string {
+  const minutes = Math.round(ms / 60_000);
+  if (minutes < 1) return 'under a minute';
+  if (minutes < 60) return `${minutes} min`;
+  const hours = Math.floor(minutes / 60);
+  return hours < 48 ? `${hours}h ${minutes % 60}m` : `${Math.floor(hours / 24)} days`;
+}
+
+const selectClass =
+  'px-3 py-1.5 rounded-lg bg-wood-900 border border-wood-700 text-cream-100 text-sm focus:outline-none focus:ring-2 focus:ring-wood-400';
+
+export default function HistoryPage({ params }: { params: Promise<{ accountId: string }> }) {
+  const { accountId } = use(params);
+  const router = useRouter();
+  const { games: catalogue, getGame } = useGames();
+  const [account, setAccount] = useState<AccountInfo | null>(null);
+  const [games, setGames] = useState<ArchivedGameSummary[] | null>(null);
+  const [filter, setFilter] = useState<string>('all');
+  const [opponent, setOpponent] = useState<{ id: string; name: string } | null>(null);
+  const [record, setRecord] = useState<HeadToHead | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const gameType = filter === 'all' ? undefined : (filter as GameType);
+
+  useEffect(() => {
+    fetchAccount(accountId)
+      .then(setAccount)
+      .catch((err: Error) => setError(err.message));
+  }, [accountId]);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchGameHistory(accountId, gameType)
+      .then(list => {
+        if (!cancelled) setGames(list);
+      })
+      .catch((err: Error) => {
+        if (!cancelled) setError(err.message);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [accountId, gameType]);
+
+  useEffect(() => {
+    if (!opponent) {
+      setRecord(null);
+      return;
+    }
+    let cancelled = false;
+    fetchHeadToHead(accountId, opponent.id, gameType)
+      .then(data => {
+        if (!cancelled) setRecord(data);
+      })
+      .catch(() => {});
+    return () => {
+      cancelled = true;
+    };
+  }, [accountId, opponent, gameType]);
+
+  if (error) {
+    return (
+      <div className="min-h-screen flex items-center justify-center p-4">
+        <div className="text-center">
+          <p className="text-cream-100 text-lg mb-4">{error}</p>
+          <Button variant="ghost" onClick={() => router.push('/')}>
+            Back
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen flex flex-col">
+      {/* Top bar */}
+      <header className="flex items-center justify-between px-4 py-3 border-b border-wood-800 bg-wood-950/50">
+        <div className="flex items-center gap-4">
+          <button
+            onClick={() => router.push('/')}
+            className="text-cream-100 font-bold text-lg hover:text-wood-300 transition-colors"
+          >
+            YT
+          </button>
+          <span className="text-wood-500 text-sm">|</span>
+          <span className="text-wood-300 text-sm">Game History</span>
+        </div>
+      </header>
+
+      <main className="flex-1 p-4 w-full max-w-2xl mx-auto space-y-4">
+        <div className="flex items-center justify-between gap-4">
+          <h1 className="text-2xl font-bold text-cream-100">{account ? `${account.username}'s games` : 'Games'}</h1>
+          <select value={filter} onChange={e => setFilter(e.target.value)} aria-label="Filter by game" className={selectClass}>
+            <option value="all">All games</option>
+            {catalogue.map(g => (
+              <option key={g.id} value={g.id}>
+                {g.name}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        {/* Head-to-head against the opponent picked from the list */}
+        {opponent && (
+          <div className="flex items-center gap-3 bg-wood-900/60 border border-wood-700 rounded-xl p-4">
+            <p className="flex-1 text-cream-200 text-sm">
+              Against <span className="text-cream-100 font-medium">{opponent.name}</span>
+              {gameType && ` in ${getGame(gameType)?.name ?? gameType}`}:{' '}
+              {record
+                ? `${record.wins} won · ${record.losses} lost · ${record.draws} drawn (${record.games} games)`
+                : '...'}
+            </p>
+            <Button variant="ghost" size="sm" onClick={() => setOpponent(null)}>
+              Close
+            </Button>
+          </div>
+        )}
+
+        {games === null ? (
+          <p className="text-wood-400">Loading games...</p>
+        ) : games.length === 0 ? (
+          <p className="text-wood-400 text-sm italic">No finished games yet.</p>
+        ) : (
+          <div className="space-y-2">
+            {games.map(game => {
+              const outcome = outcomeFor(game, accountId);
+              const opponents = game.players.filter(p => p.accountId !== accountId);
+              return (
+                <div key={game.id} className="flex items-center gap-3 bg-wood-800/50 rounded-lg p-3">
+                  <div className="shrink-0 [&_svg]:w-8 [&_svg]:h-8">
+                    <GameIcon gameId={game.gameType} />
+                  </div>
+                  <div className="flex-1 min-w-0">
+                    <p className="text-cream-100 font-medium truncate">
+                      {getGame(game.gameType)?.name ?? game.gameType} vs{' '}
+                      {opponents.map((p, i) => (
+                        <span key={p.id}>
+                          {i > 0 && ', '}
+                          {p.accountId ? (
+                            <button
+                              onClick={() => setOpponent({ id: p.accountId!, name: p.name })}
+                              className="underline decoration-wood-500 hover:text-yellow-400"
+                            >
+                              {p.name}
+                            </button>
+                          ) : (
+                            p.name
+                          )}
+                        </span>
+                      ))}
+                    </p>
+                    <p className="text-wood-400 text-xs">
+                      {game.reason} · {game.moveCount} moves · {formatDuration(game.durationMs)} ·{' '}
+                      {new Date(game.finishedAt).toLocaleDateString()}
+                      {game.rated && ' · Rated'}
+                    </p>
+                  </div>
+                  <span className={`text-xs px-2 py-0.5 rounded-full ${OUTCOME_CLASSES[outcome]}`}>{outcome}</span>
+                  {game.replayId && (
+                    <Button variant="secondary" size="sm" onClick={() => router.push(`/replay/${game.replayId}`)}>
+                      Replay
+                    </Button>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -1,27 +1,54 @@
 'use client';
 
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { useRouter } from 'next/navigation';
 import { Button } from '@/components/ui/Button';
 import { Input } from '@/components/ui/Input';
 import { useSocket } from '@/hooks/useSocket';
 import { useGame } from '@/hooks/useGame';
+import { useGames } from '@/hooks/useGames';
+import { useLobby } from '@/hooks/useLobby';
+import { useAccount } from '@/hooks/useAccount';
+import { useCorrespondence } from '@/hooks/useCorrespondence';
+import { AccountPanel } from '@/components/account/AccountPanel';
 import { GameIcon } from '@/components/ui/GameIcons';
-import { GAMES } from '@/lib/games';
+import { GameOptionsForm } from '@/components/game/GameOptionsForm';
+import { TimeControlForm } from '@/components/game/TimeControlForm';
+import { MatchFormatForm } from '@/components/game/MatchFormatForm';
+import { LobbyBrowser } from '@/components/lobby/LobbyBrowser';
+import { CorrespondenceGames } from '@/components/correspondence/CorrespondenceGames';
+import { defaultOptions } from '@/lib/games';
+import { GameOptions, GameType, MatchFormat, TimeControl } from '@/lib/types';
 
-type View = 'home' | 'create' | 'join';
+type View = 'home' | 'create' | 'join' | 'browse';
 
 export default function Home() {
   const router = useRouter();
   const { socket } = useSocket();
   const { createRoom, joinRoom, roomCode, players, error } = useGame({ socket });
+  const { games, getGame, error: gamesError } = useGames();
+  const lobby = useLobby({ socket });
+  const { account, error: accountError, signIn, signUp, signOut } = useAccount();
+  const correspondence = useCorrespondence({ socket, account });
 
   const [view, setView] = useState<View>('home');
   const [playerName, setPlayerName] = useState('');
   const [joinCode, setJoinCode] = useState('');
   const [selectedGame, setSelectedGame] = useState('checkers');
+  const [gameOptions, setGameOptions] = useState<GameOptions>({});
+  const [timeControl, setTimeControl] = useState<TimeControl | null>(null);
+  const [allowSpectators, setAllowSpectators] = useState(true);
+  const [isPublic, setIsPublic] = useState(false);
+  const [rated, setRated] = useState(false);
+  const [matchFormat, setMatchFormat] = useState<MatchFormat | null>(null);
+  const [seed, setSeed] = useState('');
   const [nameError, setNameError] = useState('');
 
+  // Signed-in players start with their username as the display name
+  useEffect(() => {
+    if (account) setPlayerName(name => name || account.username);
+  }, [account]);
+
   const validateName = (name: string): boolean => {
     const trimmed = name.trim();
     if (trimmed.length < 3 || trimmed.length > 20) {
@@ -38,7 +65,18 @@ export default function Home() {
 
   const handleCreate = () => {
     if (!validateName(playerName)) return;
-    createRoom(playerName.trim(), selectedGame);
+    const ratedGame = rated && !!account;
+    createRoom(
+      playerName.trim(),
+      selectedGame,
+      gameOptions,
+      timeControl,
+      allowSpectators,
+      isPublic,
+      ratedGame,
+      matchFormat,
+      ratedGame || seed.trim() === '' ? null : Number(seed),
+    );
   };
 
   const handleJoin = () => {
@@ -50,11 +88,37 @@ export default function Home() {
     router.push(`/${joinCode.trim().toUpperCase()}?name=${encodeURIComponent(playerName.trim())}`);
   };
 
-  // Redirect once the room is fully created and joined
+  const handleJoinPublic = (code: string) => {
+    if (!validateName(playerName)) return;
+    router.push(`/${code}?name=${encodeURIComponent(playerName.trim())}`);
+  };
+
+  const handleQuickMatch = (gameType: GameType) => {
+    if (!validateName(playerName)) return;
+    lobby.joinQueue(playerName.trim(), gameType);
+  };
+
+  const leaveBrowse = () => {
+    lobby.leaveQueue();
+    setView('home');
+  };
+
+  const selectGame = (id: string) => {
+    const game = getGame(id);
+    setSelectedGame(id);
+    setGameOptions(game ? defaultOptions(game) : {});
+    setMatchFormat(null);
+  };
+
+  // Redirect once the room is fully created and joined, or a quick match is found
   if (roomCode && players.length > 0) {
     router.push(`/${roomCode}`);
     return null;
   }
+  if (lobby.matchedRoom) {
+    router.push(`/${lobby.matchedRoom}`);
+    return null;
+  }
 
   return (
     <div className="min-h-screen flex flex-col items-center py-12 px-6">
@@ -77,19 +141,16 @@ export default function Home() {
                 Choose a Game
               </h2>
               <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-3 gap-4 max-w-3xl mx-auto">
-                {GAMES.map(game => (
+                {games.map(game => (
                   <button
                     key={game.id}
-                    onClick={() => game.available && setSelectedGame(game.id)}
-                    disabled={!game.available}
+                    onClick={() => selectGame(game.id)}
                     className={`
-                      relative rounded-xl border p-5 text-center transition-all
+                      relative rounded-xl border p-5 text-center transition-all cursor-pointer
                       ${
-                        !game.available
-                          ? 'bg-wood-900/30 border-wood-800 opacity-50 cursor-default'
-                          : selectedGame === game.id
-                            ? 'bg-wood-700/60 border-yellow-500 ring-2 ring-yellow-500/40 cursor-pointer'
-                            : 'bg-wood-800/40 border-wood-600 hover:border-wood-400 hover:bg-wood-800/60 cursor-pointer'
+                        selectedGame === game.id
+                          ? 'bg-wood-700/60 border-yellow-500 ring-2 ring-yellow-500/40'
+                          : 'bg-wood-800/40 border-wood-600 hover:border-wood-400 hover:bg-wood-800/60'
                       }
                     `}
                   >
@@ -98,24 +159,47 @@ export default function Home() {
                     </div>
                     <h3 className="text-cream-100 font-medium mb-1">{game.name}</h3>
                     <p className="text-wood-400 text-xs">{game.description}</p>
-                    {!game.available && (
-                      <span className="absolute top-2 right-2 text-xs bg-wood-700 text-wood-400 px-2 py-0.5 rounded-full">
-                        Soon
-                      </span>
-                    )}
                   </button>
                 ))}
               </div>
+              {gamesError && <p className="text-red-400 text-sm mt-4 text-center">{gamesError}</p>}
             </div>
 
             {/* Action Buttons */}
-            <div className="flex gap-4 justify-center">
+            <div className="flex flex-wrap gap-4 justify-center">
               <Button size="lg" onClick={() => setView('create')}>
                 Create Room
               </Button>
               <Button size="lg" variant="secondary" onClick={() => setView('join')}>
                 Join Room
               </Button>
+              <Button size="lg" variant="secondary" onClick={() => setView('browse')}>
+                Find Players
+              </Button>
+              <Button size="lg" variant="secondary" onClick={() => router.push('/tournaments')}>
+                Tournaments
+              </Button>
+            </div>
+
+            {correspondence.games.length > 0 && (
+              <div className="mt-8">
+                <CorrespondenceGames
+                  games={correspondence.games}
+                  catalogue={games}
+                  onOpenRoom={code => router.push(`/${code}`)}
+                />
+              </div>
+            )}
+
+            <div className="mt-8">
+              <AccountPanel
+                account={account}
+                error={accountError}
+                onSignIn={signIn}
+                onSignUp={signUp}
+                onSignOut={signOut}
+                onShowHistory={() => account && router.push(`/history/${account.id}`)}
+              />
             </div>
           </>
         )}
@@ -124,9 +208,72 @@ export default function Home() {
           <div className="max-w-sm mx-auto bg-wood-900/60 border border-wood-700 rounded-2xl p-8">
             <h2 className="text-2xl font-bold text-cream-100 mb-2">Create a Room</h2>
             <p className="text-wood-400 text-sm mb-6">
-              Playing: <span className="text-cream-200 font-medium">{GAMES.find(g => g.id === selectedGame)?.name}</span>
+              Playing: <span className="text-cream-200 font-medium">{getGame(selectedGame)?.name}</span>
             </p>
 
+            <GameOptionsForm
+              schema={getGame(selectedGame)?.options ?? []}
+              values={gameOptions}
+              onChange={setGameOptions}
+            />
+
+            <TimeControlForm onChange={setTimeControl} />
+
+            <MatchFormatForm
+              key={selectedGame}
+              gameType={selectedGame as GameType}
+              games={games}
+              onChange={setMatchFormat}
+            />
+
+            <label className="flex items-center gap-2 mb-6 text-sm text-cream-200 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={allowSpectators}
+                onChange={e => setAllowSpectators(e.target.checked)}
+                className="accent-wood-400"
+              />
+              Allow spectators
+            </label>
+
+            <label className="flex items-center gap-2 mb-6 text-sm text-cream-200 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={isPublic}
+                onChange={e => setIsPublic(e.target.checked)}
+                className="accent-wood-400"
+              />
+              List in the public lobby
+            </label>
+
+            {/* Rated games need every player signed in, so only accounts can offer them */}
+            {account && (
+              <label className="flex items-center gap-2 mb-6 text-sm text-cream-200 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={rated}
+                  onChange={e => setRated(e.target.checked)}
+                  className="accent-wood-400"
+                />
+                Rated game
+              </label>
+            )}
+
+            {/* The same seed deals the same seats, dice and cards; rated games are always random */}
+            {!(rated && account) && (
+              <div className="mb-6">
+                <Input
+                  id="create-seed"
+                  type="number"
+                  label="Seed (optional)"
+                  placeholder="Random"
+                  min={0}
+                  value={seed}
+                  onChange={e => setSeed(e.target.value)}
+                />
+              </div>
+            )}
+
             {/* Name Input */}
             <div className="mb-6">
               <Input
@@ -199,6 +346,43 @@ export default function Home() {
             </div>
           </div>
         )}
+
+        {view === 'browse' && (
+          <div className="max-w-2xl mx-auto">
+            <div className="mb-6">
+              <Input
+                id="browse-name"
+                label="Your Display Name"
+                placeholder="Enter your name"
+                value={playerName}
+                onChange={e => {
+                  setPlayerName(e.target.value);
+                  setNameError('');
+                }}
+                maxLength={20}
+              />
+              {nameError && <p className="text-red-400 text-sm mt-1">{nameError}</p>}
+            </div>
+
+            {error && <p className="text-red-400 text-sm mb-4">{error}</p>}
+
+            <LobbyBrowser
+              games={games}
+              rooms={lobby.rooms}
+              queuedFor={lobby.queuedFor}
+              initialGame={selectedGame}
+              onQuickMatch={handleQuickMatch}
+              onCancelMatch={lobby.leaveQueue}
+              onJoinRoom={handleJoinPublic}
+            />
+
+            <div className="flex justify-center mt-6">
+              <Button variant="ghost" onClick={leaveBrowse}>
+                Back
+              </Button>
+            </div>
+          </div>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,141 @@
+'use client';
+
+import { useCallback, useEffect, useState, use } from 'react';
+import { useRouter } from 'next/navigation';
+import { BOARD_COMPONENTS } from '@/components/game/boardComponents';
+import { ReplayControls } from '@/components/game/ReplayControls';
+import { ErrorBoundary } from '@/components/ui/ErrorBoundary';
+import { Button } from '@/components/ui/Button';
+import { GameIcon } from '@/components/ui/GameIcons';
+import { useGames } from '@/hooks/useGames';
+import { fetchReplay } from '@/lib/replays';
+import { Replay } from '@/lib/types';
+
+export default function ReplayPage({ params }: { params: Promise<{ replayId: string }> }) {
+  const { replayId } = use(params);
+  const router = useRouter();
+  const { getGame } = useGames();
+  const [replay, setReplay] = useState<Replay | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [step, setStep] = useState(0);
+  const [copied, setCopied] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchReplay(replayId)
+      .then(data => {
+        if (cancelled) return;
+        setReplay(data);
+        setStep(data.steps.length - 1); // open on the final position
+      })
+      .catch((err: Error) => {
+        if (!cancelled) setError(err.message);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [replayId]);
+
+  const handleStep = useCallback(
+    (next: number) => {
+      if (!replay) return;
+      setStep(Math.max(0, Math.min(next, replay.steps.length - 1)));
+    },
+    [replay],
+  );
+
+  const copyLink = () => {
+    navigator.clipboard?.writeText(window.location.href);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  if (error) {
+    return (
+      <div className="min-h-screen flex items-center justify-center p-4">
+        <div className="text-center">
+          <p className="text-cream-100 text-lg mb-4">{error}</p>
+          <Button variant="ghost" onClick={() => router.push('/')}>
+            Back
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  if (!replay) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <p className="text-wood-400">Loading replay...</p>
+      </div>
+    );
+  }
+
+  const BoardComponent = BOARD_COMPONENTS[replay.gameType];
+  const current = replay.steps[step];
+  const lastStep = replay.steps.length - 1;
+  const nameOf = (id: string) => replay.players.find(p => p.id === id)?.name ?? 'Unknown';
+
+  return (
+    <div className="min-h-screen flex flex-col">
+      {/* Top bar */}
+      <header className="flex items-center justify-between px-4 py-3 border-b border-wood-800 bg-wood-950/50">
+        <div className="flex items-center gap-4">
+          <button
+            onClick={() => router.push('/')}
+            className="text-cream-100 font-bold text-lg hover:text-wood-300 transition-colors"
+          >
+            YT
+          </button>
+          <span className="text-wood-500 text-sm">|</span>
+          <span className="text-wood-300 text-sm">Replay</span>
+        </div>
+        <Button variant="ghost" size="sm" onClick={copyLink}>
+          {copied ? 'Link copied!' : 'Copy Link'}
+        </Button>
+      </header>
+
+      <main className="flex-1 p-4 flex flex-col items-center gap-4">
+        <div className="flex items-center gap-3">
+          <div className="[&_svg]:w-8 [&_svg]:h-8">
+            <GameIcon gameId={replay.gameType} />
+          </div>
+          <div>
+            <h1 className="text-cream-100 font-semibold">
+              {getGame(replay.gameType)?.name ?? replay.gameType}: {replay.players.map(p => p.name).join(' vs ')}
+            </h1>
+            <p className="text-wood-400 text-sm">
+              {replay.winner ? `${nameOf(replay.winner)} won` : 'Draw'} — {replay.reason}
+            </p>
+            {replay.seed !== null && (
+              <p className="text-wood-500 text-xs" title="Create a room with this seed to deal the same game again">
+                Seed {replay.seed}
+              </p>
+            )}
+          </div>
+        </div>
+
+        <p className="text-cream-200 text-sm">
+          {current.move ? `Move ${step} of ${lastStep} · ${nameOf(current.move.playerId)}` : 'Starting position'}
+          {current.move?.annotation?.glyph && (
+            <span className="ml-1 font-bold text-amber-400">{current.move.annotation.glyph}</span>
+          )}
+        </p>
+        {current.move?.annotation?.comment && (
+          <p className="text-wood-300 text-xs italic max-w-md text-center break-words">
+            {current.move.annotation.comment}
+          </p>
+        )}
+
+        <ReplayControls step={step} lastStep={lastStep} onStep={handleStep} />
+
+        {/* Read-only: the board is only ever shown, never played on */}
+        <ErrorBoundary key={replay.gameType}>
+          <div className="pointer-events-none select-none">
+            <BoardComponent gameState={current.state} playerId="" onMove={() => {}} onQuit={() => {}} />
+          </div>
+        </ErrorBoundary>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,192 @@
+'use client';
+
+import { useState, use } from 'react';
+import { useRouter } from 'next/navigation';
+import { Button } from '@/components/ui/Button';
+import { GameIcon } from '@/components/ui/GameIcons';
+import { PairingCard } from '@/components/tournament/PairingCard';
+import { StandingsTable } from '@/components/tournament/StandingsTable';
+import { TournamentBracket } from '@/components/tournament/TournamentBracket';
+import { useAccount } from '@/hooks/useAccount';
+import { useGames } from '@/hooks/useGames';
+import { useSocket } from '@/hooks/useSocket';
+import { useTournament } from '@/hooks/useTournament';
+import { FORMAT_LABELS, updateTournament } from '@/lib/tournaments';
+
+export default function TournamentPage({ params }: { params: Promise<{ tournamentId: string }> }) {
+  const { tournamentId } = use(params);
+  const router = useRouter();
+  const { socket } = useSocket();
+  const { account } = useAccount();
+  const { getGame } = useGames();
+  const { view, setView, error } = useTournament({ socket, tournamentId });
+  const [actionError, setActionError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  if (error) {
+    return (
+      <div className="min-h-screen flex items-center justify-center p-4">
+        <div className="text-center">
+          <p className="text-cream-100 text-lg mb-4">{error}</p>
+          <Button variant="ghost" onClick={() => router.push('/tournaments')}>
+            Back
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  if (!view) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <p className="text-wood-400">Loading tournament...</p>
+      </div>
+    );
+  }
+
+  const { tournament, standings } = view;
+  const accountId = account?.id ?? null;
+  const registered = tournament.participants.some(p => p.accountId === accountId);
+  const isOrganizer = accountId === tournament.organizerId;
+  const nameOf = (id: string) => tournament.participants.find(p => p.accountId === id)?.name ?? 'Unknown';
+  const openRoom = (roomCode: string) => router.push(`/${roomCode}`);
+
+  const act = (action: 'join' | 'leave' | 'start') => {
+    setBusy(true);
+    setActionError(null);
+    updateTournament(tournament.id, action)
+      .then(setView)
+      .catch((err: Error) => setActionError(err.message))
+      .finally(() => setBusy(false));
+  };
+
+  const status =
+    tournament.status === 'registering'
+      ? `Registration open · ${tournament.participants.length}/${tournament.size} players`
+      : tournament.status === 'running'
+        ? `Round ${tournament.rounds.length} of ${tournament.totalRounds}`
+        : `Finished · ${tournament.winner ? `${nameOf(tournament.winner)} wins` : 'no winner'}`;
+
+  return (
+    <div className="min-h-screen flex flex-col">
+      {/* Top bar */}
+      <header className="flex items-center justify-between px-4 py-3 border-b border-wood-800 bg-wood-950/50">
+        <div className="flex items-center gap-4">
+          <button
+            onClick={() => router.push('/')}
+            className="text-cream-100 font-bold text-lg hover:text-wood-300 transition-colors"
+          >
+            YT
+          </button>
+          <span className="text-wood-500 text-sm">|</span>
+          <button
+            onClick={() => router.push('/tournaments')}
+            className="text-wood-300 text-sm hover:text-cream-100 transition-colors"
+          >
+            Tournaments
+          </button>
+        </div>
+      </header>
+
+      <main className="flex-1 p-4 w-full max-w-4xl mx-auto space-y-6">
+        <div className="flex items-center gap-4">
+          <div className="shrink-0 [&_svg]:w-10 [&_svg]:h-10">
+            <GameIcon gameId={tournament.gameType} />
+          </div>
+          <div className="flex-1 min-w-0">
+            <h1 className="text-2xl font-bold text-cream-100 truncate">{tournament.name}</h1>
+            <p className="text-wood-400 text-sm">
+              {getGame(tournament.gameType)?.name ?? tournament.gameType} · {FORMAT_LABELS[tournament.format]} ·{' '}
+              {status}
+            </p>
+          </div>
+          {tournament.status === 'registering' && (
+            <div className="flex gap-2">
+              {!account ? (
+                <span className="text-wood-400 text-sm">Sign in to take part</span>
+              ) : registered ? (
+                <Button variant="ghost" size="sm" disabled={busy} onClick={() => act('leave')}>
+                  Withdraw
+                </Button>
+              ) : (
+                <Button
+                  size="sm"
+                  disabled={busy || tournament.participants.length >= tournament.size}
+                  onClick={() => act('join')}
+                >
+                  Join
+                </Button>
+              )}
+              {isOrganizer && (
+                <Button
+                  variant="secondary"
+                  size="sm"
+                  disabled={busy || tournament.participants.length < 2}
+                  onClick={() => act('start')}
+                >
+                  Start
+                </Button>
+              )}
+            </div>
+          )}
+        </div>
+        {actionError && <p className="text-red-400 text-sm">{actionError}</p>}
+
+        {tournament.status === 'registering' ? (
+          <section className="bg-wood-900/60 border border-wood-700 rounded-xl p-4">
+            <h2 className="text-cream-200 font-semibold mb-2">Players</h2>
+            {tournament.participants.length === 0 ? (
+              <p className="text-wood-400 text-sm italic">Nobody has joined yet.</p>
+            ) : (
+              <ol className="list-decimal list-inside text-cream-200 text-sm space-y-1">
+                {tournament.participants.map(p => (
+                  <li key={p.accountId}>{p.name}</li>
+                ))}
+              </ol>
+            )}
+          </section>
+        ) : (
+          <>
+            <section className="bg-wood-900/60 border border-wood-700 rounded-xl p-4">
+              <h2 className="text-cream-200 font-semibold mb-3">
+                {tournament.format === 'single-elimination' ? 'Bracket' : 'Rounds'}
+              </h2>
+              {tournament.format === 'single-elimination' ? (
+                <TournamentBracket
+                  tournament={tournament}
+                  nameOf={nameOf}
+                  accountId={accountId}
+                  onOpenRoom={openRoom}
+                />
+              ) : (
+                <div className="space-y-4">
+                  {[...tournament.rounds].reverse().map(round => (
+                    <div key={round.number}>
+                      <h3 className="text-wood-300 text-xs uppercase tracking-wide mb-2">Round {round.number}</h3>
+                      <div className="grid sm:grid-cols-2 gap-2">
+                        {round.pairings.map((pairing, i) => (
+                          <PairingCard
+                            key={i}
+                            pairing={pairing}
+                            nameOf={nameOf}
+                            accountId={accountId}
+                            onOpenRoom={openRoom}
+                          />
+                        ))}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </section>
+
+            <section className="bg-wood-900/60 border border-wood-700 rounded-xl p-4">
+              <h2 className="text-cream-200 font-semibold mb-2">Standings</h2>
+              <StandingsTable standings={standings} format={tournament.format} accountId={accountId} />
+            </section>
+          </>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,189 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { GameIcon } from '@/components/ui/GameIcons';
+import { GameOptionsForm } from '@/components/game/GameOptionsForm';
+import { useAccount } from '@/hooks/useAccount';
+import { useGames } from '@/hooks/useGames';
+import { defaultOptions } from '@/lib/games';
+import { FORMAT_LABELS, createTournament, fetchTournaments } from '@/lib/tournaments';
+import { GameOptions, GameType, TournamentFormat, TournamentStatus, TournamentSummary } from '@/lib/types';
+
+const STATUS_LABELS: Record<TournamentStatus, string> = {
+  registering: 'Open',
+  running: 'In progress',
+  finished: 'Finished',
+};
+
+const selectClass =
+  'w-full px-4 py-2.5 rounded-lg bg-wood-900 border border-wood-700 text-cream-100 focus:outline-none focus:ring-2 focus:ring-wood-400';
+
+export default function TournamentsPage() {
+  const router = useRouter();
+  const { account } = useAccount();
+  const { games, getGame } = useGames();
+  const [tournaments, setTournaments] = useState<TournamentSummary[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const [creating, setCreating] = useState(false);
+  const [name, setName] = useState('');
+  const [gameType, setGameType] = useState<GameType>('chess');
+  const [gameOptions, setGameOptions] = useState<GameOptions>({});
+  const [format, setFormat] = useState<TournamentFormat>('swiss');
+  const [size, setSize] = useState(8);
+  const [createError, setCreateError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchTournaments()
+      .then(setTournaments)
+      .catch((err: Error) => setError(err.message));
+  }, []);
+
+  // Tournament games are one against one
+  const headToHeadGames = games.filter(g => g.minPlayers <= 2 && g.maxPlayers >= 2);
+
+  const selectGame = (id: GameType) => {
+    const game = getGame(id);
+    setGameType(id);
+    setGameOptions(game ? defaultOptions(game) : {});
+  };
+
+  const handleCreate = () => {
+    setCreateError(null);
+    createTournament({ name: name.trim(), gameType, format, size, options: gameOptions })
+      .then(({ tournament }) => router.push(`/tournaments/${tournament.id}`))
+      .catch((err: Error) => setCreateError(err.message));
+  };
+
+  return (
+    <div className="min-h-screen flex flex-col">
+      {/* Top bar */}
+      <header className="flex items-center justify-between px-4 py-3 border-b border-wood-800 bg-wood-950/50">
+        <div className="flex items-center gap-4">
+          <button
+            onClick={() => router.push('/')}
+            className="text-cream-100 font-bold text-lg hover:text-wood-300 transition-colors"
+          >
+            YT
+          </button>
+          <span className="text-wood-500 text-sm">|</span>
+          <span className="text-wood-300 text-sm">Tournaments</span>
+        </div>
+      </header>
+
+      <main className="flex-1 p-4 w-full max-w-2xl mx-auto space-y-4">
+        <div className="flex items-center justify-between gap-4">
+          <h1 className="text-2xl font-bold text-cream-100">Tournaments</h1>
+          {account ? (
+            !creating && <Button onClick={() => setCreating(true)}>New Tournament</Button>
+          ) : (
+            <span className="text-wood-400 text-sm">Sign in on the home page to organize or join</span>
+          )}
+        </div>
+
+        {creating && (
+          <div className="bg-wood-900/60 border border-wood-700 rounded-2xl p-6 space-y-4">
+            <Input
+              id="tournament-name"
+              label="Name"
+              placeholder="Friday game night"
+              value={name}
+              onChange={e => setName(e.target.value)}
+              maxLength={40}
+            />
+            <div>
+              <label htmlFor="tournament-game" className="block text-sm font-medium text-cream-200 mb-1.5">
+                Game
+              </label>
+              <select
+                id="tournament-game"
+                value={gameType}
+                onChange={e => selectGame(e.target.value as GameType)}
+                className={selectClass}
+              >
+                {headToHeadGames.map(g => (
+                  <option key={g.id} value={g.id}>
+                    {g.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <GameOptionsForm schema={getGame(gameType)?.options ?? []} values={gameOptions} onChange={setGameOptions} />
+            <div className="flex gap-3">
+              <div className="w-full">
+                <label htmlFor="tournament-format" className="block text-sm font-medium text-cream-200 mb-1.5">
+                  Format
+                </label>
+                <select
+                  id="tournament-format"
+                  value={format}
+                  onChange={e => setFormat(e.target.value as TournamentFormat)}
+                  className={selectClass}
+                >
+                  {(Object.keys(FORMAT_LABELS) as TournamentFormat[]).map(f => (
+                    <option key={f} value={f}>
+                      {FORMAT_LABELS[f]}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <Input
+                id="tournament-size"
+                type="number"
+                label="Players"
+                min={2}
+                max={32}
+                value={size}
+                onChange={e => setSize(Number(e.target.value))}
+              />
+            </div>
+            {createError && <p className="text-red-400 text-sm">{createError}</p>}
+            <div className="flex gap-3">
+              <Button onClick={handleCreate} disabled={!name.trim()}>
+                Create
+              </Button>
+              <Button variant="ghost" onClick={() => setCreating(false)}>
+                Cancel
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {error ? (
+          <p className="text-red-400 text-sm">{error}</p>
+        ) : tournaments === null ? (
+          <p className="text-wood-400">Loading tournaments...</p>
+        ) : tournaments.length === 0 ? (
+          <p className="text-wood-400 text-sm italic">No tournaments yet.</p>
+        ) : (
+          <div className="space-y-2">
+            {tournaments.map(t => (
+              <button
+                key={t.id}
+                onClick={() => router.push(`/tournaments/${t.id}`)}
+                className="w-full flex items-center gap-3 bg-wood-800/50 hover:bg-wood-800 rounded-lg p-3 text-left transition-colors"
+              >
+                <div className="shrink-0 [&_svg]:w-8 [&_svg]:h-8">
+                  <GameIcon gameId={t.gameType} />
+                </div>
+                <div className="flex-1 min-w-0">
+                  <p className="text-cream-100 font-medium truncate">{t.name}</p>
+                  <p className="text-wood-400 text-xs">
+                    {getGame(t.gameType)?.name ?? t.gameType} · {FORMAT_LABELS[t.format]} · {t.playerCount}/{t.size}{' '}
+                    players
+                  </p>
+                </div>
+                <span className="text-xs px-2 py-0.5 rounded-full bg-wood-700 text-cream-200">
+                  {STATUS_LABELS[t.status]}
+                </span>
+              </button>
+            ))}
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
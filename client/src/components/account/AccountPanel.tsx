@@ -0,0 +1,105 @@
+'use client';
+
+import { useState } from 'react';
+import { AccountInfo } from '@/lib/types';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+
+interface AccountPanelProps {
+  account: AccountInfo | null;
+  error: string | null;
+  onSignIn: (username: string, password: string) => Promise<boolean>;
+  onSignUp: (username: string, password: string) => Promise<boolean>;
+  onSignOut: () => void;
+  onShowHistory: () => void;
+}
+
+type Mode = 'closed' | 'sign-in' | 'sign-up';
+
+// Optional sign-in; guests can ignore it entirely
+export function AccountPanel({ account, error, onSignIn, onSignUp, onSignOut, onShowHistory }: AccountPanelProps) {
+  const [mode, setMode] = useState<Mode>('closed');
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [busy, setBusy] = useState(false);
+
+  if (account) {
+    return (
+      <div className="flex items-center justify-center gap-3 text-sm">
+        <span className="text-wood-300">
+          Signed in as <span className="text-cream-100 font-medium">{account.username}</span>
+        </span>
+        <Button variant="ghost" size="sm" onClick={onShowHistory}>
+          My Games
+        </Button>
+        <Button variant="ghost" size="sm" onClick={onSignOut}>
+          Sign out
+        </Button>
+      </div>
+    );
+  }
+
+  if (mode === 'closed') {
+    return (
+      <div className="flex items-center justify-center gap-3 text-sm">
+        <span className="text-wood-400">Playing as a guest.</span>
+        <Button variant="ghost" size="sm" onClick={() => setMode('sign-in')}>
+          Sign in
+        </Button>
+        <Button variant="ghost" size="sm" onClick={() => setMode('sign-up')}>
+          Create account
+        </Button>
+      </div>
+    );
+  }
+
+  const submit = async () => {
+    setBusy(true);
+    const ok = await (mode === 'sign-in' ? onSignIn : onSignUp)(username.trim(), password);
+    setBusy(false);
+    if (ok) {
+      setPassword('');
+      setMode('closed');
+    }
+  };
+
+  return (
+    <form
+      className="max-w-sm mx-auto bg-wood-900/60 border border-wood-700 rounded-2xl p-6 space-y-4"
+      onSubmit={e => {
+        e.preventDefault();
+        submit();
+      }}
+    >
+      <h3 className="text-lg font-semibold text-cream-100">
+        {mode === 'sign-in' ? 'Sign In' : 'Create an Account'}
+      </h3>
+      <Input
+        id="account-username"
+        label="Username"
+        autoComplete="username"
+        value={username}
+        onChange={e => setUsername(e.target.value)}
+        maxLength={20}
+      />
+      <Input
+        id="account-password"
+        label="Password"
+        type="password"
+        autoComplete={mode === 'sign-in' ? 'current-password' : 'new-password'}
+        value={password}
+        onChange={e => setPassword(e.target.value)}
+        maxLength={100}
+      />
+      {error && <p className="text-red-400 text-sm">{error}</p>}
+      <div className="flex gap-3">
+        <Button type="submit" disabled={busy || !username.trim() || !password}>
+          {mode === 'sign-in' ? 'Sign In' : 'Create'}
+        </Button>
+        <Button type="button" variant="ghost" onClick={() => setMode('closed')}>
+          Cancel
+        </Button>
+      </div>
+    </form>
+  );
+}
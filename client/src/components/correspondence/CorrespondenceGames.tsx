@@ -0,0 +1,71 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { CorrespondenceGame, GameInfo } from '@/lib/types';
+import { formatTimeLeft } from '@/lib/correspondence';
+import { GameIcon } from '@/components/ui/GameIcons';
+
+interface CorrespondenceGamesProps {
+  games: CorrespondenceGame[];
+  catalogue: GameInfo[];
+  onOpenRoom: (code: string) => void;
+}
+
+// The player's open correspondence games, the ones waiting on them first
+export function CorrespondenceGames({ games, catalogue, onOpenRoom }: CorrespondenceGamesProps) {
+  // Deadlines are days away, so a minute's resolution is plenty
+  const [now, setNow] = useState(() => Date.now());
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 60_000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const gameName = (id: string) => catalogue.find(g => g.id === id)?.name ?? id;
+  const yourTurnCount = games.filter(g => g.yourTurn).length;
+
+  return (
+    <div className="max-w-md mx-auto bg-wood-900/60 border border-wood-700 rounded-xl p-4">
+      <h3 className="text-cream-100 font-semibold mb-3">
+        Correspondence games
+        {yourTurnCount > 0 && (
+          <span className="ml-2 text-xs px-2 py-0.5 rounded-full bg-yellow-500 text-wood-950">
+            Your turn in {yourTurnCount}
+          </span>
+        )}
+      </h3>
+      <div className="space-y-2">
+        {games.map(game => (
+          <button
+            key={game.roomCode}
+            onClick={() => onOpenRoom(game.roomCode)}
+            className={`w-full flex items-center gap-3 rounded-lg border px-3 py-2 text-left transition-colors ${
+              game.yourTurn
+                ? 'border-yellow-600 bg-wood-800/70 hover:bg-wood-800'
+                : 'border-wood-700 bg-wood-800/40 hover:bg-wood-800/60'
+            }`}
+          >
+            <div className="shrink-0 [&_svg]:w-7 [&_svg]:h-7">
+              <GameIcon gameId={game.gameType} />
+            </div>
+            <div className="flex-1 min-w-0">
+              <p className="text-cream-100 text-sm font-medium truncate">
+                {gameName(game.gameType)}
+                {game.opponents.length > 0 && (
+                  <span className="text-wood-400 font-normal"> vs {game.opponents.join(', ')}</span>
+                )}
+              </p>
+              <p className="text-wood-400 text-xs">
+                {game.status === 'waiting'
+                  ? `Waiting to start · room ${game.roomCode}`
+                  : game.deadline !== null
+                    ? `${game.yourTurn ? 'Your move' : 'Their move'} · ${formatTimeLeft(game.deadline, now)} left`
+                    : 'In progress'}
+              </p>
+            </div>
+            {game.yourTurn && <span className="w-2.5 h-2.5 rounded-full bg-yellow-400 shrink-0" aria-label="Your turn" />}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -1,19 +1,11 @@
 'use client';
 
 import { useState, useCallback, useMemo } from 'react';
-import { Position } from '@/lib/types';
+import { BackgammonPosition, PointState, getBackgammonMoves, hasAnyValidMoves } from 'yourturn-shared';
+import { BackgammonMove } from '@/lib/types';
+import { GameActions } from './GameActions';
 
-interface PointState {
-  player: 1 | 2 | null;
-  count: number;
-}
-
-interface BackgammonGameState {
-  board: PointState[];
-  bar: { 1: number; 2: number };
-  borneOff: { 1: number; 2: number };
-  dice: number[];
-  currentTurn: 1 | 2;
+interface BackgammonGameState extends BackgammonPosition {
   players: { 1: string; 2: string };
   diceRolled: boolean;
   winner: string | null;
@@ -24,146 +16,16 @@ interface BackgammonGameState {
 interface BackgammonBoardProps {
   gameState: BackgammonGameState;
   playerId: string;
-  onMove: (from: Position, to: Position) => void;
+  onMove: (move: BackgammonMove) => void;
   onQuit: () => void;
+  onResign?: () => void;
+  onOfferDraw?: () => void;
 }
 
 // Maximum visible checkers stacked on a point before showing a count badge
 const MAX_VISIBLE_CHECKERS = 5;
 
-/**
- * Get the direction of movement for a player.
- * Player 1: moves from high points to low (24 -> 1), home board = 1-6
- * Player 2: moves from low points to high (1 -> 24), home board = 19-24
- */
-function getMoveDirection(player: 1 | 2): number {
-  return player === 1 ? -1 : 1;
-}
-
-function getBarEntryPoint(player: 1 | 2, dieValue: number): number {
-  if (player === 1) return 25 - dieValue;
-  return dieValue;
-}
-
-function getDestination(from: number, dieValue: number, player: 1 | 2): number {
-  if (from === 0) return getBarEntryPoint(player, dieValue);
-  const dir = getMoveDirection(player);
-  const dest = from + dir * dieValue;
-  if (player === 1 && dest < 1) return 0;
-  if (player === 2 && dest > 24) return 0;
-  return dest;
-}
-
-function allCheckersInHomeBoard(state: BackgammonGameState, player: 1 | 2): boolean {
-  if (state.bar[player] > 0) return false;
-  for (let i = 0; i < 24; i++) {
-    const point = i + 1;
-    const entry = state.board[i];
-    if (entry.player === player && entry.count > 0) {
-      if (player === 1 && point > 6) return false;
-      if (player === 2 && point < 19) return false;
-    }
-  }
-  return true;
-}
-
-function isValidSingleMove(
-  state: BackgammonGameState,
-  player: 1 | 2,
-  from: number,
-  dieValue: number,
-): number {
-  if (state.bar[player] > 0 && from !== 0) return -1;
-
-  if (from === 0) {
-    if (state.bar[player] <= 0) return -1;
-  } else {
-    const srcIdx = from - 1;
-    if (srcIdx < 0 || srcIdx >= 24) return -1;
-    const srcEntry = state.board[srcIdx];
-    if (srcEntry.player !== player || srcEntry.count <= 0) return -1;
-  }
-
-  const dest = getDestination(from, dieValue, player);
-  const opponent: 1 | 2 = player === 1 ? 2 : 1;
-
-  if (dest === 0) {
-    if (!allCheckersInHomeBoard(state, player)) return -1;
-    if (player === 1) {
-      const distance = from;
-      if (dieValue < distance) {
-        for (let p = from + 1; p <= 6; p++) {
-          if (state.board[p - 1].player === player && state.board[p - 1].count > 0) return -1;
-        }
-      }
-    } else {
-      const distance = 25 - from;
-      if (dieValue < distance) {
-        for (let p = from - 1; p >= 19; p--) {
-          if (state.board[p - 1].player === player && state.board[p - 1].count > 0) return -1;
-        }
-      }
-    }
-    return 0;
-  }
-
-  const destIdx = dest - 1;
-  if (destIdx < 0 || destIdx >= 24) return -1;
-  const destEntry = state.board[destIdx];
-  if (destEntry.player === opponent && destEntry.count >= 2) return -1;
-
-  return dest;
-}
-
-/**
- * Compute all valid destination points for a given source point.
- */
-function getValidDestinations(
-  state: BackgammonGameState,
-  player: 1 | 2,
-  from: number,
-): { to: number; dieValue: number }[] {
-  const dests: { to: number; dieValue: number }[] = [];
-  const seenDice = new Set<number>();
-
-  for (const d of state.dice) {
-    if (seenDice.has(d)) continue;
-    seenDice.add(d);
-    const dest = isValidSingleMove(state, player, from, d);
-    if (dest >= 0) {
-      // Avoid duplicate destinations
-      if (!dests.some(dd => dd.to === dest)) {
-        dests.push({ to: dest, dieValue: d });
-      }
-    }
-  }
-
-  return dests;
-}
-
-/**
- * Check if the player has any valid moves at all.
- */
-function hasAnyValidMoves(state: BackgammonGameState, player: 1 | 2): boolean {
-  const uniqueDice = Array.from(new Set(state.dice));
-  if (state.bar[player] > 0) {
-    for (const d of uniqueDice) {
-      if (isValidSingleMove(state, player, 0, d) >= 0) return true;
-    }
-    return false;
-  }
-  for (let point = 1; point <= 24; point++) {
-    const entry = state.board[point - 1];
-    if (entry.player === player && entry.count > 0) {
-      for (const d of uniqueDice) {
-        if (isValidSingleMove(state, player, point, d) >= 0) return true;
-      }
-    }
-  }
-  return false;
-}
-
-export function BackgammonBoard({ gameState, playerId, onMove, onQuit }: BackgammonBoardProps) {
+export function BackgammonBoard({ gameState, playerId, onMove, onQuit, onResign, onOfferDraw }: BackgammonBoardProps) {
   const state = gameState as BackgammonGameState;
   const [selectedPoint, setSelectedPoint] = useState<number | null>(null); // point number or 0 for bar
 
@@ -183,14 +45,10 @@ export function BackgammonBoard({ gameState, playerId, onMove, onQuit }: Backgam
   }, [canInteract, myPlayer, state]);
 
   // Valid destinations for the selected point
-  const validDestinations = useMemo(() => {
-    if (selectedPoint === null || !canInteract || !myPlayer) return [];
-    return getValidDestinations(state, myPlayer, selectedPoint);
-  }, [selectedPoint, canInteract, myPlayer, state]);
-
   const validDestSet = useMemo(() => {
-    return new Set(validDestinations.map(d => d.to));
-  }, [validDestinations]);
+    if (selectedPoint === null || !canInteract || !myPlayer) return new Set<number>();
+    return new Set(getBackgammonMoves(state, myPlayer, selectedPoint));
+  }, [selectedPoint, canInteract, myPlayer, state]);
 
   // Check which points have valid moves (for highlighting selectable checkers)
   const selectablePoints = useMemo(() => {
@@ -199,16 +57,14 @@ export function BackgammonBoard({ gameState, playerId, onMove, onQuit }: Backgam
 
     if (state.bar[myPlayer] > 0) {
       // Must move from bar
-      const dests = getValidDestinations(state, myPlayer, 0);
-      if (dests.length > 0) points.add(0);
+      if (getBackgammonMoves(state, myPlayer, 0).length > 0) points.add(0);
       return points;
     }
 
     for (let point = 1; point <= 24; point++) {
       const entry = state.board[point - 1];
       if (entry.player === myPlayer && entry.count > 0) {
-        const dests = getValidDestinations(state, myPlayer, point);
-        if (dests.length > 0) points.add(point);
+        if (getBackgammonMoves(state, myPlayer, point).length > 0) points.add(point);
       }
     }
     return points;
@@ -220,9 +76,8 @@ export function BackgammonBoard({ gameState, playerId, onMove, onQuit }: Backgam
 
       // If clicking a valid destination
       if (selectedPoint !== null && validDestSet.has(point)) {
-        // Convert bearing off: point 0 means bearing off
-        const toRow = point;
-        onMove({ row: selectedPoint, col: 0 }, { row: toRow, col: 0 });
+        // Point 0 as a destination means bearing off
+        onMove({ type: 'move', from: selectedPoint, to: point });
         setSelectedPoint(null);
         return;
       }
@@ -249,13 +104,13 @@ export function BackgammonBoard({ gameState, playerId, onMove, onQuit }: Backgam
 
   const handleBearOffClick = useCallback(() => {
     if (selectedPoint !== null && validDestSet.has(0)) {
-      onMove({ row: selectedPoint, col: 0 }, { row: 0, col: 0 });
+      onMove({ type: 'move', from: selectedPoint, to: 0 });
       setSelectedPoint(null);
     }
   }, [selectedPoint, validDestSet, onMove]);
 
   const handlePass = useCallback(() => {
-    onMove({ row: -1, col: 0 }, { row: -1, col: 0 });
+    onMove({ type: 'pass' });
   }, [onMove]);
 
   // Compute which original dice values have been used
@@ -786,12 +641,7 @@ export function BackgammonBoard({ gameState, playerId, onMove, onQuit }: Backgam
             </span>
           </div>
         )}
-        <button
-          onClick={onQuit}
-          className="px-4 py-1.5 text-sm rounded-lg bg-wood-800 hover:bg-wood-700 text-red-400 border border-wood-600 transition-colors"
-        >
-          Quit Game
-        </button>
+        <GameActions onQuit={onQuit} onResign={onResign} onOfferDraw={onOfferDraw} />
       </div>
     </div>
   );
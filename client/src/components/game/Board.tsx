@@ -1,18 +1,21 @@
 'use client';
 
 import { useState, useCallback, useMemo, useEffect } from 'react';
-import { CheckersState, Position, PieceColor } from '@/lib/types';
-import { getValidMoves } from '@/lib/validMoves';
+import { getCheckersMoves } from 'yourturn-shared';
+import { CheckersState, CheckersMove, Position, PieceColor } from '@/lib/types';
 import { Piece } from './Piece';
+import { GameActions } from './GameActions';
 
 interface BoardProps {
   gameState: CheckersState;
   playerId: string;
-  onMove: (from: Position, to: Position) => void;
+  onMove: (move: CheckersMove) => void;
   onQuit: () => void;
+  onResign?: () => void;
+  onOfferDraw?: () => void;
 }
 
-export function Board({ gameState, playerId, onMove, onQuit }: BoardProps) {
+export function Board({ gameState, playerId, onMove, onQuit, onResign, onOfferDraw }: BoardProps) {
   const [selectedPos, setSelectedPos] = useState<Position | null>(null);
 
   // Auto-select the piece that must continue a multi-jump
@@ -32,7 +35,7 @@ export function Board({ gameState, playerId, onMove, onQuit }: BoardProps) {
 
   const validMoves = useMemo(() => {
     if (!selectedPos || !isMyTurn) return [];
-    return getValidMoves(gameState, selectedPos);
+    return getCheckersMoves(gameState, selectedPos);
   }, [selectedPos, isMyTurn, gameState]);
 
   const handleSquareClick = useCallback(
@@ -45,7 +48,7 @@ export function Board({ gameState, playerId, onMove, onQuit }: BoardProps) {
       if (selectedPos) {
         const isValidDest = validMoves.some(m => m.row === row && m.col === col);
         if (isValidDest) {
-          onMove(selectedPos, { row, col });
+          onMove({ type: 'move', from: selectedPos, to: { row, col } });
           setSelectedPos(null);
           return;
         }
@@ -58,7 +61,7 @@ export function Board({ gameState, playerId, onMove, onQuit }: BoardProps) {
           setSelectedPos(null);
           return;
         }
-        const moves = getValidMoves(gameState, { row, col });
+        const moves = getCheckersMoves(gameState, { row, col });
         if (moves.length > 0) {
           setSelectedPos({ row, col });
         } else {
@@ -176,12 +179,7 @@ export function Board({ gameState, playerId, onMove, onQuit }: BoardProps) {
             </span>
           </div>
         )}
-        <button
-          onClick={onQuit}
-          className="px-4 py-1.5 text-sm rounded-lg bg-wood-800 hover:bg-wood-700 text-red-400 border border-wood-600 transition-colors"
-        >
-          Quit Game
-        </button>
+        <GameActions onQuit={onQuit} onResign={onResign} onOfferDraw={onOfferDraw} />
       </div>
     </div>
   );
@@ -5,7 +5,7 @@ import { ChatMessage } from '@/lib/types';
 
 interface ChatProps {
   messages: ChatMessage[];
-  onSend: (text: string) => void;
+  onSend?: (text: string) => void; // omitted for spectators, who can only read
   isCollapsed?: boolean;
   onToggle?: () => void;
 }
@@ -20,7 +20,7 @@ export function Chat({ messages, onSend, isCollapsed = false, onToggle }: ChatPr
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    if (input.trim()) {
+    if (input.trim() && onSend) {
       onSend(input.trim());
       setInput('');
     }
@@ -76,22 +76,28 @@ export function Chat({ messages, onSend, isCollapsed = false, onToggle }: ChatPr
           </div>
 
           {/* Input */}
-          <form onSubmit={handleSubmit} className="flex gap-2 p-3 border-t border-wood-700">
-            <input
-              value={input}
-              onChange={e => setInput(e.target.value)}
-              placeholder="Type a message..."
-              maxLength={500}
-              className="flex-1 px-3 py-2 rounded-lg bg-wood-950 border border-wood-700 text-cream-100 placeholder:text-wood-600 text-sm focus:outline-none focus:ring-1 focus:ring-wood-400"
-            />
-            <button
-              type="submit"
-              disabled={!input.trim()}
-              className="px-4 py-2 rounded-lg bg-wood-600 hover:bg-wood-500 text-cream-100 text-sm font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
-            >
-              Send
-            </button>
-          </form>
+          {onSend ? (
+            <form onSubmit={handleSubmit} className="flex gap-2 p-3 border-t border-wood-700">
+              <input
+                value={input}
+                onChange={e => setInput(e.target.value)}
+                placeholder="Type a message..."
+                maxLength={500}
+                className="flex-1 px-3 py-2 rounded-lg bg-wood-950 border border-wood-700 text-cream-100 placeholder:text-wood-600 text-sm focus:outline-none focus:ring-1 focus:ring-wood-400"
+              />
+              <button
+                type="submit"
+                disabled={!input.trim()}
+                className="px-4 py-2 rounded-lg bg-wood-600 hover:bg-wood-500 text-cream-100 text-sm font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Send
+              </button>
+            </form>
+          ) : (
+            <p className="p-3 border-t border-wood-700 text-wood-500 text-xs text-center">
+              Spectators can read the chat but not post
+            </p>
+          )}
         </>
       )}
     </div>
@@ -1,14 +1,18 @@
 'use client';
 
 import { useState, useCallback, useMemo } from 'react';
-import { Position } from '@/lib/types';
-import { getValidMoves, ChessState, ChessPiece, ChessColor } from '@/lib/chessValidMoves';
+import { getChessMoves } from 'yourturn-shared';
+import { Position, ChessMove, PromotionPiece, ChessState, ChessPiece, ChessColor, ChessVariant } from '@/lib/types';
+import { GameActions } from './GameActions';
 
 interface ChessBoardProps {
   gameState: ChessState;
   playerId: string;
-  onMove: (from: Position, to: Position) => void;
+  onMove: (move: ChessMove) => void;
   onQuit: () => void;
+  onResign?: () => void;
+  onOfferDraw?: () => void;
+  onClaimDraw?: () => void;
 }
 
 const PIECE_SYMBOLS: Record<string, Record<string, string>> = {
@@ -34,6 +38,22 @@ function getPieceSymbol(piece: ChessPiece): string {
   return PIECE_SYMBOLS[piece.color]?.[piece.type] ?? '?';
 }
 
+const VARIANT_LABELS: Record<ChessVariant, string> = {
+  standard: 'Standard',
+  chess960: 'Chess960',
+  kingOfTheHill: 'King of the Hill',
+  threeCheck: 'Three-check',
+  atomic: 'Atomic',
+  horde: 'Horde',
+};
+
+// The four centre squares a king must reach in King of the Hill
+function isHillSquare(row: number, col: number): boolean {
+  return (row === 3 || row === 4) && (col === 3 || col === 4);
+}
+
+const PROMOTION_CHOICES: PromotionPiece[] = ['queen', 'rook', 'bishop', 'knight'];
+
 // Piece value for sorting captured pieces display
 const PIECE_VALUES: Record<string, number> = {
   queen: 9,
@@ -43,9 +63,19 @@ const PIECE_VALUES: Record<string, number> = {
   pawn: 1,
 };
 
-export function ChessBoard({ gameState, playerId, onMove, onQuit }: ChessBoardProps) {
+export function ChessBoard({
+  gameState,
+  playerId,
+  onMove,
+  onQuit,
+  onResign,
+  onOfferDraw,
+  onClaimDraw,
+}: ChessBoardProps) {
   const state = gameState as ChessState;
   const [selectedPos, setSelectedPos] = useState<Position | null>(null);
+  // A pawn move onto the last rank waits here until the player picks a piece
+  const [pendingPromotion, setPendingPromotion] = useState<{ from: Position; to: Position } | null>(null);
 
   const myColor: ChessColor | null = useMemo(() => {
     if (state.players.white === playerId) return 'white';
@@ -57,7 +87,7 @@ export function ChessBoard({ gameState, playerId, onMove, onQuit }: ChessBoardPr
 
   const validMoves = useMemo(() => {
     if (!selectedPos || !isMyTurn) return [];
-    return getValidMoves(state, selectedPos);
+    return getChessMoves(state, selectedPos);
   }, [selectedPos, isMyTurn, state]);
 
   // Find the king position for check highlighting
@@ -76,7 +106,7 @@ export function ChessBoard({ gameState, playerId, onMove, onQuit }: ChessBoardPr
 
   const handleSquareClick = useCallback(
     (row: number, col: number) => {
-      if (!isMyTurn || state.winner) return;
+      if (!isMyTurn || state.winner || pendingPromotion) return;
 
       const clickedPiece = state.board[row][col];
 
@@ -84,7 +114,13 @@ export function ChessBoard({ gameState, playerId, onMove, onQuit }: ChessBoardPr
       if (selectedPos) {
         const isValidDest = validMoves.some(m => m.row === row && m.col === col);
         if (isValidDest) {
-          onMove(selectedPos, { row, col });
+          const movingPiece = state.board[selectedPos.row][selectedPos.col];
+          const promotionRow = myColor === 'white' ? 0 : 7;
+          if (movingPiece?.type === 'pawn' && row === promotionRow) {
+            setPendingPromotion({ from: selectedPos, to: { row, col } });
+          } else {
+            onMove({ type: 'move', from: selectedPos, to: { row, col } });
+          }
           setSelectedPos(null);
           return;
         }
@@ -96,7 +132,7 @@ export function ChessBoard({ gameState, playerId, onMove, onQuit }: ChessBoardPr
           setSelectedPos(null);
           return;
         }
-        const moves = getValidMoves(state, { row, col });
+        const moves = getChessMoves(state, { row, col });
         if (moves.length > 0) {
           setSelectedPos({ row, col });
         } else {
@@ -106,9 +142,15 @@ export function ChessBoard({ gameState, playerId, onMove, onQuit }: ChessBoardPr
         setSelectedPos(null);
       }
     },
-    [isMyTurn, selectedPos, validMoves, myColor, state, onMove],
+    [isMyTurn, pendingPromotion, selectedPos, validMoves, myColor, state, onMove],
   );
 
+  const handlePromotion = (promotion: PromotionPiece) => {
+    if (!pendingPromotion) return;
+    onMove({ type: 'move', ...pendingPromotion, promotion });
+    setPendingPromotion(null);
+  };
+
   // Flip board for black player
   const shouldFlip = myColor === 'black';
 
@@ -135,6 +177,7 @@ export function ChessBoard({ gameState, playerId, onMove, onQuit }: ChessBoardPr
           checkedKingPos !== null &&
           checkedKingPos.row === row &&
           checkedKingPos.col === col;
+        const isHill = state.variant === 'kingOfTheHill' && isHillSquare(row, col);
 
         squares.push(
           <div
@@ -162,6 +205,11 @@ export function ChessBoard({ gameState, playerId, onMove, onQuit }: ChessBoardPr
               </div>
             )}
 
+            {/* The hill a king must reach */}
+            {isHill && (
+              <div className="absolute inset-0 ring-2 ring-inset ring-amber-400/50 z-0" />
+            )}
+
             {/* Check indicator on the king */}
             {isCheckedKing && (
               <div className="absolute inset-0 bg-red-500/30 ring-2 ring-inset ring-red-500/70 z-0" />
@@ -229,6 +277,26 @@ export function ChessBoard({ gameState, playerId, onMove, onQuit }: ChessBoardPr
         )}
       </div>
 
+      {/* Variant, with the checks given so far in three-check */}
+      {state.variant && state.variant !== 'standard' && (
+        <div className="flex items-center gap-3 text-sm text-wood-300">
+          <span className="font-medium text-cream-200">{VARIANT_LABELS[state.variant]}</span>
+          {state.variant === 'threeCheck' && (
+            <span>
+              Checks: white {state.checks.white}/3 · black {state.checks.black}/3
+            </span>
+          )}
+        </div>
+      )}
+
+      {/* The opening, as the book names the last known position */}
+      {state.opening && (
+        <div className="flex items-center gap-2 text-sm text-wood-300">
+          <span className="font-mono text-wood-400">{state.opening.eco}</span>
+          <span className="text-cream-200">{state.opening.name}</span>
+        </div>
+      )}
+
       {/* Opponent's captured pieces (pieces opponent has taken from you) */}
       <div className="flex items-center gap-1 min-h-[28px] px-2">
         {myColor && sortCaptured(state.captures[oppositeColorFn(myColor)] || []).map((piece, i) => (
@@ -248,10 +316,43 @@ export function ChessBoard({ gameState, playerId, onMove, onQuit }: ChessBoardPr
       </div>
 
       {/* Board */}
-      <div className="w-[min(85vw,75vh)] aspect-square mx-auto">
+      <div className="relative w-[min(85vw,75vh)] aspect-square mx-auto">
         <div className="w-full h-full grid grid-cols-8 grid-rows-8 border-4 border-wood-700 rounded-lg overflow-hidden shadow-2xl">
           {renderBoard()}
         </div>
+
+        {/* Promotion picker */}
+        {pendingPromotion && myColor && !state.winner && (
+          <div className="absolute inset-0 z-30 flex items-center justify-center bg-black/50 rounded-lg">
+            <div className="bg-wood-900 border border-wood-600 rounded-xl p-4 shadow-2xl text-center">
+              <p className="text-cream-100 font-medium mb-3">Promote to</p>
+              <div className="flex gap-2">
+                {PROMOTION_CHOICES.map(type => (
+                  <button
+                    key={type}
+                    onClick={() => handlePromotion(type)}
+                    title={type}
+                    aria-label={`Promote to ${type}`}
+                    className="w-14 h-14 flex items-center justify-center rounded-lg bg-board-light hover:bg-yellow-200 transition-colors"
+                  >
+                    <span
+                      className={`text-4xl select-none ${myColor === 'white' ? 'text-cream-100' : 'text-gray-900'}`}
+                      style={{ filter: myColor === 'white' ? 'drop-shadow(0 1px 2px rgba(0,0,0,0.5))' : undefined }}
+                    >
+                      {getPieceSymbol({ type, color: myColor, hasMoved: true })}
+                    </span>
+                  </button>
+                ))}
+              </div>
+              <button
+                onClick={() => setPendingPromotion(null)}
+                className="mt-3 text-xs text-wood-300 hover:text-cream-100 underline transition-colors"
+              >
+                Cancel
+              </button>
+            </div>
+          </div>
+        )}
       </div>
 
       {/* My captured pieces (pieces I have taken) */}
@@ -282,13 +383,26 @@ export function ChessBoard({ gameState, playerId, onMove, onQuit }: ChessBoardPr
             </span>
           </div>
         )}
-        <button
-          onClick={onQuit}
-          className="px-4 py-1.5 text-sm rounded-lg bg-wood-800 hover:bg-wood-700 text-red-400 border border-wood-600 transition-colors"
-        >
-          Quit Game
-        </button>
+        <GameActions
+          onQuit={onQuit}
+          onResign={onResign}
+          onOfferDraw={onOfferDraw}
+          onClaimDraw={myColor && state.claimableDraw ? onClaimDraw : undefined}
+        />
       </div>
+
+      {/* Current position, for pasting into an analysis board or a new room */}
+      {state.fen && (
+        <div className="flex items-center gap-2 max-w-full">
+          <code className="text-xs text-wood-400 truncate">{state.fen}</code>
+          <button
+            onClick={() => navigator.clipboard?.writeText(state.fen)}
+            className="shrink-0 text-xs text-wood-300 hover:text-cream-100 underline transition-colors"
+          >
+            Copy FEN
+          </button>
+        </div>
+      )}
     </div>
   );
 }
@@ -1,7 +1,8 @@
 'use client';
 
 import { useState, useCallback, useMemo } from 'react';
-import { Position } from '@/lib/types';
+import { Position, Connect4Move } from '@/lib/types';
+import { GameActions } from './GameActions';
 
 type Connect4Color = 'red' | 'yellow';
 
@@ -18,14 +19,16 @@ interface Connect4State {
 interface Connect4BoardProps {
   gameState: Connect4State;
   playerId: string;
-  onMove: (from: Position, to: Position) => void; // from is unused, to.col = column
+  onMove: (move: Connect4Move) => void;
   onQuit: () => void;
+  onResign?: () => void;
+  onOfferDraw?: () => void;
 }
 
 const ROWS = 6;
 const COLS = 7;
 
-export function Connect4Board({ gameState, playerId, onMove, onQuit }: Connect4BoardProps) {
+export function Connect4Board({ gameState, playerId, onMove, onQuit, onResign, onOfferDraw }: Connect4BoardProps) {
   const [hoveredCol, setHoveredCol] = useState<number | null>(null);
 
   const myColor: Connect4Color | null = useMemo(() => {
@@ -58,7 +61,7 @@ export function Connect4Board({ gameState, playerId, onMove, onQuit }: Connect4B
     (col: number) => {
       if (!canInteract) return;
       if (getLandingRow(col) === -1) return;
-      onMove({ row: 0, col: 0 }, { row: 0, col });
+      onMove({ type: 'drop', col });
     },
     [canInteract, getLandingRow, onMove],
   );
@@ -248,12 +251,7 @@ export function Connect4Board({ gameState, playerId, onMove, onQuit }: Connect4B
             </span>
           </div>
         )}
-        <button
-          onClick={onQuit}
-          className="px-4 py-1.5 text-sm rounded-lg bg-wood-800 hover:bg-wood-700 text-red-400 border border-wood-600 transition-colors"
-        >
-          Quit Game
-        </button>
+        <GameActions onQuit={onQuit} onResign={onResign} onOfferDraw={onOfferDraw} />
       </div>
     </div>
   );
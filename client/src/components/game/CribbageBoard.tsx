@@ -1,6 +1,8 @@
 'use client';
 
 import { useState, useCallback, useMemo, useEffect } from 'react';
+import { CribbageMove } from '@/lib/types';
+import { GameActions } from './GameActions';
 
 // ---- Types ----
 
@@ -22,8 +24,9 @@ interface CribbageViewState {
   players: { 1: string; 2: string };
   dealer: 1 | 2;
   myPlayerNum: 1 | 2;
-  myHand: Card[];
-  myPeggingHand?: Card[];
+  spectator?: boolean; // seated as player 1, with that hand face down (null) too
+  myHand: (Card | null)[];
+  myPeggingHand?: (Card | null)[];
   opponentHand: (Card | null)[];
   opponentCardCount: number;
   crib: Card[] | null;
@@ -47,8 +50,10 @@ interface CribbageViewState {
 interface CribbageBoardProps {
   gameState: CribbageViewState;
   playerId: string;
-  onMove: (from: { row: number; col: number }, to: { row: number; col: number }) => void;
+  onMove: (move: CribbageMove) => void;
   onQuit: () => void;
+  onResign?: () => void;
+  onOfferDraw?: () => void;
 }
 
 // ---- Constants ----
@@ -407,7 +412,7 @@ function CribbageBoardTrack({ score1, score2, myNum }: { score1: number; score2:
 
 // ---- Main Component ----
 
-export function CribbageBoard({ gameState, playerId, onMove, onQuit }: CribbageBoardProps) {
+export function CribbageBoard({ gameState, playerId, onMove, onQuit, onResign, onOfferDraw }: CribbageBoardProps) {
   const state = gameState as CribbageViewState;
 
   const [selectedCards, setSelectedCards] = useState<number[]>([]);
@@ -433,12 +438,16 @@ export function CribbageBoard({ gameState, playerId, onMove, onQuit }: CribbageB
 
   const myNum = state.myPlayerNum;
   const oppNum = myNum === 1 ? 2 : 1;
-  const isMyTurn = state.peggingTurn === myNum;
-  const amDealer = state.dealer === myNum;
+  const spectating = !!state.spectator;
+  const isMyTurn = !spectating && state.peggingTurn === myNum;
+  const amDealer = !spectating && state.dealer === myNum;
   const isGameOver = state.phase === 'finished';
 
+  // "Your" / "Opponent's", or seat numbers for spectators
+  const handOwner = (num: 1 | 2) => (spectating ? `Player ${num}'s` : num === myNum ? 'Your' : "Opponent's");
+
   // Discarding logic
-  const canDiscard = state.phase === 'discarding' && !state.discarded[myNum];
+  const canDiscard = !spectating && state.phase === 'discarding' && !state.discarded[myNum];
 
   const toggleCardSelection = useCallback(
     (idx: number) => {
@@ -456,15 +465,12 @@ export function CribbageBoard({ gameState, playerId, onMove, onQuit }: CribbageB
 
   const handleDiscard = useCallback(() => {
     if (selectedCards.length !== 2) return;
-    onMove(
-      { row: selectedCards[0], col: selectedCards[1] },
-      { row: 0, col: 0 },
-    );
+    onMove({ type: 'discard', cards: [selectedCards[0], selectedCards[1]] });
     setSelectedCards([]);
   }, [selectedCards, onMove]);
 
   // Pegging logic
-  const myPeggingHand = state.myPeggingHand || [];
+  const myPeggingHand = spectating ? [] : ((state.myPeggingHand || []) as Card[]);
 
   const canPlayCard = useCallback(
     (card: Card): boolean => {
@@ -487,27 +493,27 @@ export function CribbageBoard({ gameState, playerId, onMove, onQuit }: CribbageB
       if (state.phase !== 'pegging' || !isMyTurn) return;
       const card = myPeggingHand[idx];
       if (!card || !canPlayCard(card)) return;
-      onMove({ row: idx, col: 0 }, { row: 0, col: 0 });
+      onMove({ type: 'play', card: idx });
     },
     [state.phase, isMyTurn, myPeggingHand, canPlayCard, onMove],
   );
 
   const handleGo = useCallback(() => {
-    onMove({ row: -1, col: 0 }, { row: 0, col: 0 });
+    onMove({ type: 'go' });
   }, [onMove]);
 
   // Counting logic
   const handleCountingContinue = useCallback(() => {
-    onMove({ row: 0, col: 0 }, { row: 0, col: 0 });
+    onMove({ type: 'acknowledge' });
   }, [onMove]);
 
   const isMyCountingTurn = useMemo(() => {
-    if (state.phase !== 'counting') return false;
+    if (spectating || state.phase !== 'counting') return false;
     const nd = state.dealer === 1 ? 2 : 1;
     if (state.countingPhaseStep === 0) return myNum === nd;
     if (state.countingPhaseStep === 1 || state.countingPhaseStep === 2) return myNum === state.dealer;
     return false;
-  }, [state.phase, state.countingPhaseStep, state.dealer, myNum]);
+  }, [spectating, state.phase, state.countingPhaseStep, state.dealer, myNum]);
 
   // Phase description
   const phaseLabel = useMemo(() => {
@@ -515,9 +521,11 @@ export function CribbageBoard({ gameState, playerId, onMove, onQuit }: CribbageB
       case 'dealing':
         return 'Dealing cards...';
       case 'discarding':
+        if (spectating) return 'Players are choosing cards for the crib';
         if (state.discarded[myNum]) return 'Waiting for opponent to discard...';
         return 'Select 2 cards to send to the crib';
       case 'pegging': {
+        if (spectating) return `Player ${state.peggingTurn} to play`;
         if (isMyTurn) {
           if (showGoButton) return "You can't play -- say Go";
           return 'Your turn to play a card';
@@ -527,12 +535,10 @@ export function CribbageBoard({ gameState, playerId, onMove, onQuit }: CribbageB
       case 'counting': {
         const nd = state.dealer === 1 ? 2 : 1;
         if (state.countingPhaseStep === 0) {
-          const label = nd === myNum ? 'Your' : "Opponent's";
-          return `Counting ${label} hand (non-dealer)`;
+          return `Counting ${handOwner(nd)} hand (non-dealer)`;
         }
         if (state.countingPhaseStep === 1) {
-          const label = state.dealer === myNum ? 'Your' : "Opponent's";
-          return `Counting ${label} hand (dealer)`;
+          return `Counting ${handOwner(state.dealer)} hand (dealer)`;
         }
         return 'Counting the crib';
       }
@@ -541,7 +547,8 @@ export function CribbageBoard({ gameState, playerId, onMove, onQuit }: CribbageB
       default:
         return '';
     }
-  }, [state.phase, state.discarded, myNum, isMyTurn, showGoButton, state.dealer, state.countingPhaseStep]);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [spectating, state.phase, state.peggingTurn, state.discarded, myNum, isMyTurn, showGoButton, state.dealer, state.countingPhaseStep]);
 
   // Which hand is being shown during counting
   const countingDisplayHand = useMemo((): Card[] | null => {
@@ -554,15 +561,15 @@ export function CribbageBoard({ gameState, playerId, onMove, onQuit }: CribbageB
   }, [state.phase, state.countingPhaseStep, state.countingHands, state.dealer, state.crib]);
 
   // Determine which cards to show as "my hand"
-  const displayHand = useMemo((): Card[] => {
-    if (state.phase === 'pegging') return myPeggingHand;
+  const displayHand = useMemo((): (Card | null)[] => {
+    if (state.phase === 'pegging') return spectating ? state.myPeggingHand || [] : myPeggingHand;
     if (state.phase === 'discarding') return state.myHand;
     if (state.phase === 'counting' || state.phase === 'finished') {
       if (state.countingHands) return state.countingHands[myNum];
       return state.myHand;
     }
     return state.myHand;
-  }, [state.phase, state.myHand, myPeggingHand, state.countingHands, myNum]);
+  }, [spectating, state.phase, state.myHand, state.myPeggingHand, myPeggingHand, state.countingHands, myNum]);
 
   // Opponent display hand
   const oppDisplayHand = useMemo((): (Card | null)[] => {
@@ -590,7 +597,7 @@ export function CribbageBoard({ gameState, playerId, onMove, onQuit }: CribbageB
           </span>
           <span className="text-wood-600 text-xs">|</span>
           <span className="text-wood-400 text-xs">
-            {amDealer ? 'You are dealer' : 'Opponent is dealer'}
+            {spectating ? `Player ${state.dealer} is dealer` : amDealer ? 'You are dealer' : 'Opponent is dealer'}
           </span>
         </div>
       </div>
@@ -613,7 +620,7 @@ export function CribbageBoard({ gameState, playerId, onMove, onQuit }: CribbageB
         {/* Opponent's Hand */}
         <div className="flex flex-col items-center gap-1">
           <span className="text-green-200/60 text-xs font-medium uppercase tracking-wide">
-            Opponent {state.dealer === oppNum ? '(Dealer)' : ''}
+            {spectating ? 'Player 2' : 'Opponent'} {state.dealer === oppNum ? '(Dealer)' : ''}
           </span>
           <div className="flex items-center justify-center gap-1 flex-wrap">
             {oppDisplayHand.map((card, idx) => (
@@ -717,9 +724,9 @@ export function CribbageBoard({ gameState, playerId, onMove, onQuit }: CribbageB
           <div className="flex flex-col items-center gap-2 bg-green-900/40 rounded-xl p-3 border border-green-700/40">
             <span className="text-green-200/80 text-xs font-medium uppercase tracking-wide">
               {state.countingPhaseStep === 0
-                ? (state.dealer === myNum ? "Opponent's Hand" : 'Your Hand')
+                ? `${handOwner(state.dealer === 1 ? 2 : 1)} Hand`
                 : state.countingPhaseStep === 1
-                  ? (state.dealer === myNum ? 'Your Hand' : "Opponent's Hand")
+                  ? `${handOwner(state.dealer)} Hand`
                   : 'The Crib'}
             </span>
             <div className="flex items-center gap-1 flex-wrap justify-center">
@@ -751,10 +758,17 @@ export function CribbageBoard({ gameState, playerId, onMove, onQuit }: CribbageB
         {/* My Hand */}
         <div className="flex flex-col items-center gap-2">
           <span className="text-green-200/60 text-xs font-medium uppercase tracking-wide">
-            Your Hand {amDealer ? '(Dealer)' : ''}
+            {spectating ? 'Player 1' : 'Your Hand'} {state.dealer === myNum ? '(Dealer)' : ''}
           </span>
           <div className="flex items-center justify-center gap-1.5 flex-wrap">
             {displayHand.map((card, idx) => {
+              if (!card) {
+                return (
+                  <div key={`my-${idx}`}>
+                    <CardBack size="normal" />
+                  </div>
+                );
+              }
               const isSelected = selectedCards.includes(idx);
               const canPlay = state.phase === 'pegging' && isMyTurn && canPlayCard(card);
               const cantPlay = state.phase === 'pegging' && isMyTurn && !canPlayCard(card);
@@ -802,7 +816,7 @@ export function CribbageBoard({ gameState, playerId, onMove, onQuit }: CribbageB
             )}
 
             {/* Waiting indicator after discarding */}
-            {state.phase === 'discarding' && state.discarded[myNum] && (
+            {!spectating && state.phase === 'discarding' && state.discarded[myNum] && (
               <span className="text-green-300/60 text-sm animate-pulse">
                 Waiting for opponent...
               </span>
@@ -826,19 +840,16 @@ export function CribbageBoard({ gameState, playerId, onMove, onQuit }: CribbageB
         <div className="text-center">
           <div className="text-yellow-400 font-bold text-lg">{state.winReason}</div>
           <div className="text-cream-200 text-sm mt-1">
-            Final Score: You {state.scores[myNum]} - Opponent {state.scores[oppNum]}
+            {spectating
+              ? `Final Score: Player 1 ${state.scores[1]} - Player 2 ${state.scores[2]}`
+              : `Final Score: You ${state.scores[myNum]} - Opponent ${state.scores[oppNum]}`}
           </div>
         </div>
       )}
 
       {/* Quit Button */}
       <div className="flex items-center gap-6">
-        <button
-          onClick={onQuit}
-          className="px-4 py-1.5 text-sm rounded-lg bg-wood-800 hover:bg-wood-700 text-red-400 border border-wood-600 transition-colors"
-        >
-          Quit Game
-        </button>
+        <GameActions onQuit={onQuit} onResign={onResign} onOfferDraw={onOfferDraw} />
       </div>
     </div>
   );
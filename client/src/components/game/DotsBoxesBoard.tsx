@@ -1,7 +1,8 @@
 'use client';
 
 import { useState, useCallback, useMemo } from 'react';
-import { Position } from '@/lib/types';
+import { Position, DotsBoxesMove } from '@/lib/types';
+import { GameActions } from './GameActions';
 
 type DotsBoxesColor = 'red' | 'blue';
 
@@ -21,8 +22,10 @@ interface DotsBoxesState {
 interface DotsBoxesBoardProps {
   gameState: DotsBoxesState;
   playerId: string;
-  onMove: (from: Position, to: Position) => void;
+  onMove: (move: DotsBoxesMove) => void;
   onQuit: () => void;
+  onResign?: () => void;
+  onOfferDraw?: () => void;
 }
 
 /**
@@ -36,7 +39,7 @@ function normalizeLineKey(from: Position, to: Position): string {
   return `${to.row},${to.col}-${from.row},${from.col}`;
 }
 
-export function DotsBoxesBoard({ gameState, playerId, onMove, onQuit }: DotsBoxesBoardProps) {
+export function DotsBoxesBoard({ gameState, playerId, onMove, onQuit, onResign, onOfferDraw }: DotsBoxesBoardProps) {
   const [hoveredLine, setHoveredLine] = useState<string | null>(null);
 
   const gridSize: number = gameState.gridSize ?? 5;
@@ -66,7 +69,7 @@ export function DotsBoxesBoard({ gameState, playerId, onMove, onQuit }: DotsBoxe
       if (!canInteract) return;
       const key = normalizeLineKey(from, to);
       if (lineSet.has(key)) return;
-      onMove(from, to);
+      onMove({ type: 'line', from, to });
     },
     [canInteract, lineSet, onMove],
   );
@@ -313,12 +316,7 @@ export function DotsBoxesBoard({ gameState, playerId, onMove, onQuit }: DotsBoxe
             </span>
           </div>
         )}
-        <button
-          onClick={onQuit}
-          className="px-4 py-1.5 text-sm rounded-lg bg-wood-800 hover:bg-wood-700 text-red-400 border border-wood-600 transition-colors"
-        >
-          Quit Game
-        </button>
+        <GameActions onQuit={onQuit} onResign={onResign} onOfferDraw={onOfferDraw} />
       </div>
     </div>
   );
@@ -0,0 +1,61 @@
+'use client';
+
+import { useState } from 'react';
+
+interface GameActionsProps {
+  onQuit: () => void;
+  onResign?: () => void; // omitted once the game is over
+  onOfferDraw?: () => void;
+  onClaimDraw?: () => void; // only while the game allows a draw claim
+}
+
+const buttonClass =
+  'px-4 py-1.5 text-sm rounded-lg bg-wood-800 hover:bg-wood-700 border border-wood-600 transition-colors';
+
+// Resign / offer draw / quit controls shown under every board
+export function GameActions({ onQuit, onResign, onOfferDraw, onClaimDraw }: GameActionsProps) {
+  const [confirmResign, setConfirmResign] = useState(false);
+
+  if (confirmResign && onResign) {
+    return (
+      <div className="flex items-center gap-2">
+        <span className="text-sm text-cream-200">Resign this game?</span>
+        <button
+          onClick={() => {
+            setConfirmResign(false);
+            onResign();
+          }}
+          className={`${buttonClass} text-red-400`}
+        >
+          Yes, resign
+        </button>
+        <button onClick={() => setConfirmResign(false)} className={`${buttonClass} text-cream-200`}>
+          Cancel
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex items-center gap-2">
+      {onClaimDraw && (
+        <button onClick={onClaimDraw} className={`${buttonClass} text-yellow-300`}>
+          Claim Draw
+        </button>
+      )}
+      {onOfferDraw && (
+        <button onClick={onOfferDraw} className={`${buttonClass} text-cream-200`}>
+          Offer Draw
+        </button>
+      )}
+      {onResign && (
+        <button onClick={() => setConfirmResign(true)} className={`${buttonClass} text-amber-300`}>
+          Resign
+        </button>
+      )}
+      <button onClick={onQuit} className={`${buttonClass} text-red-400`}>
+        Quit Game
+      </button>
+    </div>
+  );
+}
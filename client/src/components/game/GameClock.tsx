@@ -0,0 +1,65 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { ClockView, PlayerInfo } from '@/lib/types';
+
+interface GameClockProps {
+  clock: ClockView;
+  players: PlayerInfo[];
+  playerId: string;
+}
+
+function formatTime(ms: number): string {
+  const totalSeconds = Math.max(0, Math.ceil(ms / 1000));
+  const days = Math.floor(totalSeconds / 86_400);
+  const hours = Math.floor((totalSeconds % 86_400) / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  if (days > 0) return `${days}d ${hours}h`;
+  if (hours > 0) return `${hours}:${String(minutes).padStart(2, '0')}:${String(seconds).padStart(2, '0')}`;
+  return `${minutes}:${String(seconds).padStart(2, '0')}`;
+}
+
+// Counts running clocks down locally; every game:state resyncs with the server
+export function GameClock({ clock, players, playerId }: GameClockProps) {
+  const [receivedAt, setReceivedAt] = useState(() => Date.now());
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    setReceivedAt(Date.now());
+    setNow(Date.now());
+  }, [clock]);
+
+  useEffect(() => {
+    if (clock.active.length === 0) return;
+    const timer = setInterval(() => setNow(Date.now()), 250);
+    return () => clearInterval(timer);
+  }, [clock]);
+
+  // Show yourself on the right, like the other board components
+  const ordered = [...players].sort((a, b) => (a.id === playerId ? 1 : b.id === playerId ? -1 : 0));
+
+  return (
+    <div className="flex justify-center gap-3 mb-3">
+      {ordered.map(p => {
+        const running = clock.active.includes(p.id);
+        const remaining = (clock.remainingMs[p.id] ?? 0) - (running ? now - receivedAt : 0);
+        const low = running && remaining < 10_000;
+        return (
+          <div
+            key={p.id}
+            className={`
+              flex items-center gap-3 rounded-lg border px-4 py-2 transition-colors
+              ${running ? 'bg-wood-700/70 border-yellow-500' : 'bg-wood-900/60 border-wood-700'}
+            `}
+          >
+            <span className="text-sm text-cream-200">{p.id === playerId ? 'You' : p.name}</span>
+            <span className={`font-mono text-lg font-bold ${low ? 'text-red-400' : 'text-cream-50'}`}>
+              {formatTime(remaining)}
+            </span>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
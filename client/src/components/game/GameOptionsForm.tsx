@@ -0,0 +1,105 @@
+'use client';
+
+import { GameOptionSchema, GameOptions } from '@/lib/types';
+import { Input } from '@/components/ui/Input';
+
+interface GameOptionsFormProps {
+  schema: GameOptionSchema[];
+  values: GameOptions;
+  onChange: (values: GameOptions) => void;
+}
+
+// Renders the room options a game declares in the server registry
+export function GameOptionsForm({ schema, values, onChange }: GameOptionsFormProps) {
+  if (schema.length === 0) return null;
+
+  const set = (key: string, value: string | number | boolean) => {
+    onChange({ ...values, [key]: value });
+  };
+
+  return (
+    <div className="space-y-4 mb-6">
+      {schema.map(option => {
+        const id = `option-${option.key}`;
+        const value = values[option.key] ?? option.default;
+
+        switch (option.type) {
+          case 'select':
+            return (
+              <div key={option.key} className="w-full">
+                <label htmlFor={id} className="block text-sm font-medium text-cream-200 mb-1.5">
+                  {option.label}
+                </label>
+                <select
+                  id={id}
+                  value={String(value)}
+                  onChange={e => set(option.key, e.target.value)}
+                  className="w-full px-4 py-2.5 rounded-lg bg-wood-900 border border-wood-700 text-cream-100 focus:outline-none focus:ring-2 focus:ring-wood-400"
+                >
+                  {option.choices.map(choice => (
+                    <option key={choice.value} value={choice.value}>
+                      {choice.label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            );
+          case 'number':
+            return (
+              <Input
+                key={option.key}
+                id={id}
+                type="number"
+                label={option.label}
+                min={option.min}
+                max={option.max}
+                value={Number(value)}
+                onChange={e => set(option.key, Number(e.target.value))}
+              />
+            );
+          case 'boolean':
+            return (
+              <label key={option.key} htmlFor={id} className="flex items-center gap-2 text-sm text-cream-200">
+                <input
+                  id={id}
+                  type="checkbox"
+                  checked={Boolean(value)}
+                  onChange={e => set(option.key, e.target.checked)}
+                  className="accent-yellow-500"
+                />
+                {option.label}
+              </label>
+            );
+          case 'text':
+            if (option.multiline) {
+              return (
+                <div key={option.key} className="w-full">
+                  <label htmlFor={id} className="block text-sm font-medium text-cream-200 mb-1.5">
+                    {option.label}
+                  </label>
+                  <textarea
+                    id={id}
+                    rows={4}
+                    maxLength={option.maxLength}
+                    value={String(value)}
+                    onChange={e => set(option.key, e.target.value)}
+                    className="w-full px-4 py-2.5 rounded-lg bg-wood-900 border border-wood-700 text-cream-100 font-mono text-xs focus:outline-none focus:ring-2 focus:ring-wood-400"
+                  />
+                </div>
+              );
+            }
+            return (
+              <Input
+                key={option.key}
+                id={id}
+                label={option.label}
+                maxLength={option.maxLength}
+                value={String(value)}
+                onChange={e => set(option.key, e.target.value)}
+              />
+            );
+        }
+      })}
+    </div>
+  );
+}
@@ -4,18 +4,28 @@ import { useState } from 'react';
 import { Modal } from '@/components/ui/Modal';
 import { Button } from '@/components/ui/Button';
 import { GameIcon } from '@/components/ui/GameIcons';
-import { GAMES } from '@/lib/games';
+import { useGames } from '@/hooks/useGames';
+import { RatingChange } from '@/lib/types';
 
 interface GameOverModalProps {
   open: boolean;
   winnerName: string;
   reason: string;
   isWinner: boolean;
+  isDraw?: boolean;
+  isSpectator?: boolean;
   onPlayAgain: () => void;
   onLeave: () => void;
   onSwitchGame?: (gameType: string) => void;
   currentGameType?: string;
   isCreator?: boolean;
+  exportFormat?: string; // e.g. 'SGF'; omitted for games without an export
+  onExport?: () => void;
+  onReview?: () => void; // omitted for games without a move list
+  replayId?: string;
+  ratingChange?: RatingChange; // this player's, after a rated game
+  matchResult?: string; // the series score, in match play
+  matchInProgress?: boolean; // the next game continues the series
 }
 
 export function GameOverModal({
@@ -23,13 +33,23 @@ export function GameOverModal({
   winnerName,
   reason,
   isWinner,
+  isDraw,
+  isSpectator,
   onPlayAgain,
   onLeave,
   onSwitchGame,
   currentGameType,
   isCreator,
+  exportFormat,
+  onExport,
+  onReview,
+  replayId,
+  ratingChange,
+  matchResult,
+  matchInProgress,
 }: GameOverModalProps) {
   const [showPicker, setShowPicker] = useState(false);
+  const { games } = useGames();
 
   if (showPicker && onSwitchGame) {
     return (
@@ -37,7 +57,7 @@ export function GameOverModal({
         <div className="text-center">
           <h2 className="text-xl font-bold text-cream-100 mb-4">Choose a Game</h2>
           <div className="grid grid-cols-3 gap-2 mb-4 max-h-[60vh] overflow-y-auto">
-            {GAMES.filter(g => g.available).map(game => (
+            {games.map(game => (
               <button
                 key={game.id}
                 onClick={() => {
@@ -72,14 +92,26 @@ export function GameOverModal({
   return (
     <Modal open={open}>
       <div className="text-center">
-        <div className="text-5xl mb-4">{isWinner ? '🎉' : '😔'}</div>
+        <div className="text-5xl mb-4">{isDraw ? '🤝' : isSpectator ? '🏁' : isWinner ? '🎉' : '😔'}</div>
         <h2 className="text-2xl font-bold text-cream-100 mb-2">
-          {isWinner ? 'You Win!' : 'You Lose'}
+          {isDraw ? 'Draw' : isSpectator ? 'Game Over' : isWinner ? 'You Win!' : 'You Lose'}
         </h2>
-        <p className="text-cream-200 mb-1">{winnerName} wins!</p>
-        <p className="text-wood-400 text-sm mb-8">{reason}</p>
+        {!isDraw && <p className="text-cream-200 mb-1">{winnerName} wins!</p>}
+        <p className={`text-wood-400 text-sm ${ratingChange || matchResult ? 'mb-3' : 'mb-8'}`}>{reason}</p>
+        {matchResult && (
+          <p className={`text-cream-100 font-medium ${ratingChange ? 'mb-3' : 'mb-8'}`}>{matchResult}</p>
+        )}
+        {ratingChange && (
+          <p className="text-cream-200 text-sm mb-8">
+            Rating: {ratingChange.rating}{' '}
+            <span className={ratingChange.change >= 0 ? 'text-green-400' : 'text-red-400'}>
+              ({ratingChange.change >= 0 ? '+' : ''}
+              {ratingChange.change})
+            </span>
+          </p>
+        )}
         <div className="flex gap-3 justify-center flex-wrap">
-          {isCreator && <Button onClick={onPlayAgain}>Play Again</Button>}
+          {isCreator && <Button onClick={onPlayAgain}>{matchInProgress ? 'Next Game' : 'Play Again'}</Button>}
           {isCreator && onSwitchGame && (
             <Button variant="secondary" onClick={() => setShowPicker(true)}>
               Different Game
@@ -88,6 +120,22 @@ export function GameOverModal({
           {!isCreator && (
             <p className="text-wood-400 text-sm mb-2">Waiting for host to start next game...</p>
           )}
+          {replayId && (
+            // New tab, so watching the replay doesn't take you out of the room
+            <Button variant="secondary" onClick={() => window.open(`/replay/${replayId}`, '_blank')}>
+              Watch Replay
+            </Button>
+          )}
+          {onReview && (
+            <Button variant="secondary" onClick={onReview}>
+              Review Moves
+            </Button>
+          )}
+          {exportFormat && onExport && (
+            <Button variant="secondary" onClick={onExport}>
+              Download {exportFormat}
+            </Button>
+          )}
           <Button variant="ghost" onClick={onLeave}>
             Leave
           </Button>
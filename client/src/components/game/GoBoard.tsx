@@ -1,7 +1,8 @@
 'use client';
 
 import { useState, useCallback, useMemo } from 'react';
-import { Position } from '@/lib/types';
+import { Position, GoMove } from '@/lib/types';
+import { GameActions } from './GameActions';
 
 type GoColor = 'black' | 'white';
 
@@ -16,13 +17,16 @@ interface GoState {
   score: { black: number; white: number } | null;
   lastMove: Position | null;
   moveCount: number;
+  komi: number;
 }
 
 interface GoBoardProps {
   gameState: GoState;
   playerId: string;
-  onMove: (from: { row: number; col: number }, to: { row: number; col: number }) => void;
+  onMove: (move: GoMove) => void;
   onQuit: () => void;
+  onResign?: () => void;
+  onOfferDraw?: () => void;
 }
 
 const BOARD_SIZE = 9;
@@ -38,7 +42,7 @@ const STAR_POINTS: Position[] = [
 
 const starPointSet = new Set(STAR_POINTS.map(p => `${p.row}-${p.col}`));
 
-export function GoBoard({ gameState, playerId, onMove, onQuit }: GoBoardProps) {
+export function GoBoard({ gameState, playerId, onMove, onQuit, onResign, onOfferDraw }: GoBoardProps) {
   const [hoveredCell, setHoveredCell] = useState<Position | null>(null);
 
   const state = gameState as GoState;
@@ -59,14 +63,14 @@ export function GoBoard({ gameState, playerId, onMove, onQuit }: GoBoardProps) {
     (row: number, col: number) => {
       if (!canInteract) return;
       if (state.board[row][col] !== null) return;
-      onMove({ row: 0, col: 0 }, { row, col });
+      onMove({ type: 'place', position: { row, col } });
     },
     [canInteract, state.board, onMove],
   );
 
   const handlePass = useCallback(() => {
     if (!canInteract) return;
-    onMove({ row: 0, col: 0 }, { row: -1, col: -1 });
+    onMove({ type: 'pass' });
   }, [canInteract, onMove]);
 
   const isLastMove = useCallback(
@@ -299,7 +303,7 @@ export function GoBoard({ gameState, playerId, onMove, onQuit }: GoBoardProps) {
           </div>
           <div className="flex items-center gap-2">
             <div className="w-3 h-3 rounded-full bg-gradient-to-br from-white to-gray-200 border border-gray-400" />
-            <span className="text-cream-200">White: {state.score.white} (incl. 6.5 komi)</span>
+            <span className="text-cream-200">White: {state.score.white} (incl. {state.komi} komi)</span>
           </div>
         </div>
       )}
@@ -343,12 +347,7 @@ export function GoBoard({ gameState, playerId, onMove, onQuit }: GoBoardProps) {
           </div>
         )}
 
-        <button
-          onClick={onQuit}
-          className="px-4 py-1.5 text-sm rounded-lg bg-wood-800 hover:bg-wood-700 text-red-400 border border-wood-600 transition-colors"
-        >
-          Quit Game
-        </button>
+        <GameActions onQuit={onQuit} onResign={onResign} onOfferDraw={onOfferDraw} />
       </div>
 
       {/* Move count */}
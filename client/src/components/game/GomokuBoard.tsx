@@ -1,7 +1,8 @@
 'use client';
 
 import { useState, useCallback, useMemo } from 'react';
-import { Position } from '@/lib/types';
+import { Position, PlaceMove } from '@/lib/types';
+import { GameActions } from './GameActions';
 
 type GomokuColor = 'black' | 'white';
 
@@ -19,8 +20,10 @@ interface GomokuState {
 interface GomokuBoardProps {
   gameState: GomokuState;
   playerId: string;
-  onMove: (from: Position, to: Position) => void;
+  onMove: (move: PlaceMove) => void;
   onQuit: () => void;
+  onResign?: () => void;
+  onOfferDraw?: () => void;
 }
 
 const BOARD_SIZE = 15;
@@ -40,7 +43,7 @@ const STAR_POINTS: Position[] = [
 
 const starPointSet = new Set(STAR_POINTS.map(p => `${p.row}-${p.col}`));
 
-export function GomokuBoard({ gameState, playerId, onMove, onQuit }: GomokuBoardProps) {
+export function GomokuBoard({ gameState, playerId, onMove, onQuit, onResign, onOfferDraw }: GomokuBoardProps) {
   const [hoveredCell, setHoveredCell] = useState<Position | null>(null);
 
   const state = gameState as GomokuState;
@@ -69,7 +72,7 @@ export function GomokuBoard({ gameState, playerId, onMove, onQuit }: GomokuBoard
     (row: number, col: number) => {
       if (!canInteract) return;
       if (state.board[row][col] !== null) return;
-      onMove({ row: 0, col: 0 }, { row, col });
+      onMove({ type: 'place', position: { row, col } });
     },
     [canInteract, state.board, onMove],
   );
@@ -290,12 +293,7 @@ export function GomokuBoard({ gameState, playerId, onMove, onQuit }: GomokuBoard
             </span>
           </div>
         )}
-        <button
-          onClick={onQuit}
-          className="px-4 py-1.5 text-sm rounded-lg bg-wood-800 hover:bg-wood-700 text-red-400 border border-wood-600 transition-colors"
-        >
-          Quit Game
-        </button>
+        <GameActions onQuit={onQuit} onResign={onResign} onOfferDraw={onOfferDraw} />
       </div>
     </div>
   );
@@ -1,7 +1,8 @@
 'use client';
 
 import { useMemo, useCallback } from 'react';
-import { Position } from '@/lib/types';
+import { MancalaMove } from '@/lib/types';
+import { GameActions } from './GameActions';
 
 type MancalaSide = 'top' | 'bottom';
 
@@ -18,13 +19,15 @@ interface MancalaState {
 interface MancalaBoardProps {
   gameState: MancalaState;
   playerId: string;
-  onMove: (from: Position, to: Position) => void;
+  onMove: (move: MancalaMove) => void;
   onQuit: () => void;
+  onResign?: () => void;
+  onOfferDraw?: () => void;
 }
 
 const NUM_PITS = 6;
 
-export function MancalaBoard({ gameState, playerId, onMove, onQuit }: MancalaBoardProps) {
+export function MancalaBoard({ gameState, playerId, onMove, onQuit, onResign, onOfferDraw }: MancalaBoardProps) {
   const mySide: MancalaSide | null = useMemo(() => {
     if (gameState.players.top === playerId) return 'top';
     if (gameState.players.bottom === playerId) return 'bottom';
@@ -94,7 +97,7 @@ export function MancalaBoard({ gameState, playerId, onMove, onQuit }: MancalaBoa
       const actualSideIndex = visualBottomRowSideIndex;
       const actualPitIndex = visualCol;
       if (gameState.pits[actualSideIndex][actualPitIndex] === 0) return;
-      onMove({ row: 0, col: 0 }, { row: actualSideIndex, col: actualPitIndex });
+      onMove({ type: 'sow', pit: actualPitIndex });
     },
     [canInteract, visualBottomRowSideIndex, gameState.pits, onMove],
   );
@@ -266,12 +269,7 @@ export function MancalaBoard({ gameState, playerId, onMove, onQuit }: MancalaBoa
         </div>
       </div>
 
-      <button
-        onClick={onQuit}
-        className="px-4 py-1.5 text-sm rounded-lg bg-wood-800 hover:bg-wood-700 text-red-400 border border-wood-600 transition-colors"
-      >
-        Quit Game
-      </button>
+      <GameActions onQuit={onQuit} onResign={onResign} onOfferDraw={onOfferDraw} />
     </div>
   );
 }
@@ -0,0 +1,95 @@
+'use client';
+
+import { useState } from 'react';
+import { GameInfo, GameType, MatchFormat } from '@/lib/types';
+
+type Kind = 'single' | '3' | '5' | '7' | 'decathlon';
+
+interface MatchFormatFormProps {
+  gameType: GameType; // the room's game, which opens a decathlon
+  games: GameInfo[];
+  onChange: (format: MatchFormat | null) => void;
+}
+
+const KINDS: { value: Kind; label: string }[] = [
+  { value: 'single', label: 'Single games' },
+  { value: '3', label: 'Best of 3' },
+  { value: '5', label: 'Best of 5' },
+  { value: '7', label: 'Best of 7' },
+  { value: 'decathlon', label: 'Decathlon (one game of each)' },
+];
+
+function build(kind: Kind, gameTypes: GameType[]): MatchFormat | null {
+  switch (kind) {
+    case 'single':
+      return null;
+    case 'decathlon':
+      return { type: 'decathlon', gameTypes };
+    default:
+      return { type: 'best-of', games: Number(kind) as 3 | 5 | 7 };
+  }
+}
+
+export function MatchFormatForm({ gameType, games, onChange }: MatchFormatFormProps) {
+  const [kind, setKind] = useState<Kind>('single');
+  const [extraGames, setExtraGames] = useState<GameType[]>([]);
+
+  const update = (nextKind: Kind, nextExtra: GameType[]) => {
+    setKind(nextKind);
+    setExtraGames(nextExtra);
+    onChange(build(nextKind, [gameType, ...nextExtra]));
+  };
+
+  const toggle = (id: GameType) =>
+    update(kind, extraGames.includes(id) ? extraGames.filter(g => g !== id) : [...extraGames, id]);
+
+  const roomGame = games.find(g => g.id === gameType);
+
+  return (
+    <div className="space-y-3 mb-6">
+      <div className="w-full">
+        <label htmlFor="match-format" className="block text-sm font-medium text-cream-200 mb-1.5">
+          Match
+        </label>
+        <select
+          id="match-format"
+          value={kind}
+          onChange={e => update(e.target.value as Kind, extraGames)}
+          className="w-full px-4 py-2.5 rounded-lg bg-wood-900 border border-wood-700 text-cream-100 focus:outline-none focus:ring-2 focus:ring-wood-400"
+        >
+          {KINDS.map(k => (
+            <option key={k.value} value={k.value}>
+              {k.label}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {kind === 'decathlon' && (
+        <div>
+          <p className="text-wood-400 text-xs mb-2">
+            Starts with {roomGame?.name ?? gameType}, then the games below in the order you tick them.
+          </p>
+          <div className="grid grid-cols-2 gap-1">
+            {games
+              .filter(g => g.id !== gameType)
+              .map(g => (
+                <label key={g.id} className="flex items-center gap-2 text-sm text-cream-200 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={extraGames.includes(g.id)}
+                    onChange={() => toggle(g.id)}
+                    className="accent-wood-400"
+                  />
+                  {g.name}
+                  {extraGames.includes(g.id) && (
+                    <span className="text-wood-400 text-xs">#{extraGames.indexOf(g.id) + 2}</span>
+                  )}
+                </label>
+              ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
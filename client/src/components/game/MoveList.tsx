@@ -0,0 +1,119 @@
+'use client';
+
+import { useState } from 'react';
+import { AnnotationGlyph, MoveListEntry } from '@/lib/types';
+import { Button } from '@/components/ui/Button';
+
+const GLYPHS: AnnotationGlyph[] = ['!!', '!', '?', '??'];
+const MAX_COMMENT_LENGTH = 500;
+
+const GLYPH_COLORS: Record<AnnotationGlyph, string> = {
+  '!!': 'text-teal-300',
+  '!': 'text-green-400',
+  '?': 'text-amber-400',
+  '??': 'text-red-400',
+};
+
+interface MoveListProps {
+  moves: MoveListEntry[] | null; // null while the list is on its way
+  onAnnotate?: (index: number, glyph: AnnotationGlyph | null, comment: string) => void; // omitted for spectators
+  onClose: () => void;
+}
+
+export function MoveList({ moves, onAnnotate, onClose }: MoveListProps) {
+  const [selected, setSelected] = useState<number | null>(null);
+  const [glyph, setGlyph] = useState<AnnotationGlyph | null>(null);
+  const [comment, setComment] = useState('');
+
+  const select = (index: number) => {
+    const annotation = moves?.[index]?.annotation;
+    setSelected(index);
+    setGlyph(annotation?.glyph ?? null);
+    setComment(annotation?.comment ?? '');
+  };
+
+  const save = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (selected === null || !onAnnotate) return;
+    onAnnotate(selected, glyph, comment.trim());
+    setSelected(null);
+  };
+
+  return (
+    <div className="flex flex-col bg-wood-900/80 border border-wood-700 rounded-xl overflow-hidden mb-4">
+      {/* Header */}
+      <div className="flex items-center justify-between px-4 py-3 bg-wood-800 border-b border-wood-700">
+        <span className="text-cream-100 font-medium">Moves</span>
+        <button onClick={onClose} className="text-wood-400 hover:text-cream-100 text-sm transition-colors">
+          Results
+        </button>
+      </div>
+
+      {/* Moves, with their annotations */}
+      <ol className="overflow-y-auto p-3 space-y-1 max-h-[400px]">
+        {moves === null && <li className="text-wood-500 text-sm text-center py-4">Loading moves...</li>}
+        {moves?.length === 0 && <li className="text-wood-500 text-sm text-center py-4">No moves were played</li>}
+        {moves?.map((move, i) => (
+          <li key={i}>
+            <button
+              onClick={() => onAnnotate && select(i)}
+              disabled={!onAnnotate}
+              className={`
+                w-full text-left rounded px-2 py-1 text-sm transition-colors
+                ${selected === i ? 'bg-wood-700' : onAnnotate ? 'hover:bg-wood-800' : 'cursor-default'}
+              `}
+            >
+              <span className="font-mono text-wood-500 inline-block w-8">{i + 1}.</span>
+              <span className="text-cream-100 font-medium">{move.label}</span>
+              {move.annotation?.glyph && (
+                <span className={`ml-0.5 font-bold ${GLYPH_COLORS[move.annotation.glyph]}`}>
+                  {move.annotation.glyph}
+                </span>
+              )}
+              {move.annotation?.comment && (
+                <span className="block pl-8 text-wood-300 text-xs italic break-words">{move.annotation.comment}</span>
+              )}
+            </button>
+          </li>
+        ))}
+      </ol>
+
+      {/* Editor for the selected move */}
+      {onAnnotate && selected !== null && moves?.[selected] && (
+        <form onSubmit={save} className="p-3 border-t border-wood-700 space-y-2">
+          <div className="flex gap-1">
+            {GLYPHS.map(g => (
+              <button
+                key={g}
+                type="button"
+                onClick={() => setGlyph(glyph === g ? null : g)}
+                className={`
+                  flex-1 rounded border px-2 py-1 text-sm font-bold transition-colors
+                  ${glyph === g ? `bg-wood-700 border-wood-500 ${GLYPH_COLORS[g]}` : 'border-wood-700 text-wood-400 hover:border-wood-500'}
+                `}
+              >
+                {g}
+              </button>
+            ))}
+          </div>
+          <textarea
+            value={comment}
+            onChange={e => setComment(e.target.value)}
+            maxLength={MAX_COMMENT_LENGTH}
+            rows={3}
+            placeholder={`Comment on ${moves[selected].label}`}
+            className="w-full px-3 py-2 rounded-lg bg-wood-950 border border-wood-700 text-cream-100 placeholder:text-wood-600 text-sm focus:outline-none focus:ring-1 focus:ring-wood-400"
+          />
+          <div className="flex gap-2 justify-end">
+            <Button type="button" variant="ghost" size="sm" onClick={() => setSelected(null)}>
+              Cancel
+            </Button>
+            <Button type="submit" size="sm">
+              Save
+            </Button>
+          </div>
+        </form>
+      )}
+    </div>
+  );
+}
@@ -1,7 +1,8 @@
 'use client';
 
 import { useState, useCallback, useMemo, useEffect, Fragment } from 'react';
-import { Position } from '@/lib/types';
+import { Position, NavalBattleMove } from '@/lib/types';
+import { GameActions } from './GameActions';
 
 // ---- Types matching server getState output ----
 
@@ -25,7 +26,8 @@ interface NavalBattleViewState {
     grid: OpponentCellState[][];
   };
   currentTurn: string;
-  myId: string;
+  myId: string; // for spectators: player 1, whose fleet is shown on the left
+  spectator?: boolean; // both fleets show hits and misses only
   winner: string | null;
   winReason: string | null;
   lastShot: {
@@ -39,8 +41,10 @@ interface NavalBattleViewState {
 interface NavalBattleBoardProps {
   gameState: NavalBattleViewState;
   playerId: string;
-  onMove: (from: Position, to: Position) => void;
+  onMove: (move: NavalBattleMove) => void;
   onQuit: () => void;
+  onResign?: () => void;
+  onOfferDraw?: () => void;
 }
 
 // ---- Constants ----
@@ -75,7 +79,7 @@ function ensureNavalAnimations() {
   document.head.appendChild(style);
 }
 
-export function NavalBattleBoard({ gameState, playerId, onMove, onQuit }: NavalBattleBoardProps) {
+export function NavalBattleBoard({ gameState, playerId, onMove, onQuit, onResign, onOfferDraw }: NavalBattleBoardProps) {
   const state = gameState as NavalBattleViewState;
 
   const [hoveredCell, setHoveredCell] = useState<Position | null>(null);
@@ -88,6 +92,7 @@ export function NavalBattleBoard({ gameState, playerId, onMove, onQuit }: NavalB
 
   const isMyTurn = state.currentTurn === playerId;
   const isGameOver = state.winner !== null;
+  const spectating = !!state.spectator;
 
   // Show shot feedback when lastShot changes
   useEffect(() => {
@@ -158,7 +163,7 @@ export function NavalBattleBoard({ gameState, playerId, onMove, onQuit }: NavalB
       const cell = state.opponentBoard.grid[row][col];
       if (cell === 'hit' || cell === 'miss') return;
 
-      onMove({ row: 0, col: 0 }, { row, col });
+      onMove({ type: 'fire', target: { row, col } });
     },
     [isMyTurn, isGameOver, state.opponentBoard.grid, onMove],
   );
@@ -383,9 +388,11 @@ export function NavalBattleBoard({ gameState, playerId, onMove, onQuit }: NavalB
         <span className="text-cream-100 font-medium text-lg">
           {isGameOver
             ? 'Game Over'
-            : isMyTurn
-              ? 'Your turn — fire at the enemy!'
-              : "Opponent's turn — stand by..."}
+            : spectating
+              ? `Player ${state.currentTurn === state.myId ? 1 : 2} is firing...`
+              : isMyTurn
+                ? 'Your turn — fire at the enemy!'
+                : "Opponent's turn — stand by..."}
         </span>
       </div>
 
@@ -406,22 +413,22 @@ export function NavalBattleBoard({ gameState, playerId, onMove, onQuit }: NavalB
       {/* Boards container: side by side on wide screens, stacked on mobile */}
       <div className="flex flex-col sm:flex-row items-center sm:items-start gap-4 sm:gap-6">
         {/* My Fleet */}
-        {renderGrid(renderMyCell, 'Your Fleet')}
+        {renderGrid(renderMyCell, spectating ? 'Player 1 Fleet' : 'Your Fleet')}
 
         {/* Enemy Waters */}
-        {renderGrid(renderEnemyCell, 'Enemy Waters')}
+        {renderGrid(renderEnemyCell, spectating ? 'Player 2 Fleet' : 'Enemy Waters')}
       </div>
 
       {/* Ship status panels */}
       <div className="flex flex-col sm:flex-row gap-4 sm:gap-10 mt-1">
-        {renderShipStatus(state.myBoard.ships, 'Your Ships')}
-        {renderShipStatus([], 'Enemy Ships', state.opponentShipsSunk)}
+        {renderShipStatus(state.myBoard.ships, spectating ? 'Player 1 Ships' : 'Your Ships')}
+        {renderShipStatus([], spectating ? 'Player 2 Ships' : 'Enemy Ships', state.opponentShipsSunk)}
       </div>
 
       {/* Score summary */}
       <div className="flex gap-6 text-sm text-cream-200">
-        <span>Your ships lost: {myShipsSunkCount}/5</span>
-        <span>Enemy ships sunk: {opponentShipsSunkCount}/5</span>
+        <span>{spectating ? 'Player 1' : 'Your'} ships lost: {myShipsSunkCount}/5</span>
+        <span>{spectating ? 'Player 2 ships lost' : 'Enemy ships sunk'}: {opponentShipsSunkCount}/5</span>
       </div>
 
       {/* Win reason */}
@@ -433,12 +440,7 @@ export function NavalBattleBoard({ gameState, playerId, onMove, onQuit }: NavalB
 
       {/* Quit button */}
       <div className="flex items-center gap-6 mt-1">
-        <button
-          onClick={onQuit}
-          className="px-4 py-1.5 text-sm rounded-lg bg-wood-800 hover:bg-wood-700 text-red-400 border border-wood-600 transition-colors"
-        >
-          Quit Game
-        </button>
+        <GameActions onQuit={onQuit} onResign={onResign} onOfferDraw={onOfferDraw} />
       </div>
     </div>
   );
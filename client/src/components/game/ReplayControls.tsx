@@ -0,0 +1,83 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+
+interface ReplayControlsProps {
+  step: number; // 0 = starting position
+  lastStep: number;
+  onStep: (step: number) => void;
+}
+
+const AUTOPLAY_MS = 1000;
+
+const buttonClass =
+  'px-3 py-1.5 text-sm rounded-lg bg-wood-800 hover:bg-wood-700 border border-wood-600 text-cream-200 transition-colors disabled:opacity-40 disabled:cursor-not-allowed';
+
+// First / previous / next / last and autoplay for stepping through a replay
+export function ReplayControls({ step, lastStep, onStep }: ReplayControlsProps) {
+  const [playing, setPlaying] = useState(false);
+
+  useEffect(() => {
+    if (!playing) return;
+    if (step >= lastStep) {
+      setPlaying(false);
+      return;
+    }
+    const timer = setTimeout(() => onStep(step + 1), AUTOPLAY_MS);
+    return () => clearTimeout(timer);
+  }, [playing, step, lastStep, onStep]);
+
+  // Arrow keys step through the game as well
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => {
+      if (e.key === 'ArrowLeft' && step > 0) onStep(step - 1);
+      if (e.key === 'ArrowRight' && step < lastStep) onStep(step + 1);
+    };
+    window.addEventListener('keydown', onKey);
+    return () => window.removeEventListener('keydown', onKey);
+  }, [step, lastStep, onStep]);
+
+  const goTo = (target: number) => {
+    setPlaying(false);
+    onStep(target);
+  };
+
+  return (
+    <div className="flex flex-col items-center gap-2">
+      <div className="flex items-center gap-2">
+        <button onClick={() => goTo(0)} disabled={step === 0} className={buttonClass} aria-label="First move">
+          ⏮
+        </button>
+        <button onClick={() => goTo(step - 1)} disabled={step === 0} className={buttonClass} aria-label="Previous move">
+          ◀
+        </button>
+        <button
+          onClick={() => {
+            // Starting autoplay from the end replays the game from the beginning
+            if (!playing && step >= lastStep) onStep(0);
+            setPlaying(!playing);
+          }}
+          disabled={lastStep === 0}
+          className={`${buttonClass} min-w-[5rem]`}
+        >
+          {playing ? 'Pause' : 'Play'}
+        </button>
+        <button onClick={() => goTo(step + 1)} disabled={step >= lastStep} className={buttonClass} aria-label="Next move">
+          ▶
+        </button>
+        <button onClick={() => goTo(lastStep)} disabled={step >= lastStep} className={buttonClass} aria-label="Last move">
+          ⏭
+        </button>
+      </div>
+      <input
+        type="range"
+        min={0}
+        max={lastStep}
+        value={step}
+        onChange={e => goTo(Number(e.target.value))}
+        aria-label="Move"
+        className="w-64 accent-yellow-500"
+      />
+    </div>
+  );
+}
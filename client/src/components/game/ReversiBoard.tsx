@@ -1,7 +1,8 @@
 'use client';
 
 import { useState, useCallback, useMemo, useEffect, useRef } from 'react';
-import { Position } from '@/lib/types';
+import { Position, PlaceMove } from '@/lib/types';
+import { GameActions } from './GameActions';
 
 interface ReversiState {
   board: ('black' | 'white' | null)[][];
@@ -19,8 +20,10 @@ interface ReversiState {
 interface ReversiBoardProps {
   gameState: ReversiState;
   playerId: string;
-  onMove: (from: Position, to: Position) => void;
+  onMove: (move: PlaceMove) => void;
   onQuit: () => void;
+  onResign?: () => void;
+  onOfferDraw?: () => void;
 }
 
 // Inject the flip animation keyframes into the document once
@@ -42,7 +45,7 @@ function ensureFlipAnimation() {
   document.head.appendChild(style);
 }
 
-export function ReversiBoard({ gameState, playerId, onMove, onQuit }: ReversiBoardProps) {
+export function ReversiBoard({ gameState, playerId, onMove, onQuit, onResign, onOfferDraw }: ReversiBoardProps) {
   const [showSkipMessage, setShowSkipMessage] = useState(false);
   const [animatingCells, setAnimatingCells] = useState<Set<string>>(new Set());
   const prevBoardRef = useRef<('black' | 'white' | null)[][] | null>(null);
@@ -107,7 +110,7 @@ export function ReversiBoard({ gameState, playerId, onMove, onQuit }: ReversiBoa
 
       // Only allow clicks on valid moves
       if (validMoveSet.has(`${row}-${col}`)) {
-        onMove({ row: 0, col: 0 }, { row, col });
+        onMove({ type: 'place', position: { row, col } });
       }
     },
     [isMyTurn, gameState.winner, validMoveSet, onMove],
@@ -298,12 +301,7 @@ export function ReversiBoard({ gameState, playerId, onMove, onQuit }: ReversiBoa
             </span>
           </div>
         )}
-        <button
-          onClick={onQuit}
-          className="px-4 py-1.5 text-sm rounded-lg bg-wood-800 hover:bg-wood-700 text-red-400 border border-wood-600 transition-colors"
-        >
-          Quit Game
-        </button>
+        <GameActions onQuit={onQuit} onResign={onResign} onOfferDraw={onOfferDraw} />
       </div>
     </div>
   );
@@ -1,7 +1,8 @@
 'use client';
 
 import { useState, useCallback, useMemo } from 'react';
-import { Position } from '@/lib/types';
+import { Position, PlaceMove } from '@/lib/types';
+import { GameActions } from './GameActions';
 
 type TicTacToeMark = 'X' | 'O';
 
@@ -17,13 +18,15 @@ interface TicTacToeState {
 interface TicTacToeBoardProps {
   gameState: TicTacToeState;
   playerId: string;
-  onMove: (from: Position, to: Position) => void;
+  onMove: (move: PlaceMove) => void;
   onQuit: () => void;
+  onResign?: () => void;
+  onOfferDraw?: () => void;
 }
 
 const SIZE = 3;
 
-export function TicTacToeBoard({ gameState, playerId, onMove, onQuit }: TicTacToeBoardProps) {
+export function TicTacToeBoard({ gameState, playerId, onMove, onQuit, onResign, onOfferDraw }: TicTacToeBoardProps) {
   const [hoveredCell, setHoveredCell] = useState<{ row: number; col: number } | null>(null);
 
   const myMark: TicTacToeMark | null = useMemo(() => {
@@ -50,7 +53,7 @@ export function TicTacToeBoard({ gameState, playerId, onMove, onQuit }: TicTacTo
     (row: number, col: number) => {
       if (!canInteract) return;
       if (gameState.board[row][col] !== null) return;
-      onMove({ row: 0, col: 0 }, { row, col });
+      onMove({ type: 'place', position: { row, col } });
     },
     [canInteract, gameState.board, onMove],
   );
@@ -184,12 +187,7 @@ export function TicTacToeBoard({ gameState, playerId, onMove, onQuit }: TicTacTo
             </span>
           </div>
         )}
-        <button
-          onClick={onQuit}
-          className="px-4 py-1.5 text-sm rounded-lg bg-wood-800 hover:bg-wood-700 text-red-400 border border-wood-600 transition-colors"
-        >
-          Quit Game
-        </button>
+        <GameActions onQuit={onQuit} onResign={onResign} onOfferDraw={onOfferDraw} />
       </div>
     </div>
   );
@@ -0,0 +1,126 @@
+'use client';
+
+import { useState } from 'react';
+import { TimeControl } from '@/lib/types';
+import { Input } from '@/components/ui/Input';
+
+type Kind = 'none' | TimeControl['type'];
+
+interface TimeControlFormProps {
+  onChange: (timeControl: TimeControl | null) => void;
+}
+
+const KINDS: { value: Kind; label: string }[] = [
+  { value: 'none', label: 'No clock' },
+  { value: 'fischer', label: 'Increment (Fischer)' },
+  { value: 'bronstein', label: 'Delay (Bronstein)' },
+  { value: 'per-move', label: 'Fixed time per move' },
+  { value: 'correspondence', label: 'Correspondence (days per move)' },
+];
+
+function build(kind: Kind, minutes: number, bonusSeconds: number, moveSeconds: number, days: number): TimeControl | null {
+  switch (kind) {
+    case 'fischer':
+      return { type: 'fischer', initialMs: minutes * 60_000, incrementMs: bonusSeconds * 1000 };
+    case 'bronstein':
+      return { type: 'bronstein', initialMs: minutes * 60_000, delayMs: bonusSeconds * 1000 };
+    case 'per-move':
+      return { type: 'per-move', moveMs: moveSeconds * 1000 };
+    case 'correspondence':
+      return { type: 'correspondence', days };
+    default:
+      return null;
+  }
+}
+
+export function TimeControlForm({ onChange }: TimeControlFormProps) {
+  const [kind, setKind] = useState<Kind>('none');
+  const [minutes, setMinutes] = useState(5);
+  const [bonusSeconds, setBonusSeconds] = useState(3);
+  const [moveSeconds, setMoveSeconds] = useState(30);
+  const [days, setDays] = useState(3);
+
+  const update = (next: Partial<{ kind: Kind; minutes: number; bonusSeconds: number; moveSeconds: number; days: number }>) => {
+    const values = { kind, minutes, bonusSeconds, moveSeconds, days, ...next };
+    setKind(values.kind);
+    setMinutes(values.minutes);
+    setBonusSeconds(values.bonusSeconds);
+    setMoveSeconds(values.moveSeconds);
+    setDays(values.days);
+    onChange(build(values.kind, values.minutes, values.bonusSeconds, values.moveSeconds, values.days));
+  };
+
+  return (
+    <div className="space-y-4 mb-6">
+      <div className="w-full">
+        <label htmlFor="time-control" className="block text-sm font-medium text-cream-200 mb-1.5">
+          Time Control
+        </label>
+        <select
+          id="time-control"
+          value={kind}
+          onChange={e => update({ kind: e.target.value as Kind })}
+          className="w-full px-4 py-2.5 rounded-lg bg-wood-900 border border-wood-700 text-cream-100 focus:outline-none focus:ring-2 focus:ring-wood-400"
+        >
+          {KINDS.map(k => (
+            <option key={k.value} value={k.value}>
+              {k.label}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {(kind === 'fischer' || kind === 'bronstein') && (
+        <div className="flex gap-3">
+          <Input
+            id="time-minutes"
+            type="number"
+            label="Minutes each"
+            min={1}
+            max={180}
+            value={minutes}
+            onChange={e => update({ minutes: Number(e.target.value) })}
+          />
+          <Input
+            id="time-bonus"
+            type="number"
+            label={kind === 'fischer' ? 'Increment (s)' : 'Delay (s)'}
+            min={0}
+            max={60}
+            value={bonusSeconds}
+            onChange={e => update({ bonusSeconds: Number(e.target.value) })}
+          />
+        </div>
+      )}
+
+      {kind === 'per-move' && (
+        <Input
+          id="time-per-move"
+          type="number"
+          label="Seconds per move"
+          min={5}
+          max={3600}
+          value={moveSeconds}
+          onChange={e => update({ moveSeconds: Number(e.target.value) })}
+        />
+      )}
+
+      {kind === 'correspondence' && (
+        <div className="space-y-2">
+          <Input
+            id="time-days"
+            type="number"
+            label="Days per move"
+            min={1}
+            max={14}
+            value={days}
+            onChange={e => update({ days: Number(e.target.value) })}
+          />
+          <p className="text-wood-400 text-xs">
+            Players must be signed in. Nobody forfeits by leaving: come back to move any time before your days run out.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,40 @@
+import { ComponentType } from 'react';
+import { GameMove, GameType } from '@/lib/types';
+import { Board } from './Board';
+import { ChessBoard } from './ChessBoard';
+import { Connect4Board } from './Connect4Board';
+import { ReversiBoard } from './ReversiBoard';
+import { TicTacToeBoard } from './TicTacToeBoard';
+import { GomokuBoard } from './GomokuBoard';
+import { MancalaBoard } from './MancalaBoard';
+import { DotsBoxesBoard } from './DotsBoxesBoard';
+import { NavalBattleBoard } from './NavalBattleBoard';
+import { GoBoard } from './GoBoard';
+import { BackgammonBoard } from './BackgammonBoard';
+import { CribbageBoard } from './CribbageBoard';
+
+export interface BoardProps {
+  gameState: unknown;
+  playerId: string;
+  onMove: (move: GameMove) => void;
+  onQuit: () => void;
+  onResign?: () => void;
+  onOfferDraw?: () => void;
+  onClaimDraw?: () => void;
+}
+
+// The board for each game, shared by the room page and the replay viewer
+export const BOARD_COMPONENTS: Record<GameType, ComponentType<BoardProps>> = {
+  checkers: Board as ComponentType<BoardProps>,
+  chess: ChessBoard as ComponentType<BoardProps>,
+  connect4: Connect4Board as ComponentType<BoardProps>,
+  reversi: ReversiBoard as ComponentType<BoardProps>,
+  tictactoe: TicTacToeBoard as ComponentType<BoardProps>,
+  gomoku: GomokuBoard as ComponentType<BoardProps>,
+  mancala: MancalaBoard as ComponentType<BoardProps>,
+  dotsboxes: DotsBoxesBoard as ComponentType<BoardProps>,
+  navalbattle: NavalBattleBoard as ComponentType<BoardProps>,
+  go: GoBoard as ComponentType<BoardProps>,
+  backgammon: BackgammonBoard as ComponentType<BoardProps>,
+  cribbage: CribbageBoard as ComponentType<BoardProps>,
+};
@@ -0,0 +1,134 @@
+'use client';
+
+import { useState } from 'react';
+import { GameInfo, GameType, PublicRoomInfo, TimeControl } from '@/lib/types';
+import { Button } from '@/components/ui/Button';
+import { GameIcon } from '@/components/ui/GameIcons';
+
+interface LobbyBrowserProps {
+  games: GameInfo[];
+  rooms: PublicRoomInfo[];
+  queuedFor: GameType | null;
+  initialGame: string;
+  onQuickMatch: (gameType: GameType) => void;
+  onCancelMatch: () => void;
+  onJoinRoom: (code: string) => void;
+}
+
+function describeTimeControl(timeControl: TimeControl | null): string {
+  if (!timeControl) return 'No clock';
+  switch (timeControl.type) {
+    case 'fischer':
+      return `${timeControl.initialMs / 60_000} min + ${timeControl.incrementMs / 1000}s`;
+    case 'bronstein':
+      return `${timeControl.initialMs / 60_000} min, ${timeControl.delayMs / 1000}s delay`;
+    case 'per-move':
+      return `${timeControl.moveMs / 1000}s per move`;
+    case 'correspondence':
+      return `${timeControl.days} day${timeControl.days === 1 ? '' : 's'} per move`;
+  }
+}
+
+const selectClass =
+  'w-full px-4 py-2.5 rounded-lg bg-wood-900 border border-wood-700 text-cream-100 focus:outline-none focus:ring-2 focus:ring-wood-400';
+
+export function LobbyBrowser({
+  games,
+  rooms,
+  queuedFor,
+  initialGame,
+  onQuickMatch,
+  onCancelMatch,
+  onJoinRoom,
+}: LobbyBrowserProps) {
+  const [matchGame, setMatchGame] = useState(initialGame);
+  const [filter, setFilter] = useState<string>('all');
+
+  const gameName = (id: string) => games.find(g => g.id === id)?.name ?? id;
+  const shown = filter === 'all' ? rooms : rooms.filter(r => r.gameType === filter);
+
+  return (
+    <div className="space-y-6">
+      {/* Quick Match */}
+      <div className="bg-wood-900/60 border border-wood-700 rounded-xl p-6">
+        <h3 className="text-lg font-semibold text-cream-100 mb-1">Quick Match</h3>
+        <p className="text-wood-400 text-sm mb-4">
+          Get paired with the next player looking for the same game.
+        </p>
+        {queuedFor ? (
+          <div className="flex items-center gap-3">
+            <div className="w-3 h-3 rounded-full bg-yellow-500 animate-pulse" />
+            <span className="text-cream-200 flex-1">Looking for a {gameName(queuedFor)} opponent...</span>
+            <Button variant="ghost" size="sm" onClick={onCancelMatch}>
+              Cancel
+            </Button>
+          </div>
+        ) : (
+          <div className="flex gap-3">
+            <select
+              value={matchGame}
+              onChange={e => setMatchGame(e.target.value)}
+              aria-label="Quick match game"
+              className={selectClass}
+            >
+              {games.map(g => (
+                <option key={g.id} value={g.id}>
+                  {g.name}
+                </option>
+              ))}
+            </select>
+            <Button onClick={() => onQuickMatch(matchGame as GameType)}>Find Match</Button>
+          </div>
+        )}
+      </div>
+
+      {/* Public Rooms */}
+      <div className="bg-wood-900/60 border border-wood-700 rounded-xl p-6">
+        <div className="flex items-center justify-between gap-4 mb-4">
+          <h3 className="text-lg font-semibold text-cream-100">Public Rooms</h3>
+          <select
+            value={filter}
+            onChange={e => setFilter(e.target.value)}
+            aria-label="Filter by game"
+            className="px-3 py-1.5 rounded-lg bg-wood-900 border border-wood-700 text-cream-100 text-sm focus:outline-none focus:ring-2 focus:ring-wood-400"
+          >
+            <option value="all">All games</option>
+            {games.map(g => (
+              <option key={g.id} value={g.id}>
+                {g.name}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        {shown.length > 0 ? (
+          <div className="space-y-2">
+            {shown.map(room => (
+              <div key={room.code} className="flex items-center gap-3 bg-wood-800/50 rounded-lg p-3">
+                <div className="shrink-0 [&_svg]:w-8 [&_svg]:h-8">
+                  <GameIcon gameId={room.gameType} />
+                </div>
+                <div className="flex-1 min-w-0">
+                  <p className="text-cream-100 font-medium truncate">
+                    {gameName(room.gameType)} with {room.hostName}
+                  </p>
+                  <p className="text-wood-400 text-xs">
+                    {room.playerCount}/{room.maxPlayers} players · {describeTimeControl(room.timeControl)}
+                    {room.rated && ' · Rated'}
+                  </p>
+                </div>
+                <Button variant="secondary" size="sm" onClick={() => onJoinRoom(room.code)}>
+                  Join
+                </Button>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <p className="text-wood-400 text-sm italic">
+            No public rooms are waiting right now. Create one or try a quick match.
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
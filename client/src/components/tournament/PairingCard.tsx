@@ -0,0 +1,62 @@
+'use client';
+
+import { Button } from '@/components/ui/Button';
+import { TournamentPairing } from '@/lib/types';
+
+interface PairingCardProps {
+  pairing: TournamentPairing | null; // null = not paired yet (a later knockout round)
+  nameOf: (accountId: string) => string;
+  accountId: string | null; // the viewer, to offer "Play" on their own game
+  onOpenRoom: (roomCode: string) => void;
+}
+
+export function PairingCard({ pairing, nameOf, accountId, onOpenRoom }: PairingCardProps) {
+  if (!pairing) {
+    return (
+      <div className="rounded-lg border border-dashed border-wood-700 px-3 py-2 text-wood-500 text-sm">
+        <p>TBD</p>
+        <p>TBD</p>
+      </div>
+    );
+  }
+
+  const [first, second] = pairing.players;
+  const isMine = accountId !== null && pairing.players.includes(accountId);
+
+  const line = (id: string | null) => {
+    if (id === null) return <p className="text-wood-500 italic">bye</p>;
+    const won = pairing.finished && pairing.winner === id;
+    const lost = pairing.finished && pairing.winner !== null && !won;
+    return (
+      <p className={won ? 'text-cream-100 font-semibold' : lost ? 'text-wood-400' : 'text-cream-200'}>
+        {nameOf(id)}
+        {id === accountId && <span className="text-yellow-400 text-xs"> (you)</span>}
+      </p>
+    );
+  };
+
+  return (
+    <div
+      className={`flex items-center gap-3 rounded-lg border px-3 py-2 text-sm ${
+        isMine ? 'border-yellow-600 bg-wood-800/70' : 'border-wood-700 bg-wood-800/40'
+      }`}
+    >
+      <div className="flex-1 min-w-0">
+        {line(first)}
+        {line(second)}
+      </div>
+      {pairing.finished && second !== null && pairing.winner === null && (
+        <span className="text-xs px-2 py-0.5 rounded-full bg-wood-700 text-cream-200">Draw</span>
+      )}
+      {pairing.roomCode && (
+        <Button
+          variant={isMine && !pairing.finished ? 'primary' : 'ghost'}
+          size="sm"
+          onClick={() => onOpenRoom(pairing.roomCode!)}
+        >
+          {isMine && !pairing.finished ? 'Play' : pairing.finished ? 'View' : 'Watch'}
+        </Button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,58 @@
+'use client';
+
+import { formatPoints } from '@/lib/match';
+import { TournamentFormat, TournamentStanding } from '@/lib/types';
+
+interface StandingsTableProps {
+  standings: TournamentStanding[];
+  format: TournamentFormat;
+  accountId: string | null;
+}
+
+export function StandingsTable({ standings, format, accountId }: StandingsTableProps) {
+  // Show the tiebreaks the format actually uses
+  const showBuchholz = format === 'swiss';
+  const showSonnebornBerger = format !== 'single-elimination';
+
+  return (
+    <table className="w-full text-sm">
+      <thead>
+        <tr className="text-wood-400 text-xs text-left">
+          <th className="py-1 pr-2">#</th>
+          <th className="py-1 pr-2">Player</th>
+          <th className="py-1 px-2 text-right">Pts</th>
+          <th className="py-1 px-2 text-right" title="Wins / draws / losses">
+            W-D-L
+          </th>
+          {showBuchholz && (
+            <th className="py-1 px-2 text-right" title="Sum of opponents' points">
+              Buchholz
+            </th>
+          )}
+          {showSonnebornBerger && (
+            <th className="py-1 pl-2 text-right" title="Points of beaten opponents plus half those of drawn ones">
+              S-B
+            </th>
+          )}
+        </tr>
+      </thead>
+      <tbody>
+        {standings.map(s => (
+          <tr
+            key={s.accountId}
+            className={`border-t border-wood-800 ${s.accountId === accountId ? 'text-yellow-300' : 'text-cream-200'}`}
+          >
+            <td className="py-1.5 pr-2">{s.rank}</td>
+            <td className="py-1.5 pr-2 font-medium">{s.name}</td>
+            <td className="py-1.5 px-2 text-right">{formatPoints(s.points)}</td>
+            <td className="py-1.5 px-2 text-right">
+              {s.wins}-{s.draws}-{s.losses}
+            </td>
+            {showBuchholz && <td className="py-1.5 px-2 text-right">{formatPoints(s.buchholz)}</td>}
+            {showSonnebornBerger && <td className="py-1.5 pl-2 text-right">{formatPoints(s.sonnebornBerger)}</td>}
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
@@ -0,0 +1,47 @@
+'use client';
+
+import { Tournament } from '@/lib/types';
+import { PairingCard } from './PairingCard';
+
+interface TournamentBracketProps {
+  tournament: Tournament;
+  nameOf: (accountId: string) => string;
+  accountId: string | null;
+  onOpenRoom: (roomCode: string) => void;
+}
+
+// Knockout rounds side by side, later rounds shown as TBD until they are paired
+export function TournamentBracket({ tournament, nameOf, accountId, onOpenRoom }: TournamentBracketProps) {
+  const columns = Array.from({ length: tournament.totalRounds }, (_, i) => {
+    const played = tournament.rounds[i];
+    const games = 2 ** (tournament.totalRounds - i - 1);
+    return Array.from({ length: games }, (_, j) => played?.pairings[j] ?? null);
+  });
+
+  const roundName = (index: number) => {
+    const fromEnd = tournament.totalRounds - index;
+    if (fromEnd === 1) return 'Final';
+    if (fromEnd === 2) return 'Semi-finals';
+    if (fromEnd === 3) return 'Quarter-finals';
+    return `Round ${index + 1}`;
+  };
+
+  return (
+    <div className="flex gap-4 overflow-x-auto pb-2">
+      {columns.map((pairings, i) => (
+        <div key={i} className="flex flex-col justify-around gap-3 min-w-52">
+          <h3 className="text-wood-300 text-xs uppercase tracking-wide">{roundName(i)}</h3>
+          {pairings.map((pairing, j) => (
+            <PairingCard
+              key={j}
+              pairing={pairing}
+              nameOf={nameOf}
+              accountId={accountId}
+              onOpenRoom={onOpenRoom}
+            />
+          ))}
+        </div>
+      ))}
+    </div>
+  );
+}
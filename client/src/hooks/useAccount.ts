@@ -0,0 +1,57 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { AccountInfo } from '@/lib/types';
+import { fetchMe, login, logout, register } from '@/lib/accounts';
+import { reconnectSocket } from '@/lib/socket';
+
+export function useAccount() {
+  const [account, setAccount] = useState<AccountInfo | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchMe()
+      .then(me => {
+        if (!cancelled) setAccount(me);
+      })
+      .catch(() => {})
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const authenticate = useCallback(async (action: typeof login, username: string, password: string) => {
+    setError(null);
+    try {
+      setAccount(await action(username, password));
+      reconnectSocket();
+      return true;
+    } catch (err) {
+      setError((err as Error).message);
+      return false;
+    }
+  }, []);
+
+  const signIn = useCallback(
+    (username: string, password: string) => authenticate(login, username, password),
+    [authenticate],
+  );
+
+  const signUp = useCallback(
+    (username: string, password: string) => authenticate(register, username, password),
+    [authenticate],
+  );
+
+  const signOut = useCallback(async () => {
+    await logout();
+    setAccount(null);
+    reconnectSocket();
+  }, []);
+
+  return { account, loading, error, signIn, signUp, signOut };
+}
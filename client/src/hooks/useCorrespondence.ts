@@ -0,0 +1,53 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Socket } from 'socket.io-client';
+import { fetchCorrespondenceGames } from '@/lib/correspondence';
+import { AccountInfo, CorrespondenceGame } from '@/lib/types';
+
+interface UseCorrespondenceOptions {
+  socket: Socket | null;
+  account: AccountInfo | null;
+}
+
+// The signed-in player's correspondence games, kept live: the server pushes a
+// fresh list to every tab of the account whenever one of them changes
+export function useCorrespondence({ socket, account }: UseCorrespondenceOptions) {
+  const [games, setGames] = useState<CorrespondenceGame[]>([]);
+  const accountId = account?.id ?? null;
+
+  useEffect(() => {
+    if (!accountId) {
+      setGames([]);
+      return;
+    }
+    let cancelled = false;
+    const load = () => {
+      fetchCorrespondenceGames()
+        .then(list => {
+          if (!cancelled) setGames(list);
+        })
+        .catch(() => {});
+    };
+    load();
+
+    if (!socket) {
+      return () => {
+        cancelled = true;
+      };
+    }
+
+    // Anything pushed while disconnected was missed, so reload on every reconnect
+    const onGames = ({ games: list }: { games: CorrespondenceGame[] }) => setGames(list);
+    socket.on('connect', load);
+    socket.on('correspondence:games', onGames);
+
+    return () => {
+      cancelled = true;
+      socket.off('connect', load);
+      socket.off('correspondence:games', onGames);
+    };
+  }, [socket, accountId]);
+
+  return { games };
+}
@@ -7,13 +7,30 @@ import {
   PlayerInfo,
   ChatMessage,
   RoomStatus,
-  Position,
+  RoomRole,
+  GameMove,
+  GameOptions,
+  TimeControl,
+  BotDifficulty,
+  RatingChange,
+  MatchFormat,
+  MatchState,
+  AnnotationGlyph,
+  MoveListEntry,
 } from '@/lib/types';
 
 interface GameOverData {
   winner: string;
   winnerName: string;
   reason: string;
+  replayId: string;
+  ratings: Record<string, RatingChange> | null; // by player id, for rated games
+}
+
+// Pending takeback request or draw offer
+interface PlayerRequest {
+  playerId: string;
+  playerName: string;
 }
 
 interface UseGameOptions {
@@ -57,6 +74,13 @@ export function useGame({ socket }: UseGameOptions) {
   const [players, setPlayers] = useState<PlayerInfo[]>(
     () => loadCached<PlayerInfo[]>('players') || [],
   );
+  const [role, setRole] = useState<RoomRole>(
+    () => loadCached<RoomRole>('role') || 'player',
+  );
+  const [spectators, setSpectators] = useState<PlayerInfo[]>([]);
+  const [allowSpectators, setAllowSpectators] = useState(true);
+  const [rated, setRated] = useState(false);
+  const [match, setMatch] = useState<MatchState | null>(null);
   const [roomStatus, setRoomStatus] = useState<RoomStatus>(
     () => loadCached<RoomStatus>('roomStatus') || 'waiting',
   );
@@ -69,6 +93,9 @@ export function useGame({ socket }: UseGameOptions) {
   const [gameOver, setGameOver] = useState<GameOverData | null>(null);
   const [chatMessages, setChatMessages] = useState<ChatMessage[]>([]);
   const [switchingGame, setSwitchingGame] = useState(false);
+  const [takebackRequest, setTakebackRequest] = useState<PlayerRequest | null>(null);
+  const [drawOffer, setDrawOffer] = useState<PlayerRequest | null>(null);
+  const [moveList, setMoveList] = useState<MoveListEntry[] | null>(null); // once asked for, in review
   const switchStartRef = useRef<number>(0);
   const [error, setError] = useState<string | null>(null);
 
@@ -93,13 +120,23 @@ export function useGame({ socket }: UseGameOptions) {
 
       'room:joined': (data: {
         players: PlayerInfo[];
+        spectators: PlayerInfo[];
         playerId: string;
+        role: RoomRole;
         sessionToken: string;
         roomStatus: RoomStatus;
         creatorId: string;
         gameType: GameType;
+        allowSpectators: boolean;
+        rated: boolean;
+        match: MatchState | null;
       }) => {
         setPlayers(data.players);
+        setSpectators(data.spectators);
+        setAllowSpectators(data.allowSpectators);
+        setRated(data.rated);
+        setMatch(data.match);
+        setRole(data.role);
         setPlayerId(data.playerId);
         setRoomStatus(data.roomStatus);
         setCreatorId(data.creatorId);
@@ -112,6 +149,7 @@ export function useGame({ socket }: UseGameOptions) {
           sessionStorage.setItem('playerId', data.playerId);
         }
         saveCache('players', data.players);
+        saveCache('role', data.role);
         saveCache('roomStatus', data.roomStatus);
         saveCache('creatorId', data.creatorId);
       },
@@ -136,6 +174,21 @@ export function useGame({ socket }: UseGameOptions) {
         saveCache('players', p);
       },
 
+      // New ratings after a rated game, or for the new game after a switch
+      'room:players': ({ players: p }: { players: PlayerInfo[] }) => {
+        setPlayers(p);
+        saveCache('players', p);
+      },
+
+      'room:match': ({ match: m }: { match: MatchState }) => {
+        setMatch(m);
+      },
+
+      'room:spectators': (data: { spectators: PlayerInfo[]; allowSpectators: boolean }) => {
+        setSpectators(data.spectators);
+        setAllowSpectators(data.allowSpectators);
+      },
+
       'room:error': ({ message }: { message: string }) => {
         setError(message);
         setTimeout(() => setError(null), 4000);
@@ -160,6 +213,20 @@ export function useGame({ socket }: UseGameOptions) {
         }
       },
 
+      'game:exported': ({ filename, content }: { filename: string; content: string }) => {
+        // Hand the file to the browser as a download
+        const url = URL.createObjectURL(new Blob([content], { type: 'text/plain' }));
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = filename;
+        link.click();
+        URL.revokeObjectURL(url);
+      },
+
+      'game:move-list': ({ moves }: { moves: MoveListEntry[] }) => {
+        setMoveList(moves);
+      },
+
       'game:started': () => {
         // Reliable room-level broadcast that the game has started.
         // If we haven't received game:state yet, request it.
@@ -177,10 +244,15 @@ export function useGame({ socket }: UseGameOptions) {
       'game:over': (data: unknown) => {
         setGameOver(data as GameOverData);
         setRoomStatus('finished');
+        setTakebackRequest(null);
+        setDrawOffer(null);
       },
 
       'game:restarted': (data?: { gameType?: string }) => {
         setGameOver(null);
+        setTakebackRequest(null);
+        setDrawOffer(null);
+        setMoveList(null);
         if (data?.gameType) {
           // Clear old game state before switching board component
           setGameState(null);
@@ -193,6 +265,22 @@ export function useGame({ socket }: UseGameOptions) {
         }
       },
 
+      'game:takeback-requested': (data: PlayerRequest) => {
+        setTakebackRequest(data);
+      },
+
+      'game:takeback-resolved': () => {
+        setTakebackRequest(null);
+      },
+
+      'game:draw-offered': (data: PlayerRequest) => {
+        setDrawOffer(data);
+      },
+
+      'game:draw-declined': () => {
+        setDrawOffer(null);
+      },
+
       'chat:message': (msg: unknown) => {
         const m = msg as { playerName: string; text: string; timestamp: number };
         setChatMessages(prev => [...prev, { ...m, isSystem: false }]);
@@ -224,32 +312,76 @@ export function useGame({ socket }: UseGameOptions) {
   }, [socket]);
 
   const createRoom = useCallback(
-    (playerName: string, gameType: string) => {
+    (
+      playerName: string,
+      gameType: string,
+      options?: GameOptions,
+      timeControl?: TimeControl | null,
+      allowSpectators?: boolean,
+      isPublic?: boolean,
+      rated?: boolean,
+      match?: MatchFormat | null,
+      seed?: number | null,
+    ) => {
       if (!socket) return;
-      socket.emit('room:create', { playerName, gameType });
+      socket.emit('room:create', {
+        playerName,
+        gameType,
+        options,
+        timeControl,
+        allowSpectators,
+        isPublic,
+        rated,
+        match,
+        seed,
+      });
     },
     [socket],
   );
 
   const joinRoom = useCallback(
-    (code: string, playerName: string) => {
+    (code: string, playerName: string, spectate = false) => {
       if (!socket) return;
       const sessionToken = isBrowser ? sessionStorage.getItem('sessionToken') : null;
       const savedRoom = isBrowser ? sessionStorage.getItem('roomCode') : null;
 
       if (sessionToken && savedRoom === code.toUpperCase()) {
-        socket.emit('room:join', { roomCode: code, playerName, sessionToken });
+        socket.emit('room:join', { roomCode: code, playerName, sessionToken, spectate });
       } else {
-        socket.emit('room:join', { roomCode: code, playerName });
+        socket.emit('room:join', { roomCode: code, playerName, spectate });
       }
     },
     [socket],
   );
 
+  const setSpectatorsAllowed = useCallback(
+    (allow: boolean) => {
+      if (!socket) return;
+      socket.emit('room:set-spectators', { allow });
+    },
+    [socket],
+  );
+
+  const addBot = useCallback(
+    (difficulty: BotDifficulty) => {
+      if (!socket) return;
+      socket.emit('room:add-bot', { difficulty });
+    },
+    [socket],
+  );
+
+  const removeBot = useCallback(
+    (botId: string) => {
+      if (!socket) return;
+      socket.emit('room:remove-bot', { playerId: botId });
+    },
+    [socket],
+  );
+
   const makeMove = useCallback(
-    (from: Position, to: Position) => {
+    (move: GameMove) => {
       if (!socket) return;
-      socket.emit('game:move', { from, to });
+      socket.emit('game:move', move);
     },
     [socket],
   );
@@ -274,6 +406,60 @@ export function useGame({ socket }: UseGameOptions) {
     [socket],
   );
 
+  const requestTakeback = useCallback(() => {
+    if (!socket) return;
+    socket.emit('game:takeback-request');
+  }, [socket]);
+
+  const respondTakeback = useCallback(
+    (accept: boolean) => {
+      if (!socket) return;
+      socket.emit('game:takeback-response', { accept });
+    },
+    [socket],
+  );
+
+  const resign = useCallback(() => {
+    if (!socket) return;
+    socket.emit('game:resign');
+  }, [socket]);
+
+  const offerDraw = useCallback(() => {
+    if (!socket) return;
+    socket.emit('game:offer-draw');
+  }, [socket]);
+
+  const claimDraw = useCallback(() => {
+    if (!socket) return;
+    socket.emit('game:claim-draw');
+  }, [socket]);
+
+  const respondDraw = useCallback(
+    (accept: boolean) => {
+      if (!socket) return;
+      socket.emit(accept ? 'game:accept-draw' : 'game:decline-draw');
+    },
+    [socket],
+  );
+
+  const exportGame = useCallback(() => {
+    if (!socket) return;
+    socket.emit('game:export');
+  }, [socket]);
+
+  const requestMoveList = useCallback(() => {
+    if (!socket) return;
+    socket.emit('game:move-list');
+  }, [socket]);
+
+  const annotateMove = useCallback(
+    (index: number, glyph: AnnotationGlyph | null, comment: string) => {
+      if (!socket) return;
+      socket.emit('game:annotate', { index, glyph, comment });
+    },
+    [socket],
+  );
+
   const sendMessage = useCallback(
     (text: string) => {
       if (!socket) return;
@@ -288,19 +474,40 @@ export function useGame({ socket }: UseGameOptions) {
     playerId,
     creatorId,
     players,
+    role,
+    isSpectator: role === 'spectator',
+    spectators,
+    allowSpectators,
+    rated,
+    match,
     roomStatus,
     gameType,
     gameState,
     gameOver,
     switchingGame,
+    takebackRequest,
+    drawOffer,
+    moveList,
     chatMessages,
     error,
     createRoom,
     joinRoom,
+    setSpectatorsAllowed,
+    addBot,
+    removeBot,
     makeMove,
     startGame,
     restartGame,
     switchGame,
+    requestTakeback,
+    respondTakeback,
+    resign,
+    offerDraw,
+    claimDraw,
+    respondDraw,
+    exportGame,
+    requestMoveList,
+    annotateMove,
     sendMessage,
   };
 }
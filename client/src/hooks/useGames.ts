@@ -0,0 +1,28 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { GameInfo } from '@/lib/types';
+import { fetchGames } from '@/lib/games';
+
+export function useGames() {
+  const [games, setGames] = useState<GameInfo[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchGames()
+      .then(list => {
+        if (!cancelled) setGames(list);
+      })
+      .catch(() => {
+        if (!cancelled) setError('Could not connect to server');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const getGame = (id: string | null) => games.find(g => g.id === id);
+
+  return { games, getGame, loading: games.length === 0 && !error, error };
+}
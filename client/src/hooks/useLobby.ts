@@ -0,0 +1,79 @@
+'use client';
+
+import { useEffect, useState, useCallback } from 'react';
+import { Socket } from 'socket.io-client';
+import { GameType, PublicRoomInfo } from '@/lib/types';
+
+interface UseLobbyOptions {
+  socket: Socket | null;
+}
+
+// Live list of public rooms plus the quick-match queue
+export function useLobby({ socket }: UseLobbyOptions) {
+  const [rooms, setRooms] = useState<PublicRoomInfo[]>([]);
+  const [queuedFor, setQueuedFor] = useState<GameType | null>(null);
+  const [matchedRoom, setMatchedRoom] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!socket) return;
+
+    // Channel membership doesn't survive a reconnect, so subscribe on every connect
+    const subscribe = () => socket.emit('lobby:subscribe');
+
+    const handlers: Record<string, (...args: any[]) => void> = {
+      connect: subscribe,
+
+      'lobby:rooms': ({ rooms: list }: { rooms: PublicRoomInfo[] }) => {
+        setRooms(list);
+      },
+
+      'match:queued': ({ gameType }: { gameType: GameType }) => {
+        setQueuedFor(gameType);
+      },
+
+      'match:left': () => {
+        setQueuedFor(null);
+      },
+
+      'match:found': ({ roomCode, playerId, sessionToken }: {
+        roomCode: string; playerId: string; sessionToken: string;
+      }) => {
+        // Same session the room page picks up after room:created
+        sessionStorage.setItem('sessionToken', sessionToken);
+        sessionStorage.setItem('roomCode', roomCode);
+        sessionStorage.setItem('playerId', playerId);
+        setQueuedFor(null);
+        setMatchedRoom(roomCode);
+      },
+    };
+
+    for (const [event, handler] of Object.entries(handlers)) {
+      socket.on(event, handler);
+    }
+    if (socket.connected) subscribe();
+
+    return () => {
+      for (const [event, handler] of Object.entries(handlers)) {
+        socket.off(event, handler);
+      }
+      socket.emit('lobby:unsubscribe');
+      socket.emit('match:leave');
+    };
+  }, [socket]);
+
+  const joinQueue = useCallback(
+    (playerName: string, gameType: GameType) => {
+      if (!socket) return;
+      socket.emit('match:join', { playerName, gameType });
+    },
+    [socket],
+  );
+
+  const leaveQueue = useCallback(() => {
+    if (!socket) return;
+    socket.emit('match:leave');
+    setQueuedFor(null);
+  }, [socket]);
+
+  return { rooms, queuedFor, matchedRoom, joinQueue, leaveQueue };
+}
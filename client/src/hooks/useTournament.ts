@@ -0,0 +1,53 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Socket } from 'socket.io-client';
+import { fetchTournament } from '@/lib/tournaments';
+import { TournamentView } from '@/lib/types';
+
+interface UseTournamentOptions {
+  socket: Socket | null;
+  tournamentId: string;
+}
+
+// A tournament kept live: loaded once, then updated as results come in
+export function useTournament({ socket, tournamentId }: UseTournamentOptions) {
+  const [view, setView] = useState<TournamentView | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchTournament(tournamentId)
+      .then(data => {
+        if (!cancelled) setView(data);
+      })
+      .catch((err: Error) => {
+        if (!cancelled) setError(err.message);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [tournamentId]);
+
+  useEffect(() => {
+    if (!socket) return;
+
+    // Channel membership doesn't survive a reconnect, so subscribe on every connect
+    const subscribe = () => socket.emit('tournament:subscribe', { tournamentId });
+    const onUpdate = (data: TournamentView) => {
+      if (data.tournament.id === tournamentId) setView(data);
+    };
+
+    socket.on('connect', subscribe);
+    socket.on('tournament:update', onUpdate);
+    if (socket.connected) subscribe();
+
+    return () => {
+      socket.off('connect', subscribe);
+      socket.off('tournament:update', onUpdate);
+      socket.emit('tournament:unsubscribe', { tournamentId });
+    };
+  }, [socket, tournamentId]);
+
+  return { view, setView, error };
+}
@@ -0,0 +1,59 @@
+import { AccountInfo } from './types';
+
+const SERVER_URL = process.env.NEXT_PUBLIC_SERVER_URL || 'http://localhost:3001';
+const TOKEN_KEY = 'authToken';
+
+// The sign-in token outlives the tab (unlike the per-room session token)
+export function getAuthToken(): string | null {
+  return typeof window !== 'undefined' ? localStorage.getItem(TOKEN_KEY) : null;
+}
+
+export function authHeaders(): Record<string, string> {
+  const token = getAuthToken();
+  return token ? { Authorization: `Bearer ${token}` } : {};
+}
+
+async function postCredentials(path: string, username: string, password: string): Promise<AccountInfo> {
+  const res = await fetch(`${SERVER_URL}${path}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ username, password }),
+  });
+  const data = await res.json();
+  if (!res.ok) throw new Error(data.error || 'Could not sign in');
+  localStorage.setItem(TOKEN_KEY, data.token);
+  return data.account as AccountInfo;
+}
+
+export function register(username: string, password: string): Promise<AccountInfo> {
+  return postCredentials('/api/accounts', username, password);
+}
+
+export function login(username: string, password: string): Promise<AccountInfo> {
+  return postCredentials('/api/accounts/login', username, password);
+}
+
+export async function logout(): Promise<void> {
+  const headers = authHeaders();
+  localStorage.removeItem(TOKEN_KEY);
+  await fetch(`${SERVER_URL}/api/accounts/logout`, { method: 'POST', headers }).catch(() => {});
+}
+
+export async function fetchAccount(id: string): Promise<AccountInfo> {
+  const res = await fetch(`${SERVER_URL}/api/accounts/${encodeURIComponent(id)}`);
+  if (res.status === 404) throw new Error('Player not found');
+  if (!res.ok) throw new Error('Could not load player');
+  return res.json() as Promise<AccountInfo>;
+}
+
+/** The signed-in account, or null for guests and expired tokens. */
+export async function fetchMe(): Promise<AccountInfo | null> {
+  if (!getAuthToken()) return null;
+  const res = await fetch(`${SERVER_URL}/api/accounts/me`, { headers: authHeaders() });
+  if (res.status === 401) {
+    localStorage.removeItem(TOKEN_KEY);
+    return null;
+  }
+  if (!res.ok) throw new Error('Could not load account');
+  return res.json() as Promise<AccountInfo>;
+}
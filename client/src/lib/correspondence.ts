@@ -0,0 +1,21 @@
+import { authHeaders, getAuthToken } from './accounts';
+import { CorrespondenceGame } from './types';
+
+const SERVER_URL = process.env.NEXT_PUBLIC_SERVER_URL || 'http://localhost:3001';
+
+/** The signed-in player's unfinished correspondence games; guests have none. */
+export async function fetchCorrespondenceGames(): Promise<CorrespondenceGame[]> {
+  if (!getAuthToken()) return [];
+  const res = await fetch(`${SERVER_URL}/api/correspondence`, { headers: authHeaders() });
+  if (res.status === 401) return [];
+  if (!res.ok) throw new Error('Could not load your games');
+  return res.json() as Promise<CorrespondenceGame[]>;
+}
+
+/** Time left before a deadline, in days and hours ("2d 5h", "3h", "under an hour"). */
+export function formatTimeLeft(deadline: number, now: number): string {
+  const hours = Math.floor(Math.max(0, deadline - now) / 3_600_000);
+  if (hours === 0) return 'under an hour';
+  const days = Math.floor(hours / 24);
+  return days > 0 ? `${days}d ${hours % 24}h` : `${hours}h`;
+}
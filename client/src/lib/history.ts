@@ -0,0 +1,19 @@
+import { ArchivedGameSummary, GameType, HeadToHead } from './types';
+
+const SERVER_URL = process.env.NEXT_PUBLIC_SERVER_URL || 'http://localhost:3001';
+
+export async function fetchGameHistory(accountId: string, gameType?: GameType): Promise<ArchivedGameSummary[]> {
+  const query = gameType ? `?gameType=${gameType}` : '';
+  const res = await fetch(`${SERVER_URL}/api/accounts/${encodeURIComponent(accountId)}/games${query}`);
+  if (!res.ok) throw new Error('Could not load games');
+  return res.json() as Promise<ArchivedGameSummary[]>;
+}
+
+export async function fetchHeadToHead(accountId: string, opponentId: string, gameType?: GameType): Promise<HeadToHead> {
+  const query = gameType ? `?gameType=${gameType}` : '';
+  const res = await fetch(
+    `${SERVER_URL}/api/accounts/${encodeURIComponent(accountId)}/head-to-head/${encodeURIComponent(opponentId)}${query}`,
+  );
+  if (!res.ok) throw new Error('Could not load head-to-head record');
+  return res.json() as Promise<HeadToHead>;
+}
@@ -0,0 +1,31 @@
+import { MatchState, PlayerInfo } from './types';
+
+/** Points as players say them: 2, 2½, ½. */
+export function formatPoints(points: number): string {
+  const whole = Math.floor(points);
+  if (points === whole) return String(whole);
+  return whole === 0 ? '½' : `${whole}½`;
+}
+
+export function matchFormatLabel(match: MatchState): string {
+  return match.format.type === 'best-of' ? `Best of ${match.format.games}` : 'Decathlon';
+}
+
+/** The series tally, e.g. "Alice 2 – 1 Bob". */
+export function describeMatchScore(match: MatchState, players: PlayerInfo[]): string {
+  const nameOf = (id: string) => players.find(p => p.id === id)?.name ?? 'Unknown';
+  const [first, second] = match.playerIds;
+  if (match.playerIds.length === 2) {
+    return `${nameOf(first)} ${formatPoints(match.scores[first])} – ${formatPoints(match.scores[second])} ${nameOf(second)}`;
+  }
+  return match.playerIds.map(id => `${nameOf(id)} ${formatPoints(match.scores[id])}`).join(', ');
+}
+
+/** One line on how the match stands after a game, for the game-over dialog. */
+export function describeMatchResult(match: MatchState, players: PlayerInfo[]): string {
+  const score = describeMatchScore(match, players);
+  if (!match.finished) return `Match: ${score}`;
+  if (!match.winner) return `The match is drawn: ${score}`;
+  const winner = players.find(p => p.id === match.winner)?.name ?? 'Unknown';
+  return `${winner} wins the match: ${score}`;
+}
@@ -0,0 +1,10 @@
+import { Replay } from './types';
+
+const SERVER_URL = process.env.NEXT_PUBLIC_SERVER_URL || 'http://localhost:3001';
+
+export async function fetchReplay(id: string): Promise<Replay> {
+  const res = await fetch(`${SERVER_URL}/api/replays/${encodeURIComponent(id)}`);
+  if (res.status === 404) throw new Error('Replay not found');
+  if (!res.ok) throw new Error('Could not load replay');
+  return res.json() as Promise<Replay>;
+}
@@ -1,4 +1,5 @@
 import { io, Socket } from 'socket.io-client';
+import { getAuthToken } from './accounts';
 
 const SERVER_URL = process.env.NEXT_PUBLIC_SERVER_URL || 'http://localhost:3001';
 
@@ -16,7 +17,7 @@ export function getSocket(): Socket {
         // can immediately associate this socket with the correct player
         const sessionToken = typeof window !== 'undefined' ? sessionStorage.getItem('sessionToken') : null;
         const roomCode = typeof window !== 'undefined' ? sessionStorage.getItem('roomCode') : null;
-        cb({ sessionToken, roomCode });
+        cb({ sessionToken, roomCode, authToken: getAuthToken() });
       },
     });
   }
@@ -37,3 +38,11 @@ export function disconnectSocket(): void {
     socket = null;
   }
 }
+
+/** Connect again so the server sees a sign-in or sign-out. */
+export function reconnectSocket(): void {
+  if (socket?.connected) {
+    socket.disconnect();
+    socket.connect();
+  }
+}
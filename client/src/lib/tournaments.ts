@@ -0,0 +1,49 @@
+import { authHeaders } from './accounts';
+import { GameOptions, GameType, TournamentFormat, TournamentSummary, TournamentView } from './types';
+
+const SERVER_URL = process.env.NEXT_PUBLIC_SERVER_URL || 'http://localhost:3001';
+
+export const FORMAT_LABELS: Record<TournamentFormat, string> = {
+  'round-robin': 'Round robin',
+  swiss: 'Swiss',
+  'single-elimination': 'Knockout',
+};
+
+export async function fetchTournaments(): Promise<TournamentSummary[]> {
+  const res = await fetch(`${SERVER_URL}/api/tournaments`);
+  if (!res.ok) throw new Error('Could not load tournaments');
+  return res.json() as Promise<TournamentSummary[]>;
+}
+
+export async function fetchTournament(id: string): Promise<TournamentView> {
+  const res = await fetch(`${SERVER_URL}/api/tournaments/${encodeURIComponent(id)}`);
+  if (res.status === 404) throw new Error('Tournament not found');
+  if (!res.ok) throw new Error('Could not load tournament');
+  return res.json() as Promise<TournamentView>;
+}
+
+async function post(path: string, body: unknown, fallback: string): Promise<TournamentView> {
+  const res = await fetch(`${SERVER_URL}${path}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...authHeaders() },
+    body: JSON.stringify(body),
+  });
+  const data = await res.json();
+  if (!res.ok) throw new Error(data.error || fallback);
+  return data as TournamentView;
+}
+
+export function createTournament(input: {
+  name: string;
+  gameType: GameType;
+  format: TournamentFormat;
+  size: number;
+  options?: GameOptions;
+}): Promise<TournamentView> {
+  return post('/api/tournaments', input, 'Could not create tournament');
+}
+
+/** Register for, withdraw from, or (as the organizer) start a tournament. */
+export function updateTournament(id: string, action: 'join' | 'leave' | 'start'): Promise<TournamentView> {
+  return post(`/api/tournaments/${encodeURIComponent(id)}/${action}`, {}, `Could not ${action} the tournament`);
+}
@@ -1,16 +1,13 @@
+import type { CheckersPiece, ChessColor, ChessPiece, ChessVariant, PieceColor, Position } from 'yourturn-shared';
+
+// Board and piece types come from the shared rules package, like the move hints
+export type { CheckersPiece, ChessColor, ChessPiece, ChessPieceType, ChessVariant, PieceColor, Position } from 'yourturn-shared';
+
 export type GameType = 'checkers' | 'chess' | 'connect4' | 'reversi' | 'tictactoe' | 'gomoku' | 'mancala' | 'dotsboxes' | 'navalbattle' | 'go' | 'backgammon' | 'cribbage';
-export type PieceColor = 'red' | 'black';
 export type RoomStatus = 'waiting' | 'playing' | 'finished';
 
-export interface Position {
-  row: number;
-  col: number;
-}
-
-export interface CheckersPiece {
-  color: PieceColor;
-  isKing: boolean;
-}
+export type RoomRole = 'player' | 'spectator';
+export type BotDifficulty = 'easy' | 'medium' | 'hard';
 
 export interface CheckersState {
   board: (CheckersPiece | null)[][];
@@ -28,10 +25,69 @@ export interface CheckersState {
   mustContinueFrom: Position | null;
 }
 
+export interface ChessState {
+  board: (ChessPiece | null)[][];
+  currentTurn: ChessColor;
+  players: { white: string; black: string };
+  captures: { white: ChessPiece[]; black: ChessPiece[] };
+  winner: string | null;
+  winReason: string | null;
+  enPassantTarget: Position | null;
+  moveCount: number;
+  halfMoveClock: number;
+  inCheck: boolean;
+  lastMove: { from: Position; to: Position } | null;
+  fen: string;
+  claimableDraw: string | null; // why a draw can be claimed right now, e.g. threefold repetition
+  variant: ChessVariant;
+  checks: { white: number; black: number }; // checks each side has given, which decide three-check
+  opening: { eco: string; name: string } | null; // the last opening-book position reached, standard chess only
+}
+
 export interface PlayerInfo {
   id: string;
   name: string;
   connected: boolean;
+  bot?: BotDifficulty | null; // computer player's difficulty; only sent for seated players
+  accountId?: string | null; // signed-in player; only sent for seated players
+  rating?: number | null; // their rating in the room's game; only sent for seated players
+}
+
+// ---- Game Catalogue ----
+// Mirrors the server's game registry, served by GET /api/games.
+
+export type GameOptionValue = string | number | boolean;
+export type GameOptions = Record<string, GameOptionValue>;
+
+export type GameOptionSchema =
+  | { key: string; label: string; type: 'select'; choices: { value: string; label: string }[]; default: string }
+  | { key: string; label: string; type: 'number'; min: number; max: number; default: number }
+  | { key: string; label: string; type: 'boolean'; default: boolean }
+  | { key: string; label: string; type: 'text'; maxLength: number; multiline?: boolean; default: string };
+
+export interface GameInfo {
+  id: GameType;
+  name: string;
+  description: string;
+  minPlayers: number;
+  maxPlayers: number;
+  rules: string[];
+  options: GameOptionSchema[];
+}
+
+// ---- Time Control ----
+
+export type TimeControl =
+  | { type: 'fischer'; initialMs: number; incrementMs: number }
+  | { type: 'bronstein'; initialMs: number; delayMs: number }
+  | { type: 'per-move'; moveMs: number }
+  | { type: 'correspondence'; days: number };
+
+// Attached to game:state as `clock` in timed rooms
+export interface ClockView {
+  timeControl: TimeControl;
+  remainingMs: Record<string, number>;
+  active: string[];
 }
 
 export interface ChatMessage {
@@ -40,3 +96,243 @@ export interface ChatMessage {
   timestamp: number;
   isSystem: boolean;
 }
+
+// ---- Public Lobby ----
+
+// A waiting public room, from GET /api/rooms and the lobby:rooms event
+export interface PublicRoomInfo {
+  code: string;
+  gameType: GameType;
+  hostName: string;
+  playerCount: number;
+  maxPlayers: number;
+  timeControl: TimeControl | null;
+  rated: boolean;
+  createdAt: number;
+}
+
+// ---- Replays ----
+
+// A finished game from GET /api/replays/:id: the spectator's view of every position
+export interface Replay {
+  id: string;
+  gameType: GameType;
+  players: { id: string; name: string }[];
+  winner: string | null; // null = draw
+  reason: string;
+  steps: ReplayStep[];
+  seed: number | null; // create a room with this seed to deal the same game again
+  finishedAt: number;
+}
+
+export interface ReplayStep {
+  state: unknown;
+  // null for the starting position; annotation is what the players noted after the game
+  move: { playerId: string; timestamp: number; annotation?: MoveAnnotation } | null;
+}
+
+// ---- Game History ----
+
+// A finished game from GET /api/accounts/:id/games
+export interface ArchivedGameSummary {
+  id: string;
+  gameType: GameType;
+  players: { id: string; name: string; accountId: string | null }[];
+  winner: string | null; // player id; null = draw
+  reason: string;
+  moveCount: number;
+  rated: boolean;
+  startedAt: number;
+  finishedAt: number;
+  durationMs: number;
+  replayId: string | null; // null once the server no longer keeps the replay
+  seed: number | null;
+}
+
+// One account's record against another, from the first account's side
+export interface HeadToHead {
+  accountId: string;
+  opponentId: string;
+  games: number;
+  wins: number;
+  losses: number;
+  draws: number;
+}
+
+// ---- Accounts ----
+
+export interface AccountInfo {
+  id: string;
+  username: string;
+  createdAt: number;
+}
+
+// How a rated game moved one player's rating (in game:over)
+export interface RatingChange {
+  rating: number;
+  change: number;
+}
+
+// ---- Review ----
+
+export type AnnotationGlyph = '!!' | '!' | '?' | '??';
+
+export interface MoveAnnotation {
+  glyph: AnnotationGlyph | null;
+  comment: string; // '' = none
+}
+
+// One move of a finished game, as game:move-list sends it
+export interface MoveListEntry {
+  label: string; // the move in the game's notation, e.g. SAN
+  playerId: string;
+  annotation: MoveAnnotation | null;
+}
+
+// One row of GET /api/ratings/:gameType
+export interface LeaderboardEntry {
+  rank: number;
+  accountId: string;
+  username: string;
+  rating: number;
+  rd: number;
+  games: number;
+  wins: number;
+  losses: number;
+  draws: number;
+}
+
+// ---- Match Play ----
+
+// Best of 3/5/7 of one game, or a "decathlon" of one game of each listed type
+export type MatchFormat =
+  | { type: 'best-of'; games: 3 | 5 | 7 }
+  | { type: 'decathlon'; gameTypes: GameType[] };
+
+// A room's series score (room:joined, room:match); draws score half a point
+export interface MatchState {
+  format: MatchFormat;
+  playerIds: string[]; // in the order they take turns moving first
+  scores: Record<string, number>;
+  results: { gameType: GameType; winner: string | null }[];
+  finished: boolean;
+  winner: string | null;
+}
+
+// ---- Tournaments ----
+
+export type TournamentFormat = 'round-robin' | 'swiss' | 'single-elimination';
+
+export type TournamentStatus = 'registering' | 'running' | 'finished';
+
+export interface TournamentParticipant {
+  accountId: string;
+  name: string;
+  seed: number;
+}
+
+// One game of a round; no second player is a bye
+export interface TournamentPairing {
+  players: [string, string | null]; // account ids
+  roomCode: string | null;
+  finished: boolean;
+  winner: string | null; // null once finished = draw
+}
+
+export interface TournamentRound {
+  number: number;
+  pairings: TournamentPairing[];
+}
+
+export interface Tournament {
+  id: string;
+  name: string;
+  gameType: GameType;
+  options: GameOptions;
+  format: TournamentFormat;
+  size: number;
+  organizerId: string;
+  participants: TournamentParticipant[];
+  rounds: TournamentRound[];
+  totalRounds: number;
+  status: TournamentStatus;
+  winner: string | null;
+  createdAt: number;
+  startedAt: number | null;
+  finishedAt: number | null;
+}
+
+// One row of GET /api/tournaments
+export interface TournamentSummary {
+  id: string;
+  name: string;
+  gameType: GameType;
+  format: TournamentFormat;
+  size: number;
+  playerCount: number;
+  status: TournamentStatus;
+  createdAt: number;
+}
+
+export interface TournamentStanding {
+  rank: number;
+  accountId: string;
+  name: string;
+  points: number;
+  wins: number;
+  draws: number;
+  losses: number;
+  buchholz: number;
+  sonnebornBerger: number;
+}
+
+// GET /api/tournaments/:id and the tournament:update event
+export interface TournamentView {
+  tournament: Tournament;
+  standings: TournamentStanding[];
+}
+
+// ---- Correspondence ----
+
+// One of the signed-in player's open correspondence games
+export interface CorrespondenceGame {
+  roomCode: string;
+  gameType: GameType;
+  status: RoomStatus;
+  opponents: string[];
+  yourTurn: boolean;
+  deadline: number | null; // when the player to move runs out of time
+  lastActivity: number;
+}
+
+// ---- Move Payloads ----
+// Mirrors the per-game move shapes the server engines accept on `game:move`.
+
+export type PromotionPiece = 'queen' | 'rook' | 'bishop' | 'knight';
+
+export interface CheckersMove { type: 'move'; from: Position; to: Position }
+export interface ChessMove { type: 'move'; from: Position; to: Position; promotion?: PromotionPiece }
+export interface Connect4Move { type: 'drop'; col: number }
+export interface PlaceMove { type: 'place'; position: Position } // reversi, tic-tac-toe, gomoku
+export interface MancalaMove { type: 'sow'; pit: number }
+export interface DotsBoxesMove { type: 'line'; from: Position; to: Position }
+export interface NavalBattleMove { type: 'fire'; target: Position }
+export type GoMove = PlaceMove | { type: 'pass' };
+export type BackgammonMove = { type: 'move'; from: number; to: number } | { type: 'pass' };
+export type CribbageMove =
+  | { type: 'discard'; cards: [number, number] }
+  | { type: 'play'; card: number }
+  | { type: 'go' }
+  | { type: 'acknowledge' };
+
+export type GameMove =
+  | CheckersMove
+  | ChessMove
+  | Connect4Move
+  | PlaceMove
+  | MancalaMove
+  | DotsBoxesMove
+  | NavalBattleMove
+  | GoMove
+  | BackgammonMove
+  | CribbageMove;
@@ -0,0 +1,100 @@
+import { beforeEach, describe, it, expect } from 'vitest';
+import { createMemoryAccountStore } from '../storage';
+import {
+  MAX_FAILED_SIGN_INS,
+  SESSION_TTL_MS,
+  SIGN_IN_LOCKOUT_MS,
+  getAccountIdForToken,
+  initAccountStorage,
+  registerAccount,
+  signIn,
+  signOut,
+} from './index';
+
+const CLIENT = '10.0.0.1';
+const WRONG = { error: 'Wrong username or password' };
+
+function register(username: string, password = 'correct horse') {
+  const result = registerAccount(username, password);
+  if ('error' in result) throw new Error(result.error);
+  return result;
+}
+
+describe('accounts', () => {
+  beforeEach(() => {
+    initAccountStorage(createMemoryAccountStore());
+  });
+
+  it('signs a new account in and resolves its token', () => {
+    const { account, token } = register('Alice');
+    expect(getAccountIdForToken(token)).toBe(account.id);
+    expect(account.passwordHash).not.toContain('correct horse');
+  });
+
+  it('rejects bad usernames, short passwords and taken names', () => {
+    expect(registerAccount('al', 'correct horse')).toEqual({ error: 'Username must be 3-20 letters or numbers' });
+    expect(registerAccount('Alice', 'short')).toEqual({ error: 'Password must be 8-100 characters' });
+    register('Alice');
+    expect(registerAccount('alice', 'another one')).toEqual({ error: 'That username is taken' });
+  });
+
+  it('signs in with the right password only', () => {
+    const { account } = register('Alice');
+    expect(signIn('Alice', 'wrong password', CLIENT)).toEqual(WRONG);
+    expect(signIn('Nobody', 'correct horse', CLIENT)).toEqual(WRONG);
+
+    const result = signIn('ALICE', 'correct horse', CLIENT);
+    if ('error' in result) throw new Error(result.error);
+    expect(result.account.id).toBe(account.id);
+    expect(getAccountIdForToken(result.token)).toBe(account.id);
+  });
+
+  it('holds off a client after too many wrong passwords for a username', () => {
+    register('Alice');
+    const now = Date.now();
+    const locked = { error: 'Too many wrong passwords, try again later', locked: true };
+    for (let i = 0; i < MAX_FAILED_SIGN_INS; i++) {
+      expect(signIn('Alice', 'wrong', CLIENT, now)).toEqual(WRONG);
+      expect(signIn('Nobody', 'wrong', CLIENT, now)).toEqual(WRONG);
+    }
+    expect(signIn('Alice', 'correct horse', CLIENT, now)).toEqual(locked);
+    expect(signIn('Nobody', 'correct horse', CLIENT, now)).toEqual(locked);
+
+    // The owner, signing in from elsewhere, isn't locked out
+    expect(signIn('Alice', 'correct horse', '10.0.0.2', now)).toHaveProperty('token');
+    const later = now + SIGN_IN_LOCKOUT_MS;
+    expect(signIn('Alice', 'correct horse', CLIENT, later)).toHaveProperty('token');
+  });
+
+  it('expires sessions after a month', () => {
+    const now = Date.now();
+    register('Alice');
+    const result = signIn('Alice', 'correct horse', CLIENT, now);
+    if ('error' in result) throw new Error(result.error);
+
+    expect(getAccountIdForToken(result.token, now + SESSION_TTL_MS - 1)).toBe(result.account.id);
+    expect(getAccountIdForToken(result.token, now + SESSION_TTL_MS)).toBeNull();
+    expect(getAccountIdForToken(result.token, now)).toBeNull();
+  });
+
+  it('forgets a token after sign-out but keeps other sessions', () => {
+    const first = register('Alice');
+    const second = signIn('Alice', 'correct horse', CLIENT);
+    if ('error' in second) throw new Error(second.error);
+
+    signOut(first.token);
+    expect(getAccountIdForToken(first.token)).toBeNull();
+    expect(getAccountIdForToken(second.token)).toBe(first.account.id);
+    expect(getAccountIdForToken(undefined)).toBeNull();
+  });
+
+  it('reloads accounts and sessions from the store', async () => {
+    const store = createMemoryAccountStore();
+    initAccountStorage(store);
+    const { account, token } = register('Alice');
+    await Promise.resolve();
+
+    expect(initAccountStorage(store)).toBe(1);
+    expect(getAccountIdForToken(token)).toBe(account.id);
+  });
+});
@@ -0,0 +1,168 @@
+import { createHash, randomBytes, scryptSync, timingSafeEqual } from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import { Account, AccountInfo } from '../types';
+import { AccountSession, AccountStore, createMemoryAccountStore } from '../storage';
+
+// ---- Accounts ----
+// Optional sign-in, so a person keeps one identity across rooms and tabs.
+// Guests keep playing without one. Passwords are stored as salted scrypt
+// hashes and sign-in tokens only as SHA-256 hashes. Sign-ins last a month,
+// and a client that keeps guessing a username's password is held off for a while.
+
+const accounts = new Map<string, Account>(); // by id
+const sessions = new Map<string, AccountSession>(); // by token hash
+// by lower-cased username and client, so a guesser can't lock the owner out
+const failedSignIns = new Map<string, { count: number; since: number }>();
+let store: AccountStore = createMemoryAccountStore();
+
+const KEY_LENGTH = 64;
+export const SESSION_TTL_MS = 30 * 24 * 60 * 60_000;
+export const MAX_FAILED_SIGN_INS = 5;
+export const SIGN_IN_LOCKOUT_MS = 15 * 60_000;
+
+/** Switch to the given store and load the accounts it holds. */
+export function initAccountStorage(accountStore: AccountStore): number {
+  store = accountStore;
+  accounts.clear();
+  sessions.clear();
+  failedSignIns.clear();
+  const data = store.load();
+  for (const account of data.accounts) accounts.set(account.id, account);
+  for (const [tokenHash, session] of Object.entries(data.sessions)) {
+    sessions.set(tokenHash, session);
+  }
+  return accounts.size;
+}
+
+function persist(): void {
+  void store.save({ accounts: Array.from(accounts.values()), sessions: Object.fromEntries(sessions) });
+}
+
+function hashPassword(password: string, salt: string): string {
+  return scryptSync(password, salt, KEY_LENGTH).toString('hex');
+}
+
+function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+function startSession(account: Account, now = Date.now()): string {
+  // Forget expired sessions while we're here, so they don't pile up
+  for (const [tokenHash, session] of sessions) {
+    if (session.expiresAt <= now) sessions.delete(tokenHash);
+  }
+  const token = randomBytes(32).toString('base64url');
+  sessions.set(hashToken(token), { accountId: account.id, expiresAt: now + SESSION_TTL_MS });
+  persist();
+  return token;
+}
+
+function findByUsername(username: string): Account | undefined {
+  const wanted = username.toLowerCase();
+  return Array.from(accounts.values()).find(a => a.username.toLowerCase() === wanted);
+}
+
+// Usernames double as display names, so they follow the same rules (minus spaces)
+export function validateUsername(username: unknown): string | null {
+  if (typeof username !== 'string' || !/^[A-Za-z0-9]{3,20}$/.test(username)) {
+    return 'Username must be 3-20 letters or numbers';
+  }
+  return null;
+}
+
+export function validatePassword(password: unknown): string | null {
+  if (typeof password !== 'string' || password.length < 8 || password.length > 100) {
+    return 'Password must be 8-100 characters';
+  }
+  return null;
+}
+
+export function toAccountInfo(account: Account): AccountInfo {
+  return { id: account.id, username: account.username, createdAt: account.createdAt };
+}
+
+/** Create an account and sign it in; returns the new sign-in token. */
+export function registerAccount(
+  username: unknown,
+  password: unknown,
+): { account: Account; token: string } | { error: string } {
+  const error = validateUsername(username) ?? validatePassword(password);
+  if (error) return { error };
+  const name = username as string;
+  if (findByUsername(name)) return { error: 'That username is taken' };
+
+  const salt = randomBytes(16).toString('hex');
+  const account: Account = {
+    id: uuidv4(),
+    username: name,
+    passwordHash: hashPassword(password as string, salt),
+    salt,
+    createdAt: Date.now(),
+  };
+  accounts.set(account.id, account);
+  return { account, token: startSession(account) };
+}
+
+/**
+ * Check a password and start a session. After MAX_FAILED_SIGN_INS wrong
+ * passwords for one username from one `client` (e.g. an IP address), that
+ * client is refused (`locked`) until SIGN_IN_LOCKOUT_MS after the first of
+ * them. Unknown usernames count the same, so the replies don't tell which exist.
+ */
+export function signIn(
+  username: unknown,
+  password: unknown,
+  client: string,
+  now = Date.now(),
+): { account: Account; token: string } | { error: string; locked?: boolean } {
+  if (typeof username !== 'string' || typeof password !== 'string') {
+    return { error: 'Wrong username or password' };
+  }
+
+  // Forget attempts whose lockout has passed, so the map doesn't grow forever
+  for (const [key, failures] of failedSignIns) {
+    if (now - failures.since >= SIGN_IN_LOCKOUT_MS) failedSignIns.delete(key);
+  }
+  const key = `${username.toLowerCase()}\n${client}`;
+  const failures = failedSignIns.get(key);
+  if (failures && failures.count >= MAX_FAILED_SIGN_INS) {
+    return { error: 'Too many wrong passwords, try again later', locked: true };
+  }
+
+  const account = findByUsername(username);
+  const matches =
+    !!account &&
+    timingSafeEqual(
+      Buffer.from(account.passwordHash, 'hex'),
+      Buffer.from(hashPassword(password, account.salt), 'hex'),
+    );
+  if (!account || !matches) {
+    failedSignIns.set(key, { count: (failures?.count ?? 0) + 1, since: failures?.since ?? now });
+    return { error: 'Wrong username or password' };
+  }
+
+  failedSignIns.delete(key);
+  return { account, token: startSession(account, now) };
+}
+
+export function signOut(token: string): void {
+  if (sessions.delete(hashToken(token))) persist();
+}
+
+/** The account a sign-in token belongs to, or null for guests and unknown or expired tokens. */
+export function getAccountIdForToken(token: unknown, now = Date.now()): string | null {
+  if (typeof token !== 'string' || !token) return null;
+  const tokenHash = hashToken(token);
+  const session = sessions.get(tokenHash);
+  if (!session) return null;
+  if (session.expiresAt <= now) {
+    sessions.delete(tokenHash);
+    persist();
+    return null;
+  }
+  return session.accountId;
+}
+
+export function getAccount(id: string): Account | null {
+  return accounts.get(id) ?? null;
+}
@@ -0,0 +1,117 @@
+import { beforeEach, describe, it, expect } from 'vitest';
+import { GameType, Player, Room } from '../types';
+import { makePlayer, makeRoom } from '../testing';
+import { getEngine } from '../games/registry';
+import { recordMove, resetHistory } from '../history';
+import { initReplayStorage, saveReplay } from '../replays';
+import { createMemoryArchiveStore, createMemoryReplayStore } from '../storage';
+import {
+  archiveGame,
+  getArchivedGame,
+  getHeadToHead,
+  initArchiveStorage,
+  listGamesForAccount,
+  toSummary,
+} from './index';
+
+function startRoom(gameType: GameType, players: Player[]): Room {
+  const room = makeRoom({
+    code: 'ARCHIV',
+    gameType,
+    players,
+    gameState: getEngine(gameType).initGame(players.map(p => p.id), undefined, players[0].id),
+  });
+  resetHistory(room);
+  return room;
+}
+
+/** Finish a game between two accounts (or guests) and archive it. */
+function finish(gameType: GameType, a: string | undefined, b: string | undefined, winner: 'a' | 'b' | null) {
+  const players = [makePlayer('a', { accountId: a }), makePlayer('b', { accountId: b })];
+  const room = startRoom(gameType, players);
+  const result = { winner, reason: winner ? 'Resignation' : 'Draw agreed' };
+  return archiveGame(room, result, saveReplay(room, result));
+}
+
+describe('game archive', () => {
+  beforeEach(() => {
+    initArchiveStorage(createMemoryArchiveStore());
+  });
+
+  it('records players, result, move count and the final position', () => {
+    const room = startRoom('tictactoe', [makePlayer('a', { accountId: 'alice' }), makePlayer('b')]);
+    const engine = getEngine('tictactoe');
+    room.gameState = engine.applyMove(room.gameState, 'a', { type: 'place', position: { row: 1, col: 1 } });
+    recordMove(room, 'a', { type: 'place', position: { row: 1, col: 1 } });
+
+    const result = { winner: 'a', reason: 'Resignation' };
+    const replay = saveReplay(room, result);
+    const game = archiveGame(room, result, replay);
+
+    expect(game).toMatchObject({
+      gameType: 'tictactoe',
+      players: [
+        { id: 'a', name: 'Player a', accountId: 'alice' },
+        { id: 'b', name: 'Player b', accountId: null },
+      ],
+      winner: 'a',
+      reason: 'Resignation',
+      moveCount: 1,
+      replayId: replay.id,
+    });
+    expect(game.durationMs).toBeGreaterThanOrEqual(0);
+    expect((game.finalState as { board: unknown[][] }).board[1][1]).toBe('X');
+    expect(getArchivedGame(game.id)).toBe(game);
+    expect(toSummary(game)).not.toHaveProperty('finalState');
+    expect(toSummary(game).replayId).toBe(replay.id);
+  });
+
+  it('drops the replay id from summaries once the replay is gone', () => {
+    const game = finish('tictactoe', 'alice', 'bob', 'a');
+    initReplayStorage(createMemoryReplayStore());
+
+    expect(getArchivedGame(game.id)?.replayId).toBe(game.replayId);
+    expect(toSummary(game).replayId).toBeNull();
+  });
+
+  it("lists an account's games newest first, by game type", () => {
+    const first = finish('tictactoe', 'alice', 'bob', 'a');
+    const second = finish('connect4', 'alice', undefined, null);
+    const third = finish('tictactoe', 'carol', 'alice', 'a');
+    finish('tictactoe', 'bob', 'carol', 'b');
+
+    expect(listGamesForAccount('alice', { limit: 10 }).map(g => g.id)).toEqual([third.id, second.id, first.id]);
+    expect(listGamesForAccount('alice', { gameType: 'tictactoe', limit: 10 }).map(g => g.id)).toEqual([
+      third.id,
+      first.id,
+    ]);
+    expect(listGamesForAccount('alice', { limit: 1 })).toHaveLength(1);
+  });
+
+  it('counts head-to-head wins, losses and draws from either side', () => {
+    finish('tictactoe', 'alice', 'bob', 'a');
+    finish('tictactoe', 'bob', 'alice', 'a');
+    finish('connect4', 'alice', 'bob', null);
+    finish('tictactoe', 'alice', 'carol', 'a');
+
+    expect(getHeadToHead('alice', 'bob')).toEqual({
+      accountId: 'alice',
+      opponentId: 'bob',
+      games: 3,
+      wins: 1,
+      losses: 1,
+      draws: 1,
+    });
+    expect(getHeadToHead('bob', 'alice', 'tictactoe')).toMatchObject({ games: 2, wins: 1, losses: 1, draws: 0 });
+  });
+
+  it('reloads games from the store', async () => {
+    const store = createMemoryArchiveStore();
+    initArchiveStorage(store);
+    const game = finish('tictactoe', 'alice', 'bob', 'b');
+    await Promise.resolve();
+
+    expect(initArchiveStorage(store)).toBe(1);
+    expect(getArchivedGame(game.id)?.winner).toBe('b');
+  });
+});
@@ -0,0 +1,93 @@
+import { ArchivedGame, ArchivedGameSummary, GameResult, GameType, HeadToHead, Replay, Room } from '../types';
+import { ArchiveStore, createMemoryArchiveStore } from '../storage';
+import { hasReplay } from '../replays';
+
+// ---- Game Archive ----
+// A permanent record of every finished game: who played, the result, how long
+// it took and the final position. Replays keep every position but only for a
+// while; the archive keeps one position for good and points at the replay.
+
+const games: ArchivedGame[] = []; // oldest first
+let store: ArchiveStore = createMemoryArchiveStore();
+
+/** Switch to the given store and load the games it holds. */
+export function initArchiveStorage(archiveStore: ArchiveStore): number {
+  store = archiveStore;
+  games.length = 0;
+  games.push(...store.load().games);
+  return games.length;
+}
+
+/** Record a room's just-finished game, sharing the id and final position of its replay. */
+export function archiveGame(room: Room, result: GameResult, replay: Replay): ArchivedGame {
+  const startedAt = room.gameStartedAt ?? room.createdAt;
+  const game: ArchivedGame = {
+    id: replay.id,
+    gameType: room.gameType,
+    players: room.players.map(p => ({ id: p.id, name: p.name, accountId: p.accountId ?? null })),
+    winner: result.winner,
+    reason: replay.reason,
+    moveCount: room.moveHistory.length,
+    rated: room.rated,
+    startedAt,
+    finishedAt: replay.finishedAt,
+    durationMs: replay.finishedAt - startedAt,
+    finalState: replay.steps[replay.steps.length - 1].state,
+    replayId: replay.id,
+    seed: replay.seed,
+  };
+  games.push(game);
+  void store.save({ games });
+  return game;
+}
+
+export function getArchivedGame(id: string): ArchivedGame | null {
+  return games.find(g => g.id === id) ?? null;
+}
+
+export function toSummary(game: ArchivedGame): ArchivedGameSummary {
+  const summary: Partial<ArchivedGame> = { ...game };
+  delete summary.finalState;
+  // The in-memory replay store forgets old games that the archive still lists
+  const replayId = hasReplay(game.replayId) ? game.replayId : null;
+  return { ...(summary as Omit<ArchivedGame, 'finalState'>), replayId };
+}
+
+function playedBy(game: ArchivedGame, accountId: string): boolean {
+  return game.players.some(p => p.accountId === accountId);
+}
+
+/**
+ * An account's games, newest first, optionally for one game type and only
+ * those finished before `before` (for paging).
+ */
+export function listGamesForAccount(
+  accountId: string,
+  { gameType, limit, before }: { gameType?: GameType; limit: number; before?: number },
+): ArchivedGame[] {
+  const found: ArchivedGame[] = [];
+  for (let i = games.length - 1; i >= 0 && found.length < limit; i--) {
+    const game = games[i];
+    if (!playedBy(game, accountId)) continue;
+    if (gameType && game.gameType !== gameType) continue;
+    if (before !== undefined && game.finishedAt >= before) continue;
+    found.push(game);
+  }
+  return found;
+}
+
+/** Wins, losses and draws between two accounts, from the first one's side. */
+export function getHeadToHead(accountId: string, opponentId: string, gameType?: GameType): HeadToHead {
+  const record: HeadToHead = { accountId, opponentId, games: 0, wins: 0, losses: 0, draws: 0 };
+  for (const game of games) {
+    if (!playedBy(game, accountId) || !playedBy(game, opponentId)) continue;
+    if (gameType && game.gameType !== gameType) continue;
+
+    const winner = game.players.find(p => p.id === game.winner)?.accountId;
+    record.games++;
+    if (game.winner === null) record.draws++;
+    else if (winner === accountId) record.wins++;
+    else if (winner === opponentId) record.losses++;
+  }
+  return record;
+}
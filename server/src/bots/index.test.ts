@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+import { PlayoutGame, SearchGame, WIN_SCORE, isBotDifficulty, mcts, minimax, pickRandom } from './index';
+
+// Nim: take 1-3 stones, whoever takes the last stone wins. The winning move
+// always leaves a multiple of four.
+interface Nim {
+  stones: number;
+  botToMove: boolean;
+}
+
+const takes = (state: Nim) => [1, 2, 3].filter(n => n <= state.stones);
+const take = (state: Nim, n: number): Nim => ({ stones: state.stones - n, botToMove: !state.botToMove });
+
+const nimSearch: SearchGame<Nim, number> = {
+  moves: takes,
+  play: take,
+  botToMove: state => state.botToMove,
+  evaluate: () => 0,
+  // Whoever is to move with no stones left lost to the previous taker
+  finalScore: state => (state.botToMove ? -WIN_SCORE : WIN_SCORE),
+};
+
+const nimPlayout: PlayoutGame<Nim, number> = {
+  moves: takes,
+  play: take,
+  botToMove: state => state.botToMove,
+  outcome: state => (state.stones === 0 ? (state.botToMove ? 0 : 1) : 0.5),
+};
+
+describe('minimax', () => {
+  it('finds the winning move', () => {
+    expect(minimax(nimSearch, { stones: 7, botToMove: true }, 8)).toBe(3);
+    expect(minimax(nimSearch, { stones: 6, botToMove: true }, 8)).toBe(2);
+    expect(minimax(nimSearch, { stones: 3, botToMove: true }, 8)).toBe(3);
+  });
+
+  it('still returns a legal move when every move loses', () => {
+    expect(takes({ stones: 8, botToMove: true })).toContain(minimax(nimSearch, { stones: 8, botToMove: true }, 8));
+  });
+
+  it('refuses a finished game', () => {
+    expect(() => minimax(nimSearch, { stones: 0, botToMove: true }, 3)).toThrow('No legal moves');
+  });
+});
+
+describe('mcts', () => {
+  it('finds the winning move', () => {
+    expect(mcts(nimPlayout, { stones: 5, botToMove: true }, 500, 20)).toBe(1);
+    expect(mcts(nimPlayout, { stones: 3, botToMove: true }, 200, 20)).toBe(3);
+  });
+
+  it('plays the only legal move without searching', () => {
+    expect(mcts(nimPlayout, { stones: 1, botToMove: true }, 0, 20)).toBe(1);
+  });
+
+  it('refuses a finished game', () => {
+    expect(() => mcts(nimPlayout, { stones: 0, botToMove: true }, 10, 20)).toThrow('No legal moves');
+  });
+});
+
+describe('difficulty helpers', () => {
+  it('recognises the difficulty levels', () => {
+    expect(isBotDifficulty('easy')).toBe(true);
+    expect(isBotDifficulty('hard')).toBe(true);
+    expect(isBotDifficulty('impossible')).toBe(false);
+    expect(isBotDifficulty(undefined)).toBe(false);
+  });
+
+  it('picks from the list it is given', () => {
+    expect(['a', 'b']).toContain(pickRandom(['a', 'b']));
+    expect(() => pickRandom([])).toThrow();
+  });
+});
@@ -0,0 +1,190 @@
+import { BotDifficulty } from '../types';
+
+// ---- Computer Opponents ----
+// Shared search routines for the per-game bots. An engine supports computer
+// players by implementing `chooseMove`: perfect-information games describe
+// themselves to minimax or MCTS below, hidden-information games use their own
+// heuristics and only look at what their seat could see.
+
+export const BOT_DIFFICULTIES: readonly BotDifficulty[] = ['easy', 'medium', 'hard'];
+
+export function isBotDifficulty(value: unknown): value is BotDifficulty {
+  return BOT_DIFFICULTIES.includes(value as BotDifficulty);
+}
+
+// How often a bot plays a random legal move instead of its best one
+const BLUNDER_RATE: Record<BotDifficulty, number> = { easy: 0.3, medium: 0.1, hard: 0 };
+
+export function pickRandom<T>(items: readonly T[]): T {
+  if (items.length === 0) throw new Error('Nothing to pick from');
+  return items[Math.floor(Math.random() * items.length)];
+}
+
+export function shouldBlunder(difficulty: BotDifficulty): boolean {
+  return Math.random() < BLUNDER_RATE[difficulty];
+}
+
+// ---- Minimax ----
+
+export const WIN_SCORE = 1_000_000;
+
+export interface SearchGame<S, M> {
+  moves(state: S): M[]; // legal moves for whoever is to play; none = game over
+  play(state: S, move: M): S;
+  botToMove(state: S): boolean; // checked every ply, so extra turns are fine
+  evaluate(state: S): number; // where the search stops; higher is better for the bot
+  finalScore(state: S): number; // no moves left: WIN_SCORE, -WIN_SCORE or 0 for a draw
+}
+
+function alphaBeta<S, M>(game: SearchGame<S, M>, state: S, depth: number, alpha: number, beta: number): number {
+  if (depth === 0) return game.evaluate(state);
+
+  const moves = game.moves(state);
+  if (moves.length === 0) {
+    // Prefer quick wins and slow losses
+    const score = game.finalScore(state);
+    return score > 0 ? score + depth : score < 0 ? score - depth : 0;
+  }
+
+  if (game.botToMove(state)) {
+    let best = -Infinity;
+    for (const move of moves) {
+      best = Math.max(best, alphaBeta(game, game.play(state, move), depth - 1, alpha, beta));
+      alpha = Math.max(alpha, best);
+      if (alpha >= beta) break;
+    }
+    return best;
+  }
+
+  let best = Infinity;
+  for (const move of moves) {
+    best = Math.min(best, alphaBeta(game, game.play(state, move), depth - 1, alpha, beta));
+    beta = Math.min(beta, best);
+    if (alpha >= beta) break;
+  }
+  return best;
+}
+
+/**
+ * The bot's best move by alpha-beta search to `depth` plies, picking at random
+ * between equally good moves. Moves are searched in the order `moves` returns
+ * them, so list the promising ones first.
+ */
+export function minimax<S, M>(game: SearchGame<S, M>, state: S, depth: number): M {
+  const moves = game.moves(state);
+  if (moves.length === 0) throw new Error('No legal moves');
+
+  let best: M[] = [];
+  let bestScore = -Infinity;
+  for (const move of moves) {
+    // A window just below the best score so far still scores ties exactly
+    const score = alphaBeta(game, game.play(state, move), depth - 1, bestScore - 1e-6, Infinity);
+    if (score > bestScore) {
+      best = [move];
+      bestScore = score;
+    } else if (score === bestScore) {
+      best.push(move);
+    }
+  }
+  return pickRandom(best);
+}
+
+/** Minimax at the given depth, except that weaker bots sometimes play any legal move. */
+export function searchMove<S, M>(game: SearchGame<S, M>, state: S, depth: number, difficulty: BotDifficulty): M {
+  if (shouldBlunder(difficulty)) return pickRandom(game.moves(state));
+  return minimax(game, state, depth);
+}
+
+// ---- Monte Carlo Tree Search ----
+
+export interface PlayoutGame<S, M> {
+  moves(state: S): M[]; // legal moves for whoever is to play; none = game over
+  play(state: S, move: M): S;
+  botToMove(state: S): boolean;
+  outcome(state: S): number; // the bot's chance of winning from here, 0..1; exact once the game is over
+  playoutMove?(state: S): M | null; // cheap move for random playouts; null = game over
+}
+
+interface TreeNode<S, M> {
+  state: S;
+  move: M | null;
+  parent: TreeNode<S, M> | null;
+  children: TreeNode<S, M>[];
+  untried: M[];
+  visits: number;
+  wins: number; // summed outcomes for the bot
+  botMoved: boolean; // whether the bot made the move into this node
+}
+
+const EXPLORATION = Math.SQRT2;
+
+function newNode<S, M>(
+  game: PlayoutGame<S, M>,
+  state: S,
+  move: M | null,
+  parent: TreeNode<S, M> | null,
+  botMoved: boolean,
+): TreeNode<S, M> {
+  return { state, move, parent, children: [], untried: game.moves(state), visits: 0, wins: 0, botMoved };
+}
+
+/** UCT score of a child from the point of view of whoever chose it. */
+function uct<S, M>(child: TreeNode<S, M>, parentVisits: number): number {
+  const winRate = child.wins / child.visits;
+  const value = child.botMoved ? winRate : 1 - winRate;
+  return value + EXPLORATION * Math.sqrt(Math.log(parentVisits) / child.visits);
+}
+
+function playout<S, M>(game: PlayoutGame<S, M>, state: S, maxPlies: number): number {
+  let current = state;
+  for (let ply = 0; ply < maxPlies; ply++) {
+    let move: M | null;
+    if (game.playoutMove) {
+      move = game.playoutMove(current);
+    } else {
+      const moves = game.moves(current);
+      move = moves.length > 0 ? pickRandom(moves) : null;
+    }
+    if (move === null) break;
+    current = game.play(current, move);
+  }
+  return game.outcome(current);
+}
+
+/**
+ * The bot's move by Monte Carlo tree search: `iterations` random playouts of
+ * at most `maxPlies` moves each, after which `outcome` estimates the result.
+ * Chance events (dice) are sampled once when a node is first expanded.
+ */
+export function mcts<S, M>(game: PlayoutGame<S, M>, state: S, iterations: number, maxPlies: number): M {
+  const root = newNode(game, state, null, null, false);
+  if (root.untried.length === 0) throw new Error('No legal moves');
+  if (root.untried.length === 1) return root.untried[0];
+
+  for (let i = 0; i < iterations; i++) {
+    // Selection
+    let node = root;
+    while (node.untried.length === 0 && node.children.length > 0) {
+      const parentVisits = node.visits;
+      node = node.children.reduce((a, b) => (uct(b, parentVisits) > uct(a, parentVisits) ? b : a));
+    }
+
+    // Expansion
+    if (node.untried.length > 0) {
+      const index = Math.floor(Math.random() * node.untried.length);
+      const [move] = node.untried.splice(index, 1);
+      const child = newNode(game, game.play(node.state, move), move, node, game.botToMove(node.state));
+      node.children.push(child);
+      node = child;
+    }
+
+    // Simulation and backpropagation
+    const result = playout(game, node.state, maxPlies);
+    for (let n: TreeNode<S, M> | null = node; n; n = n.parent) {
+      n.visits++;
+      n.wins += result;
+    }
+  }
+
+  return root.children.reduce((a, b) => (b.visits > a.visits ? b : a)).move!;
+}
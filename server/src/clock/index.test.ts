@@ -0,0 +1,118 @@
+import { describe, it, expect } from 'vitest';
+import { TimeControl } from '../types';
+import {
+  clockView,
+  createClock,
+  nextTimeout,
+  parseTimeControl,
+  remainingTime,
+  stopClock,
+  updateClock,
+} from './index';
+
+const A = 'player-a';
+const B = 'player-b';
+const PLAYERS = [A, B];
+
+// ============================================================
+// Time control parsing
+// ============================================================
+
+describe('parseTimeControl', () => {
+  it('treats a missing time control as untimed', () => {
+    expect(parseTimeControl(undefined)).toBeNull();
+    expect(parseTimeControl(null)).toBeNull();
+  });
+
+  it('accepts each supported kind and drops unknown fields', () => {
+    expect(parseTimeControl({ type: 'fischer', initialMs: 300_000, incrementMs: 3_000, extra: 1 })).toEqual({
+      type: 'fischer',
+      initialMs: 300_000,
+      incrementMs: 3_000,
+    });
+    expect(parseTimeControl({ type: 'bronstein', initialMs: 60_000, delayMs: 5_000 })).toEqual({
+      type: 'bronstein',
+      initialMs: 60_000,
+      delayMs: 5_000,
+    });
+    expect(parseTimeControl({ type: 'per-move', moveMs: 30_000 })).toEqual({ type: 'per-move', moveMs: 30_000 });
+    expect(parseTimeControl({ type: 'correspondence', days: 3 })).toEqual({ type: 'correspondence', days: 3 });
+  });
+
+  it('rejects out-of-range or malformed settings', () => {
+    expect(typeof parseTimeControl({ type: 'fischer', initialMs: 1_000, incrementMs: 0 })).toBe('string');
+    expect(typeof parseTimeControl({ type: 'correspondence', days: 30 })).toBe('string');
+    expect(typeof parseTimeControl({ type: 'hourglass' })).toBe('string');
+    expect(typeof parseTimeControl('blitz')).toBe('string');
+  });
+});
+
+// ============================================================
+// Running clocks
+// ============================================================
+
+describe('clock', () => {
+  it('only runs the active player', () => {
+    const tc: TimeControl = { type: 'fischer', initialMs: 60_000, incrementMs: 0 };
+    const clock = createClock(tc, PLAYERS, [A], 0);
+    expect(remainingTime(clock, A, 10_000)).toBe(50_000);
+    expect(remainingTime(clock, B, 10_000)).toBe(60_000);
+  });
+
+  it('adds the Fischer increment when a turn ends', () => {
+    const tc: TimeControl = { type: 'fischer', initialMs: 60_000, incrementMs: 2_000 };
+    const clock = createClock(tc, PLAYERS, [A], 0);
+    updateClock(clock, tc, [B], 10_000);
+    expect(remainingTime(clock, A, 20_000)).toBe(52_000);
+    expect(remainingTime(clock, B, 20_000)).toBe(50_000);
+  });
+
+  it('refunds Bronstein delay up to the time actually used', () => {
+    const tc: TimeControl = { type: 'bronstein', initialMs: 60_000, delayMs: 5_000 };
+    const clock = createClock(tc, PLAYERS, [A], 0);
+    updateClock(clock, tc, [B], 3_000); // fast move: fully refunded
+    expect(remainingTime(clock, A, 3_000)).toBe(60_000);
+    updateClock(clock, tc, [A], 13_000); // slow move: only the delay comes back
+    expect(remainingTime(clock, B, 13_000)).toBe(55_000);
+  });
+
+  it('gives a fresh budget each move for per-move and correspondence', () => {
+    const tc: TimeControl = { type: 'per-move', moveMs: 30_000 };
+    const clock = createClock(tc, PLAYERS, [A], 0);
+    updateClock(clock, tc, [B], 25_000);
+    updateClock(clock, tc, [A], 30_000);
+    expect(remainingTime(clock, A, 30_000)).toBe(30_000);
+
+    const days: TimeControl = { type: 'correspondence', days: 2 };
+    const slow = createClock(days, PLAYERS, [A], 0);
+    expect(remainingTime(slow, A, 0)).toBe(2 * 24 * 60 * 60 * 1000);
+  });
+
+  it('credits a multi-part turn once', () => {
+    const tc: TimeControl = { type: 'fischer', initialMs: 60_000, incrementMs: 2_000 };
+    const clock = createClock(tc, PLAYERS, [A], 0);
+    updateClock(clock, tc, [A], 5_000); // still A's turn (e.g. a multi-jump)
+    updateClock(clock, tc, [B], 10_000);
+    expect(remainingTime(clock, A, 10_000)).toBe(52_000);
+  });
+
+  it('runs simultaneous clocks independently', () => {
+    const tc: TimeControl = { type: 'fischer', initialMs: 60_000, incrementMs: 0 };
+    const clock = createClock(tc, PLAYERS, [A, B], 0);
+    updateClock(clock, tc, [B], 4_000); // A finished discarding first
+    expect(remainingTime(clock, A, 10_000)).toBe(56_000);
+    expect(remainingTime(clock, B, 10_000)).toBe(50_000);
+    expect(clockView(tc, clock, 10_000).active).toEqual([B]);
+  });
+
+  it('reports who flags next and freezes on stop', () => {
+    const tc: TimeControl = { type: 'fischer', initialMs: 60_000, incrementMs: 0 };
+    const clock = createClock(tc, PLAYERS, [A], 0);
+    expect(nextTimeout(clock, 15_000)).toEqual({ playerId: A, inMs: 45_000 });
+    expect(nextTimeout(clock, 70_000)?.inMs).toBeLessThan(0);
+
+    stopClock(clock, 70_000);
+    expect(nextTimeout(clock, 80_000)).toBeNull();
+    expect(remainingTime(clock, A, 80_000)).toBe(0);
+  });
+});
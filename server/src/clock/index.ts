@@ -0,0 +1,132 @@
+import { ClockState, TimeControl } from '../types';
+import { isRecord, isInteger } from '../games/schema';
+
+// ---- Game Clocks ----
+// The server's clock is authoritative. Each player's clock runs while the
+// engine lists them in getActivePlayers; a player is credited (increment,
+// delay refund, fresh per-move budget) when they drop out of that list, so a
+// multi-part turn (backgammon checkers, a checkers multi-jump) counts once.
+
+const SECOND = 1000;
+const MINUTE = 60 * SECOND;
+const DAY = 24 * 60 * MINUTE;
+
+export interface ClockView {
+  timeControl: TimeControl;
+  remainingMs: Record<string, number>;
+  active: string[];
+}
+
+/** Validate a client-supplied time control; null means untimed. */
+export function parseTimeControl(data: unknown): TimeControl | null | string {
+  if (data === undefined || data === null) return null;
+  if (!isRecord(data)) return 'Invalid time control';
+
+  const inRange = (value: unknown, min: number, max: number): value is number =>
+    isInteger(value) && value >= min && value <= max;
+
+  switch (data.type) {
+    case 'fischer':
+      if (!inRange(data.initialMs, 30 * SECOND, 3 * 60 * MINUTE)) return 'Starting time must be 30 seconds to 3 hours';
+      if (!inRange(data.incrementMs, 0, MINUTE)) return 'Increment must be 0-60 seconds';
+      return { type: 'fischer', initialMs: data.initialMs, incrementMs: data.incrementMs };
+    case 'bronstein':
+      if (!inRange(data.initialMs, 30 * SECOND, 3 * 60 * MINUTE)) return 'Starting time must be 30 seconds to 3 hours';
+      if (!inRange(data.delayMs, 0, MINUTE)) return 'Delay must be 0-60 seconds';
+      return { type: 'bronstein', initialMs: data.initialMs, delayMs: data.delayMs };
+    case 'per-move':
+      if (!inRange(data.moveMs, 5 * SECOND, 60 * MINUTE)) return 'Time per move must be 5 seconds to 1 hour';
+      return { type: 'per-move', moveMs: data.moveMs };
+    case 'correspondence':
+      if (!inRange(data.days, 1, 14)) return 'Correspondence games allow 1-14 days per move';
+      return { type: 'correspondence', days: data.days };
+    default:
+      return 'Invalid time control';
+  }
+}
+
+/** Budget a player starts the game with. */
+function initialBudget(tc: TimeControl): number {
+  switch (tc.type) {
+    case 'fischer':
+    case 'bronstein':
+      return tc.initialMs;
+    case 'per-move':
+      return tc.moveMs;
+    case 'correspondence':
+      return tc.days * DAY;
+  }
+}
+
+export function createClock(
+  tc: TimeControl,
+  playerIds: string[],
+  active: string[],
+  now: number,
+): ClockState {
+  const clock: ClockState = { remainingMs: {}, turnStartedAt: {} };
+  for (const id of playerIds) {
+    clock.remainingMs[id] = initialBudget(tc);
+    clock.turnStartedAt[id] = active.includes(id) ? now : null;
+  }
+  return clock;
+}
+
+/** Time left on a player's clock right now (negative once they have flagged). */
+export function remainingTime(clock: ClockState, playerId: string, now: number): number {
+  const startedAt = clock.turnStartedAt[playerId];
+  const remaining = clock.remainingMs[playerId] ?? 0;
+  return startedAt === null || startedAt === undefined ? remaining : remaining - (now - startedAt);
+}
+
+/** Start and stop clocks after a move so they match the new set of active players. */
+export function updateClock(clock: ClockState, tc: TimeControl, active: string[], now: number): void {
+  for (const id of Object.keys(clock.remainingMs)) {
+    const startedAt = clock.turnStartedAt[id];
+    const wasRunning = startedAt !== null && startedAt !== undefined;
+    const isRunning = active.includes(id);
+
+    if (wasRunning && !isRunning) {
+      const elapsed = now - startedAt;
+      let remaining = clock.remainingMs[id] - elapsed;
+      if (tc.type === 'fischer') remaining += tc.incrementMs;
+      if (tc.type === 'bronstein') remaining += Math.min(elapsed, tc.delayMs);
+      clock.remainingMs[id] = remaining;
+      clock.turnStartedAt[id] = null;
+    } else if (!wasRunning && isRunning) {
+      if (tc.type === 'per-move' || tc.type === 'correspondence') {
+        clock.remainingMs[id] = initialBudget(tc);
+      }
+      clock.turnStartedAt[id] = now;
+    }
+  }
+}
+
+/** Freeze every clock (game over). */
+export function stopClock(clock: ClockState, now: number): void {
+  for (const id of Object.keys(clock.remainingMs)) {
+    clock.remainingMs[id] = Math.max(0, remainingTime(clock, id, now));
+    clock.turnStartedAt[id] = null;
+  }
+}
+
+/** The running player who will flag first, and when. */
+export function nextTimeout(clock: ClockState, now: number): { playerId: string; inMs: number } | null {
+  let next: { playerId: string; inMs: number } | null = null;
+  for (const id of Object.keys(clock.remainingMs)) {
+    if (clock.turnStartedAt[id] === null) continue;
+    const inMs = remainingTime(clock, id, now);
+    if (!next || inMs < next.inMs) next = { playerId: id, inMs };
+  }
+  return next;
+}
+
+export function clockView(tc: TimeControl, clock: ClockState, now: number): ClockView {
+  const remainingMs: Record<string, number> = {};
+  const active: string[] = [];
+  for (const id of Object.keys(clock.remainingMs)) {
+    remainingMs[id] = Math.max(0, remainingTime(clock, id, now));
+    if (clock.turnStartedAt[id] !== null) active.push(id);
+  }
+  return { timeControl: tc, remainingMs, active };
+}
@@ -0,0 +1,132 @@
+import { describe, it, expect } from 'vitest';
+import { Player, Room } from '../types';
+import { makePlayer, makeRoom } from '../testing';
+import {
+  gameOverNotifications,
+  isCorrespondenceRoom,
+  listCorrespondenceGames,
+  moveDeadline,
+  turnNotifications,
+} from './index';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+// A signed-in player's seat, with nobody looking at the game by default
+function makeSeat(id: string, overrides: Partial<Player> = {}): Player {
+  return makePlayer(id, {
+    connected: false,
+    disconnectedAt: 1,
+    accountId: `acc-${id}`,
+    ...overrides,
+  });
+}
+
+// A two-player correspondence game with `toMove`'s clock running since `startedAt`
+function makeGame(code: string, toMove: string | null, startedAt = 1000, overrides: Partial<Room> = {}): Room {
+  return makeRoom({
+    code,
+    gameType: 'chess',
+    timeControl: { type: 'correspondence', days: 3 },
+    clock: {
+      remainingMs: { a: 3 * DAY, b: 3 * DAY },
+      turnStartedAt: { a: toMove === 'a' ? startedAt : null, b: toMove === 'b' ? startedAt : null },
+    },
+    players: [makeSeat('a'), makeSeat('b')],
+    creatorId: 'a',
+    gameStartedAt: 1,
+    lastActivity: startedAt,
+    ...overrides,
+  });
+}
+
+describe('correspondence rooms', () => {
+  it('are rooms with a correspondence time control', () => {
+    expect(isCorrespondenceRoom(makeGame('AAAAAA', 'a'))).toBe(true);
+    expect(isCorrespondenceRoom(makeGame('AAAAAA', 'a', 1000, { timeControl: null }))).toBe(false);
+    expect(
+      isCorrespondenceRoom(makeGame('AAAAAA', 'a', 1000, { timeControl: { type: 'per-move', moveMs: 30_000 } })),
+    ).toBe(false);
+  });
+
+  it('gives the player to move a deadline', () => {
+    const room = makeGame('AAAAAA', 'a', 5000);
+    expect(moveDeadline(room, 'a')).toBe(5000 + 3 * DAY);
+    expect(moveDeadline(room, 'b')).toBeNull();
+  });
+});
+
+describe('correspondence game list', () => {
+  it("lists an account's unfinished games, its own moves first by deadline", () => {
+    const rooms = [
+      makeGame('WAITNG', 'b', 4000), // waiting on the opponent, most recent
+      makeGame('LATER1', 'a', 3000),
+      makeGame('SOONER', 'a', 2000),
+      makeGame('OLDWAI', 'b', 1000),
+      makeGame('FINISH', null, 1000, { status: 'finished' }),
+      makeGame('NOTCOR', 'a', 1000, { timeControl: null }),
+      makeGame('OTHERS', 'a', 1000, { players: [makeSeat('c'), makeSeat('d')] }),
+    ];
+    const games = listCorrespondenceGames(rooms, 'acc-a');
+    expect(games.map(g => g.roomCode)).toEqual(['SOONER', 'LATER1', 'WAITNG', 'OLDWAI']);
+    expect(games[0]).toMatchObject({ yourTurn: true, deadline: 2000 + 3 * DAY, opponents: ['Player b'] });
+    expect(games[2]).toMatchObject({ yourTurn: false, deadline: 4000 + 3 * DAY });
+  });
+
+  it('lists a room still waiting for an opponent without a deadline', () => {
+    const room = makeGame('AAAAAA', null, 1000, { status: 'waiting', clock: null, players: [makeSeat('a')] });
+    expect(listCorrespondenceGames([room], 'acc-a')).toEqual([
+      {
+        roomCode: 'AAAAAA',
+        gameType: 'chess',
+        status: 'waiting',
+        opponents: [],
+        yourTurn: false,
+        deadline: null,
+        lastActivity: 1000,
+      },
+    ]);
+  });
+});
+
+describe('correspondence notifications', () => {
+  it('tells the player who became due to move', () => {
+    const room = makeGame('AAAAAA', 'b', 5000);
+    const [notification, ...rest] = turnNotifications(room, ['a'], 5000);
+    expect(rest).toEqual([]);
+    expect(notification).toMatchObject({
+      type: 'your-turn',
+      accountId: 'acc-b',
+      roomCode: 'AAAAAA',
+      deadline: 5000 + 3 * DAY,
+      text: 'Your move in Chess against Player a',
+    });
+  });
+
+  it('stays quiet for players watching the board, guests and turns already announced', () => {
+    expect(turnNotifications(makeGame('AAAAAA', 'b'), ['b'], 5000)).toEqual([]);
+    const watching = makeGame('AAAAAA', 'b', 1000, {
+      players: [makeSeat('a'), makeSeat('b', { connected: true })],
+    });
+    expect(turnNotifications(watching, ['a'], 5000)).toEqual([]);
+    const guest = makeGame('AAAAAA', 'b', 1000, {
+      players: [makeSeat('a'), makeSeat('b', { accountId: undefined })],
+    });
+    expect(turnNotifications(guest, ['a'], 5000)).toEqual([]);
+    expect(turnNotifications(makeGame('AAAAAA', 'b', 1000, { timeControl: null }), ['a'], 5000)).toEqual([]);
+  });
+
+  it('tells absent players how the game ended', () => {
+    const room = makeGame('AAAAAA', null, 1000, {
+      status: 'finished',
+      players: [makeSeat('a', { connected: true }), makeSeat('b')],
+    });
+    const notifications = gameOverNotifications(room, 'Player a wins — Player b ran out of time', 9000);
+    expect(notifications).toHaveLength(1);
+    expect(notifications[0]).toMatchObject({
+      type: 'game-over',
+      accountId: 'acc-b',
+      text: 'Your Chess game against Player a is over: Player a wins — Player b ran out of time',
+      sentAt: 9000,
+    });
+  });
+});
@@ -0,0 +1,105 @@
+import { CorrespondenceGame, Notification, Player, Room } from '../types';
+import { getGameDefinition } from '../games/registry';
+
+// ---- Correspondence Games ----
+// A room with a correspondence time control is played over days. Nobody
+// forfeits by leaving: each player has the room's days per move, the clock
+// flags whoever lets theirs run out, and the room waits for its players
+// instead of being cleaned up after a few idle minutes.
+
+export function isCorrespondenceRoom(room: Room): boolean {
+  return room.timeControl?.type === 'correspondence';
+}
+
+/** When a player's time for the current move runs out, or null while it isn't their move. */
+export function moveDeadline(room: Room, playerId: string): number | null {
+  const startedAt = room.clock?.turnStartedAt[playerId];
+  if (!room.clock || startedAt === null || startedAt === undefined) return null;
+  return startedAt + room.clock.remainingMs[playerId];
+}
+
+/** The earliest deadline among the players to move. */
+function nextDeadline(room: Room): number | null {
+  const deadlines = room.players.map(p => moveDeadline(room, p.id)).filter((d): d is number => d !== null);
+  return deadlines.length > 0 ? Math.min(...deadlines) : null;
+}
+
+/**
+ * An account's unfinished correspondence games: the ones waiting on its move
+ * first, soonest deadline first, then the rest by most recent activity.
+ */
+export function listCorrespondenceGames(rooms: Room[], accountId: string): CorrespondenceGame[] {
+  const games: CorrespondenceGame[] = [];
+  for (const room of rooms) {
+    if (!isCorrespondenceRoom(room) || room.status === 'finished') continue;
+    const player = room.players.find(p => p.accountId === accountId);
+    if (!player) continue;
+    games.push({
+      roomCode: room.code,
+      gameType: room.gameType,
+      status: room.status,
+      opponents: room.players.filter(p => p !== player).map(p => p.name),
+      yourTurn: room.status === 'playing' && moveDeadline(room, player.id) !== null,
+      deadline: room.status === 'playing' ? nextDeadline(room) : null,
+      lastActivity: room.lastActivity,
+    });
+  }
+  return games.sort((a, b) => {
+    if (a.yourTurn !== b.yourTurn) return a.yourTurn ? -1 : 1;
+    if (a.yourTurn) return (a.deadline ?? Infinity) - (b.deadline ?? Infinity);
+    return b.lastActivity - a.lastActivity;
+  });
+}
+
+function opponentNames(room: Room, player: Player): string {
+  return (
+    room.players
+      .filter(p => p !== player)
+      .map(p => p.name)
+      .join(', ') || 'nobody'
+  );
+}
+
+/**
+ * Notifications for the signed-in players who became due to move, skipping
+ * anyone with the room open (they can see it is their turn). `previouslyActive`
+ * is who was to move before, so a multi-part turn is only announced once.
+ */
+export function turnNotifications(room: Room, previouslyActive: string[], now: number): Notification[] {
+  if (!isCorrespondenceRoom(room) || room.status !== 'playing') return [];
+  const gameName = getGameDefinition(room.gameType).name;
+  const notifications: Notification[] = [];
+  for (const player of room.players) {
+    const deadline = moveDeadline(room, player.id);
+    if (!player.accountId || player.connected || deadline === null || previouslyActive.includes(player.id)) continue;
+    notifications.push({
+      type: 'your-turn',
+      accountId: player.accountId,
+      playerName: player.name,
+      roomCode: room.code,
+      gameType: room.gameType,
+      text: `Your move in ${gameName} against ${opponentNames(room, player)}`,
+      deadline,
+      sentAt: now,
+    });
+  }
+  return notifications;
+}
+
+/** Notifications of a finished correspondence game for the signed-in players who weren't watching. */
+export function gameOverNotifications(room: Room, outcome: string, now: number): Notification[] {
+  if (!isCorrespondenceRoom(room)) return [];
+  const gameName = getGameDefinition(room.gameType).name;
+  return room.players
+    .filter(p => p.accountId && !p.connected)
+    .map(player => ({
+      type: 'game-over',
+      accountId: player.accountId!,
+      playerName: player.name,
+      roomCode: room.code,
+      gameType: room.gameType,
+      text: `Your ${gameName} game against ${opponentNames(room, player)} is over: ${outcome}`,
+      deadline: null,
+      sentAt: now,
+    }));
+}
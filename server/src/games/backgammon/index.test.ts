@@ -1,4 +1,5 @@
 import { describe, it, expect } from 'vitest';
+import { BackgammonPosition, getBackgammonMoves } from 'yourturn-shared';
 import { backgammonEngine, BackgammonState, BackgammonMove } from './index';
 
 // ---- Helpers ----
@@ -31,13 +32,13 @@ function initWithDice(dice: number[]): BackgammonState {
 }
 
 /** Shorthand for creating a BackgammonMove. */
-function move(fromRow: number, toRow: number): BackgammonMove {
-  return { from: { row: fromRow, col: 0 }, to: { row: toRow, col: 0 } };
+function move(from: number, to: number): BackgammonMove {
+  return { type: 'move', from, to };
 }
 
 /** Pass move. */
 function passMove(): BackgammonMove {
-  return { from: { row: -1, col: 0 }, to: { row: -1, col: 0 } };
+  return { type: 'pass' };
 }
 
 // ---- Tests ----
@@ -371,6 +372,75 @@ describe('backgammonEngine', () => {
     });
   });
 
+  // ========================================
+  // Seeded dice
+  // ========================================
+  describe('seeded dice', () => {
+    it('deals the same seats and dice from the same seed', () => {
+      const a = backgammonEngine.initGame([PLAYER_1, PLAYER_2], undefined, undefined, 42);
+      const b = backgammonEngine.initGame([PLAYER_1, PLAYER_2], undefined, undefined, 42);
+      expect(b).toEqual(a);
+    });
+
+    it('rolls the same next dice from the same state', () => {
+      const state = initWithPlayers();
+      const player = state.players[state.currentTurn];
+      const first = backgammonEngine.applyMove(state, player, passMove());
+      const second = backgammonEngine.applyMove(state, player, passMove());
+      expect(second.dice).toEqual(first.dice);
+      expect(second.rng).toBe(first.rng);
+      expect(first.rng).not.toBe(state.rng);
+    });
+
+    it('keeps the generator out of the players\' view', () => {
+      const state = initWithPlayers();
+      expect(backgammonEngine.getState(state, PLAYER_1)).not.toHaveProperty('rng');
+    });
+  });
+
+  // ========================================
+  // Move hints
+  // ========================================
+  describe('move hints', () => {
+    /** Destinations from `from` that validateMove accepts for player 1. */
+    function acceptedDestinations(state: BackgammonState, from: number): number[] {
+      const points = Array.from({ length: 25 }, (_, to) => to);
+      return points.filter(to => backgammonEngine.validateMove(state, PLAYER_1, move(from, to)) === null);
+    }
+
+    function expectHintsMatchEngine(state: BackgammonState) {
+      const view = backgammonEngine.getState(state, PLAYER_1) as BackgammonPosition;
+      for (let from = 0; from <= 24; from++) {
+        const hints = getBackgammonMoves(view, 1, from).sort((a, b) => a - b);
+        expect(hints).toEqual(acceptedDestinations(state, from));
+      }
+    }
+
+    it('offers exactly the moves the engine accepts', () => {
+      for (const dice of [[6, 5], [3, 1], [2, 2, 2, 2], [6]]) {
+        expectHintsMatchEngine(initWithDice(dice));
+      }
+    });
+
+    it('follows the higher-die rule and bearing off', () => {
+      const state = initWithDice([6, 2]);
+      state.board = state.board.map(() => ({ player: null, count: 0 }));
+      state.board[2] = { player: 1, count: 1 }; // point 3: bears off with the 6, or moves on with the 2
+      state.board[0] = { player: 1, count: 14 };
+      expectHintsMatchEngine(state);
+
+      // A lone checker that can only play the 6
+      const blocked = initWithDice([6, 2]);
+      blocked.board = blocked.board.map(() => ({ player: null, count: 0 }));
+      blocked.board[23] = { player: 1, count: 1 }; // point 24
+      blocked.board[21] = { player: 2, count: 2 }; // point 22 blocks the 2
+      blocked.board[15] = { player: 2, count: 2 }; // point 16 blocks the 2 after the 6
+      blocked.board[0] = { player: 1, count: 14 };
+      expectHintsMatchEngine(blocked);
+      expect(getBackgammonMoves(blocked, 1, 24)).toEqual([18]);
+    });
+  });
+
   // ========================================
   // Doubles
   // ========================================
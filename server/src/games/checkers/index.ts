@@ -1,4 +1,9 @@
-import { GameEngine, CheckersState, CheckersMove, CheckersPiece, PieceColor, Position } from '../../types';
+import { BotDifficulty, GameEngine, GameOptions, CheckersState, CheckersMove, CheckersPiece, PieceColor, Position } from '../../types';
+import { isRecord, isPosition, toPosition } from '../schema';
+import { assignSeats, nextSeat } from '../seats';
+import { createRng } from '../random';
+import { SearchGame, WIN_SCORE, searchMove } from '../../bots';
+import { cloneBoard, getCheckersMoves, getJumpsForPiece, isInBounds, playerHasAnyMoves, playerHasPieces } from 'yourturn-shared';
 
 function createInitialBoard(): (CheckersPiece | null)[][] {
   const board: (CheckersPiece | null)[][] = Array(8)
@@ -26,140 +31,65 @@ function createInitialBoard(): (CheckersPiece | null)[][] {
   return board;
 }
 
-function cloneBoard(board: (CheckersPiece | null)[][]): (CheckersPiece | null)[][] {
-  return board.map(row => row.map(cell => (cell ? { ...cell } : null)));
-}
-
-function isInBounds(pos: Position): boolean {
-  return pos.row >= 0 && pos.row < 8 && pos.col >= 0 && pos.col < 8;
-}
-
 function getPlayerColor(state: CheckersState, playerId: string): PieceColor | null {
   if (state.players.red === playerId) return 'red';
   if (state.players.black === playerId) return 'black';
   return null;
 }
 
-function getJumpsForPiece(board: (CheckersPiece | null)[][], pos: Position, piece: CheckersPiece): Position[] {
-  const jumps: Position[] = [];
-  // Kings can jump in any direction; regular pieces only jump forward
-  const directions: number[] = [];
-  if (piece.isKing) {
-    directions.push(-1, 1);
-  } else if (piece.color === 'red') {
-    directions.push(-1);
-  } else {
-    directions.push(1);
-  }
-
-  for (const dRow of directions) {
-    for (const dCol of [-1, 1]) {
-      const midPos: Position = { row: pos.row + dRow, col: pos.col + dCol };
-      const landPos: Position = { row: pos.row + 2 * dRow, col: pos.col + 2 * dCol };
-
-      if (
-        isInBounds(midPos) &&
-        isInBounds(landPos) &&
-        board[midPos.row][midPos.col] !== null &&
-        board[midPos.row][midPos.col]!.color !== piece.color &&
-        board[landPos.row][landPos.col] === null
-      ) {
-        jumps.push(landPos);
-      }
-    }
-  }
-
-  return jumps;
-}
-
-function getSimpleMovesForPiece(board: (CheckersPiece | null)[][], pos: Position, piece: CheckersPiece): Position[] {
-  const moves: Position[] = [];
-  const directions: number[] = [];
-
-  if (piece.isKing || piece.color === 'red') directions.push(-1);
-  if (piece.isKing || piece.color === 'black') directions.push(1);
+// ---- Computer Opponent ----
 
-  for (const dRow of directions) {
-    for (const dCol of [-1, 1]) {
-      const newPos: Position = { row: pos.row + dRow, col: pos.col + dCol };
-      if (isInBounds(newPos) && board[newPos.row][newPos.col] === null) {
-        moves.push(newPos);
-      }
-    }
-  }
+const BOT_DEPTH: Record<BotDifficulty, number> = { easy: 2, medium: 4, hard: 6 };
 
-  return moves;
-}
+const MAN_VALUE = 100;
+const KING_VALUE = 175;
 
-function playerHasJumps(board: (CheckersPiece | null)[][], color: PieceColor): boolean {
-  for (let row = 0; row < 8; row++) {
-    for (let col = 0; col < 8; col++) {
-      const piece = board[row][col];
-      if (piece && piece.color === color) {
-        if (getJumpsForPiece(board, { row, col }, piece).length > 0) {
-          return true;
+function botSearch(botColor: PieceColor): SearchGame<CheckersState, CheckersMove> {
+  return {
+    moves: state => {
+      const moves: CheckersMove[] = [];
+      for (let row = 0; row < 8; row++) {
+        for (let col = 0; col < 8; col++) {
+          const from = { row, col };
+          for (const to of getCheckersMoves(state, from)) moves.push({ type: 'move', from, to });
         }
       }
-    }
-  }
-  return false;
-}
-
-function playerHasAnyMoves(board: (CheckersPiece | null)[][], color: PieceColor): boolean {
-  for (let row = 0; row < 8; row++) {
-    for (let col = 0; col < 8; col++) {
-      const piece = board[row][col];
-      if (piece && piece.color === color) {
-        if (getJumpsForPiece(board, { row, col }, piece).length > 0) return true;
-        if (getSimpleMovesForPiece(board, { row, col }, piece).length > 0) return true;
+      return moves;
+    },
+    play: (state, move) => checkersEngine.applyMove(state, state.players[state.currentTurn], move),
+    botToMove: state => state.currentTurn === botColor,
+    evaluate: state => {
+      let score = 0;
+      for (let row = 0; row < 8; row++) {
+        for (let col = 0; col < 8; col++) {
+          const piece = state.board[row][col];
+          if (!piece) continue;
+          // Men are worth a little more the closer they are to being crowned
+          const advance = piece.color === 'red' ? 7 - row : row;
+          const value = piece.isKing ? KING_VALUE : MAN_VALUE + 3 * advance;
+          score += piece.color === botColor ? value : -value;
+        }
       }
-    }
-  }
-  return false;
+      return score;
+    },
+    // Whoever cannot move has lost
+    finalScore: state => (state.currentTurn === botColor ? -WIN_SCORE : WIN_SCORE),
+  };
 }
 
-function playerHasPieces(board: (CheckersPiece | null)[][], color: PieceColor): boolean {
-  for (let row = 0; row < 8; row++) {
-    for (let col = 0; col < 8; col++) {
-      const piece = board[row][col];
-      if (piece && piece.color === color) return true;
-    }
-  }
-  return false;
-}
-
-export function getValidMoves(state: CheckersState, pos: Position): Position[] {
-  const piece = state.board[pos.row][pos.col];
-  if (!piece || piece.color !== state.currentTurn) return [];
-
-  // If we must continue a multi-jump with a specific piece
-  if (state.mustContinueFrom) {
-    if (pos.row !== state.mustContinueFrom.row || pos.col !== state.mustContinueFrom.col) {
-      return [];
-    }
-    return getJumpsForPiece(state.board, pos, piece);
-  }
-
-  // If any piece can jump, only jumps are allowed (mandatory capture)
-  const hasJumps = playerHasJumps(state.board, state.currentTurn);
-  if (hasJumps) {
-    return getJumpsForPiece(state.board, pos, piece);
-  }
+// ---- Game Engine ----
 
-  return getSimpleMovesForPiece(state.board, pos, piece);
-}
+const SEATS: readonly PieceColor[] = ['red', 'black']; // in turn order
 
 export const checkersEngine: GameEngine<CheckersState, CheckersMove> = {
-  initGame(playerIds: [string, string]): CheckersState {
+  initGame(playerIds: string[], _options?: GameOptions, firstPlayer?: string, seed?: number): CheckersState {
     // Randomly assign colors
-    const shuffled = Math.random() < 0.5 ? playerIds : [playerIds[1], playerIds[0]];
+    const players = assignSeats(playerIds, SEATS, firstPlayer, createRng(seed));
+
     return {
       board: createInitialBoard(),
       currentTurn: 'red', // red always moves first
-      players: {
-        red: shuffled[0],
-        black: shuffled[1],
-      },
+      players,
       captures: { red: 0, black: 0 },
       winner: null,
       winReason: null,
@@ -167,6 +97,12 @@ export const checkersEngine: GameEngine<CheckersState, CheckersMove> = {
     };
   },
 
+  parseMove(data: unknown): CheckersMove | null {
+    if (!isRecord(data) || data.type !== 'move') return null;
+    if (!isPosition(data.from) || !isPosition(data.to)) return null;
+    return { type: 'move', from: toPosition(data.from), to: toPosition(data.to) };
+  },
+
   validateMove(state: CheckersState, playerId: string, move: CheckersMove): string | null {
     if (state.winner) return 'Game is already over';
 
@@ -181,7 +117,7 @@ export const checkersEngine: GameEngine<CheckersState, CheckersMove> = {
     if (!piece) return 'No piece at the selected position';
     if (piece.color !== color) return 'That is not your piece';
 
-    const validMoves = getValidMoves(state, from);
+    const validMoves = getCheckersMoves(state, from);
     const isValid = validMoves.some(m => m.row === to.row && m.col === to.col);
     if (!isValid) return 'Invalid move';
 
@@ -218,7 +154,7 @@ export const checkersEngine: GameEngine<CheckersState, CheckersMove> = {
 
     // Check for multi-jump
     let mustContinueFrom: Position | null = null;
-    let nextTurn = state.currentTurn === 'red' ? 'black' : 'red';
+    let nextTurn = nextSeat(SEATS, state.currentTurn);
 
     if (isJump) {
       const furtherJumps = getJumpsForPiece(newBoard, to, piece);
@@ -271,4 +207,13 @@ export const checkersEngine: GameEngine<CheckersState, CheckersMove> = {
 
     return null;
   },
+
+  getActivePlayers(state: CheckersState): string[] {
+    return state.winner ? [] : [state.players[state.currentTurn]];
+  },
+
+  chooseMove(state: CheckersState, playerId: string, difficulty: BotDifficulty): CheckersMove {
+    const color = getPlayerColor(state, playerId)!;
+    return searchMove(botSearch(color), state, BOT_DEPTH[difficulty], difficulty);
+  },
 };
@@ -1,5 +1,20 @@
 import { describe, it, expect } from 'vitest';
-import { chessEngine, ChessState, ChessMove, ChessPiece } from './index';
+import {
+  chessEngine,
+  ChessState,
+  ChessMove,
+  ChessPiece,
+  START_FEN,
+  fromFen,
+  fromPgn,
+  hashPosition,
+  parsePgn,
+  parseSan,
+  toFen,
+  toPgn,
+  toSan,
+} from './index';
+import { MoveAnnotation } from '../../types';
 
 // ---- Helpers ----
 
@@ -106,6 +121,21 @@ describe('chessEngine', () => {
     });
   });
 
+  // ========================================
+  // parseMove
+  // ========================================
+  describe('parseMove', () => {
+    it('carries an optional promotion piece', () => {
+      const move = chessEngine.parseMove({ type: 'move', from: pos(1, 0), to: pos(0, 0), promotion: 'knight' });
+      expect(move).toEqual({ type: 'move', from: pos(1, 0), to: pos(0, 0), promotion: 'knight' });
+    });
+
+    it('rejects promotion to a king or pawn', () => {
+      expect(chessEngine.parseMove({ type: 'move', from: pos(1, 0), to: pos(0, 0), promotion: 'king' })).toBeNull();
+      expect(chessEngine.parseMove({ type: 'move', from: pos(1, 0), to: pos(0, 0), promotion: 'pawn' })).toBeNull();
+    });
+  });
+
   // ========================================
   // validateMove
   // ========================================
@@ -113,14 +143,14 @@ describe('chessEngine', () => {
     it('rejects a move when it is not your turn', () => {
       const state = initWithColors();
       // It is white's turn; black tries to move
-      const move: ChessMove = { from: pos(1, 4), to: pos(3, 4) };
+      const move: ChessMove = { type: 'move', from: pos(1, 4), to: pos(3, 4) };
       const error = chessEngine.validateMove(state, PLAYER_BLACK, move);
       expect(error).toBe('It is not your turn');
     });
 
     it('rejects out-of-bounds positions', () => {
       const state = initWithColors();
-      const move: ChessMove = { from: pos(6, 0), to: pos(-1, 0) };
+      const move: ChessMove = { type: 'move', from: pos(6, 0), to: pos(-1, 0) };
       const error = chessEngine.validateMove(state, PLAYER_WHITE, move);
       expect(error).toBe('Position out of bounds');
     });
@@ -128,21 +158,21 @@ describe('chessEngine', () => {
     it('rejects moving an opponent piece', () => {
       const state = initWithColors();
       // White tries to move a black pawn
-      const move: ChessMove = { from: pos(1, 0), to: pos(2, 0) };
+      const move: ChessMove = { type: 'move', from: pos(1, 0), to: pos(2, 0) };
       const error = chessEngine.validateMove(state, PLAYER_WHITE, move);
       expect(error).toBe('That is not your piece');
     });
 
     it('allows a legal pawn opening move', () => {
       const state = initWithColors();
-      const move: ChessMove = { from: pos(6, 4), to: pos(4, 4) };
+      const move: ChessMove = { type: 'move', from: pos(6, 4), to: pos(4, 4) };
       const error = chessEngine.validateMove(state, PLAYER_WHITE, move);
       expect(error).toBeNull();
     });
 
     it('rejects an illegal pawn move (three squares forward)', () => {
       const state = initWithColors();
-      const move: ChessMove = { from: pos(6, 4), to: pos(3, 4) };
+      const move: ChessMove = { type: 'move', from: pos(6, 4), to: pos(3, 4) };
       const error = chessEngine.validateMove(state, PLAYER_WHITE, move);
       expect(error).toBe('Invalid move');
     });
@@ -154,7 +184,7 @@ describe('chessEngine', () => {
   describe('applyMove', () => {
     it('advances a pawn and updates the board', () => {
       const state = initWithColors();
-      const move: ChessMove = { from: pos(6, 4), to: pos(4, 4) };
+      const move: ChessMove = { type: 'move', from: pos(6, 4), to: pos(4, 4) };
       const next = chessEngine.applyMove(state, PLAYER_WHITE, move);
 
       expect(next.board[6][4]).toBeNull();
@@ -163,7 +193,7 @@ describe('chessEngine', () => {
 
     it('switches the turn after a move', () => {
       const state = initWithColors();
-      const move: ChessMove = { from: pos(6, 4), to: pos(4, 4) };
+      const move: ChessMove = { type: 'move', from: pos(6, 4), to: pos(4, 4) };
       const next = chessEngine.applyMove(state, PLAYER_WHITE, move);
       expect(next.currentTurn).toBe('black');
     });
@@ -172,9 +202,9 @@ describe('chessEngine', () => {
       // Set up: e4, d5, exd5 (white pawn captures black pawn)
       const state = initWithColors();
       const afterMoves = playMoves(state, [
-        { from: pos(6, 4), to: pos(4, 4) }, // e4
-        { from: pos(1, 3), to: pos(3, 3) }, // d5
-        { from: pos(4, 4), to: pos(3, 3) }, // exd5
+        { type: 'move', from: pos(6, 4), to: pos(4, 4) }, // e4
+        { type: 'move', from: pos(1, 3), to: pos(3, 3) }, // d5
+        { type: 'move', from: pos(4, 4), to: pos(3, 3) }, // exd5
       ]);
 
       expect(afterMoves.captures.white).toHaveLength(1);
@@ -185,15 +215,15 @@ describe('chessEngine', () => {
     it('increments the move count', () => {
       const state = initWithColors();
       const after = playMoves(state, [
-        { from: pos(6, 4), to: pos(4, 4) }, // e4
-        { from: pos(1, 4), to: pos(3, 4) }, // e5
+        { type: 'move', from: pos(6, 4), to: pos(4, 4) }, // e4
+        { type: 'move', from: pos(1, 4), to: pos(3, 4) }, // e5
       ]);
       expect(after.moveCount).toBe(2);
     });
 
     it('records lastMove', () => {
       const state = initWithColors();
-      const move: ChessMove = { from: pos(6, 4), to: pos(4, 4) };
+      const move: ChessMove = { type: 'move', from: pos(6, 4), to: pos(4, 4) };
       const next = chessEngine.applyMove(state, PLAYER_WHITE, move);
       expect(next.lastMove).toEqual({ from: pos(6, 4), to: pos(4, 4) });
     });
@@ -201,7 +231,7 @@ describe('chessEngine', () => {
     it('does not mutate the original state', () => {
       const state = initWithColors();
       const originalBoard00 = state.board[6][4];
-      const move: ChessMove = { from: pos(6, 4), to: pos(4, 4) };
+      const move: ChessMove = { type: 'move', from: pos(6, 4), to: pos(4, 4) };
       chessEngine.applyMove(state, PLAYER_WHITE, move);
 
       // Original state should be untouched
@@ -227,13 +257,13 @@ describe('chessEngine', () => {
       // Scholar's mate sequence:
       // 1. e4  2. e5  3. Bc4  4. Nc6  5. Qh5  6. Nf6  7. Qxf7#
       const afterMate = playMoves(state, [
-        { from: pos(6, 4), to: pos(4, 4) }, // 1. e4
-        { from: pos(1, 4), to: pos(3, 4) }, // 1...e5
-        { from: pos(7, 5), to: pos(4, 2) }, // 2. Bc4
-        { from: pos(0, 1), to: pos(2, 2) }, // 2...Nc6
-        { from: pos(7, 3), to: pos(3, 7) }, // 3. Qh5
-        { from: pos(0, 6), to: pos(2, 5) }, // 3...Nf6
-        { from: pos(3, 7), to: pos(1, 5) }, // 4. Qxf7#
+        { type: 'move', from: pos(6, 4), to: pos(4, 4) }, // 1. e4
+        { type: 'move', from: pos(1, 4), to: pos(3, 4) }, // 1...e5
+        { type: 'move', from: pos(7, 5), to: pos(4, 2) }, // 2. Bc4
+        { type: 'move', from: pos(0, 1), to: pos(2, 2) }, // 2...Nc6
+        { type: 'move', from: pos(7, 3), to: pos(3, 7) }, // 3. Qh5
+        { type: 'move', from: pos(0, 6), to: pos(2, 5) }, // 3...Nf6
+        { type: 'move', from: pos(3, 7), to: pos(1, 5) }, // 4. Qxf7#
       ]);
 
       expect(afterMate.inCheck).toBe(true);
@@ -283,11 +313,11 @@ describe('chessEngine', () => {
         // Set up en passant:
         // 1. e4  2. a6  3. e5  4. d5 (black double-push next to white pawn)  5. exd6 (en passant)
         const afterEP = playMoves(state, [
-          { from: pos(6, 4), to: pos(4, 4) }, // 1. e4
-          { from: pos(1, 0), to: pos(2, 0) }, // 1...a6
-          { from: pos(4, 4), to: pos(3, 4) }, // 2. e5
-          { from: pos(1, 3), to: pos(3, 3) }, // 2...d5 (enables en passant)
-          { from: pos(3, 4), to: pos(2, 3) }, // 3. exd6 (en passant capture)
+          { type: 'move', from: pos(6, 4), to: pos(4, 4) }, // 1. e4
+          { type: 'move', from: pos(1, 0), to: pos(2, 0) }, // 1...a6
+          { type: 'move', from: pos(4, 4), to: pos(3, 4) }, // 2. e5
+          { type: 'move', from: pos(1, 3), to: pos(3, 3) }, // 2...d5 (enables en passant)
+          { type: 'move', from: pos(3, 4), to: pos(2, 3) }, // 3. exd6 (en passant capture)
         ]);
 
         // The white pawn should now be at row 2 col 3
@@ -311,7 +341,7 @@ describe('chessEngine', () => {
         state.board[7][6] = null;
 
         // Castle kingside: king e1 -> g1
-        const move: ChessMove = { from: pos(7, 4), to: pos(7, 6) };
+        const move: ChessMove = { type: 'move', from: pos(7, 4), to: pos(7, 6) };
         const error = chessEngine.validateMove(state, PLAYER_WHITE, move);
         expect(error).toBeNull();
 
@@ -346,7 +376,7 @@ describe('chessEngine', () => {
 
         state.currentTurn = 'white';
 
-        const move: ChessMove = { from: pos(1, 0), to: pos(0, 0), promotion: 'queen' };
+        const move: ChessMove = { type: 'move', from: pos(1, 0), to: pos(0, 0), promotion: 'queen' };
         const error = chessEngine.validateMove(state, PLAYER_WHITE, move);
         expect(error).toBeNull();
 
@@ -369,10 +399,320 @@ describe('chessEngine', () => {
         state.board[1][0] = { type: 'pawn', color: 'white', hasMoved: true };
         state.currentTurn = 'white';
 
-        const move: ChessMove = { from: pos(1, 0), to: pos(0, 0), promotion: 'knight' };
+        const move: ChessMove = { type: 'move', from: pos(1, 0), to: pos(0, 0), promotion: 'knight' };
         const after = chessEngine.applyMove(state, PLAYER_WHITE, move);
         expect(after.board[0][0]).toMatchObject({ type: 'knight', color: 'white' });
       });
+
+      it('refuses a promotion piece on any other move', () => {
+        const state = fromFen('4k3/1P6/8/8/8/8/P7/R3K3 w - - 0 1', PLAYERS);
+        const pawnPush: ChessMove = { type: 'move', from: pos(6, 0), to: pos(5, 0), promotion: 'queen' };
+        expect(chessEngine.validateMove(state, PLAYER_WHITE, pawnPush)).toBe(
+          'Only a pawn reaching the last rank can promote',
+        );
+        const rookMove: ChessMove = { type: 'move', from: pos(7, 0), to: pos(7, 1), promotion: 'knight' };
+        expect(chessEngine.validateMove(state, PLAYER_WHITE, rookMove)).toBe(
+          'Only a pawn reaching the last rank can promote',
+        );
+        const promotion: ChessMove = { type: 'move', from: pos(1, 1), to: pos(0, 1), promotion: 'rook' };
+        expect(chessEngine.validateMove(state, PLAYER_WHITE, promotion)).toBeNull();
+      });
+    });
+  });
+});
+
+// ---- Notation ----
+
+const PLAYERS = { white: PLAYER_WHITE, black: PLAYER_BLACK };
+
+/** Play SAN moves in order, returning every state along the way (start first). */
+function playSan(start: ChessState, sans: string[]): { states: ChessState[]; moves: ChessMove[] } {
+  const states = [start];
+  const moves: ChessMove[] = [];
+  for (const san of sans) {
+    const current = states[states.length - 1];
+    const move = parseSan(current, san);
+    if (!move) throw new Error(`Illegal SAN ${san}`);
+    moves.push(move);
+    states.push(chessEngine.applyMove(current, current.players[current.currentTurn], move));
+  }
+  return { states, moves };
+}
+
+describe('notation', () => {
+  describe('FEN', () => {
+    it('writes the standard starting position', () => {
+      expect(toFen(initWithColors())).toBe(START_FEN);
+    });
+
+    it('tracks castling rights, en passant and move counters', () => {
+      const { states } = playSan(initWithColors(), ['e4', 'c5', 'Nf3', 'd6', 'Rg1']);
+      expect(toFen(states[1])).toBe('rnbqkbnr/pppppppp/8/8/4P3/8/PPPP1PPP/RNBQKBNR b KQkq e3 0 1');
+      expect(toFen(states[5])).toBe('rnbqkbnr/pp2pppp/3p4/2p5/4P3/5N2/PPPP1PPP/RNBQKBR1 b Qkq - 1 3');
+    });
+
+    it('round-trips positions through fromFen', () => {
+      const { states } = playSan(initWithColors(), ['e4', 'c5', 'Nf3', 'd6', 'Rg1']);
+      for (const state of states) {
+        expect(toFen(fromFen(toFen(state), PLAYERS))).toBe(toFen(state));
+      }
+    });
+
+    it('sets up a playable position', () => {
+      // White can still castle kingside and black just pushed d7-d5 next to the e5 pawn
+      const state = fromFen('4k3/8/8/3pP3/8/8/8/4K2R w K d6 0 40', PLAYERS);
+      expect(state.moveCount).toBe(78);
+      expect(state.startFen).toBe('4k3/8/8/3pP3/8/8/8/4K2R w K d6 0 40');
+      expect(parseSan(state, 'O-O')).toEqual({ type: 'move', from: pos(7, 4), to: pos(7, 6) });
+      expect(parseSan(state, 'exd6')).toEqual({ type: 'move', from: pos(3, 4), to: pos(2, 3) });
+      expect(state.captures.white).toHaveLength(14);
+    });
+
+    it('rejects malformed or impossible positions', () => {
+      expect(() => fromFen('not a fen', PLAYERS)).toThrow('Invalid FEN');
+      expect(() => fromFen('8/8/8/8/8/8/8/4K3 w - - 0 1', PLAYERS)).toThrow('black must have exactly one king');
+      expect(() => fromFen('4k3/8/8/8/8/8/8/4K3 w K - 0 1', PLAYERS)).toThrow('castling right K');
+      expect(() => fromFen('4k3/8/8/8/8/8/8/4K3 w - e6 0 1', PLAYERS)).toThrow('bad en passant square');
+      expect(() => fromFen('4k3/8/8/8/8/8/8/P3K3 w - - 0 1', PLAYERS)).toThrow('pawn on the first or last rank');
+      expect(() => fromFen('4k3/4Q3/8/8/8/8/8/4K3 w - - 0 1', PLAYERS)).toThrow('side not to move is in check');
+    });
+  });
+
+  describe('SAN', () => {
+    it('names pawn, piece and capture moves', () => {
+      const { states, moves } = playSan(initWithColors(), ['e4', 'd5', 'exd5', 'Qxd5', 'Nc3']);
+      expect(moves.map((move, i) => toSan(states[i], move))).toEqual(['e4', 'd5', 'exd5', 'Qxd5', 'Nc3']);
+    });
+
+    it('disambiguates by file, then rank, then both', () => {
+      const byFile = fromFen('4k3/8/8/8/8/5N2/8/1N2K3 w - - 0 1', PLAYERS);
+      expect(toSan(byFile, { type: 'move', from: pos(7, 1), to: pos(6, 3) })).toBe('Nbd2');
+
+      const byRank = fromFen('4k3/8/8/R7/8/8/8/R3K3 w - - 0 1', PLAYERS);
+      expect(toSan(byRank, { type: 'move', from: pos(3, 0), to: pos(5, 0) })).toBe('R5a3');
+
+      const both = fromFen('k7/8/8/8/8/2Q1Q3/8/2Q1K3 w - - 0 1', PLAYERS);
+      expect(toSan(both, { type: 'move', from: pos(5, 2), to: pos(6, 3) })).toBe('Qc3d2');
+    });
+
+    it('writes castling, promotion, check and mate', () => {
+      const castle = fromFen('5k2/8/8/8/8/8/8/4K2R w K - 0 1', PLAYERS);
+      expect(toSan(castle, { type: 'move', from: pos(7, 4), to: pos(7, 6) })).toBe('O-O+');
+
+      const promote = fromFen('7k/1P6/8/8/8/8/8/4K3 w - - 0 1', PLAYERS);
+      expect(toSan(promote, { type: 'move', from: pos(1, 1), to: pos(0, 1), promotion: 'queen' })).toBe('b8=Q+');
+      expect(toSan(promote, { type: 'move', from: pos(1, 1), to: pos(0, 1), promotion: 'knight' })).toBe('b8=N');
+
+      const { states, moves } = playSan(initWithColors(), ['f3', 'e5', 'g4']);
+      expect(toSan(states[3], parseSan(states[3], 'Qh4')!)).toBe('Qh4#');
+      expect(moves).toHaveLength(3);
+    });
+
+    it('reads loosely written SAN and rejects illegal moves', () => {
+      const castle = fromFen('5k2/8/8/8/8/8/8/4K2R w K - 0 1', PLAYERS);
+      expect(parseSan(castle, '0-0')).toEqual(parseSan(castle, 'O-O+'));
+
+      const promote = fromFen('7k/1P6/8/8/8/8/8/4K3 w - - 0 1', PLAYERS);
+      expect(parseSan(promote, 'b8N')).toMatchObject({ promotion: 'knight' });
+
+      expect(parseSan(initWithColors(), 'e5')).toBeNull();
+      expect(parseSan(initWithColors(), 'Nd2')).toBeNull();
+    });
+  });
+
+  describe('PGN', () => {
+    const names = { [PLAYER_WHITE]: 'Alice', [PLAYER_BLACK]: 'Bob' };
+
+    it('exports a finished game', () => {
+      const { states, moves } = playSan(initWithColors(), ['f3', 'e5', 'g4', 'Qh4#']);
+      const pgn = toPgn({ states, moves, playerNames: names, finished: true });
+
+      expect(pgn).toContain('[White "Alice"]');
+      expect(pgn).toContain('[Black "Bob"]');
+      expect(pgn).toContain('[Result "0-1"]');
+      expect(pgn).not.toContain('[FEN');
+      expect(pgn.trim().endsWith('1. f3 e5 2. g4 Qh4# 0-1')).toBe(true);
+    });
+
+    it('marks a game in progress and numbers moves from a black-to-move FEN', () => {
+      const start = fromFen('4k3/8/8/8/8/8/8/R3K3 b Q - 0 30', PLAYERS);
+      const { states, moves } = playSan(start, ['Kd7', 'O-O-O+']);
+      const pgn = toPgn({ states, moves, playerNames: names, finished: false });
+
+      expect(pgn).toContain('[SetUp "1"]');
+      expect(pgn).toContain('[FEN "4k3/8/8/8/8/8/8/R3K3 b Q - 0 30"]');
+      expect(pgn.trim().endsWith('30... Kd7 31. O-O-O+ *')).toBe(true);
+    });
+
+    it('round-trips through fromPgn', () => {
+      const sans = ['e4', 'e5', 'Nf3', 'Nc6', 'Bb5', 'a6', 'Ba4', 'Nf6', 'O-O', 'Be7', 'Re1', 'b5', 'Bb3', 'd6'];
+      const { states, moves } = playSan(initWithColors(), sans);
+      const pgn = toPgn({ states, moves, playerNames: names, finished: false });
+
+      const imported = fromPgn(pgn, PLAYERS, START_FEN);
+      expect(toFen(imported)).toBe(toFen(states[states.length - 1]));
+      expect(imported.importedMoves).toEqual(sans);
+
+      // Exporting the continued game keeps the imported moves in front
+      const next = playSan(imported, ['c3']);
+      const again = toPgn({ ...next, playerNames: names, finished: false });
+      expect(parsePgn(again).moves).toEqual([...sans, 'c3']);
+    });
+
+    it('writes annotations as glyphs and {comments}, renumbering black after one', () => {
+      const { states, moves } = playSan(initWithColors(), ['e4', 'e5', 'Qh5', 'Nc6', 'Bc4', 'Nf6', 'Qxf7#']);
+      const annotations: (MoveAnnotation | null)[] = moves.map(() => null);
+      annotations[2] = { glyph: null, comment: 'Early queen' };
+      annotations[5] = { glyph: '??', comment: 'Misses {the} mate' };
+      const pgn = toPgn({ states, moves, playerNames: names, finished: true, annotations });
+
+      expect(pgn).toContain('[ECO "C20"]');
+      const movetext = pgn.split('\n\n')[1].replace(/\s+/g, ' ').trim(); // wrapped at 80 columns
+      expect(movetext).toBe('1. e4 e5 2. Qh5 {Early queen} 2... Nc6 3. Bc4 Nf6?? {Misses the mate} 4. Qxf7# 1-0');
+      expect(parsePgn(pgn).moves).toEqual(['e4', 'e5', 'Qh5', 'Nc6', 'Bc4', 'Nf6??', 'Qxf7#']);
+    });
+
+    it('ignores comments, variations and annotations', () => {
+      const pgn = '1. e4 {best by test} e5 (1... c5 2. Nf3 (2. c3)) 2. Nf3! $1 Nc6?! ; main line\n3. Bb5 1-0';
+      expect(parsePgn(pgn).moves).toEqual(['e4', 'e5', 'Nf3!', 'Nc6?!', 'Bb5']);
+    });
+
+    it('rejects illegal moves and moves after the game ended', () => {
+      expect(() => fromPgn('1. e4 e5 2. Ke3', PLAYERS, START_FEN)).toThrow('illegal move Ke3 at move 2');
+      expect(() => fromPgn('1. f3 e5 2. g4 Qh4# 3. a3', PLAYERS, START_FEN)).toThrow('already over');
+    });
+  });
+
+  describe('room options', () => {
+    it('starts from a FEN or an imported PGN', () => {
+      const fromFenOption = chessEngine.initGame([PLAYER_WHITE, PLAYER_BLACK], { fen: '4k3/8/8/8/8/8/8/4K2R w K - 0 1', pgn: '' });
+      expect(toFen(fromFenOption)).toBe('4k3/8/8/8/8/8/8/4K2R w K - 0 1');
+
+      const fromPgnOption = chessEngine.initGame([PLAYER_WHITE, PLAYER_BLACK], { fen: '', pgn: '1. d4 d5' });
+      expect(fromPgnOption.importedMoves).toEqual(['d4', 'd5']);
+      expect(fromPgnOption.currentTurn).toBe('white');
+    });
+
+    it('rejects bad or finished starting points', () => {
+      expect(chessEngine.validateOptions!({ fen: '', pgn: '' })).toBeNull();
+      expect(chessEngine.validateOptions!({ fen: 'nonsense', pgn: '' })).toMatch(/Invalid FEN/);
+      expect(chessEngine.validateOptions!({ fen: '', pgn: '1. e4 e4' })).toMatch(/illegal move/);
+      expect(chessEngine.validateOptions!({ fen: '', pgn: '1. f3 e5 2. g4 Qh4#' })).toBe('That game is already over');
+    });
+  });
+});
+
+// ---- Opening Book ----
+
+describe('opening book', () => {
+  it('names the opening as the moves are played', () => {
+    const { states } = playSan(initWithColors(), ['e4', 'e5', 'Nf3', 'Nc6', 'Bb5', 'a6']);
+    expect(states[0].opening).toBeNull();
+    expect(states[1].opening).toEqual({ eco: 'B00', name: "King's Pawn Game" });
+    expect(states[5].opening).toEqual({ eco: 'C60', name: 'Ruy Lopez' });
+    expect(chessEngine.getState(states[6], PLAYER_WHITE)).toMatchObject({
+      opening: { eco: 'C68', name: 'Ruy Lopez: Morphy Defense' },
+    });
+  });
+
+  it('finds a line reached in another move order', () => {
+    const sans = ['Nf3', 'Nf6', 'c4', 'g6', 'Nc3', 'Bg7', 'd4', 'O-O', 'e4', 'd6', 'Be2', 'e5'];
+    const { states } = playSan(initWithColors(), sans);
+    expect(states[states.length - 1].opening).toEqual({ eco: 'E92', name: "King's Indian Defense: Classical Variation" });
+  });
+
+  it('keeps the last name once the game leaves the book', () => {
+    const { states } = playSan(initWithColors(), ['e4', 'c5', 'Nf3', 'd6', 'h3', 'a5']);
+    expect(states[6].opening).toEqual({ eco: 'B50', name: 'Sicilian Defense' });
+  });
+
+  it('names openings in imported games but not in variants', () => {
+    expect(fromPgn('1. d4 d5 2. c4 e6', PLAYERS, START_FEN).opening?.name).toBe("Queen's Gambit Declined");
+    const hill = chessEngine.initGame([PLAYER_WHITE, PLAYER_BLACK], { variant: 'kingOfTheHill' });
+    expect(playSan(hill, ['e4', 'e5']).states[2].opening).toBeNull();
+  });
+});
+
+// ---- Draws ----
+
+const KNIGHT_DANCE = ['Nf3', 'Nf6', 'Ng1', 'Ng8'];
+
+describe('draws', () => {
+  describe('position hashing', () => {
+    it('hashes the same position alike whatever the move order', () => {
+      const start = fromFen(START_FEN, PLAYERS);
+      const viaE4 = playSan(start, ['e4', 'e5', 'Nf3']).states[3];
+      const viaNf3 = playSan(start, ['Nf3', 'e5', 'e4']).states[3];
+      expect(hashPosition(viaE4)).toBe(hashPosition(viaNf3));
+      expect(hashPosition(viaE4)).not.toBe(hashPosition(start));
+    });
+
+    it('counts castling rights and only a capturable en passant square', () => {
+      const withRights = fromFen('4k3/8/8/8/8/8/8/4K2R w K - 0 1', PLAYERS);
+      const withoutRights = fromFen('4k3/8/8/8/8/8/8/4K2R w - - 0 1', PLAYERS);
+      expect(hashPosition(withRights)).not.toBe(hashPosition(withoutRights));
+
+      const afterE4 = playSan(fromFen(START_FEN, PLAYERS), ['e4']).states[1];
+      expect(hashPosition(afterE4)).toBe(hashPosition(fromFen(toFen(afterE4).replace(' e3 ', ' - '), PLAYERS)));
+      const capturable = fromFen('4k3/8/8/8/3pP3/8/8/4K3 b - e3 0 1', PLAYERS);
+      expect(hashPosition(capturable)).not.toBe(hashPosition(fromFen('4k3/8/8/8/3pP3/8/8/4K3 b - - 0 1', PLAYERS)));
+    });
+
+    it('forgets positions before a capture or pawn move', () => {
+      const { states } = playSan(fromFen(START_FEN, PLAYERS), ['Nf3', 'Nf6', 'e4']);
+      expect(states[2].positionHashes).toHaveLength(3);
+      expect(states[3].positionHashes).toEqual([hashPosition(states[3])]);
+    });
+  });
+
+  describe('repetition', () => {
+    it('lets either player claim a draw once a position occurs three times', () => {
+      const start = fromFen(START_FEN, PLAYERS);
+      const once = playSan(start, KNIGHT_DANCE).states[4];
+      expect(chessEngine.claimDraw!(once, PLAYER_WHITE)).toBeNull();
+
+      const twice = playSan(start, [...KNIGHT_DANCE, ...KNIGHT_DANCE]).states[8];
+      expect(chessEngine.claimDraw!(twice, PLAYER_WHITE)).toBe('Draw by threefold repetition.');
+      expect(chessEngine.claimDraw!(twice, PLAYER_BLACK)).toBe('Draw by threefold repetition.');
+      expect(chessEngine.claimDraw!(twice, 'spectator')).toBeNull();
+      expect(chessEngine.checkWinner(twice)).toBeNull();
+      expect(chessEngine.getState(twice, PLAYER_WHITE)).toMatchObject({ claimableDraw: 'Draw by threefold repetition.' });
+    });
+
+    it('draws automatically on the fifth occurrence', () => {
+      const dance = [...KNIGHT_DANCE, ...KNIGHT_DANCE, ...KNIGHT_DANCE, ...KNIGHT_DANCE];
+      const { states } = playSan(fromFen(START_FEN, PLAYERS), dance);
+      expect(chessEngine.checkWinner(states[15])).toBeNull();
+      expect(chessEngine.checkWinner(states[16])).toEqual({ winner: null, reason: 'Draw by fivefold repetition.' });
+    });
+  });
+
+  describe('move rules', () => {
+    it('makes the 50-move rule a claim and the 75-move rule automatic', () => {
+      const fifty = playSan(fromFen('4k3/8/8/8/8/8/8/R3K3 w - - 99 80', PLAYERS), ['Ra2']).states[1];
+      expect(chessEngine.checkWinner(fifty)).toBeNull();
+      expect(chessEngine.claimDraw!(fifty, PLAYER_BLACK)).toBe('Draw by the 50-move rule.');
+
+      const seventyFive = playSan(fromFen('4k3/8/8/8/8/8/8/R3K3 w - - 149 100', PLAYERS), ['Ra2']).states[1];
+      expect(chessEngine.checkWinner(seventyFive)).toEqual({ winner: null, reason: 'Draw by the 75-move rule.' });
+    });
+  });
+
+  describe('insufficient material', () => {
+    const drawn = (fen: string) => chessEngine.checkWinner(fromFen(fen, PLAYERS))?.reason;
+
+    it('covers two knights and any bishops on one square color', () => {
+      expect(drawn('4k3/8/8/8/8/8/8/1N2K1N1 w - - 0 1')).toBe('Draw by insufficient material.');
+      expect(drawn('4k3/8/8/8/8/8/8/2B1KB2 w - - 0 1')).toBeUndefined();
+      expect(drawn('4k3/8/8/8/8/8/4B3/2B1K3 w - - 0 1')).toBeUndefined();
+      expect(drawn('2b1k3/8/8/8/8/8/4B3/4K3 w - - 0 1')).toBe('Draw by insufficient material.');
+      expect(drawn('2b1kb2/8/8/8/8/8/3B4/4K3 w - - 0 1')).toBeUndefined();
+      expect(drawn('4k3/8/8/8/8/8/8/B1B1K3 b - - 0 1')).toBe('Draw by insufficient material.');
+    });
+
+    it('still plays on with a knight each or a knight and a bishop', () => {
+      expect(drawn('1n2k3/8/8/8/8/8/8/1N2K3 w - - 0 1')).toBeUndefined();
+      expect(drawn('4k3/8/8/8/8/8/8/1N2KB2 w - - 0 1')).toBeUndefined();
     });
   });
 });
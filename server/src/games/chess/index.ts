@@ -1,17 +1,34 @@
-import { GameEngine, Position } from '../../types';
+import { BotDifficulty, GameEngine, GameExport, GameOptions, GameRecord, GameResult, Position } from '../../types';
+import { isRecord, isPosition, toPosition } from '../schema';
+import { assignSeats } from '../seats';
+import { Rng, createRng } from '../random';
+import { SearchGame, WIN_SCORE, searchMove } from '../../bots';
+import ECO_BOOK from './eco.json';
+import {
+  ChessColor,
+  ChessPiece,
+  ChessPieceType,
+  ChessVariant,
+  castlingRookCol,
+  cloneBoard,
+  findCastlingRook,
+  findKing,
+  getChessMoves,
+  hasAnyLegalMoves,
+  isInBounds,
+  isKingInCheck,
+  movePieces,
+  oppositeColor,
+} from 'yourturn-shared';
 
 // ---- Chess Types ----
+// Pieces and the move rules live in the shared package, so the boards highlight
+// exactly the moves validated here.
 
-export type ChessPieceType = 'pawn' | 'rook' | 'knight' | 'bishop' | 'queen' | 'king';
-export type ChessColor = 'white' | 'black';
-
-export interface ChessPiece {
-  type: ChessPieceType;
-  color: ChessColor;
-  hasMoved: boolean;
-}
+export type { ChessPieceType, ChessColor, ChessVariant, ChessPiece };
 
 export interface ChessMove {
+  type: 'move';
   from: Position;
   to: Position;
   promotion?: ChessPieceType;
@@ -29,17 +46,22 @@ export interface ChessState {
   halfMoveClock: number;
   inCheck: boolean;
   lastMove: { from: Position; to: Position } | null;
+  startFen: string | null; // null = the standard starting position
+  importedMoves: string[]; // SAN moves replayed from an imported PGN before this game began
+  positionHashes: string[]; // since the last capture or pawn move, the current position last
+  variant: ChessVariant;
+  checks: { white: number; black: number }; // checks each side has given, which decide three-check
+  opening: ChessOpening | null; // the last opening-book position the game reached
 }
 
-// ---- Helpers ----
-
-function isInBounds(pos: Position): boolean {
-  return pos.row >= 0 && pos.row < 8 && pos.col >= 0 && pos.col < 8;
+export interface ChessOpening {
+  eco: string; // Encyclopaedia of Chess Openings code, e.g. C60
+  name: string;
 }
 
-function cloneBoard(board: (ChessPiece | null)[][]): (ChessPiece | null)[][] {
-  return board.map(row => row.map(cell => (cell ? { ...cell } : null)));
-}
+// ---- Helpers ----
+
+const PROMOTION_PIECES: ChessPieceType[] = ['queen', 'rook', 'bishop', 'knight'];
 
 function cloneState(state: ChessState): ChessState {
   return {
@@ -50,44 +72,29 @@ function cloneState(state: ChessState): ChessState {
       black: state.captures.black.map(p => ({ ...p })),
     },
     enPassantTarget: state.enPassantTarget ? { ...state.enPassantTarget } : null,
+    checks: { ...state.checks },
     lastMove: state.lastMove
       ? { from: { ...state.lastMove.from }, to: { ...state.lastMove.to } }
       : null,
   };
 }
 
-function oppositeColor(color: ChessColor): ChessColor {
-  return color === 'white' ? 'black' : 'white';
-}
-
 function getPlayerColor(state: ChessState, playerId: string): ChessColor | null {
   if (state.players.white === playerId) return 'white';
   if (state.players.black === playerId) return 'black';
   return null;
 }
 
-function findKing(board: (ChessPiece | null)[][], color: ChessColor): Position | null {
-  for (let row = 0; row < 8; row++) {
-    for (let col = 0; col < 8; col++) {
-      const piece = board[row][col];
-      if (piece && piece.type === 'king' && piece.color === color) {
-        return { row, col };
-      }
-    }
-  }
-  return null;
-}
-
 // ---- Initial Board Setup ----
 // Row 0 = black's back rank (top), Row 7 = white's back rank (bottom)
 
-function createInitialBoard(): (ChessPiece | null)[][] {
+const STANDARD_BACK_RANK: ChessPieceType[] = ['rook', 'knight', 'bishop', 'queen', 'king', 'bishop', 'knight', 'rook'];
+
+function createInitialBoard(backRank: ChessPieceType[] = STANDARD_BACK_RANK): (ChessPiece | null)[][] {
   const board: (ChessPiece | null)[][] = Array(8)
     .fill(null)
     .map(() => Array(8).fill(null));
 
-  const backRank: ChessPieceType[] = ['rook', 'knight', 'bishop', 'queen', 'king', 'bishop', 'knight', 'rook'];
-
   // Black pieces (rows 0-1)
   for (let col = 0; col < 8; col++) {
     board[0][col] = { type: backRank[col], color: 'black', hasMoved: false };
@@ -103,333 +110,176 @@ function createInitialBoard(): (ChessPiece | null)[][] {
   return board;
 }
 
-// ---- Attack / Threat Detection ----
-
-/**
- * Checks whether a given square is attacked by any piece of the given color.
- * This is a raw check that does not consider pins or legality of moves.
- */
-function isSquareAttackedBy(board: (ChessPiece | null)[][], pos: Position, byColor: ChessColor): boolean {
-  // Check knight attacks
-  const knightOffsets = [
-    [-2, -1], [-2, 1], [-1, -2], [-1, 2],
-    [1, -2], [1, 2], [2, -1], [2, 1],
-  ];
-  for (const [dr, dc] of knightOffsets) {
-    const r = pos.row + dr;
-    const c = pos.col + dc;
-    if (isInBounds({ row: r, col: c })) {
-      const piece = board[r][c];
-      if (piece && piece.color === byColor && piece.type === 'knight') return true;
-    }
-  }
-
-  // Check pawn attacks
-  const pawnDir = byColor === 'white' ? 1 : -1; // white pawns attack upward (lower row numbers)
-  for (const dc of [-1, 1]) {
-    const r = pos.row + pawnDir;
-    const c = pos.col + dc;
-    if (isInBounds({ row: r, col: c })) {
-      const piece = board[r][c];
-      if (piece && piece.color === byColor && piece.type === 'pawn') return true;
-    }
-  }
-
-  // Check king attacks (adjacent squares)
-  for (let dr = -1; dr <= 1; dr++) {
-    for (let dc = -1; dc <= 1; dc++) {
-      if (dr === 0 && dc === 0) continue;
-      const r = pos.row + dr;
-      const c = pos.col + dc;
-      if (isInBounds({ row: r, col: c })) {
-        const piece = board[r][c];
-        if (piece && piece.color === byColor && piece.type === 'king') return true;
-      }
-    }
-  }
-
-  // Check sliding pieces (rook, bishop, queen) along lines
-  // Rook/Queen: horizontal and vertical
-  const rookDirs = [[-1, 0], [1, 0], [0, -1], [0, 1]];
-  for (const [dr, dc] of rookDirs) {
-    let r = pos.row + dr;
-    let c = pos.col + dc;
-    while (isInBounds({ row: r, col: c })) {
-      const piece = board[r][c];
-      if (piece) {
-        if (piece.color === byColor && (piece.type === 'rook' || piece.type === 'queen')) return true;
-        break; // blocked by a piece
-      }
-      r += dr;
-      c += dc;
-    }
-  }
-
-  // Bishop/Queen: diagonals
-  const bishopDirs = [[-1, -1], [-1, 1], [1, -1], [1, 1]];
-  for (const [dr, dc] of bishopDirs) {
-    let r = pos.row + dr;
-    let c = pos.col + dc;
-    while (isInBounds({ row: r, col: c })) {
-      const piece = board[r][c];
-      if (piece) {
-        if (piece.color === byColor && (piece.type === 'bishop' || piece.type === 'queen')) return true;
-        break;
-      }
-      r += dr;
-      c += dc;
-    }
-  }
-
-  return false;
+// ---- Variants ----
+// Chess960 shuffles the back rank; King of the Hill is won by walking the
+// king onto a centre square; Three-check by giving three checks; in Atomic
+// every capture blows up the pieces around it and exploding the king wins;
+// in Horde 36 white pawns with no king must mate black, who wins by taking
+// them all. Checkmate still wins every variant.
+
+export const CHESS_VARIANTS: { value: ChessVariant; label: string }[] = [
+  { value: 'standard', label: 'Standard' },
+  { value: 'chess960', label: 'Chess960' },
+  { value: 'kingOfTheHill', label: 'King of the Hill' },
+  { value: 'threeCheck', label: 'Three-check' },
+  { value: 'atomic', label: 'Atomic' },
+  { value: 'horde', label: 'Horde' },
+];
+
+const HORDE_FEN = 'rnbqkbnr/pppppppp/8/1PP2PP1/PPPPPPPP/PPPPPPPP/PPPPPPPP/PPPPPPPP w kq - 0 1';
+
+const HILL: Position[] = [
+  { row: 3, col: 3 },
+  { row: 3, col: 4 },
+  { row: 4, col: 3 },
+  { row: 4, col: 4 },
+];
+
+function parseVariant(value: unknown): ChessVariant {
+  return CHESS_VARIANTS.find(v => v.value === value)?.value ?? 'standard';
 }
 
-function isKingInCheck(board: (ChessPiece | null)[][], color: ChessColor): boolean {
-  const kingPos = findKing(board, color);
-  if (!kingPos) return false;
-  return isSquareAttackedBy(board, kingPos, oppositeColor(color));
-}
-
-// ---- Pseudo-legal Move Generation ----
-// These generate moves without checking if they leave own king in check.
-
-function getPseudoLegalMoves(
-  board: (ChessPiece | null)[][],
-  pos: Position,
-  enPassantTarget: Position | null,
-): Position[] {
-  const piece = board[pos.row][pos.col];
-  if (!piece) return [];
-
-  switch (piece.type) {
-    case 'pawn': return getPawnMoves(board, pos, piece, enPassantTarget);
-    case 'rook': return getSlidingMoves(board, pos, piece, [[-1, 0], [1, 0], [0, -1], [0, 1]]);
-    case 'bishop': return getSlidingMoves(board, pos, piece, [[-1, -1], [-1, 1], [1, -1], [1, 1]]);
-    case 'queen': return getSlidingMoves(board, pos, piece, [
-      [-1, 0], [1, 0], [0, -1], [0, 1],
-      [-1, -1], [-1, 1], [1, -1], [1, 1],
-    ]);
-    case 'knight': return getKnightMoves(board, pos, piece);
-    case 'king': return getKingMoves(board, pos, piece);
-    default: return [];
+/** A random Chess960 back rank: bishops on opposite colors, the king between the rooks. */
+function chess960BackRank(rng: Rng): ChessPieceType[] {
+  const rank: (ChessPieceType | null)[] = Array(8).fill(null);
+  rank[2 * rng.int(4)] = 'bishop';
+  rank[2 * rng.int(4) + 1] = 'bishop';
+  const emptyFiles = () => rank.flatMap((piece, col) => (piece ? [] : [col]));
+  for (const type of ['queen', 'knight', 'knight'] as const) {
+    const files = emptyFiles();
+    rank[files[rng.int(files.length)]] = type;
   }
+  const [left, middle, right] = emptyFiles();
+  rank[left] = 'rook';
+  rank[middle] = 'king';
+  rank[right] = 'rook';
+  return rank as ChessPieceType[];
 }
 
-function getPawnMoves(
-  board: (ChessPiece | null)[][],
-  pos: Position,
-  piece: ChessPiece,
-  enPassantTarget: Position | null,
-): Position[] {
-  const moves: Position[] = [];
-  const dir = piece.color === 'white' ? -1 : 1;
-  const startRow = piece.color === 'white' ? 6 : 1;
-
-  // Forward one
-  const oneStep = { row: pos.row + dir, col: pos.col };
-  if (isInBounds(oneStep) && !board[oneStep.row][oneStep.col]) {
-    moves.push(oneStep);
-
-    // Forward two from starting position
-    if (pos.row === startRow) {
-      const twoStep = { row: pos.row + 2 * dir, col: pos.col };
-      if (!board[twoStep.row][twoStep.col]) {
-        moves.push(twoStep);
-      }
-    }
-  }
-
-  // Diagonal captures
-  for (const dc of [-1, 1]) {
-    const target = { row: pos.row + dir, col: pos.col + dc };
-    if (isInBounds(target)) {
-      const targetPiece = board[target.row][target.col];
-      if (targetPiece && targetPiece.color !== piece.color) {
-        moves.push(target);
-      }
-      // En passant
-      if (enPassantTarget && target.row === enPassantTarget.row && target.col === enPassantTarget.col) {
-        moves.push(target);
-      }
-    }
-  }
-
-  return moves;
+/** Where a variant's games begin. */
+function startingFen(variant: ChessVariant, rng: Rng): string {
+  if (variant === 'horde') return HORDE_FEN;
+  if (variant !== 'chess960') return START_FEN;
+  const black = chess960BackRank(rng).map(type => FEN_LETTERS[type]).join('');
+  return `${black}/pppppppp/8/8/8/8/PPPPPPPP/${black.toUpperCase()} w KQkq - 0 1`;
 }
 
-function getSlidingMoves(
-  board: (ChessPiece | null)[][],
-  pos: Position,
-  piece: ChessPiece,
-  directions: number[][],
-): Position[] {
-  const moves: Position[] = [];
-  for (const [dr, dc] of directions) {
-    let r = pos.row + dr;
-    let c = pos.col + dc;
-    while (isInBounds({ row: r, col: c })) {
-      const target = board[r][c];
-      if (target) {
-        if (target.color !== piece.color) {
-          moves.push({ row: r, col: c });
+// The variant's own way of winning, checked before checkmate
+function variantWinner(state: ChessState): GameResult | null {
+  for (const color of SEATS) {
+    const winner = { winner: state.players[color] };
+    const other = oppositeColor(color);
+    switch (state.variant) {
+      case 'kingOfTheHill': {
+        const king = findKing(state.board, color);
+        if (king && HILL.some(p => p.row === king.row && p.col === king.col)) {
+          return { ...winner, reason: `King of the Hill! ${color} wins.` };
         }
         break;
       }
-      moves.push({ row: r, col: c });
-      r += dr;
-      c += dc;
+      case 'threeCheck':
+        if (state.checks[color] >= 3) return { ...winner, reason: `Third check! ${color} wins.` };
+        break;
+      case 'atomic':
+        if (!findKing(state.board, other)) return { ...winner, reason: `The ${other} king exploded! ${color} wins.` };
+        break;
+      case 'horde':
+        if (color === 'black' && !state.board.some(row => row.some(p => p?.color === 'white'))) {
+          return { ...winner, reason: 'The horde is wiped out! black wins.' };
+        }
+        break;
     }
   }
-  return moves;
+  return null;
 }
 
-function getKnightMoves(
-  board: (ChessPiece | null)[][],
-  pos: Position,
-  piece: ChessPiece,
-): Position[] {
-  const moves: Position[] = [];
-  const offsets = [
-    [-2, -1], [-2, 1], [-1, -2], [-1, 2],
-    [1, -2], [1, 2], [2, -1], [2, 1],
-  ];
-  for (const [dr, dc] of offsets) {
-    const target = { row: pos.row + dr, col: pos.col + dc };
-    if (isInBounds(target)) {
-      const targetPiece = board[target.row][target.col];
-      if (!targetPiece || targetPiece.color !== piece.color) {
-        moves.push(target);
-      }
-    }
-  }
-  return moves;
-}
+// ---- Computer Opponent ----
 
-function getKingMoves(
-  board: (ChessPiece | null)[][],
-  pos: Position,
-  piece: ChessPiece,
-): Position[] {
-  const moves: Position[] = [];
-  // Normal king moves (one square in any direction)
-  for (let dr = -1; dr <= 1; dr++) {
-    for (let dc = -1; dc <= 1; dc++) {
-      if (dr === 0 && dc === 0) continue;
-      const target = { row: pos.row + dr, col: pos.col + dc };
-      if (isInBounds(target)) {
-        const targetPiece = board[target.row][target.col];
-        if (!targetPiece || targetPiece.color !== piece.color) {
-          moves.push(target);
-        }
-      }
-    }
-  }
+const BOT_DEPTH: Record<BotDifficulty, number> = { easy: 1, medium: 2, hard: 3 };
 
-  // Castling
-  if (!piece.hasMoved && !isSquareAttackedBy(board, pos, oppositeColor(piece.color))) {
-    // Kingside castling (king moves to col 6, rook from col 7)
-    const kingsideRook = board[pos.row][7];
-    if (
-      kingsideRook &&
-      kingsideRook.type === 'rook' &&
-      kingsideRook.color === piece.color &&
-      !kingsideRook.hasMoved &&
-      !board[pos.row][5] &&
-      !board[pos.row][6] &&
-      !isSquareAttackedBy(board, { row: pos.row, col: 5 }, oppositeColor(piece.color)) &&
-      !isSquareAttackedBy(board, { row: pos.row, col: 6 }, oppositeColor(piece.color))
-    ) {
-      moves.push({ row: pos.row, col: 6 });
-    }
+const PIECE_VALUES: Record<ChessPieceType, number> = {
+  pawn: 100,
+  knight: 320,
+  bishop: 330,
+  rook: 500,
+  queen: 900,
+  king: 0,
+};
 
-    // Queenside castling (king moves to col 2, rook from col 0)
-    const queensideRook = board[pos.row][0];
-    if (
-      queensideRook &&
-      queensideRook.type === 'rook' &&
-      queensideRook.color === piece.color &&
-      !queensideRook.hasMoved &&
-      !board[pos.row][1] &&
-      !board[pos.row][2] &&
-      !board[pos.row][3] &&
-      !isSquareAttackedBy(board, { row: pos.row, col: 2 }, oppositeColor(piece.color)) &&
-      !isSquareAttackedBy(board, { row: pos.row, col: 3 }, oppositeColor(piece.color))
-    ) {
-      moves.push({ row: pos.row, col: 2 });
-    }
+/** Small bonus for pieces near the centre, and for pawns that have advanced. */
+function positionBonus(piece: ChessPiece, row: number, col: number): number {
+  if (piece.type === 'pawn') {
+    return 5 * (piece.color === 'white' ? 6 - row : row - 1);
   }
-
-  return moves;
-}
-
-// ---- Legal Move Generation ----
-// Filters pseudo-legal moves to exclude those that leave the king in check.
-
-function wouldBeInCheck(
-  board: (ChessPiece | null)[][],
-  from: Position,
-  to: Position,
-  color: ChessColor,
-  enPassantTarget: Position | null,
-): boolean {
-  const testBoard = cloneBoard(board);
-  const piece = testBoard[from.row][from.col]!;
-
-  // Handle en passant capture (remove the captured pawn)
-  if (piece.type === 'pawn' && enPassantTarget && to.row === enPassantTarget.row && to.col === enPassantTarget.col) {
-    // The captured pawn is on the same row as the moving pawn, same col as the target
-    testBoard[from.row][to.col] = null;
+  if (piece.type === 'knight' || piece.type === 'bishop') {
+    const centreDistance = Math.abs(3.5 - row) + Math.abs(3.5 - col);
+    return Math.round(20 - 5 * centreDistance);
   }
-
-  testBoard[to.row][to.col] = piece;
-  testBoard[from.row][from.col] = null;
-
-  return isKingInCheck(testBoard, color);
+  return 0;
 }
 
-/**
- * Get all legal moves for a piece at a given position.
- * This is the main function used by both server validation and client highlighting.
- */
-export function getValidMoves(state: ChessState, pos: Position): Position[] {
-  const piece = state.board[pos.row]?.[pos.col];
-  if (!piece || piece.color !== state.currentTurn) return [];
-
-  const pseudoMoves = getPseudoLegalMoves(state.board, pos, state.enPassantTarget);
-
-  // Filter out moves that leave the king in check
-  return pseudoMoves.filter(to => !wouldBeInCheck(state.board, pos, to, piece.color, state.enPassantTarget));
-}
-
-// ---- Game Status Checks ----
-
-function hasAnyLegalMoves(state: ChessState, color: ChessColor): boolean {
-  for (let row = 0; row < 8; row++) {
-    for (let col = 0; col < 8; col++) {
-      const piece = state.board[row][col];
-      if (piece && piece.color === color) {
-        const tempState: ChessState = { ...state, currentTurn: color };
-        const moves = getValidMoves(tempState, { row, col });
-        if (moves.length > 0) return true;
+function botSearch(botColor: ChessColor): SearchGame<ChessState, ChessMove> {
+  return {
+    moves: state => {
+      if (variantWinner(state)) return [];
+      const moves: { move: ChessMove; gain: number }[] = [];
+      for (let row = 0; row < 8; row++) {
+        for (let col = 0; col < 8; col++) {
+          const from = { row, col };
+          for (const to of getChessMoves(state, from)) {
+            const captured = state.board[to.row][to.col];
+            moves.push({ move: { type: 'move', from, to }, gain: captured ? PIECE_VALUES[captured.type] : 0 });
+          }
+        }
       }
-    }
-  }
-  return false;
+      // Captures of valuable pieces first, which makes alpha-beta cut off sooner
+      return moves.sort((a, b) => b.gain - a.gain).map(m => m.move);
+    },
+    play: (state, move) => chessEngine.applyMove(state, state.players[state.currentTurn], move),
+    botToMove: state => state.currentTurn === botColor,
+    evaluate: state => {
+      let score = 0;
+      for (let row = 0; row < 8; row++) {
+        for (let col = 0; col < 8; col++) {
+          const piece = state.board[row][col];
+          if (!piece) continue;
+          const value = PIECE_VALUES[piece.type] + positionBonus(piece, row, col);
+          score += piece.color === botColor ? value : -value;
+        }
+      }
+      return score;
+    },
+    // No legal moves: checkmate or the variant's goal decides, stalemate is a draw
+    finalScore: state => {
+      const result = variantWinner(state);
+      if (result) return result.winner === state.players[botColor] ? WIN_SCORE : -WIN_SCORE;
+      if (!state.inCheck) return 0;
+      return state.currentTurn === botColor ? -WIN_SCORE : WIN_SCORE;
+    },
+  };
 }
 
 // ---- Chess Engine ----
 
+const SEATS: readonly ChessColor[] = ['white', 'black']; // in turn order
+
 export const chessEngine: GameEngine<ChessState, ChessMove> = {
-  initGame(playerIds: [string, string]): ChessState {
+  initGame(playerIds: string[], options?: GameOptions, firstPlayer?: string, seed?: number): ChessState {
     // Randomly assign colors
-    const shuffled = Math.random() < 0.5 ? playerIds : [playerIds[1], playerIds[0]];
-    return {
+    const rng = createRng(seed);
+    const players = assignSeats(playerIds, SEATS, firstPlayer, rng);
+    const variant = parseVariant(options?.variant);
+
+    // An imported PGN wins over a FEN, since it may carry its own start position
+    const fen = typeof options?.fen === 'string' ? options.fen.trim() : '';
+    const pgn = typeof options?.pgn === 'string' ? options.pgn.trim() : '';
+    if (pgn) return fromPgn(pgn, players, fen || startingFen(variant, rng), variant);
+    if (fen || variant !== 'standard') return fromFen(fen || startingFen(variant, rng), players, variant);
+
+    const state: ChessState = {
       board: createInitialBoard(),
       currentTurn: 'white',
-      players: {
-        white: shuffled[0],
-        black: shuffled[1],
-      },
+      players,
       captures: { white: [], black: [] },
       winner: null,
       winReason: null,
@@ -438,7 +288,27 @@ export const chessEngine: GameEngine<ChessState, ChessMove> = {
       halfMoveClock: 0,
       inCheck: false,
       lastMove: null,
+      startFen: null,
+      importedMoves: [],
+      positionHashes: [],
+      variant: 'standard',
+      checks: { white: 0, black: 0 },
+      opening: null,
     };
+    return { ...state, positionHashes: [hashPosition(state)] };
+  },
+
+  parseMove(data: unknown): ChessMove | null {
+    if (!isRecord(data) || data.type !== 'move') return null;
+    if (!isPosition(data.from) || !isPosition(data.to)) return null;
+
+    const move: ChessMove = { type: 'move', from: toPosition(data.from), to: toPosition(data.to) };
+    if (data.promotion !== undefined) {
+      const promotion = PROMOTION_PIECES.find(p => p === data.promotion);
+      if (!promotion) return null;
+      move.promotion = promotion;
+    }
+    return move;
   },
 
   validateMove(state: ChessState, playerId: string, move: ChessMove): string | null {
@@ -455,57 +325,34 @@ export const chessEngine: GameEngine<ChessState, ChessMove> = {
     if (!piece) return 'No piece at the selected position';
     if (piece.color !== color) return 'That is not your piece';
 
-    const validMoves = getValidMoves(state, from);
+    const validMoves = getChessMoves(state, from);
     const isValid = validMoves.some(m => m.row === to.row && m.col === to.col);
     if (!isValid) return 'Invalid move';
 
+    // A promotion piece only belongs on a pawn reaching the last rank; leaving it off still promotes to a queen
+    const promotionRow = color === 'white' ? 0 : 7;
+    if (move.promotion && (piece.type !== 'pawn' || to.row !== promotionRow)) {
+      return 'Only a pawn reaching the last rank can promote';
+    }
+
     return null;
   },
 
   applyMove(state: ChessState, _playerId: string, move: ChessMove): ChessState {
     const newState = cloneState(state);
     const { from, to } = move;
-    const piece = { ...newState.board[from.row][from.col]! };
-    const capturedPiece = newState.board[to.row][to.col];
-
-    let isCapture = !!capturedPiece;
-    let isPawnMove = piece.type === 'pawn';
-
-    // Handle en passant capture
-    if (piece.type === 'pawn' && state.enPassantTarget &&
-        to.row === state.enPassantTarget.row && to.col === state.enPassantTarget.col) {
-      // Remove the captured pawn (it's on the same row as the moving pawn)
-      const capturedPawn = newState.board[from.row][to.col];
-      if (capturedPawn) {
-        newState.captures[piece.color].push(capturedPawn);
-        newState.board[from.row][to.col] = null;
-        isCapture = true;
-      }
-    }
+    const piece = state.board[from.row][from.col]!;
 
-    // Standard capture
-    if (capturedPiece) {
-      newState.captures[piece.color].push(capturedPiece);
-    }
+    // Castling, en passant and atomic blasts all happen in movePieces
+    const { board, removed } = movePieces(state, from, to);
+    newState.board = board;
+    for (const taken of removed) newState.captures[oppositeColor(taken.color)].push(taken);
 
-    // Handle castling (king moves 2 squares)
-    if (piece.type === 'king' && Math.abs(to.col - from.col) === 2) {
-      // Move the rook
-      if (to.col === 6) {
-        // Kingside
-        const rook = newState.board[from.row][7]!;
-        newState.board[from.row][7] = null;
-        newState.board[from.row][5] = { ...rook, hasMoved: true };
-      } else if (to.col === 2) {
-        // Queenside
-        const rook = newState.board[from.row][0]!;
-        newState.board[from.row][0] = null;
-        newState.board[from.row][3] = { ...rook, hasMoved: true };
-      }
-    }
+    const isCapture = removed.length > 0;
+    const isPawnMove = piece.type === 'pawn';
 
-    // Set en passant target if pawn moves two squares
-    if (piece.type === 'pawn' && Math.abs(to.row - from.row) === 2) {
+    // Set en passant target if pawn moves two squares (not the horde's first-rank pawns)
+    if (piece.type === 'pawn' && Math.abs(to.row - from.row) === 2 && (from.row === 1 || from.row === 6)) {
       newState.enPassantTarget = {
         row: (from.row + to.row) / 2,
         col: from.col,
@@ -514,18 +361,13 @@ export const chessEngine: GameEngine<ChessState, ChessMove> = {
       newState.enPassantTarget = null;
     }
 
-    // Move the piece
-    piece.hasMoved = true;
-    newState.board[from.row][from.col] = null;
-
-    // Handle pawn promotion (auto-promote to queen)
+    // Handle pawn promotion (auto-promote to queen), unless the pawn went up in an atomic blast
     const promotionRow = piece.color === 'white' ? 0 : 7;
-    if (piece.type === 'pawn' && to.row === promotionRow) {
-      piece.type = move.promotion || 'queen';
+    const landed = board[to.row][to.col];
+    if (piece.type === 'pawn' && to.row === promotionRow && landed) {
+      landed.type = move.promotion || 'queen';
     }
 
-    newState.board[to.row][to.col] = piece;
-
     // Update counters
     newState.moveCount++;
     if (isCapture || isPawnMove) {
@@ -538,11 +380,19 @@ export const chessEngine: GameEngine<ChessState, ChessMove> = {
     newState.currentTurn = oppositeColor(state.currentTurn);
 
     // Update check status for the new current player
-    newState.inCheck = isKingInCheck(newState.board, newState.currentTurn);
+    newState.inCheck = isKingInCheck(newState.board, newState.currentTurn, state.variant);
+    if (newState.inCheck) newState.checks[piece.color]++;
 
     // Record last move
     newState.lastMove = { from: { ...from }, to: { ...to } };
 
+    // Positions before a capture or pawn move can never come back
+    const hash = hashPosition(newState);
+    newState.positionHashes = newState.halfMoveClock === 0 ? [hash] : [...state.positionHashes, hash];
+
+    // A move out of the book keeps the name of the opening it left
+    newState.opening = bookOpening(newState, hash) ?? state.opening;
+
     return newState;
   },
 
@@ -560,12 +410,22 @@ export const chessEngine: GameEngine<ChessState, ChessMove> = {
       halfMoveClock: state.halfMoveClock,
       inCheck: state.inCheck,
       lastMove: state.lastMove,
+      fen: toFen(state),
+      claimableDraw: state.winner ? null : claimableDraw(state),
+      variant: state.variant,
+      checks: state.checks,
+      opening: state.opening,
     };
   },
 
   checkWinner(state: ChessState): { winner: string | null; reason?: string } | null {
     const currentColor = state.currentTurn;
     const opponentColor = oppositeColor(currentColor);
+
+    // A variant's own goal is reached on the move that reaches it, before mate is looked at
+    const variantResult = variantWinner(state);
+    if (variantResult) return variantResult;
+
     const hasLegal = hasAnyLegalMoves(state, currentColor);
 
     if (!hasLegal) {
@@ -584,17 +444,23 @@ export const chessEngine: GameEngine<ChessState, ChessMove> = {
       }
     }
 
-    // 50-move rule
-    if (state.halfMoveClock >= 100) {
-      // 100 half-moves = 50 full moves
+    // Fivefold repetition and the 75-move rule end the game without a claim
+    if (repetitions(state) >= 5) {
       return {
         winner: null,
-        reason: 'Draw by the 50-move rule.',
+        reason: 'Draw by fivefold repetition.',
+      };
+    }
+    if (state.halfMoveClock >= 150) {
+      // 150 half-moves = 75 full moves
+      return {
+        winner: null,
+        reason: 'Draw by the 75-move rule.',
       };
     }
 
     // Insufficient material check
-    if (isInsufficientMaterial(state.board)) {
+    if (isInsufficientMaterial(state.board, state.variant)) {
       return {
         winner: null,
         reason: 'Draw by insufficient material.',
@@ -603,53 +469,646 @@ export const chessEngine: GameEngine<ChessState, ChessMove> = {
 
     return null;
   },
+
+  getActivePlayers(state: ChessState): string[] {
+    return state.winner ? [] : [state.players[state.currentTurn]];
+  },
+
+  claimDraw(state: ChessState, playerId: string): string | null {
+    if (state.winner || !getPlayerColor(state, playerId)) return null;
+    return claimableDraw(state);
+  },
+
+  chooseMove(state: ChessState, playerId: string, difficulty: BotDifficulty): ChessMove {
+    const color = getPlayerColor(state, playerId)!;
+    return searchMove(botSearch(color), state, BOT_DEPTH[difficulty], difficulty);
+  },
+
+  validateOptions(options: GameOptions): string | null {
+    try {
+      const state = chessEngine.initGame(['white', 'black'], options);
+      return chessEngine.checkWinner(state) ? 'That game is already over' : null;
+    } catch (err) {
+      return (err as Error).message;
+    }
+  },
+
+  exportGame(record: GameRecord<ChessState, ChessMove>): GameExport {
+    return { extension: 'pgn', content: toPgn(record) };
+  },
+
+  describeMove(state: ChessState, move: ChessMove): string {
+    return toSan(state, move);
+  },
 };
 
 // ---- Insufficient Material Detection ----
 
-function isInsufficientMaterial(board: (ChessPiece | null)[][]): boolean {
-  const pieces: ChessPiece[] = [];
+function isInsufficientMaterial(board: (ChessPiece | null)[][], variant: ChessVariant): boolean {
+  // A lone king can still reach the hill, and the horde has no king to mate
+  if (variant === 'kingOfTheHill' || variant === 'horde') return false;
+
+  const pieces: { piece: ChessPiece; row: number; col: number }[] = [];
   for (let row = 0; row < 8; row++) {
     for (let col = 0; col < 8; col++) {
       const piece = board[row][col];
-      if (piece) pieces.push(piece);
+      if (piece && piece.type !== 'king') pieces.push({ piece, row, col });
     }
   }
 
   // King vs King
-  if (pieces.length === 2) return true;
+  if (pieces.length === 0) return true;
+  // Any piece left can still give three checks
+  if (variant === 'threeCheck') return false;
+
+  // King + Knight vs King, or King + two Knights vs King (mate needs the loser's help)
+  if (pieces.every(p => p.piece.type === 'knight')) {
+    return pieces.length === 1 || (pieces.length === 2 && pieces[0].piece.color === pieces[1].piece.color);
+  }
+
+  // Any number of bishops on either side, all on squares of one color
+  if (pieces.every(p => p.piece.type === 'bishop')) {
+    const squareColor = (pieces[0].row + pieces[0].col) % 2;
+    return pieces.every(p => (p.row + p.col) % 2 === squareColor);
+  }
 
-  // King + Bishop vs King or King + Knight vs King
-  if (pieces.length === 3) {
-    const nonKings = pieces.filter(p => p.type !== 'king');
-    if (nonKings.length === 1 && (nonKings[0].type === 'bishop' || nonKings[0].type === 'knight')) {
-      return true;
+  return false;
+}
+
+// ---- Position Hashing ----
+// Zobrist hashing: every piece on every square, the side to move, each
+// castling right and each en passant file gets a fixed 64-bit key, and a
+// position hashes to the XOR of the keys that apply. The keys come from a
+// fixed seed so hashes stay the same across restarts.
+
+type ZobristKey = [number, number]; // high and low 32 bits
+
+const ZOBRIST_SEED = 20_240_601;
+const ZOBRIST_PIECES: ChessPieceType[] = ['pawn', 'knight', 'bishop', 'rook', 'queen', 'king'];
+
+const zobristRng = createRng(ZOBRIST_SEED);
+const nextZobristKey = (): ZobristKey => [zobristRng.int(2 ** 32), zobristRng.int(2 ** 32)];
+const PIECE_KEYS: ZobristKey[] = Array.from({ length: 2 * 6 * 64 }, nextZobristKey);
+const BLACK_TO_MOVE_KEY = nextZobristKey();
+const CASTLING_KEYS: ZobristKey[] = Array.from({ length: 2 * 8 }, nextZobristKey); // by color and rook file
+const EN_PASSANT_KEYS: ZobristKey[] = Array.from({ length: 8 }, nextZobristKey); // by file
+const CHECK_KEYS: ZobristKey[] = Array.from({ length: 2 * 3 }, nextZobristKey); // three-check: by color and checks given
+
+// An en passant square only changes the position if a pawn can actually take on it
+function canCaptureEnPassant(state: ChessState): boolean {
+  const target = state.enPassantTarget;
+  if (!target) return false;
+  const row = target.row + (state.currentTurn === 'white' ? 1 : -1);
+  return [target.col - 1, target.col + 1].some(col => {
+    const piece = col >= 0 && col < 8 ? state.board[row][col] : null;
+    return piece?.type === 'pawn' && piece.color === state.currentTurn;
+  });
+}
+
+/**
+ * Zobrist hash of the position: placement, side to move, castling rights, a live en passant
+ * file and, in three-check, the checks given so far.
+ */
+export function hashPosition(state: ChessState): string {
+  let high = 0;
+  let low = 0;
+  const apply = ([h, l]: ZobristKey) => {
+    high ^= h;
+    low ^= l;
+  };
+
+  for (let row = 0; row < 8; row++) {
+    for (let col = 0; col < 8; col++) {
+      const piece = state.board[row][col];
+      if (!piece) continue;
+      const pieceIndex = (piece.color === 'white' ? 0 : 6) + ZOBRIST_PIECES.indexOf(piece.type);
+      apply(PIECE_KEYS[pieceIndex * 64 + row * 8 + col]);
     }
   }
+  if (state.currentTurn === 'black') apply(BLACK_TO_MOVE_KEY);
+  for (const { color, rookCol } of castlingRights(state.board)) {
+    apply(CASTLING_KEYS[(color === 'white' ? 0 : 8) + rookCol]);
+  }
+  if (canCaptureEnPassant(state)) apply(EN_PASSANT_KEYS[state.enPassantTarget!.col]);
+  if (state.variant === 'threeCheck') {
+    apply(CHECK_KEYS[Math.min(state.checks.white, 2)]);
+    apply(CHECK_KEYS[3 + Math.min(state.checks.black, 2)]);
+  }
 
-  // King + Bishop vs King + Bishop (same color bishops)
-  if (pieces.length === 4) {
-    const bishops = pieces.filter(p => p.type === 'bishop');
-    if (bishops.length === 2 && bishops[0].color !== bishops[1].color) {
-      // Need to check if bishops are on same color squares
-      const bishopPositions: { piece: ChessPiece; row: number; col: number }[] = [];
-      for (let row = 0; row < 8; row++) {
-        for (let col = 0; col < 8; col++) {
-          const piece = board[row][col];
-          if (piece && piece.type === 'bishop') {
-            bishopPositions.push({ piece, row, col });
-          }
+  return (high >>> 0).toString(16).padStart(8, '0') + (low >>> 0).toString(16).padStart(8, '0');
+}
+
+// How many times the current position has occurred, this time included
+function repetitions(state: ChessState): number {
+  const current = state.positionHashes[state.positionHashes.length - 1];
+  return state.positionHashes.filter(hash => hash === current).length;
+}
+
+// Threefold repetition and the 50-move rule draw only when a player claims them
+function claimableDraw(state: ChessState): string | null {
+  if (repetitions(state) >= 3) return 'Draw by threefold repetition.';
+  if (state.halfMoveClock >= 100) return 'Draw by the 50-move rule.';
+  return null;
+}
+
+// ---- FEN ----
+// Forsyth-Edwards Notation: piece placement, side to move, castling rights,
+// en passant square and the two move counters on one line.
+
+export const START_FEN = 'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1';
+
+const FILES = 'abcdefgh';
+
+const FEN_LETTERS: Record<ChessPieceType, string> = {
+  pawn: 'p',
+  knight: 'n',
+  bishop: 'b',
+  rook: 'r',
+  queen: 'q',
+  king: 'k',
+};
+
+const FEN_PIECES: Record<string, ChessPieceType> = {
+  p: 'pawn',
+  n: 'knight',
+  b: 'bishop',
+  r: 'rook',
+  q: 'queen',
+  k: 'king',
+};
+
+interface CastlingRight {
+  letter: string; // K, Q, k or q, as in X-FEN
+  color: ChessColor;
+  rookCol: number;
+}
+
+// The rights left on the board: an unmoved king and an unmoved rook on the same back rank
+function castlingRights(board: (ChessPiece | null)[][]): CastlingRight[] {
+  const rights: CastlingRight[] = [];
+  for (const color of SEATS) {
+    const row = color === 'white' ? 7 : 0;
+    const kingCol = board[row].findIndex(p => p?.type === 'king' && p.color === color && !p.hasMoved);
+    if (kingCol < 0) continue;
+    for (const kingside of [true, false]) {
+      const rookCol = findCastlingRook(board, row, kingCol, kingside);
+      if (rookCol === null) continue;
+      const letter = kingside ? 'K' : 'Q';
+      rights.push({ letter: color === 'white' ? letter : letter.toLowerCase(), color, rookCol });
+    }
+  }
+  return rights;
+}
+
+const STARTING_COUNTS: [ChessPieceType, number][] = [
+  ['queen', 1],
+  ['rook', 2],
+  ['bishop', 2],
+  ['knight', 2],
+  ['pawn', 8],
+];
+
+function squareName(pos: Position): string {
+  return `${FILES[pos.col]}${8 - pos.row}`;
+}
+
+function parseSquare(name: string): Position | null {
+  if (!/^[a-h][1-8]$/.test(name)) return null;
+  return { row: 8 - Number(name[1]), col: FILES.indexOf(name[0]) };
+}
+
+export function toFen(state: ChessState): string {
+  const ranks = state.board.map(row => {
+    let rank = '';
+    let empty = 0;
+    for (const piece of row) {
+      if (!piece) {
+        empty++;
+        continue;
+      }
+      if (empty > 0) rank += empty;
+      empty = 0;
+      const letter = FEN_LETTERS[piece.type];
+      rank += piece.color === 'white' ? letter.toUpperCase() : letter;
+    }
+    return empty > 0 ? rank + empty : rank;
+  });
+
+  const castling = castlingRights(state.board)
+    .map(right => right.letter)
+    .join('');
+
+  return [
+    ranks.join('/'),
+    state.currentTurn === 'white' ? 'w' : 'b',
+    castling || '-',
+    state.enPassantTarget ? squareName(state.enPassantTarget) : '-',
+    state.halfMoveClock,
+    Math.floor(state.moveCount / 2) + 1,
+  ].join(' ');
+}
+
+/**
+ * Set up a position from FEN. Throws if the FEN is malformed or the position can't occur.
+ * Chess960 also takes rook files as castling rights (Shredder-FEN) and any king file.
+ */
+export function fromFen(fen: string, players: { white: string; black: string }, variant: ChessVariant = 'standard'): ChessState {
+  const fields = fen.trim().split(/\s+/);
+  if (fields.length < 4 || fields.length > 6) throw new Error('Invalid FEN: expected 4 to 6 fields');
+  const [placement, turn, castling, enPassant, halfMoves = '0', fullMoves = '1'] = fields;
+
+  const ranks = placement.split('/');
+  if (ranks.length !== 8) throw new Error('Invalid FEN: expected 8 ranks');
+  const board = ranks.map((rank, row) => {
+    const cells: (ChessPiece | null)[] = [];
+    for (const ch of rank) {
+      if (/[1-8]/.test(ch)) {
+        for (let i = 0; i < Number(ch); i++) cells.push(null);
+        continue;
+      }
+      const type = FEN_PIECES[ch.toLowerCase()];
+      if (!type) throw new Error(`Invalid FEN: unknown piece '${ch}'`);
+      const color: ChessColor = ch === ch.toUpperCase() ? 'white' : 'black';
+      const hordePawn = variant === 'horde' && color === 'white' && row === 7;
+      if (type === 'pawn' && (row === 0 || row === 7) && !hordePawn) {
+        throw new Error('Invalid FEN: pawn on the first or last rank');
+      }
+      // Only pawns off their start rank count as moved; castling rights decide kings and rooks below
+      const hasMoved = type === 'pawn' && row !== (color === 'white' ? 6 : 1);
+      cells.push({ type, color, hasMoved });
+    }
+    if (cells.length !== 8) throw new Error(`Invalid FEN: rank ${8 - row} does not have 8 squares`);
+    return cells;
+  });
+
+  for (const color of SEATS) {
+    const kings = board.flat().filter(p => p?.type === 'king' && p.color === color).length;
+    if (variant === 'horde' && color === 'white') {
+      if (kings !== 0) throw new Error('Invalid FEN: the horde has no king');
+    } else if (kings !== 1) {
+      throw new Error(`Invalid FEN: ${color} must have exactly one king`);
+    }
+  }
+
+  if (turn !== 'w' && turn !== 'b') throw new Error('Invalid FEN: side to move must be w or b');
+  const currentTurn: ChessColor = turn === 'w' ? 'white' : 'black';
+
+  const chess960 = variant === 'chess960';
+  if (!(chess960 ? /^(-|[KQA-H]{0,2}[kqa-h]{0,2})$/ : /^(-|K?Q?k?q?)$/).test(castling)) {
+    throw new Error('Invalid FEN: bad castling rights');
+  }
+  for (const row of board) {
+    for (const piece of row) {
+      if (piece && (piece.type === 'king' || piece.type === 'rook')) piece.hasMoved = true;
+    }
+  }
+  for (const letter of castling.replace('-', '')) {
+    const color: ChessColor = letter === letter.toUpperCase() ? 'white' : 'black';
+    const row = color === 'white' ? 7 : 0;
+    const kingCol = board[row].findIndex(p => p?.type === 'king' && p.color === color);
+    const isRook = (col: number) => board[row][col]?.type === 'rook' && board[row][col]?.color === color;
+    // K and Q take the outermost rook on that side; a file letter names the rook
+    let rookCol = -1;
+    const side = letter.toUpperCase();
+    if (kingCol >= 0 && (chess960 || kingCol === 4)) {
+      if (side === 'K') rookCol = [7, 6, 5, 4, 3, 2, 1].find(col => col > kingCol && isRook(col)) ?? -1;
+      else if (side === 'Q') rookCol = [0, 1, 2, 3, 4, 5, 6].find(col => col < kingCol && isRook(col)) ?? -1;
+      else if (isRook(FILES.indexOf(side.toLowerCase()))) rookCol = FILES.indexOf(side.toLowerCase());
+      if (!chess960 && rookCol !== (side === 'K' ? 7 : 0)) rookCol = -1;
+    }
+    if (rookCol < 0) {
+      throw new Error(`Invalid FEN: castling right ${letter} needs the king and rook on their starting squares`);
+    }
+    board[row][kingCol]!.hasMoved = false;
+    board[row][rookCol]!.hasMoved = false;
+  }
+
+  let enPassantTarget: Position | null = null;
+  if (enPassant !== '-') {
+    enPassantTarget = parseSquare(enPassant);
+    // The pawn that just moved two squares sits right in front of the target
+    const pawnRow = currentTurn === 'white' ? 3 : 4;
+    const pawn = enPassantTarget && board[pawnRow][enPassantTarget.col];
+    if (
+      !enPassantTarget ||
+      enPassantTarget.row !== (currentTurn === 'white' ? 2 : 5) ||
+      pawn?.type !== 'pawn' ||
+      pawn.color === currentTurn
+    ) {
+      throw new Error('Invalid FEN: bad en passant square');
+    }
+  }
+
+  if (!/^\d+$/.test(halfMoves) || !/^\d+$/.test(fullMoves) || Number(fullMoves) < 1) {
+    throw new Error('Invalid FEN: bad move counters');
+  }
+
+  if (isKingInCheck(board, oppositeColor(currentTurn), variant)) {
+    throw new Error('Invalid FEN: the side not to move is in check');
+  }
+
+  const state: ChessState = {
+    board,
+    currentTurn,
+    players,
+    // The horde's missing pieces were never there to take
+    captures: variant === 'horde' ? { white: [], black: [] } : { white: missingPieces(board, 'black'), black: missingPieces(board, 'white') },
+    winner: null,
+    winReason: null,
+    enPassantTarget,
+    moveCount: (Number(fullMoves) - 1) * 2 + (currentTurn === 'black' ? 1 : 0),
+    halfMoveClock: Number(halfMoves),
+    inCheck: isKingInCheck(board, currentTurn, variant),
+    lastMove: null,
+    startFen: null,
+    importedMoves: [],
+    positionHashes: [],
+    variant,
+    checks: { white: 0, black: 0 },
+    opening: null,
+  };
+  const normalized = toFen(state);
+  const hash = hashPosition(state);
+  return {
+    ...state,
+    startFen: normalized === START_FEN ? null : normalized,
+    positionHashes: [hash],
+    opening: bookOpening(state, hash),
+  };
+}
+
+// Pieces a side has lost compared with the starting set, taken to be the other side's captures
+function missingPieces(board: (ChessPiece | null)[][], color: ChessColor): ChessPiece[] {
+  const missing: ChessPiece[] = [];
+  for (const [type, count] of STARTING_COUNTS) {
+    const onBoard = board.flat().filter(p => p?.type === type && p.color === color).length;
+    for (let i = onBoard; i < count; i++) missing.push({ type, color, hasMoved: true });
+  }
+  return missing;
+}
+
+// ---- SAN ----
+// Standard Algebraic Notation: e4, Nbd7, exd5, O-O, e8=Q+.
+
+const SAN_LETTERS: Record<ChessPieceType, string> = {
+  pawn: '',
+  knight: 'N',
+  bishop: 'B',
+  rook: 'R',
+  queen: 'Q',
+  king: 'K',
+};
+
+/** Every legal move for the side to move, with a separate move per promotion piece. */
+export function listLegalMoves(state: ChessState): ChessMove[] {
+  const moves: ChessMove[] = [];
+  for (let row = 0; row < 8; row++) {
+    for (let col = 0; col < 8; col++) {
+      const piece = state.board[row][col];
+      if (!piece || piece.color !== state.currentTurn) continue;
+      const from = { row, col };
+      for (const to of getChessMoves(state, from)) {
+        if (piece.type === 'pawn' && (to.row === 0 || to.row === 7)) {
+          for (const promotion of PROMOTION_PIECES) moves.push({ type: 'move', from, to, promotion });
+        } else {
+          moves.push({ type: 'move', from, to });
         }
       }
-      if (
-        bishopPositions.length === 2 &&
-        (bishopPositions[0].row + bishopPositions[0].col) % 2 ===
-        (bishopPositions[1].row + bishopPositions[1].col) % 2
-      ) {
-        return true;
+    }
+  }
+  return moves;
+}
+
+/** The SAN of a legal move, including + or # when it gives check or mate. */
+export function toSan(state: ChessState, move: ChessMove): string {
+  const san = sanWithoutCheck(state, move);
+  const after = chessEngine.applyMove(state, state.players[state.currentTurn], move);
+  if (!after.inCheck) return san;
+  return hasAnyLegalMoves(after, after.currentTurn) ? `${san}+` : `${san}#`;
+}
+
+/** The legal move a SAN string stands for, or null. Check marks, capture marks and annotations are optional. */
+export function parseSan(state: ChessState, san: string): ChessMove | null {
+  const wanted = normalizeSan(san);
+  return listLegalMoves(state).find(move => normalizeSan(sanWithoutCheck(state, move)) === wanted) ?? null;
+}
+
+function normalizeSan(san: string): string {
+  // Squares never contain a zero, so 0-0 can safely be read as O-O
+  return san.replace(/[+#!?x=]/g, '').replace(/0/g, 'O');
+}
+
+function sanWithoutCheck(state: ChessState, move: ChessMove): string {
+  const { from, to } = move;
+  const piece = state.board[from.row][from.col]!;
+  const rookCol = castlingRookCol(state, from, to);
+  if (rookCol !== null) return rookCol > from.col ? 'O-O' : 'O-O-O';
+
+  const isCapture = !!state.board[to.row][to.col] || (piece.type === 'pawn' && from.col !== to.col);
+  let san = SAN_LETTERS[piece.type];
+
+  if (piece.type === 'pawn') {
+    if (isCapture) san += FILES[from.col];
+  } else {
+    // Name the file, the rank or both when a piece of the same kind could also move there
+    const rivals: Position[] = [];
+    for (let row = 0; row < 8; row++) {
+      for (let col = 0; col < 8; col++) {
+        const other = state.board[row][col];
+        if (!other || other.type !== piece.type || other.color !== piece.color) continue;
+        if (row === from.row && col === from.col) continue;
+        if (getChessMoves(state, { row, col }).some(p => p.row === to.row && p.col === to.col)) {
+          rivals.push({ row, col });
+        }
       }
     }
+    if (rivals.length > 0) {
+      if (!rivals.some(p => p.col === from.col)) san += FILES[from.col];
+      else if (!rivals.some(p => p.row === from.row)) san += 8 - from.row;
+      else san += squareName(from);
+    }
   }
 
-  return false;
+  if (isCapture) san += 'x';
+  san += squareName(to);
+  if (piece.type === 'pawn' && (to.row === 0 || to.row === 7)) {
+    san += `=${SAN_LETTERS[move.promotion || 'queen']}`;
+  }
+  return san;
+}
+
+// ---- Opening Book ----
+// Openings are named from a bundled ECO book (eco.json), each line listed as
+// the SAN moves that reach it. Lines are matched by position rather than by
+// move order, so a game that transposes into a known line still finds it.
+
+let openingBook: Map<string, ChessOpening> | null = null; // by position hash, built on first use
+
+/** The opening whose book position this is, if any; `hash` is hashPosition(state). */
+function bookOpening(state: ChessState, hash: string): ChessOpening | null {
+  if (state.variant !== 'standard') return null;
+  if (!openingBook) {
+    // Set before the lines are replayed, since their moves look openings up too
+    openingBook = new Map();
+    const start = fromFen(START_FEN, { white: 'white', black: 'black' });
+    const replayed = new Map<string, ChessState>(); // by the moves played, since many lines share their start
+    for (const { eco, name, moves } of ECO_BOOK) {
+      let line = start;
+      let played = '';
+      for (const san of moves.split(' ')) {
+        played = `${played} ${san}`;
+        const known = replayed.get(played);
+        if (known) {
+          line = known;
+          continue;
+        }
+        const move = parseSan(line, san);
+        if (!move) throw new Error(`Opening book: illegal move ${san} in ${eco} ${name}`);
+        line = chessEngine.applyMove(line, line.players[line.currentTurn], move);
+        replayed.set(played, line);
+      }
+      // The first line to reach a position names it
+      const key = line.positionHashes[line.positionHashes.length - 1];
+      if (!openingBook.has(key)) openingBook.set(key, { eco, name });
+    }
+  }
+  return openingBook.get(hash) ?? null;
+}
+
+// ---- PGN ----
+// Portable Game Notation: tag pairs followed by the moves in SAN.
+
+interface ParsedPgn {
+  tags: Record<string, string>;
+  moves: string[];
+}
+
+const PGN_LINE_LENGTH = 80;
+
+export function parsePgn(pgn: string): ParsedPgn {
+  const tags: Record<string, string> = {};
+  const tagPattern = /\[\s*(\w+)\s+"((?:[^"\\]|\\.)*)"\s*\]/g;
+  for (const [, name, value] of pgn.matchAll(tagPattern)) {
+    tags[name] = value.replace(/\\(.)/g, '$1');
+  }
+
+  let text = pgn
+    .replace(tagPattern, ' ')
+    .replace(/\{[^}]*\}/g, ' ') // {comments}
+    .replace(/;[^\n]*/g, ' '); // ; comments to the end of the line
+  // Variations can nest, so strip the innermost ones until none are left
+  for (let previous = ''; previous !== text; ) {
+    previous = text;
+    text = text.replace(/\([^()]*\)/g, ' ');
+  }
+
+  const moves = text
+    .replace(/\$\d+/g, ' ') // numeric annotation glyphs
+    .split(/\s+/)
+    .map(token => token.replace(/^\d+\.+/, '')) // move numbers, "1." or "12..."
+    .filter(token => token && !/^(1-0|0-1|1\/2-1\/2|\*)$/.test(token));
+  return { tags, moves };
+}
+
+/**
+ * Replay a PGN from its FEN tag, or from the given position when it has none.
+ * Throws on a malformed start position, an illegal move or a move after the game ended.
+ */
+export function fromPgn(
+  pgn: string,
+  players: { white: string; black: string },
+  fen: string,
+  variant: ChessVariant = 'standard',
+): ChessState {
+  const { tags, moves } = parsePgn(pgn);
+  let state = fromFen(tags.FEN ?? fen, players, variant);
+  const { startFen } = state;
+  const played: string[] = [];
+
+  for (const san of moves) {
+    const moveNumber = Math.floor(state.moveCount / 2) + 1;
+    if (chessEngine.checkWinner(state)) throw new Error(`Invalid PGN: the game is already over before ${san}`);
+    const move = parseSan(state, san);
+    if (!move) throw new Error(`Invalid PGN: illegal move ${san} at move ${moveNumber}`);
+    played.push(toSan(state, move));
+    state = chessEngine.applyMove(state, state.players[state.currentTurn], move);
+  }
+
+  return { ...state, startFen, importedMoves: played };
+}
+
+function pgnResult(state: ChessState, finished: boolean): string {
+  // Resignations and timeouts only show up in state.winner; mates and draws are read off the board
+  const result = chessEngine.checkWinner(state);
+  const winner = state.winner ?? result?.winner;
+  if (winner === state.players.white) return '1-0';
+  if (winner === state.players.black) return '0-1';
+  return finished || result ? '1/2-1/2' : '*';
+}
+
+// A {comment} split into words so a long one wraps; it can't hold a brace of its own
+function commentTokens(comment: string): string[] {
+  const words = comment.replace(/[{}]/g, ' ').split(/\s+/).filter(Boolean);
+  if (words.length === 0) return [];
+  words[0] = `{${words[0]}`;
+  words[words.length - 1] = `${words[words.length - 1]}}`;
+  return words;
+}
+
+function pgnTag(name: string, value: string): string {
+  return `[${name} "${value.replace(/[\\"]/g, '\\$&')}"]`;
+}
+
+/** The game so far as PGN, including any moves imported before it began. */
+export function toPgn(record: GameRecord<ChessState, ChessMove>): string {
+  const initial = record.states[0];
+  const final = record.states[record.states.length - 1];
+  const result = pgnResult(final, record.finished);
+
+  const tags: [string, string][] = [
+    ['Event', 'Casual game'],
+    ['Site', 'Your Turn'],
+    ['Date', new Date().toISOString().slice(0, 10).replace(/-/g, '.')],
+    ['Round', '-'],
+    ['White', record.playerNames[initial.players.white] ?? '?'],
+    ['Black', record.playerNames[initial.players.black] ?? '?'],
+    ['Result', result],
+  ];
+  if (final.opening) tags.push(['ECO', final.opening.eco], ['Opening', final.opening.name]);
+  if (initial.variant !== 'standard') {
+    tags.push(['Variant', CHESS_VARIANTS.find(v => v.value === initial.variant)!.label]);
+  }
+  if (initial.startFen) tags.push(['SetUp', '1'], ['FEN', initial.startFen]);
+
+  // Number the moves from the start position, which may have black to move
+  const [, turn, , , , fullMoves = '1'] = (initial.startFen ?? START_FEN).split(' ');
+  const firstPly = (Number(fullMoves) - 1) * 2 + (turn === 'b' ? 1 : 0);
+  const sans = [...initial.importedMoves, ...record.moves.map((move, i) => toSan(record.states[i], move))];
+  const annotations = [...initial.importedMoves.map(() => null), ...(record.annotations ?? [])];
+  const tokens: string[] = [];
+  sans.forEach((san, i) => {
+    const ply = firstPly + i;
+    const moveNumber = Math.floor(ply / 2) + 1;
+    const annotation = annotations[i];
+    const text = `${san}${annotation?.glyph ?? ''}`;
+    // Black's move is numbered again when it opens the moves or follows a comment
+    if (ply % 2 === 0) tokens.push(`${moveNumber}. ${text}`);
+    else tokens.push(i === 0 || annotations[i - 1]?.comment ? `${moveNumber}... ${text}` : text);
+    if (annotation?.comment) tokens.push(...commentTokens(annotation.comment));
+  });
+  tokens.push(result);
+
+  const lines: string[] = [];
+  let line = '';
+  for (const token of tokens) {
+    if (line && line.length + 1 + token.length > PGN_LINE_LENGTH) {
+      lines.push(line);
+      line = token;
+    } else {
+      line = line ? `${line} ${token}` : token;
+    }
+  }
+  lines.push(line);
+
+  return `${tags.map(([name, value]) => pgnTag(name, value)).join('\n')}\n\n${lines.join('\n')}\n`;
 }
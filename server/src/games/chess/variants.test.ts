@@ -0,0 +1,221 @@
+import { describe, it, expect } from 'vitest';
+import { ChessState, ChessVariant, chessEngine, fromFen, parseSan, toFen, toPgn, toSan } from './index';
+
+// ---- Helpers ----
+
+const PLAYER_WHITE = 'player-white';
+const PLAYER_BLACK = 'player-black';
+const PLAYERS = { white: PLAYER_WHITE, black: PLAYER_BLACK };
+
+function pos(row: number, col: number) {
+  return { row, col };
+}
+
+/** A new game of `variant` with PLAYER_WHITE as white. */
+function newGame(variant: ChessVariant, seed?: number): ChessState {
+  return chessEngine.initGame([PLAYER_WHITE, PLAYER_BLACK], { variant }, PLAYER_WHITE, seed);
+}
+
+function play(state: ChessState, from: [number, number], to: [number, number]): ChessState {
+  const move = { type: 'move' as const, from: pos(...from), to: pos(...to) };
+  const playerId = state.players[state.currentTurn];
+  const error = chessEngine.validateMove(state, playerId, move);
+  if (error) throw new Error(`${error}: ${JSON.stringify(move)}`);
+  return chessEngine.applyMove(state, playerId, move);
+}
+
+function canMove(state: ChessState, from: [number, number], to: [number, number]): boolean {
+  const move = { type: 'move' as const, from: pos(...from), to: pos(...to) };
+  return chessEngine.validateMove(state, state.players[state.currentTurn], move) === null;
+}
+
+// ---- Tests ----
+
+describe('chess variants', () => {
+  it('start standard chess unless a variant is chosen', () => {
+    expect(chessEngine.initGame([PLAYER_WHITE, PLAYER_BLACK]).variant).toBe('standard');
+    expect(newGame('standard').variant).toBe('standard');
+    expect(newGame('atomic').variant).toBe('atomic');
+    expect(newGame('kingOfTheHill').startFen).toBeNull();
+  });
+
+  it('show the variant and the checks given in the view', () => {
+    expect(chessEngine.getState(newGame('threeCheck'), PLAYER_WHITE)).toMatchObject({
+      variant: 'threeCheck',
+      checks: { white: 0, black: 0 },
+    });
+  });
+
+  describe('Chess960', () => {
+    it('deals a legal shuffled back rank, the same one for the same seed', () => {
+      for (let seed = 0; seed < 25; seed++) {
+        const state = newGame('chess960', seed);
+        const rank = state.board[7].map(p => p!.type);
+        const bishops = rank.flatMap((type, col) => (type === 'bishop' ? [col] : []));
+        const [leftRook, rightRook] = rank.flatMap((type, col) => (type === 'rook' ? [col] : []));
+        const king = rank.indexOf('king');
+
+        expect(bishops[0] % 2).not.toBe(bishops[1] % 2);
+        expect(leftRook < king && king < rightRook).toBe(true);
+        expect(state.board[0].map(p => p!.type)).toEqual(rank);
+        expect(toFen(state)).toMatch(/ w KQkq - 0 1$/);
+        expect(toFen(newGame('chess960', seed))).toBe(toFen(state));
+      }
+    });
+
+    it('castles by moving the king onto its rook', () => {
+      const state = fromFen('rk5r/pppppppp/8/8/8/8/PPPPPPPP/RK5R w KQkq - 0 1', PLAYERS, 'chess960');
+      expect(canMove(state, [7, 1], [7, 7])).toBe(true);
+      expect(canMove(state, [7, 1], [7, 0])).toBe(true);
+
+      const kingside = play(state, [7, 1], [7, 7]);
+      expect(kingside.board[7][6]).toMatchObject({ type: 'king', color: 'white' });
+      expect(kingside.board[7][5]).toMatchObject({ type: 'rook', color: 'white' });
+      expect(kingside.board[7][1]).toBeNull();
+      expect(kingside.board[7][7]).toBeNull();
+      expect(toFen(kingside).split(' ')[2]).toBe('kq');
+      expect(toSan(state, { type: 'move', from: pos(7, 1), to: pos(7, 7) })).toBe('O-O');
+
+      const queenside = parseSan(state, 'O-O-O')!;
+      expect(queenside.to).toEqual(pos(7, 0));
+      const after = chessEngine.applyMove(state, PLAYER_WHITE, queenside);
+      expect(after.board[7][2]).toMatchObject({ type: 'king' });
+      expect(after.board[7][3]).toMatchObject({ type: 'rook' });
+      expect(after.board[7][0]).toBeNull();
+    });
+
+    it('will not castle through an attacked square', () => {
+      const state = fromFen('rk3r1r/pppp1ppp/8/8/8/8/PPPP1PPP/RK5R w KQ - 0 1', PLAYERS, 'chess960');
+      expect(canMove(state, [7, 1], [7, 7])).toBe(true);
+      const blocked = fromFen('rk2r2r/pppp1ppp/8/8/8/8/PPPP1PPP/RK5R w KQ - 0 1', PLAYERS, 'chess960');
+      expect(canMove(blocked, [7, 1], [7, 7])).toBe(false);
+      expect(canMove(blocked, [7, 1], [7, 0])).toBe(true);
+    });
+
+    it('reads rook files as castling rights, which standard chess refuses', () => {
+      const shredder = fromFen('rk5r/pppppppp/8/8/8/8/PPPPPPPP/RK5R w HAha - 0 1', PLAYERS, 'chess960');
+      expect(toFen(shredder)).toBe('rk5r/pppppppp/8/8/8/8/PPPPPPPP/RK5R w KQkq - 0 1');
+      expect(() => fromFen('rk5r/pppppppp/8/8/8/8/PPPPPPPP/RK5R w KQkq - 0 1', PLAYERS)).toThrow(
+        'castling right K needs the king and rook on their starting squares',
+      );
+    });
+
+    it('exports PGN with the variant and its start position', () => {
+      const state = newGame('chess960', 7);
+      const pgn = toPgn({ states: [state], moves: [], playerNames: {}, finished: false });
+      expect(pgn).toContain('[Variant "Chess960"]');
+      if (state.startFen) expect(pgn).toContain(`[FEN "${state.startFen}"]`);
+    });
+  });
+
+  describe('King of the Hill', () => {
+    it('is won by walking the king onto a centre square', () => {
+      const state = fromFen('4k3/8/8/8/8/4K3/8/8 w - - 0 1', PLAYERS, 'kingOfTheHill');
+      expect(chessEngine.checkWinner(state)).toBeNull(); // bare kings still race for the hill
+      expect(chessEngine.checkWinner(play(state, [5, 4], [4, 4]))).toEqual({
+        winner: PLAYER_WHITE,
+        reason: 'King of the Hill! white wins.',
+      });
+    });
+  });
+
+  describe('Three-check', () => {
+    const fen = '4k3/8/8/8/8/8/8/4K2R w - - 0 1';
+
+    it('counts the checks each side gives', () => {
+      const after = play(fromFen(fen, PLAYERS, 'threeCheck'), [7, 7], [0, 7]);
+      expect(after.checks).toEqual({ white: 1, black: 0 });
+      expect(chessEngine.checkWinner(after)).toBeNull();
+    });
+
+    it('is won by the third check', () => {
+      const state = { ...fromFen(fen, PLAYERS, 'threeCheck'), checks: { white: 2, black: 0 } };
+      expect(chessEngine.checkWinner(play(state, [7, 7], [0, 7]))).toEqual({
+        winner: PLAYER_WHITE,
+        reason: 'Third check! white wins.',
+      });
+    });
+
+    it('only calls bare kings insufficient material', () => {
+      expect(chessEngine.checkWinner(fromFen('4k3/8/8/8/8/8/8/4K3 w - - 0 1', PLAYERS, 'threeCheck'))).toEqual({
+        winner: null,
+        reason: 'Draw by insufficient material.',
+      });
+      expect(chessEngine.checkWinner(fromFen('4k3/8/8/8/8/8/8/1N2K3 w - - 0 1', PLAYERS, 'threeCheck'))).toBeNull();
+    });
+  });
+
+  describe('Atomic', () => {
+    it('blows up the capturing piece and every piece but a pawn around it', () => {
+      const state = fromFen('4k3/8/2p1b3/3n4/2N1P3/8/8/4K3 w - - 0 1', PLAYERS, 'atomic');
+      const after = play(state, [4, 4], [3, 3]);
+      expect(after.board[3][3]).toBeNull(); // the capturing pawn and the knight it took
+      expect(after.board[2][4]).toBeNull(); // black bishop
+      expect(after.board[4][2]).toBeNull(); // white knight
+      expect(after.board[2][2]).toMatchObject({ type: 'pawn', color: 'black' });
+      // A FEN's missing pieces already count as captured, so look at what this move added
+      const taken = (color: 'white' | 'black') =>
+        after.captures[color].slice(state.captures[color].length).map(p => p.type).sort();
+      expect(taken('white')).toEqual(['bishop', 'knight']);
+      expect(taken('black')).toEqual(['knight', 'pawn']);
+      expect(after.halfMoveClock).toBe(0);
+    });
+
+    it('never lets a king capture or a capture blow up your own king', () => {
+      const kingCapture = fromFen('4k3/8/8/8/8/8/4p3/4K3 w - - 0 1', PLAYERS, 'atomic');
+      expect(canMove(kingCapture, [7, 4], [6, 4])).toBe(false);
+      expect(canMove(fromFen('4k3/8/8/8/8/8/4p3/4K3 w - - 0 1', PLAYERS), [7, 4], [6, 4])).toBe(true);
+
+      const nextToKing = fromFen('4k3/8/8/8/8/8/3n4/3QK3 w - - 0 1', PLAYERS, 'atomic');
+      expect(canMove(nextToKing, [7, 3], [6, 3])).toBe(false);
+    });
+
+    it('is won by exploding the enemy king', () => {
+      const state = fromFen('3qk3/8/8/8/8/8/8/3QK3 w - - 0 1', PLAYERS, 'atomic');
+      const after = play(state, [7, 3], [0, 3]);
+      expect(after.board[0][4]).toBeNull();
+      expect(chessEngine.checkWinner(after)).toEqual({
+        winner: PLAYER_WHITE,
+        reason: 'The black king exploded! white wins.',
+      });
+    });
+
+    it('has no check between touching kings', () => {
+      const fen = '8/8/8/8/8/3k4/3K3r/8 w - - 0 1';
+      expect(fromFen(fen, PLAYERS, 'atomic').inCheck).toBe(false);
+      expect(() => fromFen(fen, PLAYERS)).toThrow('the side not to move is in check');
+    });
+
+    it('lets the computer pick a legal move', () => {
+      const state = newGame('atomic', 3);
+      const move = chessEngine.chooseMove!(state, PLAYER_WHITE, 'easy');
+      expect(chessEngine.validateMove(state, PLAYER_WHITE, move)).toBeNull();
+    });
+  });
+
+  describe('Horde', () => {
+    it('gives white 36 pawns and no king', () => {
+      const state = newGame('horde');
+      const white = state.board.flat().filter(p => p?.color === 'white');
+      expect(white).toHaveLength(36);
+      expect(white.every(p => p!.type === 'pawn')).toBe(true);
+      expect(toFen(state)).toBe('rnbqkbnr/pppppppp/8/1PP2PP1/PPPPPPPP/PPPPPPPP/PPPPPPPP/PPPPPPPP w kq - 0 1');
+      expect(state.captures).toEqual({ white: [], black: [] });
+    });
+
+    it('lets first-rank pawns step two squares without an en passant square', () => {
+      const state = fromFen('4k3/8/8/8/8/8/8/P7 w - - 0 1', PLAYERS, 'horde');
+      expect(canMove(state, [7, 0], [5, 0])).toBe(true);
+      expect(play(state, [7, 0], [5, 0]).enPassantTarget).toBeNull();
+    });
+
+    it('is won by black when the horde is gone', () => {
+      const state = fromFen('4k3/8/8/8/8/8/8/Pr6 b - - 0 1', PLAYERS, 'horde');
+      expect(chessEngine.checkWinner(state)).toBeNull();
+      expect(chessEngine.checkWinner(play(state, [7, 1], [7, 0]))).toEqual({
+        winner: PLAYER_BLACK,
+        reason: 'The horde is wiped out! black wins.',
+      });
+    });
+  });
+});
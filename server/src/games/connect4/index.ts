@@ -1,4 +1,8 @@
-import { GameEngine, Position } from '../../types';
+import { BotDifficulty, GameEngine, GameOptions, Position } from '../../types';
+import { isRecord, isInteger } from '../schema';
+import { assignSeats, nextSeat } from '../seats';
+import { createRng } from '../random';
+import { SearchGame, WIN_SCORE, searchMove } from '../../bots';
 
 // ---- Four in a Row Types ----
 
@@ -15,8 +19,8 @@ export interface Connect4State {
 }
 
 export interface Connect4Move {
-  from: Position; // unused, will be {row:0,col:0}
-  to: Position;   // to.col = the column to drop into (0-6), to.row is ignored
+  type: 'drop';
+  col: number; // the column to drop into (0-6)
 }
 
 // ---- Constants ----
@@ -111,19 +115,73 @@ function findWinningLine(board: (Connect4Color | null)[][]): { color: Connect4Co
   return null;
 }
 
+// ---- Computer Opponent ----
+
+const BOT_DEPTH: Record<BotDifficulty, number> = { easy: 2, medium: 4, hard: 6 };
+
+// Central columns take part in the most lines, so they are searched first
+const COLUMN_ORDER = [3, 2, 4, 1, 5, 0, 6];
+
+// Score for a window of four holding n of one colour and nothing of the other
+const WINDOW_SCORES = [0, 1, 10, 100];
+
+/** Sum every open window of four: positive when it favours `color`. */
+function scoreWindows(board: (Connect4Color | null)[][], color: Connect4Color): number {
+  let score = 0;
+  for (let row = 0; row < ROWS; row++) {
+    for (let col = 0; col < COLS; col++) {
+      for (const [dRow, dCol] of DIRECTIONS) {
+        const endRow = row + (WIN_LENGTH - 1) * dRow;
+        const endCol = col + (WIN_LENGTH - 1) * dCol;
+        if (endRow < 0 || endRow >= ROWS || endCol < 0 || endCol >= COLS) continue;
+
+        let mine = 0;
+        let theirs = 0;
+        for (let i = 0; i < WIN_LENGTH; i++) {
+          const cell = board[row + i * dRow][col + i * dCol];
+          if (cell === color) mine++;
+          else if (cell) theirs++;
+        }
+        if (theirs === 0) score += WINDOW_SCORES[mine];
+        else if (mine === 0) score -= WINDOW_SCORES[theirs];
+      }
+    }
+  }
+  return score;
+}
+
+function botSearch(botColor: Connect4Color): SearchGame<Connect4State, Connect4Move> {
+  const finalScore = (state: Connect4State): number => {
+    const line = findWinningLine(state.board);
+    if (!line) return 0;
+    return line.color === botColor ? WIN_SCORE : -WIN_SCORE;
+  };
+
+  return {
+    moves: state => {
+      if (findWinningLine(state.board)) return [];
+      return COLUMN_ORDER.filter(col => state.board[0][col] === null).map(col => ({ type: 'drop', col }));
+    },
+    play: (state, move) => connect4Engine.applyMove(state, state.players[state.currentTurn], move),
+    botToMove: state => state.currentTurn === botColor,
+    evaluate: state => finalScore(state) || scoreWindows(state.board, botColor),
+    finalScore,
+  };
+}
+
 // ---- Game Engine ----
 
+const SEATS: readonly Connect4Color[] = ['red', 'yellow']; // in turn order
+
 export const connect4Engine: GameEngine<Connect4State, Connect4Move> = {
-  initGame(playerIds: [string, string]): Connect4State {
+  initGame(playerIds: string[], _options?: GameOptions, firstPlayer?: string, seed?: number): Connect4State {
     // Randomly assign colors
-    const shuffled = Math.random() < 0.5 ? playerIds : [playerIds[1], playerIds[0]];
+    const players = assignSeats(playerIds, SEATS, firstPlayer, createRng(seed));
+
     return {
       board: createEmptyBoard(),
       currentTurn: 'red', // red always goes first
-      players: {
-        red: shuffled[0],
-        yellow: shuffled[1],
-      },
+      players,
       winner: null,
       winReason: null,
       lastMove: null,
@@ -131,6 +189,11 @@ export const connect4Engine: GameEngine<Connect4State, Connect4Move> = {
     };
   },
 
+  parseMove(data: unknown): Connect4Move | null {
+    if (!isRecord(data) || data.type !== 'drop' || !isInteger(data.col)) return null;
+    return { type: 'drop', col: data.col };
+  },
+
   validateMove(state: Connect4State, playerId: string, move: Connect4Move): string | null {
     if (state.winner) return 'Game is already over';
 
@@ -138,7 +201,7 @@ export const connect4Engine: GameEngine<Connect4State, Connect4Move> = {
     if (!color) return 'You are not a player in this game';
     if (color !== state.currentTurn) return 'It is not your turn';
 
-    const col = move.to.col;
+    const { col } = move;
 
     // Validate column range
     if (col < 0 || col >= COLS || !Number.isInteger(col)) {
@@ -154,7 +217,7 @@ export const connect4Engine: GameEngine<Connect4State, Connect4Move> = {
   },
 
   applyMove(state: Connect4State, playerId: string, move: Connect4Move): Connect4State {
-    const col = move.to.col;
+    const { col } = move;
     const color = getPlayerColor(state, playerId)!;
     const newBoard = cloneBoard(state.board);
 
@@ -163,7 +226,7 @@ export const connect4Engine: GameEngine<Connect4State, Connect4Move> = {
     newBoard[row][col] = color;
 
     // Switch turn
-    const nextTurn: Connect4Color = state.currentTurn === 'red' ? 'yellow' : 'red';
+    const nextTurn = nextSeat(SEATS, state.currentTurn);
 
     // Detect winning line after placing the piece
     const winLine = findWinningLine(newBoard);
@@ -210,4 +273,13 @@ export const connect4Engine: GameEngine<Connect4State, Connect4Move> = {
 
     return null;
   },
+
+  getActivePlayers(state: Connect4State): string[] {
+    return state.winner ? [] : [state.players[state.currentTurn]];
+  },
+
+  chooseMove(state: Connect4State, playerId: string, difficulty: BotDifficulty): Connect4Move {
+    const color = getPlayerColor(state, playerId)!;
+    return searchMove(botSearch(color), state, BOT_DEPTH[difficulty], difficulty);
+  },
 };
@@ -11,9 +11,21 @@ function initGame(): CribbageState {
   return cribbageEngine.initGame([PLAYER_1, PLAYER_2]);
 }
 
-/** Build a CribbageMove from shorthand values. */
-function move(fromRow: number, fromCol: number, toRow = 0, toCol = 0): CribbageMove {
-  return { from: { row: fromRow, col: fromCol }, to: { row: toRow, col: toCol } };
+/** Shorthands for each CribbageMove variant. */
+function discard(first: number, second: number): CribbageMove {
+  return { type: 'discard', cards: [first, second] };
+}
+
+function play(card: number): CribbageMove {
+  return { type: 'play', card };
+}
+
+function go(): CribbageMove {
+  return { type: 'go' };
+}
+
+function acknowledge(): CribbageMove {
+  return { type: 'acknowledge' };
 }
 
 /**
@@ -89,6 +101,7 @@ function createPeggingState(overrides?: Partial<CribbageState>): CribbageState {
     countingPhaseStep: 0,
     countingResult: null,
     roundNumber: 1,
+    rng: 1,
     ...overrides,
   };
 
@@ -144,7 +157,7 @@ describe('cribbageEngine', () => {
   describe('validateMove - discarding', () => {
     it('rejects moves from a non-player', () => {
       const state = initGame();
-      const error = cribbageEngine.validateMove(state, 'stranger', move(0, 1));
+      const error = cribbageEngine.validateMove(state, 'stranger', discard(0, 1));
       expect(error).toBe('You are not a player in this game');
     });
 
@@ -153,14 +166,14 @@ describe('cribbageEngine', () => {
       const playerId = state.players[1];
 
       // First discard should be valid
-      const firstError = cribbageEngine.validateMove(state, playerId, move(0, 1));
+      const firstError = cribbageEngine.validateMove(state, playerId, discard(0, 1));
       expect(firstError).toBeNull();
 
       // Apply the first discard
-      const afterDiscard = cribbageEngine.applyMove(state, playerId, move(0, 1));
+      const afterDiscard = cribbageEngine.applyMove(state, playerId, discard(0, 1));
 
       // Second discard should be rejected
-      const secondError = cribbageEngine.validateMove(afterDiscard, playerId, move(2, 3));
+      const secondError = cribbageEngine.validateMove(afterDiscard, playerId, discard(2, 3));
       expect(secondError).toBe('You have already discarded');
     });
 
@@ -168,7 +181,7 @@ describe('cribbageEngine', () => {
       const state = initGame();
       const playerId = state.players[1];
 
-      const error = cribbageEngine.validateMove(state, playerId, move(0, 10));
+      const error = cribbageEngine.validateMove(state, playerId, discard(0, 10));
       expect(error).toBe('Card index out of range');
     });
 
@@ -176,7 +189,7 @@ describe('cribbageEngine', () => {
       const state = initGame();
       const playerId = state.players[1];
 
-      const error = cribbageEngine.validateMove(state, playerId, move(-1, 2));
+      const error = cribbageEngine.validateMove(state, playerId, discard(-1, 2));
       expect(error).toBe('Card index out of range');
     });
 
@@ -184,7 +197,7 @@ describe('cribbageEngine', () => {
       const state = initGame();
       const playerId = state.players[1];
 
-      const error = cribbageEngine.validateMove(state, playerId, move(3, 3));
+      const error = cribbageEngine.validateMove(state, playerId, discard(3, 3));
       expect(error).toBe('Must discard two different cards');
     });
 
@@ -192,7 +205,7 @@ describe('cribbageEngine', () => {
       const state = initGame();
       const playerId = state.players[1];
 
-      const error = cribbageEngine.validateMove(state, playerId, move(0, 5));
+      const error = cribbageEngine.validateMove(state, playerId, discard(0, 5));
       expect(error).toBeNull();
     });
   });
@@ -200,6 +213,25 @@ describe('cribbageEngine', () => {
   // ========================================
   // applyMove - discarding to pegging transition
   // ========================================
+  describe('seeded deals', () => {
+    it('deals the same hands, dealer and starter from the same seed', () => {
+      const a = cribbageEngine.initGame([PLAYER_1, PLAYER_2], undefined, undefined, 7);
+      const b = cribbageEngine.initGame([PLAYER_1, PLAYER_2], undefined, undefined, 7);
+      expect(b).toEqual(a);
+
+      const cut = (state: CribbageState) => {
+        const afterP1 = cribbageEngine.applyMove(state, state.players[1], discard(0, 1));
+        return cribbageEngine.applyMove(afterP1, state.players[2], discard(0, 1)).starterCard;
+      };
+      expect(cut(b)).toEqual(cut(a));
+    });
+
+    it('keeps the generator out of the players\' view', () => {
+      const state = initGame();
+      expect(cribbageEngine.getState(state, state.players[1])).not.toHaveProperty('rng');
+    });
+  });
+
   describe('applyMove - discarding phase', () => {
     it('transitions to pegging after both players discard', () => {
       const state = initGame();
@@ -207,7 +239,7 @@ describe('cribbageEngine', () => {
       const p2 = state.players[2];
 
       // Player 1 discards cards at index 0 and 1
-      const afterP1 = cribbageEngine.applyMove(state, p1, move(0, 1));
+      const afterP1 = cribbageEngine.applyMove(state, p1, discard(0, 1));
       // Still in discarding since player 2 hasn't discarded
       expect(afterP1.phase).toBe('discarding');
       expect(afterP1.discarded[1]).toBe(true);
@@ -216,7 +248,7 @@ describe('cribbageEngine', () => {
       // Player 2 discards cards at index 0 and 1
       // Need to figure out which player number p2 is
       const p2Num = afterP1.players[1] === p2 ? 1 : 2;
-      const afterP2 = cribbageEngine.applyMove(afterP1, p2, move(0, 1));
+      const afterP2 = cribbageEngine.applyMove(afterP1, p2, discard(0, 1));
 
       // Now we should be in pegging phase
       expect(afterP2.phase).toBe('pegging');
@@ -233,8 +265,8 @@ describe('cribbageEngine', () => {
       const p1 = state.players[1];
       const p2 = state.players[2];
 
-      const afterP1 = cribbageEngine.applyMove(state, p1, move(0, 1));
-      const afterP2 = cribbageEngine.applyMove(afterP1, p2, move(0, 1));
+      const afterP1 = cribbageEngine.applyMove(state, p1, discard(0, 1));
+      const afterP2 = cribbageEngine.applyMove(afterP1, p2, discard(0, 1));
 
       // Pegging hands should be copies of the remaining hands
       expect(afterP2.peggingHands[1]).toHaveLength(4);
@@ -249,7 +281,7 @@ describe('cribbageEngine', () => {
     it('rejects a move when it is not your turn', () => {
       const state = createPeggingState();
       // It is player 1's turn; player 2 tries to play
-      const error = cribbageEngine.validateMove(state, PLAYER_2, move(0, 0));
+      const error = cribbageEngine.validateMove(state, PLAYER_2, play(0));
       expect(error).toBe('It is not your turn');
     });
 
@@ -263,14 +295,14 @@ describe('cribbageEngine', () => {
       });
 
       // 8 would bring total to 33, which exceeds 31
-      const error = cribbageEngine.validateMove(state, PLAYER_1, move(0, 0));
+      const error = cribbageEngine.validateMove(state, PLAYER_1, play(0));
       expect(error).toBe('Playing this card would exceed 31');
     });
 
     it('rejects a "Go" when the player can still play a card', () => {
       const state = createPeggingState({ peggingTotal: 10 });
       // Player 1 has cards (5,6,7,8) and total is 10, can definitely play
-      const error = cribbageEngine.validateMove(state, PLAYER_1, move(-1, 0));
+      const error = cribbageEngine.validateMove(state, PLAYER_1, go());
       expect(error).toBe('You can still play a card');
     });
 
@@ -284,13 +316,13 @@ describe('cribbageEngine', () => {
       });
 
       // Player 1 has a 5. Total is 28. 28 + 5 = 33 > 31, so Go is valid.
-      const error = cribbageEngine.validateMove(state, PLAYER_1, move(-1, 0));
+      const error = cribbageEngine.validateMove(state, PLAYER_1, go());
       expect(error).toBeNull();
     });
 
     it('rejects an invalid card index', () => {
       const state = createPeggingState();
-      const error = cribbageEngine.validateMove(state, PLAYER_1, move(99, 0));
+      const error = cribbageEngine.validateMove(state, PLAYER_1, play(99));
       expect(error).toBe('Invalid card index');
     });
   });
@@ -313,7 +345,7 @@ describe('cribbageEngine', () => {
         },
       });
 
-      const afterPlay = cribbageEngine.applyMove(state, PLAYER_1, move(0, 0));
+      const afterPlay = cribbageEngine.applyMove(state, PLAYER_1, play(0));
       // Total should be 15
       expect(afterPlay.peggingTotal).toBe(15);
       // Player 1 should have earned 2 points for 15
@@ -335,7 +367,7 @@ describe('cribbageEngine', () => {
         },
       });
 
-      const afterPlay = cribbageEngine.applyMove(state, PLAYER_1, move(0, 0));
+      const afterPlay = cribbageEngine.applyMove(state, PLAYER_1, play(0));
       // Player 1 should have earned 2 points for 31
       expect(afterPlay.scores[1]).toBe(2);
       expect(afterPlay.lastPeggingScore).toContain('31 for 2');
@@ -354,7 +386,7 @@ describe('cribbageEngine', () => {
         },
       });
 
-      const afterPlay = cribbageEngine.applyMove(state, PLAYER_1, move(0, 0));
+      const afterPlay = cribbageEngine.applyMove(state, PLAYER_1, play(0));
       // 5 + 5 = 10, and we get a pair for 2 points
       expect(afterPlay.peggingTotal).toBe(10);
       // 2 points for pair
@@ -366,7 +398,7 @@ describe('cribbageEngine', () => {
       const state = createPeggingState();
 
       const handBefore = state.peggingHands[1].length;
-      const afterPlay = cribbageEngine.applyMove(state, PLAYER_1, move(0, 0));
+      const afterPlay = cribbageEngine.applyMove(state, PLAYER_1, play(0));
 
       // One fewer card in pegging hand
       expect(afterPlay.peggingHands[1]).toHaveLength(handBefore - 1);
@@ -378,7 +410,7 @@ describe('cribbageEngine', () => {
     it('switches turn to the other player after playing a card', () => {
       const state = createPeggingState();
 
-      const afterPlay = cribbageEngine.applyMove(state, PLAYER_1, move(0, 0));
+      const afterPlay = cribbageEngine.applyMove(state, PLAYER_1, play(0));
       // Should switch to player 2 (if player 2 can play)
       expect(afterPlay.peggingTurn).toBe(2);
     });
@@ -398,7 +430,7 @@ describe('cribbageEngine', () => {
         },
       });
 
-      const afterGo = cribbageEngine.applyMove(state, PLAYER_1, move(-1, 0));
+      const afterGo = cribbageEngine.applyMove(state, PLAYER_1, go());
       expect(afterGo.peggingGo[1]).toBe(true);
       // Turn should switch to player 2 (who can still play a 2 at total 28)
       expect(afterGo.peggingTurn).toBe(2);
@@ -424,7 +456,7 @@ describe('cribbageEngine', () => {
       });
 
       // Player 1 plays their last card (Ace = 1)
-      const afterPlay = cribbageEngine.applyMove(state, PLAYER_1, move(0, 0));
+      const afterPlay = cribbageEngine.applyMove(state, PLAYER_1, play(0));
       // Both pegging hands should be empty; game should transition to counting
       expect(afterPlay.phase).toBe('counting');
       expect(afterPlay.countingPhaseStep).toBe(0);
@@ -440,10 +472,10 @@ describe('cribbageEngine', () => {
       });
 
       // Non-dealer (player 1, since dealer is 2) acknowledges
-      const error = cribbageEngine.validateMove(state, PLAYER_1, move(-1, 0));
+      const error = cribbageEngine.validateMove(state, PLAYER_1, acknowledge());
       expect(error).toBeNull();
 
-      const afterAck = cribbageEngine.applyMove(state, PLAYER_1, move(-1, 0));
+      const afterAck = cribbageEngine.applyMove(state, PLAYER_1, acknowledge());
       expect(afterAck.countingPhaseStep).toBe(1);
     });
 
@@ -455,7 +487,7 @@ describe('cribbageEngine', () => {
       });
 
       // Dealer (player 2) tries to acknowledge when it's non-dealer's turn
-      const error = cribbageEngine.validateMove(state, PLAYER_2, move(-1, 0));
+      const error = cribbageEngine.validateMove(state, PLAYER_2, acknowledge());
       expect(error).toBe('Waiting for the non-dealer to acknowledge');
     });
   });
@@ -506,7 +538,7 @@ describe('cribbageEngine', () => {
       const originalDiscarded1 = state.discarded[1];
       const originalHandLength = state.hands[1].length;
 
-      cribbageEngine.applyMove(state, p1, move(0, 1));
+      cribbageEngine.applyMove(state, p1, discard(0, 1));
 
       expect(state.phase).toBe(originalPhase);
       expect(state.discarded[1]).toBe(originalDiscarded1);
@@ -521,7 +553,7 @@ describe('cribbageEngine', () => {
       const originalPeggingHandLength = state.peggingHands[1].length;
       const originalScore = state.scores[1];
 
-      cribbageEngine.applyMove(state, PLAYER_1, move(0, 0));
+      cribbageEngine.applyMove(state, PLAYER_1, play(0));
 
       expect(state.peggingTotal).toBe(originalPeggingTotal);
       expect(state.peggingCards).toHaveLength(originalPeggingCardsLength);
@@ -541,7 +573,7 @@ describe('cribbageEngine', () => {
         winReason: 'Reached 121 points!',
       });
 
-      const error = cribbageEngine.validateMove(state, PLAYER_1, move(0, 0));
+      const error = cribbageEngine.validateMove(state, PLAYER_1, play(0));
       expect(error).toBe('Game is already over');
     });
 
@@ -556,15 +588,30 @@ describe('cribbageEngine', () => {
       expect(opponentHand.every((c: Card | null) => c === null)).toBe(true);
     });
 
-    it('getState returns limited info for spectators', () => {
+    it('getState hides both hands from spectators', () => {
       const state = initGame();
 
       const view = cribbageEngine.getState(state, 'spectator') as Record<string, unknown>;
       // Spectators should see phase, players, scores, winner info
       expect(view.phase).toBe('discarding');
       expect(view.scores).toBeDefined();
-      // But not hands
-      expect(view.myHand).toBeUndefined();
+      expect(view.spectator).toBe(true);
+      // But every card in both hands stays face down
+      const myHand = view.myHand as (Card | null)[];
+      const opponentHand = view.opponentHand as (Card | null)[];
+      expect(myHand).toHaveLength(6);
+      expect(myHand.every(c => c === null)).toBe(true);
+      expect(opponentHand.every(c => c === null)).toBe(true);
+    });
+
+    it('getState hides pegging hands from spectators', () => {
+      const state = createPeggingState();
+
+      const view = cribbageEngine.getState(state, 'spectator') as Record<string, unknown>;
+      const peggingHand = view.myPeggingHand as (Card | null)[];
+      expect(peggingHand).toHaveLength(state.peggingHands[1].length);
+      expect(peggingHand.every(c => c === null)).toBe(true);
+      expect(view.peggingCards).toEqual(state.peggingCards);
     });
   });
 });
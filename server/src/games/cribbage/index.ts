@@ -1,4 +1,8 @@
-import { GameEngine } from '../../types';
+import { BotDifficulty, GameEngine, GameOptions } from '../../types';
+import { isRecord, isInteger } from '../schema';
+import { assignSeats } from '../seats';
+import { RngState, createRng, shuffle } from '../random';
+import { pickRandom } from '../../bots';
 
 // ---- Card Types ----
 
@@ -35,12 +39,18 @@ export interface CribbageState {
   countingPhaseStep: number; // 0=non-dealer hand, 1=dealer hand, 2=crib
   countingResult: string | null; // description of counting score for UI
   roundNumber: number;
+  rng: RngState; // shuffles each deal and cuts the starter; kept out of the players' view
 }
 
-export interface CribbageMove {
-  from: { row: number; col: number };
-  to: { row: number; col: number };
-}
+/**
+ * Card indices refer to the mover's own hand: `hands` while discarding and
+ * `peggingHands` while pegging. `acknowledge` advances each counting step.
+ */
+export type CribbageMove =
+  | { type: 'discard'; cards: [number, number] }
+  | { type: 'play'; card: number }
+  | { type: 'go' }
+  | { type: 'acknowledge' };
 
 // ---- Constants ----
 
@@ -61,15 +71,6 @@ function createDeck(): Card[] {
   return deck;
 }
 
-function shuffleDeck(deck: Card[]): Card[] {
-  const shuffled = [...deck];
-  for (let i = shuffled.length - 1; i > 0; i--) {
-    const j = Math.floor(Math.random() * (i + 1));
-    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
-  }
-  return shuffled;
-}
-
 function cardValue(card: Card): number {
   switch (card.rank) {
     case 'A': return 1;
@@ -115,8 +116,28 @@ function nonDealer(state: CribbageState): 1 | 2 {
   return otherPlayer(state.dealer);
 }
 
+/**
+ * A player's hand as the rest of the table sees it: face down until that
+ * hand is counted.
+ */
+function visibleHand(state: CribbageState, playerNum: 1 | 2): (Card | null)[] {
+  if (state.phase === 'finished') {
+    return cloneCards(state.originalHands[playerNum]);
+  }
+  if (state.phase === 'counting') {
+    // Non-dealer's hand is revealed at step 0+ (counted first)
+    // Dealer's hand is revealed at step 1+ (counted second)
+    const shouldReveal =
+      (playerNum === nonDealer(state) && state.countingPhaseStep >= 0) ||
+      (playerNum === state.dealer && state.countingPhaseStep >= 1);
+    return shouldReveal ? cloneCards(state.originalHands[playerNum]) : state.hands[playerNum].map(() => null);
+  }
+  return state.hands[playerNum].map(() => null); // hidden
+}
+
 function dealCards(state: CribbageState): CribbageState {
-  const deck = shuffleDeck(createDeck());
+  const rng = createRng(state.rng);
+  const deck = shuffle(createDeck(), rng);
   const hand1: Card[] = [];
   const hand2: Card[] = [];
 
@@ -152,6 +173,7 @@ function dealCards(state: CribbageState): CribbageState {
     lastPeggingScore: null,
     countingPhaseStep: 0,
     countingResult: null,
+    rng: rng.state,
   };
 }
 
@@ -440,6 +462,7 @@ function cloneState(state: CribbageState): CribbageState {
     countingPhaseStep: state.countingPhaseStep,
     countingResult: state.countingResult,
     roundNumber: state.roundNumber,
+    rng: state.rng,
   };
 }
 
@@ -513,16 +536,92 @@ function handlePeggingReset(state: CribbageState): CribbageState {
   return newState;
 }
 
+// ---- Computer Opponent ----
+// The bot only looks at its own cards, the starter and the cards played.
+
+/** The better of two scored options, picking at random between equal ones. */
+function bestOf<T>(options: T[], score: (option: T) => number): T {
+  const scores = options.map(score);
+  const best = Math.max(...scores);
+  return pickRandom(options.filter((_, i) => scores[i] === best));
+}
+
+/** Rough worth of two cards thrown into a crib, before the other cards are known. */
+function cribValue(a: Card, b: Card): number {
+  let value = 0;
+  if (cardValue(a) + cardValue(b) === 15) value += 2;
+  if (a.rank === b.rank) value += 2;
+  if (Math.abs(rankOrder(a.rank) - rankOrder(b.rank)) === 1) value += 1;
+  if (a.rank === '5') value += 1;
+  if (b.rank === '5') value += 1;
+  return value;
+}
+
+function chooseDiscard(state: CribbageState, playerNum: 1 | 2, difficulty: BotDifficulty): [number, number] {
+  const hand = state.hands[playerNum];
+  const discards: [number, number][] = [];
+  for (let i = 0; i < hand.length; i++) {
+    for (let j = i + 1; j < hand.length; j++) discards.push([i, j]);
+  }
+  if (difficulty === 'easy') return pickRandom(discards);
+
+  // Average the kept hand over every starter that could be cut
+  const starters = createDeck().filter(card => !hand.some(c => cardEqual(c, card)));
+  const cribSign = state.dealer === playerNum ? 1 : -1;
+  return bestOf(discards, ([i, j]) => {
+    const keep = hand.filter((_, k) => k !== i && k !== j);
+    const handValue = starters.reduce((sum, starter) => sum + countHand(keep, starter, false).points, 0) / starters.length;
+    return difficulty === 'hard' ? handValue + cribSign * cribValue(hand[i], hand[j]) : handValue;
+  });
+}
+
+function choosePeggingMove(state: CribbageState, playerNum: 1 | 2, difficulty: BotDifficulty): CribbageMove {
+  const playable = state.peggingHands[playerNum]
+    .map((card, index) => ({ card, index }))
+    .filter(({ card }) => state.peggingTotal + cardValue(card) <= 31);
+  if (playable.length === 0) return { type: 'go' };
+  if (difficulty === 'easy') return { type: 'play', card: pickRandom(playable).index };
+
+  const playerId = state.players[playerNum];
+  const { index } = bestOf(playable, ({ card, index }) => {
+    const after = cribbageEngine.applyMove(state, playerId, { type: 'play', card: index });
+    let value = after.scores[playerNum] - state.scores[playerNum];
+    if (difficulty === 'hard') {
+      // Leaving 5 or 21 hands the opponent an easy 15 or 31 with any ten-card
+      const total = state.peggingTotal + cardValue(card);
+      if (total === 5 || total === 21) value -= 1;
+      // Keep a low card back for the end of the count
+      value += cardValue(card) / 100;
+    }
+    return value;
+  });
+  return { type: 'play', card: index };
+}
+
+function chooseCribbageMove(state: CribbageState, playerId: string, difficulty: BotDifficulty): CribbageMove {
+  const playerNum = getPlayerNum(state, playerId)!;
+  switch (state.phase) {
+    case 'discarding':
+      return { type: 'discard', cards: chooseDiscard(state, playerNum, difficulty) };
+    case 'pegging':
+      return choosePeggingMove(state, playerNum, difficulty);
+    default:
+      return { type: 'acknowledge' };
+  }
+}
+
 // ---- Game Engine ----
 
 export const cribbageEngine: GameEngine<CribbageState, CribbageMove> = {
-  initGame(playerIds: [string, string]): CribbageState {
-    // Randomly choose first dealer
-    const dealerIdx = Math.random() < 0.5 ? 0 : 1;
+  initGame(playerIds: string[], _options?: GameOptions, firstPlayer?: string, seed?: number): CribbageState {
+    // Randomly choose first dealer. A chosen first player is the non-dealer,
+    // who cuts first and leads the play
+    const rng = createRng(seed);
+    const dealerIdx = firstPlayer !== undefined ? 1 : rng.int(2);
 
     const initialState: CribbageState = {
       phase: 'dealing',
-      players: { 1: playerIds[0], 2: playerIds[1] },
+      players: assignSeats(playerIds, [1, 2] as const, firstPlayer, rng),
       dealer: (dealerIdx + 1) as 1 | 2,
       hands: { 1: [], 2: [] },
       originalHands: { 1: [], 2: [] },
@@ -543,12 +642,32 @@ export const cribbageEngine: GameEngine<CribbageState, CribbageMove> = {
       countingPhaseStep: 0,
       countingResult: null,
       roundNumber: 1,
+      rng: rng.state,
     };
 
     // Immediately deal
     return dealCards(initialState);
   },
 
+  parseMove(data: unknown): CribbageMove | null {
+    if (!isRecord(data)) return null;
+    switch (data.type) {
+      case 'discard': {
+        const cards = data.cards;
+        if (!Array.isArray(cards) || cards.length !== 2 || !cards.every(isInteger)) return null;
+        return { type: 'discard', cards: [cards[0], cards[1]] };
+      }
+      case 'play':
+        return isInteger(data.card) ? { type: 'play', card: data.card } : null;
+      case 'go':
+        return { type: 'go' };
+      case 'acknowledge':
+        return { type: 'acknowledge' };
+      default:
+        return null;
+    }
+  },
+
   validateMove(state: CribbageState, playerId: string, move: CribbageMove): string | null {
     if (state.winner) return 'Game is already over';
 
@@ -556,14 +675,10 @@ export const cribbageEngine: GameEngine<CribbageState, CribbageMove> = {
     if (playerNum === null) return 'You are not a player in this game';
 
     if (state.phase === 'discarding') {
+      if (move.type !== 'discard') return 'You must discard two cards to the crib';
       if (state.discarded[playerNum]) return 'You have already discarded';
 
-      const idx1 = move.from.row;
-      const idx2 = move.from.col;
-
-      if (!Number.isInteger(idx1) || !Number.isInteger(idx2)) {
-        return 'Invalid card indices';
-      }
+      const [idx1, idx2] = move.cards;
 
       const hand = state.hands[playerNum];
       if (idx1 < 0 || idx1 >= hand.length || idx2 < 0 || idx2 >= hand.length) {
@@ -578,17 +693,18 @@ export const cribbageEngine: GameEngine<CribbageState, CribbageMove> = {
     if (state.phase === 'pegging') {
       if (state.peggingTurn !== playerNum) return 'It is not your turn';
 
-      const cardIdx = move.from.row;
-
       // Go
-      if (cardIdx === -1) {
+      if (move.type === 'go') {
         if (canPlayAny(state.peggingHands[playerNum], state.peggingTotal)) {
           return 'You can still play a card';
         }
         return null;
       }
 
-      if (!Number.isInteger(cardIdx) || cardIdx < 0 || cardIdx >= state.peggingHands[playerNum].length) {
+      if (move.type !== 'play') return 'Play a card or say Go';
+
+      const cardIdx = move.card;
+      if (cardIdx < 0 || cardIdx >= state.peggingHands[playerNum].length) {
         return 'Invalid card index';
       }
 
@@ -601,6 +717,8 @@ export const cribbageEngine: GameEngine<CribbageState, CribbageMove> = {
     }
 
     if (state.phase === 'counting') {
+      if (move.type !== 'acknowledge') return 'Acknowledge the count to continue';
+
       // Only the player whose hand is being counted can acknowledge
       // Step 0: non-dealer, Step 1: dealer, Step 2: dealer (crib)
       const nd = nonDealer(state);
@@ -626,9 +744,8 @@ export const cribbageEngine: GameEngine<CribbageState, CribbageMove> = {
     let newState = cloneState(state);
     const playerNum = getPlayerNum(newState, playerId)!;
 
-    if (newState.phase === 'discarding') {
-      const idx1 = move.from.row;
-      const idx2 = move.from.col;
+    if (newState.phase === 'discarding' && move.type === 'discard') {
+      const [idx1, idx2] = move.cards;
 
       const hand = newState.hands[playerNum];
       const card1 = hand[idx1];
@@ -659,7 +776,9 @@ export const cribbageEngine: GameEngine<CribbageState, CribbageMove> = {
 
         // Cut the starter card
         const deckCopy = cloneCards(newState.deck);
-        const cutIndex = Math.floor(Math.random() * deckCopy.length);
+        const rng = createRng(newState.rng);
+        const cutIndex = rng.int(deckCopy.length);
+        newState.rng = rng.state;
         newState.starterCard = deckCopy[cutIndex];
         deckCopy.splice(cutIndex, 1);
         newState.deck = deckCopy;
@@ -683,11 +802,9 @@ export const cribbageEngine: GameEngine<CribbageState, CribbageMove> = {
       return newState;
     }
 
-    if (newState.phase === 'pegging') {
-      const cardIdx = move.from.row;
-
+    if (newState.phase === 'pegging' && move.type !== 'acknowledge' && move.type !== 'discard') {
       // "Go"
-      if (cardIdx === -1) {
+      if (move.type === 'go') {
         newState.peggingGo[playerNum] = true;
 
         // Give the other player a turn, or handle both-go
@@ -712,6 +829,7 @@ export const cribbageEngine: GameEngine<CribbageState, CribbageMove> = {
       }
 
       // Play a card
+      const cardIdx = move.card;
       const card = newState.peggingHands[playerNum][cardIdx];
       newState.peggingHands[playerNum] = newState.peggingHands[playerNum].filter(
         (_, i) => i !== cardIdx
@@ -846,38 +964,15 @@ export const cribbageEngine: GameEngine<CribbageState, CribbageMove> = {
   },
 
   getState(state: CribbageState, playerId: string): unknown {
-    const playerNum = getPlayerNum(state, playerId);
-
-    if (playerNum === null) {
-      // Spectator view - hide everything
-      return {
-        phase: state.phase,
-        players: state.players,
-        scores: state.scores,
-        winner: state.winner,
-        winReason: state.winReason,
-      };
-    }
-
+    const seatNum = getPlayerNum(state, playerId);
+    // Spectators sit in player 1's seat with that hand face down as well
+    const spectator = seatNum === null;
+    const playerNum = seatNum ?? 1;
     const otherP = otherPlayer(playerNum);
 
     // Build opponent hand - show cards face down during discarding/pegging
     // Only reveal opponent's hand after their counting step completes
-    let opponentHand: (Card | null)[];
-    if (state.phase === 'finished') {
-      opponentHand = cloneCards(state.originalHands[otherP]);
-    } else if (state.phase === 'counting') {
-      const nd = nonDealer(state);
-      const d = state.dealer;
-      // Non-dealer's hand is revealed at step 0+ (counted first)
-      // Dealer's hand is revealed at step 1+ (counted second)
-      const shouldReveal =
-        (otherP === nd && state.countingPhaseStep >= 0) ||
-        (otherP === d && state.countingPhaseStep >= 1);
-      opponentHand = shouldReveal ? cloneCards(state.originalHands[otherP]) : state.hands[otherP].map(() => null);
-    } else {
-      opponentHand = state.hands[otherP].map(() => null); // hidden
-    }
+    const opponentHand = visibleHand(state, otherP);
 
     // Crib - only show during counting step 2
     let cribVisible: Card[] | null = null;
@@ -888,9 +983,11 @@ export const cribbageEngine: GameEngine<CribbageState, CribbageMove> = {
     }
 
     // My pegging hand during pegging phase
-    let myPeggingHand: Card[] | undefined;
+    let myPeggingHand: (Card | null)[] | undefined;
     if (state.phase === 'pegging') {
-      myPeggingHand = cloneCards(state.peggingHands[playerNum]);
+      myPeggingHand = spectator
+        ? state.peggingHands[playerNum].map(() => null)
+        : cloneCards(state.peggingHands[playerNum]);
     }
 
     // All original hands visible during counting
@@ -907,7 +1004,8 @@ export const cribbageEngine: GameEngine<CribbageState, CribbageMove> = {
       players: state.players,
       dealer: state.dealer,
       myPlayerNum: playerNum,
-      myHand: cloneCards(state.hands[playerNum]),
+      spectator,
+      myHand: spectator ? visibleHand(state, playerNum) : cloneCards(state.hands[playerNum]),
       myPeggingHand,
       opponentHand,
       opponentCardCount: state.phase === 'pegging'
@@ -944,4 +1042,22 @@ export const cribbageEngine: GameEngine<CribbageState, CribbageMove> = {
     }
     return null;
   },
+
+  getActivePlayers(state: CribbageState): string[] {
+    switch (state.phase) {
+      case 'discarding':
+        // Both players discard at once; each clock runs until that player has discarded
+        return ([1, 2] as const).filter(n => !state.discarded[n]).map(n => state.players[n]);
+      case 'pegging':
+        return [state.players[state.peggingTurn]];
+      case 'counting':
+        return [state.players[state.countingPhaseStep === 0 ? nonDealer(state) : state.dealer]];
+      default:
+        return [];
+    }
+  },
+
+  chooseMove(state: CribbageState, playerId: string, difficulty: BotDifficulty): CribbageMove {
+    return chooseCribbageMove(state, playerId, difficulty);
+  },
 };
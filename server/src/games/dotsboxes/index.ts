@@ -1,10 +1,15 @@
-import { GameEngine, Position } from '../../types';
+import { BotDifficulty, GameEngine, GameOptions, Position } from '../../types';
+import { isRecord, isPosition, toPosition } from '../schema';
+import { assignSeats, nextSeat } from '../seats';
+import { createRng } from '../random';
+import { pickRandom, shouldBlunder } from '../../bots';
 
 // ---- Dots and Boxes Types ----
 
 export type DotsBoxesColor = 'red' | 'blue';
 
 export interface DotsBoxesMove {
+  type: 'line';
   from: Position; // dot 1 (row, col in dot grid)
   to: Position;   // dot 2 (adjacent dot)
 }
@@ -154,12 +159,71 @@ function getTotalLineCount(): number {
   return GRID_SIZE * (GRID_SIZE - 1) * 2;
 }
 
+// ---- Computer Opponent ----
+// Classic greedy play: take any box on offer, otherwise avoid drawing a
+// box's third side. When every line gives something away, the hard bot
+// concedes the shortest chain.
+
+function listAllLines(): DotsBoxesMove[] {
+  const lines: DotsBoxesMove[] = [];
+  for (let row = 0; row < GRID_SIZE; row++) {
+    for (let col = 0; col < GRID_SIZE; col++) {
+      if (col + 1 < GRID_SIZE) lines.push({ type: 'line', from: { row, col }, to: { row, col: col + 1 } });
+      if (row + 1 < GRID_SIZE) lines.push({ type: 'line', from: { row, col }, to: { row: row + 1, col } });
+    }
+  }
+  return lines;
+}
+
+const ALL_LINES = listAllLines();
+
+function countSides(lineSet: Set<string>, box: Position): number {
+  return getBoxSides(box.row, box.col).filter(side => lineSet.has(side)).length;
+}
+
+/** Whether drawing this line completes a box. */
+function completesBox(lineSet: Set<string>, line: DotsBoxesMove): boolean {
+  return getAdjacentBoxes(line.from, line.to).some(box => countSides(lineSet, box) === 3);
+}
+
+/** How many boxes the opponent can take in a row after this line is drawn. */
+function boxesConceded(lineSet: Set<string>, line: DotsBoxesMove): number {
+  const drawn = new Set(lineSet);
+  drawn.add(normalizeLineKey(line.from, line.to));
+  let conceded = 0;
+  for (;;) {
+    const next = ALL_LINES.find(l => !drawn.has(normalizeLineKey(l.from, l.to)) && completesBox(drawn, l));
+    if (!next) return conceded;
+    conceded += getAdjacentBoxes(next.from, next.to).filter(box => countSides(drawn, box) === 3).length;
+    drawn.add(normalizeLineKey(next.from, next.to));
+  }
+}
+
+function chooseLine(state: DotsBoxesState, difficulty: BotDifficulty): DotsBoxesMove {
+  const lineSet = new Set(state.lines);
+  const open = ALL_LINES.filter(line => !lineSet.has(normalizeLineKey(line.from, line.to)));
+  if (shouldBlunder(difficulty)) return pickRandom(open);
+
+  const completing = open.filter(line => completesBox(lineSet, line));
+  if (completing.length > 0) return pickRandom(completing);
+
+  const safe = open.filter(line => getAdjacentBoxes(line.from, line.to).every(box => countSides(lineSet, box) < 2));
+  if (safe.length > 0) return pickRandom(safe);
+
+  if (difficulty !== 'hard') return pickRandom(open);
+  const conceded = open.map(line => boxesConceded(lineSet, line));
+  const fewest = Math.min(...conceded);
+  return pickRandom(open.filter((_, i) => conceded[i] === fewest));
+}
+
 // ---- Game Engine ----
 
+const SEATS: readonly DotsBoxesColor[] = ['red', 'blue']; // in turn order
+
 export const dotsboxesEngine: GameEngine<DotsBoxesState, DotsBoxesMove> = {
-  initGame(playerIds: [string, string]): DotsBoxesState {
+  initGame(playerIds: string[], _options?: GameOptions, firstPlayer?: string, seed?: number): DotsBoxesState {
     // Randomly assign colors
-    const shuffled = Math.random() < 0.5 ? playerIds : [playerIds[1], playerIds[0]];
+    const players = assignSeats(playerIds, SEATS, firstPlayer, createRng(seed));
 
     return {
       gridSize: GRID_SIZE,
@@ -167,10 +231,7 @@ export const dotsboxesEngine: GameEngine<DotsBoxesState, DotsBoxesMove> = {
       lineOwners: {},
       boxes: createEmptyBoxes(),
       currentTurn: 'red', // red always goes first
-      players: {
-        red: shuffled[0],
-        blue: shuffled[1],
-      },
+      players,
       scores: { red: 0, blue: 0 },
       winner: null,
       winReason: null,
@@ -178,6 +239,12 @@ export const dotsboxesEngine: GameEngine<DotsBoxesState, DotsBoxesMove> = {
     };
   },
 
+  parseMove(data: unknown): DotsBoxesMove | null {
+    if (!isRecord(data) || data.type !== 'line') return null;
+    if (!isPosition(data.from) || !isPosition(data.to)) return null;
+    return { type: 'line', from: toPosition(data.from), to: toPosition(data.to) };
+  },
+
   validateMove(state: DotsBoxesState, playerId: string, move: DotsBoxesMove): string | null {
     if (state.winner) return 'Game is already over';
 
@@ -240,7 +307,7 @@ export const dotsboxesEngine: GameEngine<DotsBoxesState, DotsBoxesMove> = {
     if (boxesCompleted > 0) {
       nextTurn = color; // bonus turn for completing a box
     } else {
-      nextTurn = color === 'red' ? 'blue' : 'red';
+      nextTurn = nextSeat(SEATS, color);
     }
 
     return {
@@ -294,4 +361,12 @@ export const dotsboxesEngine: GameEngine<DotsBoxesState, DotsBoxesMove> = {
       };
     }
   },
+
+  getActivePlayers(state: DotsBoxesState): string[] {
+    return state.winner ? [] : [state.players[state.currentTurn]];
+  },
+
+  chooseMove(state: DotsBoxesState, _playerId: string, difficulty: BotDifficulty): DotsBoxesMove {
+    return chooseLine(state, difficulty);
+  },
 };
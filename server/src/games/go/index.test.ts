@@ -0,0 +1,105 @@
+import { describe, it, expect } from 'vitest';
+import { goEngine, GoMove, GoState, fromSgf, parseSgf, toSgf } from './index';
+
+// ---- Helpers ----
+
+const PLAYERS = { black: 'player-black', white: 'player-white' };
+const NAMES = { 'player-black': 'Alice', 'player-white': 'Bob' };
+
+function initWithColors(): GoState {
+  return { ...goEngine.initGame([PLAYERS.black, PLAYERS.white]), players: PLAYERS };
+}
+
+function place(row: number, col: number): GoMove {
+  return { type: 'place', position: { row, col } };
+}
+
+/** Play moves in turn order, returning every state along the way (start first). */
+function playMoves(start: GoState, moves: GoMove[]): GoState[] {
+  const states = [start];
+  for (const move of moves) {
+    const current = states[states.length - 1];
+    const playerId = current.players[current.currentTurn];
+    const error = goEngine.validateMove(current, playerId, move);
+    if (error) throw new Error(`Move validation failed: ${error}`);
+    states.push(goEngine.applyMove(current, playerId, move));
+  }
+  return states;
+}
+
+// ---- Tests ----
+
+describe('SGF', () => {
+  it('exports size, komi, names, passes and the counted result', () => {
+    const moves = [place(2, 2), place(6, 6), { type: 'pass' } as GoMove, { type: 'pass' } as GoMove];
+    const states = playMoves(initWithColors(), moves);
+    const sgf = toSgf({ states, moves, playerNames: NAMES, finished: true });
+
+    expect(sgf).toMatch(/^\(;GM\[1\]FF\[4\]/);
+    expect(sgf).toContain('SZ[9]KM[6.5]PB[Alice]PW[Bob]');
+    expect(sgf).toContain('RE[W+6.5]');
+    expect(sgf).toContain(';B[cc];W[gg];B[];W[])');
+  });
+
+  it('records resignations and leaves the result out of a game in progress', () => {
+    const moves = [place(4, 4)];
+    const states = playMoves(initWithColors(), moves);
+    expect(toSgf({ states, moves, playerNames: NAMES, finished: false })).not.toContain('RE[');
+
+    const resigned = { ...states[1], winner: PLAYERS.black, winReason: 'Bob resigned' };
+    expect(toSgf({ states: [states[0], resigned], moves, playerNames: NAMES, finished: true })).toContain('RE[B+R]');
+  });
+
+  it('round-trips a game through fromSgf', () => {
+    const moves = [place(2, 2), place(2, 3), place(3, 3), { type: 'pass' } as GoMove, place(1, 3)];
+    const states = playMoves(initWithColors(), moves);
+    const sgf = toSgf({ states, moves, playerNames: NAMES, finished: false });
+
+    const imported = fromSgf(sgf, PLAYERS);
+    const final = states[states.length - 1];
+    expect(imported.board).toEqual(final.board);
+    expect(imported.captures).toEqual(final.captures);
+    expect(imported.currentTurn).toBe(final.currentTurn);
+    expect(imported.importedMoves).toEqual(moves);
+
+    // Exporting the continued game keeps the imported moves in front
+    const next = playMoves(imported, [place(8, 8)]);
+    const again = toSgf({ states: next, moves: [place(8, 8)], playerNames: NAMES, finished: false });
+    expect(again).toContain(';B[cc];W[dc];B[dd];W[];B[db];W[ii])');
+  });
+
+  it('sets up handicap stones, komi and the side to move', () => {
+    const state = fromSgf('(;GM[1]SZ[9]KM[0.5]HA[2]AB[cc][gg]PL[W];W[ee])', PLAYERS);
+    expect(state.board[2][2]).toBe('black');
+    expect(state.board[6][6]).toBe('black');
+    expect(state.board[4][4]).toBe('white');
+    expect(state.currentTurn).toBe('black');
+    expect(state.komi).toBe(0.5);
+
+    const sgf = toSgf({ states: [state], moves: [], playerNames: NAMES, finished: false });
+    expect(sgf).toContain('KM[0.5]');
+    expect(sgf).toContain('AB[cc][gg]PL[W]');
+    expect(sgf).toContain(';W[ee])');
+  });
+
+  it('follows the main line and skips comments and variations', () => {
+    const nodes = parseSgf('(;SZ[9]C[a comment with \\] inside];B[aa](;W[bb];B[cc])(;W[ii]))');
+    expect(nodes.map(node => node.B?.[0] ?? node.W?.[0] ?? null)).toEqual([null, 'aa', 'bb', 'cc']);
+    expect(nodes[0].C).toEqual(['a comment with ] inside']);
+  });
+
+  it('rejects files it cannot play', () => {
+    expect(() => fromSgf('not sgf', PLAYERS)).toThrow('Invalid SGF');
+    expect(() => fromSgf('(;GM[1]SZ[19];B[pd])', PLAYERS)).toThrow('only 9x9 games');
+    expect(() => fromSgf('(;SZ[9];B[cc];B[dd])', PLAYERS)).toThrow('black plays out of turn at move 2');
+    expect(() => fromSgf('(;SZ[9];B[cc];W[cc])', PLAYERS)).toThrow('move 2: That intersection is already occupied');
+    expect(() => fromSgf('(;SZ[9];B[];W[];B[cc])', PLAYERS)).toThrow('already over');
+  });
+
+  it('validates the import option', () => {
+    expect(goEngine.validateOptions!({ sgf: '' })).toBeNull();
+    expect(goEngine.validateOptions!({ sgf: '(;SZ[9];B[ee])' })).toBeNull();
+    expect(goEngine.validateOptions!({ sgf: '(;SZ[9];B[];W[])' })).toBe('That game is already over');
+    expect(goEngine.validateOptions!({ sgf: '(;SZ[13])' })).toMatch(/only 9x9/);
+  });
+});
@@ -1,13 +1,16 @@
-import { GameEngine, Position } from '../../types';
+import { BotDifficulty, GameEngine, GameExport, GameOptions, GameRecord, Position } from '../../types';
+import { isRecord, isPosition, toPosition } from '../schema';
+import { assignSeats } from '../seats';
+import { createRng } from '../random';
+import { PlayoutGame, mcts } from '../../bots';
 
 // ---- Go Types ----
 
 export type GoColor = 'black' | 'white';
 
-export interface GoMove {
-  from: Position; // unused, will be {row:0, col:0}
-  to: Position;   // the intersection to place a stone, or {row:-1, col:-1} for pass
-}
+export type GoMove =
+  | { type: 'place'; position: Position } // the intersection to place a stone
+  | { type: 'pass' };
 
 export interface GoState {
   board: (GoColor | null)[][]; // 9x9 board
@@ -21,6 +24,16 @@ export interface GoState {
   score: { black: number; white: number } | null;
   lastMove: Position | null; // for highlighting on the client
   moveCount: number;
+  komi: number;
+  setup: GoSetup | null; // null = empty board with black to play
+  importedMoves: GoMove[]; // moves replayed from an imported SGF before this game began
+}
+
+// Stones on the board before the first move, e.g. handicap stones or an imported position
+export interface GoSetup {
+  black: Position[];
+  white: Position[];
+  firstTurn: GoColor;
 }
 
 // ---- Constants ----
@@ -59,10 +72,6 @@ function getPlayerColor(state: GoState, playerId: string): GoColor | null {
   return null;
 }
 
-function isPass(move: GoMove): boolean {
-  return move.to.row === -1 && move.to.col === -1;
-}
-
 /**
  * Boards are equal if every cell matches.
  */
@@ -201,7 +210,7 @@ function violatesKo(
  * Calculate territory using area scoring (Chinese rules).
  * Count stones on board + empty intersections surrounded entirely by one color.
  */
-function calculateScore(board: (GoColor | null)[][]): { black: number; white: number } {
+function calculateScore(board: (GoColor | null)[][], komi: number): { black: number; white: number } {
   let blackStones = 0;
   let whiteStones = 0;
 
@@ -270,24 +279,85 @@ function calculateScore(board: (GoColor | null)[][]): { black: number; white: nu
 
   return {
     black: blackStones + blackTerritory,
-    white: whiteStones + whiteTerritory + KOMI,
+    white: whiteStones + whiteTerritory + komi,
+  };
+}
+
+// ---- Computer Opponent ----
+
+const BOT_ITERATIONS: Record<BotDifficulty, number> = { easy: 40, medium: 120, hard: 300 };
+const PLAYOUT_PLIES = 60; // then the position is scored as it stands
+
+/** An empty point surrounded by one colour: filling it only takes away that colour's liberty. */
+function isOwnEye(board: (GoColor | null)[][], row: number, col: number, color: GoColor): boolean {
+  return DIRECTIONS.every(([dr, dc]) => !isInBounds(row + dr, col + dc) || board[row + dr][col + dc] === color);
+}
+
+function isSensiblePlacement(state: GoState, row: number, col: number): boolean {
+  if (state.board[row][col] !== null || isOwnEye(state.board, row, col, state.currentTurn)) return false;
+  const move: GoMove = { type: 'place', position: { row, col } };
+  return goEngine.validateMove(state, state.players[state.currentTurn], move) === null;
+}
+
+function botPlayout(botColor: GoColor): PlayoutGame<GoState, GoMove> {
+  const isOver = (state: GoState) => state.consecutivePasses >= 2;
+
+  return {
+    moves: state => {
+      if (isOver(state)) return [];
+      const moves: GoMove[] = [];
+      for (let row = 0; row < BOARD_SIZE; row++) {
+        for (let col = 0; col < BOARD_SIZE; col++) {
+          if (isSensiblePlacement(state, row, col)) moves.push({ type: 'place', position: { row, col } });
+        }
+      }
+      // Passing is worth considering once the opponent has passed, or when nothing else is left
+      if (moves.length === 0 || state.consecutivePasses > 0) moves.push({ type: 'pass' });
+      return moves;
+    },
+    play: (state, move) => goEngine.applyMove(state, state.players[state.currentTurn], move),
+    botToMove: state => state.currentTurn === botColor,
+    outcome: state => {
+      const score = state.score ?? calculateScore(state.board, state.komi);
+      const margin = botColor === 'black' ? score.black - score.white : score.white - score.black;
+      if (isOver(state)) return margin > 0 ? 1 : margin < 0 ? 0 : 0.5;
+      return 1 / (1 + Math.exp(-margin / 4));
+    },
+    playoutMove: state => {
+      if (isOver(state)) return null;
+      const empty: Position[] = [];
+      for (let row = 0; row < BOARD_SIZE; row++) {
+        for (let col = 0; col < BOARD_SIZE; col++) {
+          if (state.board[row][col] === null) empty.push({ row, col });
+        }
+      }
+      // Try the empty points in random order; pass when none is worth playing
+      for (let i = empty.length - 1; i >= 0; i--) {
+        const j = Math.floor(Math.random() * (i + 1));
+        [empty[i], empty[j]] = [empty[j], empty[i]];
+        if (isSensiblePlacement(state, empty[i].row, empty[i].col)) return { type: 'place', position: empty[i] };
+      }
+      return { type: 'pass' };
+    },
   };
 }
 
 // ---- Game Engine ----
 
+const SEATS: readonly GoColor[] = ['black', 'white']; // in turn order
+
 export const goEngine: GameEngine<GoState, GoMove> = {
-  initGame(playerIds: [string, string]): GoState {
+  initGame(playerIds: string[], options?: GameOptions, firstPlayer?: string, seed?: number): GoState {
     // Randomly assign colors
-    const shuffled = Math.random() < 0.5 ? playerIds : [playerIds[1], playerIds[0]];
+    const players = assignSeats(playerIds, SEATS, firstPlayer, createRng(seed));
+
+    const sgf = typeof options?.sgf === 'string' ? options.sgf.trim() : '';
+    if (sgf) return fromSgf(sgf, players);
 
     return {
       board: createEmptyBoard(),
       currentTurn: 'black', // black always goes first
-      players: {
-        black: shuffled[0],
-        white: shuffled[1],
-      },
+      players,
       captures: { black: 0, white: 0 },
       previousBoard: null,
       consecutivePasses: 0,
@@ -296,9 +366,21 @@ export const goEngine: GameEngine<GoState, GoMove> = {
       score: null,
       lastMove: null,
       moveCount: 0,
+      komi: KOMI,
+      setup: null,
+      importedMoves: [],
     };
   },
 
+  parseMove(data: unknown): GoMove | null {
+    if (!isRecord(data)) return null;
+    if (data.type === 'pass') return { type: 'pass' };
+    if (data.type === 'place' && isPosition(data.position)) {
+      return { type: 'place', position: toPosition(data.position) };
+    }
+    return null;
+  },
+
   validateMove(state: GoState, playerId: string, move: GoMove): string | null {
     if (state.winner) return 'Game is already over';
 
@@ -307,9 +389,9 @@ export const goEngine: GameEngine<GoState, GoMove> = {
     if (color !== state.currentTurn) return 'It is not your turn';
 
     // Pass is always valid
-    if (isPass(move)) return null;
+    if (move.type === 'pass') return null;
 
-    const { row, col } = move.to;
+    const { row, col } = move.position;
 
     // Validate position bounds
     if (!Number.isInteger(row) || !Number.isInteger(col) || !isInBounds(row, col)) {
@@ -339,7 +421,7 @@ export const goEngine: GameEngine<GoState, GoMove> = {
     const color = getPlayerColor(state, playerId)!;
 
     // Handle pass
-    if (isPass(move)) {
+    if (move.type === 'pass') {
       const newConsecutivePasses = state.consecutivePasses + 1;
 
       const newState: GoState = {
@@ -353,19 +435,19 @@ export const goEngine: GameEngine<GoState, GoMove> = {
 
       // If both players passed, calculate the score and end the game
       if (newConsecutivePasses >= 2) {
-        const score = calculateScore(state.board);
+        const score = calculateScore(state.board, state.komi);
         newState.score = score;
 
         if (score.black > score.white) {
           newState.winner = state.players.black;
-          newState.winReason = `Black wins ${score.black} to ${score.white} (area scoring with ${KOMI} komi)`;
+          newState.winReason = `Black wins ${score.black} to ${score.white} (area scoring with ${state.komi} komi)`;
         } else if (score.white > score.black) {
           newState.winner = state.players.white;
-          newState.winReason = `White wins ${score.white} to ${score.black} (area scoring with ${KOMI} komi)`;
+          newState.winReason = `White wins ${score.white} to ${score.black} (area scoring with ${state.komi} komi)`;
         } else {
-          // Exact tie (extremely rare with 0.5 komi, but handle it)
+          // Exact tie (only possible with a whole-number komi)
           newState.winner = null;
-          newState.winReason = `Draw! Both players scored ${score.black} (area scoring with ${KOMI} komi)`;
+          newState.winReason = `Draw! Both players scored ${score.black} (area scoring with ${state.komi} komi)`;
         }
       }
 
@@ -373,7 +455,7 @@ export const goEngine: GameEngine<GoState, GoMove> = {
     }
 
     // Place a stone
-    const { row, col } = move.to;
+    const { row, col } = move.position;
     const { newBoard, captured } = placeStoneAndCapture(state.board, row, col, color);
 
     return {
@@ -404,6 +486,7 @@ export const goEngine: GameEngine<GoState, GoMove> = {
       score: state.score,
       lastMove: state.lastMove,
       moveCount: state.moveCount,
+      komi: state.komi,
     };
   },
 
@@ -427,4 +510,230 @@ export const goEngine: GameEngine<GoState, GoMove> = {
     // Game is still in progress
     return null;
   },
+
+  getActivePlayers(state: GoState): string[] {
+    return state.winner ? [] : [state.players[state.currentTurn]];
+  },
+
+  chooseMove(state: GoState, playerId: string, difficulty: BotDifficulty): GoMove {
+    const color = getPlayerColor(state, playerId)!;
+    return mcts(botPlayout(color), state, BOT_ITERATIONS[difficulty], PLAYOUT_PLIES);
+  },
+
+  validateOptions(options: GameOptions): string | null {
+    try {
+      const state = goEngine.initGame(['black', 'white'], options);
+      return goEngine.checkWinner(state) ? 'That game is already over' : null;
+    } catch (err) {
+      return (err as Error).message;
+    }
+  },
+
+  exportGame(record: GameRecord<GoState, GoMove>): GameExport {
+    return { extension: 'sgf', content: toSgf(record) };
+  },
 };
+
+// ---- SGF ----
+// Smart Game Format: a tree of nodes, each a list of properties like B[cd] or
+// KM[6.5]. Points are two letters, column then row, from the top-left corner;
+// an empty value is a pass. Only the main line of a file is read.
+
+type SgfNode = Record<string, string[]>;
+
+const SGF_LETTERS = 'abcdefghijklmnopqrstuvwxyz';
+const SGF_MOVES_PER_LINE = 10;
+
+function toSgfPoint(pos: Position): string {
+  return SGF_LETTERS[pos.col] + SGF_LETTERS[pos.row];
+}
+
+// undefined = pass ("tt" is the old way of writing one on small boards)
+function fromSgfPoint(value: string): Position | undefined {
+  if (value === '' || value === 'tt') return undefined;
+  const col = SGF_LETTERS.indexOf(value[0]);
+  const row = SGF_LETTERS.indexOf(value[1]);
+  if (value.length !== 2 || !isInBounds(row, col)) throw new Error(`Invalid SGF: bad point [${value}]`);
+  return { row, col };
+}
+
+function escapeSgf(value: string): string {
+  return value.replace(/[\\\]]/g, '\\$&');
+}
+
+/** The nodes along the main line of the first game in an SGF file. */
+export function parseSgf(sgf: string): SgfNode[] {
+  let i = 0;
+  const skipSpace = () => {
+    while (i < sgf.length && /\s/.test(sgf[i])) i++;
+  };
+
+  const parseNode = (): SgfNode => {
+    const node: SgfNode = {};
+    skipSpace();
+    while (/[A-Za-z]/.test(sgf[i] ?? '')) {
+      let ident = '';
+      while (/[A-Za-z]/.test(sgf[i] ?? '')) ident += sgf[i++];
+      const values: string[] = [];
+      skipSpace();
+      while (sgf[i] === '[') {
+        i++;
+        let value = '';
+        while (i < sgf.length && sgf[i] !== ']') {
+          if (sgf[i] === '\\') i++;
+          value += sgf[i++] ?? '';
+        }
+        if (sgf[i] !== ']') throw new Error('Invalid SGF: unclosed property value');
+        i++;
+        values.push(value);
+        skipSpace();
+      }
+      if (values.length === 0) throw new Error(`Invalid SGF: property ${ident} has no value`);
+      // Old files write properties with extra lower-case letters, e.g. AddBlack for AB
+      node[ident.replace(/[a-z]/g, '')] = values;
+    }
+    return node;
+  };
+
+  const parseTree = (): SgfNode[] => {
+    skipSpace();
+    if (sgf[i] !== '(') throw new Error('Invalid SGF: expected (');
+    i++;
+    const nodes: SgfNode[] = [];
+    skipSpace();
+    while (sgf[i] === ';') {
+      i++;
+      nodes.push(parseNode());
+      skipSpace();
+    }
+    // The first variation is the main line; the others are skipped
+    let mainLine: SgfNode[] | null = null;
+    while (sgf[i] === '(') {
+      const line = parseTree();
+      mainLine ??= line;
+      skipSpace();
+    }
+    if (sgf[i] !== ')') throw new Error('Invalid SGF: unclosed game tree');
+    i++;
+    return [...nodes, ...(mainLine ?? [])];
+  };
+
+  return parseTree();
+}
+
+/**
+ * Set up a game from SGF: setup stones, komi and the main line of moves.
+ * Throws on a malformed file, a board size other than 9x9 or an illegal move.
+ */
+export function fromSgf(sgf: string, players: { black: string; white: string }): GoState {
+  const nodes = parseSgf(sgf);
+  const root = nodes[0];
+  if (!root) throw new Error('Invalid SGF: no game found');
+  if (root.GM && root.GM[0] !== '1') throw new Error('Invalid SGF: not a Go game');
+  // SGF assumes 19x19 when no size is given
+  if ((root.SZ?.[0] ?? '19') !== String(BOARD_SIZE)) {
+    throw new Error(`Invalid SGF: only ${BOARD_SIZE}x${BOARD_SIZE} games are supported`);
+  }
+
+  const komi = root.KM ? Number(root.KM[0]) : KOMI;
+  if (!Number.isFinite(komi)) throw new Error('Invalid SGF: bad komi');
+
+  const board = createEmptyBoard();
+  const setupStones = (key: 'AB' | 'AW', color: GoColor): Position[] =>
+    (root[key] ?? []).map(value => {
+      const pos = fromSgfPoint(value);
+      if (!pos || board[pos.row][pos.col]) throw new Error(`Invalid SGF: bad setup stone [${value}]`);
+      board[pos.row][pos.col] = color;
+      return pos;
+    });
+  const black = setupStones('AB', 'black');
+  const white = setupStones('AW', 'white');
+
+  // Whoever is named by PL, or else plays first, has the first turn
+  const firstMove = nodes.find(node => node.B || node.W);
+  const firstTurn: GoColor = root.PL ? (root.PL[0] === 'W' ? 'white' : 'black') : firstMove?.W ? 'white' : 'black';
+  const setup = black.length > 0 || white.length > 0 || firstTurn === 'white' ? { black, white, firstTurn } : null;
+
+  let state: GoState = {
+    ...goEngine.initGame([players.black, players.white]),
+    board,
+    currentTurn: firstTurn,
+    players,
+    komi,
+    setup,
+  };
+
+  const imported: GoMove[] = [];
+  for (const node of nodes) {
+    if (node !== root && (node.AB || node.AW || node.AE)) {
+      throw new Error('Invalid SGF: setup stones are only supported before the first move');
+    }
+    const key = node.B ? 'B' : node.W ? 'W' : null;
+    if (!key) continue;
+
+    const moveNumber = imported.length + 1;
+    const color: GoColor = key === 'B' ? 'black' : 'white';
+    if (goEngine.checkWinner(state)) throw new Error(`Invalid SGF: the game is already over before move ${moveNumber}`);
+    if (color !== state.currentTurn) throw new Error(`Invalid SGF: ${color} plays out of turn at move ${moveNumber}`);
+
+    const position = fromSgfPoint(node[key][0]);
+    const move: GoMove = position ? { type: 'place', position } : { type: 'pass' };
+    const error = goEngine.validateMove(state, players[color], move);
+    if (error) throw new Error(`Invalid SGF: move ${moveNumber}: ${error}`);
+    state = goEngine.applyMove(state, players[color], move);
+    imported.push(move);
+  }
+
+  return { ...state, importedMoves: imported };
+}
+
+function sgfResult(state: GoState, finished: boolean): string | null {
+  const winner = state.winner === state.players.black ? 'B' : state.winner === state.players.white ? 'W' : null;
+  if (winner && state.score) return `${winner}+${Math.abs(state.score.black - state.score.white)}`;
+  if (winner) {
+    // Games that end without counting: the room's reason says whether on time, by forfeit or by resignation
+    const reason = state.winReason ?? '';
+    if (reason.includes('ran out of time')) return `${winner}+T`;
+    if (reason.includes('forfeit')) return `${winner}+F`;
+    return `${winner}+R`;
+  }
+  return state.score || finished ? 'Draw' : null;
+}
+
+/** The game so far as SGF, including setup stones and any moves imported before it began. */
+export function toSgf(record: GameRecord<GoState, GoMove>): string {
+  const initial = record.states[0];
+  const final = record.states[record.states.length - 1];
+  const result = sgfResult(final, record.finished);
+
+  const root: [string, string[]][] = [
+    ['GM', ['1']],
+    ['FF', ['4']],
+    ['CA', ['UTF-8']],
+    ['AP', ['Your Turn']],
+    ['SZ', [String(BOARD_SIZE)]],
+    ['KM', [String(initial.komi)]],
+    ['PB', [record.playerNames[initial.players.black] ?? 'Black']],
+    ['PW', [record.playerNames[initial.players.white] ?? 'White']],
+    ['DT', [new Date().toISOString().slice(0, 10)]],
+  ];
+  if (result) root.push(['RE', [result]]);
+  if (initial.setup) {
+    if (initial.setup.black.length > 0) root.push(['AB', initial.setup.black.map(toSgfPoint)]);
+    if (initial.setup.white.length > 0) root.push(['AW', initial.setup.white.map(toSgfPoint)]);
+    root.push(['PL', [initial.setup.firstTurn === 'black' ? 'B' : 'W']]);
+  }
+
+  // Turns strictly alternate in Go, passes included
+  const firstTurn = initial.setup?.firstTurn ?? 'black';
+  const moves = [...initial.importedMoves, ...record.moves].map((move, i) => {
+    const color = (i % 2 === 0) === (firstTurn === 'black') ? 'B' : 'W';
+    return `;${color}[${move.type === 'place' ? toSgfPoint(move.position) : ''}]`;
+  });
+
+  const lines = [`(;${root.map(([key, values]) => key + values.map(v => `[${escapeSgf(v)}]`).join('')).join('')}`];
+  for (let i = 0; i < moves.length; i += SGF_MOVES_PER_LINE) {
+    lines.push(moves.slice(i, i + SGF_MOVES_PER_LINE).join(''));
+  }
+  return `${lines.join('\n')})\n`;
+}
@@ -1,12 +1,16 @@
-import { GameEngine, Position } from '../../types';
+import { BotDifficulty, GameEngine, GameOptions, Position } from '../../types';
+import { isRecord, isPosition, toPosition } from '../schema';
+import { assignSeats } from '../seats';
+import { createRng } from '../random';
+import { SearchGame, WIN_SCORE, searchMove } from '../../bots';
 
 // ---- Gomoku Types ----
 
 export type GomokuColor = 'black' | 'white';
 
 export interface GomokuMove {
-  from: Position; // unused, will be {row:0, col:0}
-  to: Position;   // the intersection to place a stone
+  type: 'place';
+  position: Position; // the intersection to place a stone
 }
 
 export interface GomokuState {
@@ -135,20 +139,120 @@ function isBoardFull(board: (GomokuColor | null)[][]): boolean {
   return true;
 }
 
+// ---- Computer Opponent ----
+
+const BOT_DEPTH: Record<BotDifficulty, number> = { easy: 1, medium: 2, hard: 3 };
+
+// Only the most promising empty points near existing stones are searched
+const CANDIDATE_COUNT = 10;
+const CANDIDATE_RADIUS = 2;
+
+// Score for a window of five holding n stones of one colour and none of the other
+const WINDOW_SCORES = [0, 1, 10, 100, 1000, 100_000];
+
+/** Stone counts in the window of five starting at (row, col), or null if it runs off the board. */
+function countWindow(
+  board: (GomokuColor | null)[][],
+  row: number,
+  col: number,
+  dRow: number,
+  dCol: number,
+  color: GomokuColor,
+): { mine: number; theirs: number } | null {
+  if (!isInBounds(row, col) || !isInBounds(row + (WIN_LENGTH - 1) * dRow, col + (WIN_LENGTH - 1) * dCol)) {
+    return null;
+  }
+  let mine = 0;
+  let theirs = 0;
+  for (let i = 0; i < WIN_LENGTH; i++) {
+    const cell = board[row + i * dRow][col + i * dCol];
+    if (cell === color) mine++;
+    else if (cell) theirs++;
+  }
+  return { mine, theirs };
+}
+
+/** Open empty points near the stones, best first, scored by the lines they extend or block. */
+function candidateMoves(board: (GomokuColor | null)[][], color: GomokuColor): Position[] {
+  const scored: { position: Position; score: number }[] = [];
+  for (let row = 0; row < BOARD_SIZE; row++) {
+    for (let col = 0; col < BOARD_SIZE; col++) {
+      if (board[row][col] !== null || !hasStoneNearby(board, row, col)) continue;
+      let score = 0;
+      for (const [dRow, dCol] of DIRECTIONS) {
+        for (let offset = 0; offset < WIN_LENGTH; offset++) {
+          const window = countWindow(board, row - offset * dRow, col - offset * dCol, dRow, dCol, color);
+          if (!window) continue;
+          // Extending your own line, or (at half weight) blocking theirs
+          if (window.theirs === 0) score += WINDOW_SCORES[window.mine + 1];
+          if (window.mine === 0) score += WINDOW_SCORES[window.theirs + 1] / 2;
+        }
+      }
+      scored.push({ position: { row, col }, score });
+    }
+  }
+
+  if (scored.length === 0) {
+    const centre = Math.floor(BOARD_SIZE / 2);
+    return [{ row: centre, col: centre }];
+  }
+  return scored.sort((a, b) => b.score - a.score).slice(0, CANDIDATE_COUNT).map(c => c.position);
+}
+
+function hasStoneNearby(board: (GomokuColor | null)[][], row: number, col: number): boolean {
+  for (let r = row - CANDIDATE_RADIUS; r <= row + CANDIDATE_RADIUS; r++) {
+    for (let c = col - CANDIDATE_RADIUS; c <= col + CANDIDATE_RADIUS; c++) {
+      if (isInBounds(r, c) && board[r][c] !== null) return true;
+    }
+  }
+  return false;
+}
+
+function botSearch(botColor: GomokuColor): SearchGame<GomokuState, GomokuMove> {
+  const finalScore = (state: GomokuState): number => {
+    if (!state.winner) return 0;
+    return state.winner === state.players[botColor] ? WIN_SCORE : -WIN_SCORE;
+  };
+
+  return {
+    moves: state => {
+      if (state.winner || isBoardFull(state.board)) return [];
+      return candidateMoves(state.board, state.currentTurn).map(position => ({ type: 'place', position }));
+    },
+    play: (state, move) => gomokuEngine.applyMove(state, state.players[state.currentTurn], move),
+    botToMove: state => state.currentTurn === botColor,
+    evaluate: state => {
+      if (state.winner) return finalScore(state);
+      let score = 0;
+      for (const [dRow, dCol] of DIRECTIONS) {
+        for (let row = 0; row < BOARD_SIZE; row++) {
+          for (let col = 0; col < BOARD_SIZE; col++) {
+            const window = countWindow(state.board, row, col, dRow, dCol, botColor);
+            if (!window) continue;
+            if (window.theirs === 0) score += WINDOW_SCORES[window.mine];
+            else if (window.mine === 0) score -= WINDOW_SCORES[window.theirs];
+          }
+        }
+      }
+      return score;
+    },
+    finalScore,
+  };
+}
+
 // ---- Game Engine ----
 
+const SEATS: readonly GomokuColor[] = ['black', 'white']; // in turn order
+
 export const gomokuEngine: GameEngine<GomokuState, GomokuMove> = {
-  initGame(playerIds: [string, string]): GomokuState {
+  initGame(playerIds: string[], _options?: GameOptions, firstPlayer?: string, seed?: number): GomokuState {
     // Randomly assign colors
-    const shuffled = Math.random() < 0.5 ? playerIds : [playerIds[1], playerIds[0]];
+    const players = assignSeats(playerIds, SEATS, firstPlayer, createRng(seed));
 
     return {
       board: createEmptyBoard(),
       currentTurn: 'black', // black always goes first in Gomoku
-      players: {
-        black: shuffled[0],
-        white: shuffled[1],
-      },
+      players,
       winner: null,
       winReason: null,
       lastMove: null,
@@ -157,6 +261,11 @@ export const gomokuEngine: GameEngine<GomokuState, GomokuMove> = {
     };
   },
 
+  parseMove(data: unknown): GomokuMove | null {
+    if (!isRecord(data) || data.type !== 'place' || !isPosition(data.position)) return null;
+    return { type: 'place', position: toPosition(data.position) };
+  },
+
   validateMove(state: GomokuState, playerId: string, move: GomokuMove): string | null {
     if (state.winner) return 'Game is already over';
 
@@ -164,7 +273,7 @@ export const gomokuEngine: GameEngine<GomokuState, GomokuMove> = {
     if (!color) return 'You are not a player in this game';
     if (color !== state.currentTurn) return 'It is not your turn';
 
-    const { row, col } = move.to;
+    const { row, col } = move.position;
 
     // Validate position bounds
     if (!Number.isInteger(row) || !Number.isInteger(col) || !isInBounds(row, col)) {
@@ -181,7 +290,7 @@ export const gomokuEngine: GameEngine<GomokuState, GomokuMove> = {
 
   applyMove(state: GomokuState, playerId: string, move: GomokuMove): GomokuState {
     const color = getPlayerColor(state, playerId)!;
-    const { row, col } = move.to;
+    const { row, col } = move.position;
     const newBoard = cloneBoard(state.board);
 
     // Place the stone
@@ -242,4 +351,13 @@ export const gomokuEngine: GameEngine<GomokuState, GomokuMove> = {
     // Game is still in progress
     return null;
   },
+
+  getActivePlayers(state: GomokuState): string[] {
+    return state.winner ? [] : [state.players[state.currentTurn]];
+  },
+
+  chooseMove(state: GomokuState, playerId: string, difficulty: BotDifficulty): GomokuMove {
+    const color = getPlayerColor(state, playerId)!;
+    return searchMove(botSearch(color), state, BOT_DEPTH[difficulty], difficulty);
+  },
 };
@@ -1,12 +1,16 @@
-import { GameEngine, Position } from '../../types';
+import { BotDifficulty, GameEngine, GameOptions } from '../../types';
+import { isRecord, isInteger } from '../schema';
+import { assignSeats } from '../seats';
+import { createRng } from '../random';
+import { SearchGame, WIN_SCORE, searchMove } from '../../bots';
 
 // ---- Mancala Types ----
 
 export type MancalaSide = 'top' | 'bottom';
 
 export interface MancalaMove {
-  from: Position; // unused, will be {row:0,col:0}
-  to: Position;   // to.row = 0 (top) or 1 (bottom), to.col = pit index (0-5)
+  type: 'sow';
+  pit: number; // pit index (0-5) on the mover's own side
 }
 
 export interface MancalaState {
@@ -223,12 +227,43 @@ function finalizeGame(state: MancalaState): MancalaState {
   return newState;
 }
 
+// ---- Computer Opponent ----
+
+const BOT_DEPTH: Record<BotDifficulty, number> = { easy: 2, medium: 4, hard: 8 };
+
+function botSearch(botSide: MancalaSide): SearchGame<MancalaState, MancalaMove> {
+  const mine = sideIndex(botSide);
+  const theirs = 1 - mine;
+
+  return {
+    moves: state => {
+      const pits = state.pits[sideIndex(state.currentTurn)];
+      const moves: MancalaMove[] = [];
+      // Pits nearest the store first: they are the ones that earn extra turns
+      for (let pit = NUM_PITS - 1; pit >= 0; pit--) {
+        if (pits[pit] > 0) moves.push({ type: 'sow', pit });
+      }
+      return moves;
+    },
+    play: (state, move) => mancalaEngine.applyMove(state, state.players[state.currentTurn], move),
+    botToMove: state => state.currentTurn === botSide,
+    evaluate: state => {
+      // Stones still on your side will mostly end up in your store
+      const sideStones = (s: number) => state.pits[s].reduce((sum, n) => sum + n, 0);
+      return 4 * (state.stores[mine] - state.stores[theirs]) + sideStones(mine) - sideStones(theirs);
+    },
+    finalScore: state => Math.sign(state.stores[mine] - state.stores[theirs]) * WIN_SCORE,
+  };
+}
+
 // ---- Game Engine ----
 
+const SEATS: readonly MancalaSide[] = ['bottom', 'top']; // in turn order
+
 export const mancalaEngine: GameEngine<MancalaState, MancalaMove> = {
-  initGame(playerIds: [string, string]): MancalaState {
+  initGame(playerIds: string[], _options?: GameOptions, firstPlayer?: string, seed?: number): MancalaState {
     // Randomly assign top/bottom
-    const shuffled = Math.random() < 0.5 ? playerIds : [playerIds[1], playerIds[0]];
+    const players = assignSeats(playerIds, SEATS, firstPlayer, createRng(seed));
 
     return {
       pits: [
@@ -237,16 +272,18 @@ export const mancalaEngine: GameEngine<MancalaState, MancalaMove> = {
       ],
       stores: [0, 0],
       currentTurn: 'bottom', // bottom player goes first
-      players: {
-        top: shuffled[0],
-        bottom: shuffled[1],
-      },
+      players,
       winner: null,
       winReason: null,
       lastMove: null,
     };
   },
 
+  parseMove(data: unknown): MancalaMove | null {
+    if (!isRecord(data) || data.type !== 'sow' || !isInteger(data.pit)) return null;
+    return { type: 'sow', pit: data.pit };
+  },
+
   validateMove(state: MancalaState, playerId: string, move: MancalaMove): string | null {
     if (state.winner) return 'Game is already over';
 
@@ -255,13 +292,7 @@ export const mancalaEngine: GameEngine<MancalaState, MancalaMove> = {
     if (side !== state.currentTurn) return 'It is not your turn';
 
     const si = sideIndex(side);
-    const pitIndex = move.to.col;
-    const rowIndex = move.to.row;
-
-    // Validate that the player is selecting from their own side
-    if (rowIndex !== si) {
-      return 'You can only pick from your own pits';
-    }
+    const pitIndex = move.pit;
 
     // Validate pit index
     if (pitIndex < 0 || pitIndex >= NUM_PITS || !Number.isInteger(pitIndex)) {
@@ -278,7 +309,7 @@ export const mancalaEngine: GameEngine<MancalaState, MancalaMove> = {
 
   applyMove(state: MancalaState, playerId: string, move: MancalaMove): MancalaState {
     const side = getPlayerSide(state, playerId)!;
-    const pitIndex = move.to.col;
+    const pitIndex = move.pit;
 
     const newState = sowStones(state, side, pitIndex);
 
@@ -333,4 +364,13 @@ export const mancalaEngine: GameEngine<MancalaState, MancalaMove> = {
       };
     }
   },
+
+  getActivePlayers(state: MancalaState): string[] {
+    return state.winner ? [] : [state.players[state.currentTurn]];
+  },
+
+  chooseMove(state: MancalaState, playerId: string, difficulty: BotDifficulty): MancalaMove {
+    const side = getPlayerSide(state, playerId)!;
+    return searchMove(botSearch(side), state, BOT_DEPTH[difficulty], difficulty);
+  },
 };
@@ -1,4 +1,8 @@
-import { GameEngine, Position } from '../../types';
+import { BotDifficulty, GameEngine, GameOptions, Position } from '../../types';
+import { isRecord, isPosition, toPosition } from '../schema';
+import { assignSeats } from '../seats';
+import { Rng, createRng } from '../random';
+import { pickRandom } from '../../bots';
 
 // ---- Naval Battle Types ----
 
@@ -18,8 +22,8 @@ export interface PlayerBoard {
 }
 
 export interface NavalBattleMove {
-  from: Position; // unused
-  to: Position;   // target cell to fire at
+  type: 'fire';
+  target: Position; // cell on the opponent's grid
 }
 
 export interface NavalBattleState {
@@ -80,15 +84,16 @@ function isInBounds(row: number, col: number): boolean {
 function tryPlaceShip(
   grid: CellState[][],
   size: number,
+  rng: Rng,
 ): Position[] | null {
   // Pick random orientation: 0 = horizontal, 1 = vertical
-  const horizontal = Math.random() < 0.5;
+  const horizontal = rng.next() < 0.5;
 
   const maxRow = horizontal ? BOARD_SIZE : BOARD_SIZE - size;
   const maxCol = horizontal ? BOARD_SIZE - size : BOARD_SIZE;
 
-  const startRow = Math.floor(Math.random() * maxRow);
-  const startCol = Math.floor(Math.random() * maxCol);
+  const startRow = rng.int(maxRow);
+  const startCol = rng.int(maxCol);
 
   const positions: Position[] = [];
 
@@ -110,13 +115,13 @@ function tryPlaceShip(
 /**
  * Place a ship randomly on the grid. Retries until a valid position is found.
  */
-function placeShipRandomly(grid: CellState[][], size: number): Position[] {
+function placeShipRandomly(grid: CellState[][], size: number, rng: Rng): Position[] {
   let positions: Position[] | null = null;
   let attempts = 0;
   const maxAttempts = 1000;
 
   while (positions === null && attempts < maxAttempts) {
-    positions = tryPlaceShip(grid, size);
+    positions = tryPlaceShip(grid, size, rng);
     attempts++;
   }
 
@@ -136,12 +141,12 @@ function placeShipRandomly(grid: CellState[][], size: number): Position[] {
 /**
  * Generate a complete board with all ships placed randomly.
  */
-function generateBoard(): PlayerBoard {
+function generateBoard(rng: Rng): PlayerBoard {
   const grid = createEmptyGrid();
   const ships: Ship[] = [];
 
   for (const template of SHIP_TEMPLATES) {
-    const positions = placeShipRandomly(grid, template.size);
+    const positions = placeShipRandomly(grid, template.size, rng);
     ships.push({
       name: template.name,
       size: template.size,
@@ -170,30 +175,129 @@ function getOpponentId(state: NavalBattleState, playerId: string): string {
     : state.players.player1;
 }
 
+/**
+ * A board as the other side sees it: hits and misses only, never ship positions.
+ */
+function visibleGrid(board: PlayerBoard): ('unknown' | 'hit' | 'miss')[][] {
+  return board.grid.map(row =>
+    row.map(cell => (cell === 'hit' ? 'hit' : cell === 'miss' ? 'miss' : 'unknown')),
+  );
+}
+
+/**
+ * Sunk ships by name and size (not positions).
+ */
+function sunkShips(board: PlayerBoard): { name: string; size: number; sunk: true }[] {
+  return board.ships
+    .filter(ship => ship.sunk)
+    .map(ship => ({ name: ship.name, size: ship.size, sunk: true }));
+}
+
+// ---- Computer Opponent ----
+// The bot aims from the same view a human opponent gets: hits and misses on
+// the enemy grid plus the sizes of ships already sunk.
+
+type VisibleCell = 'unknown' | 'hit' | 'miss';
+
+const NEIGHBOURS: [number, number][] = [[-1, 0], [1, 0], [0, -1], [0, 1]];
+
+/** Unknown cells next to a hit, where the rest of a damaged ship must be. */
+function targetCells(grid: VisibleCell[][]): Position[] {
+  const targets: Position[] = [];
+  for (let row = 0; row < BOARD_SIZE; row++) {
+    for (let col = 0; col < BOARD_SIZE; col++) {
+      if (grid[row][col] !== 'unknown') continue;
+      const nextToHit = NEIGHBOURS.some(([dr, dc]) => grid[row + dr]?.[col + dc] === 'hit');
+      if (nextToHit) targets.push({ row, col });
+    }
+  }
+  return targets;
+}
+
+/**
+ * Count how many placements of the ships still afloat cover each unknown
+ * cell; placements through existing hits count for much more.
+ */
+function shipDensity(grid: VisibleCell[][], sizes: number[]): number[][] {
+  const density = grid.map(row => row.map(() => 0));
+  for (const size of sizes) {
+    for (const [dRow, dCol] of [[0, 1], [1, 0]]) {
+      for (let row = 0; row < BOARD_SIZE; row++) {
+        for (let col = 0; col < BOARD_SIZE; col++) {
+          const cells: Position[] = [];
+          for (let i = 0; i < size; i++) cells.push({ row: row + i * dRow, col: col + i * dCol });
+          if (!cells.every(c => isInBounds(c.row, c.col) && grid[c.row][c.col] !== 'miss')) continue;
+
+          const hits = cells.filter(c => grid[c.row][c.col] === 'hit').length;
+          const weight = 1 + 20 * hits;
+          for (const c of cells) {
+            if (grid[c.row][c.col] === 'unknown') density[c.row][c.col] += weight;
+          }
+        }
+      }
+    }
+  }
+  return density;
+}
+
+function chooseTarget(state: NavalBattleState, playerId: string, difficulty: BotDifficulty): Position {
+  const enemyBoard = state.boards[getOpponentId(state, playerId)];
+  const grid = visibleGrid(enemyBoard);
+  const unknown: Position[] = [];
+  for (let row = 0; row < BOARD_SIZE; row++) {
+    for (let col = 0; col < BOARD_SIZE; col++) {
+      if (grid[row][col] === 'unknown') unknown.push({ row, col });
+    }
+  }
+
+  const targets = targetCells(grid);
+  if (difficulty === 'easy') {
+    // Follows up on a hit only half the time
+    return targets.length > 0 && Math.random() < 0.5 ? pickRandom(targets) : pickRandom(unknown);
+  }
+
+  if (difficulty === 'medium') {
+    if (targets.length > 0) return pickRandom(targets);
+    // Hunt on a checkerboard: every ship is at least two cells long
+    const parity = unknown.filter(c => (c.row + c.col) % 2 === 0);
+    return pickRandom(parity.length > 0 ? parity : unknown);
+  }
+
+  const sunk = sunkShips(enemyBoard);
+  const afloat = SHIP_TEMPLATES.filter(ship => !sunk.some(s => s.name === ship.name)).map(ship => ship.size);
+
+  const density = shipDensity(grid, afloat);
+  const best = Math.max(...unknown.map(c => density[c.row][c.col]));
+  return pickRandom(unknown.filter(c => density[c.row][c.col] === best));
+}
+
 // ---- Game Engine ----
 
 export const navalbattleEngine: GameEngine<NavalBattleState, NavalBattleMove> = {
-  initGame(playerIds: [string, string]): NavalBattleState {
+  initGame(playerIds: string[], _options?: GameOptions, firstPlayer?: string, seed?: number): NavalBattleState {
     // Randomly decide who goes first
-    const shuffled = Math.random() < 0.5 ? playerIds : [playerIds[1], playerIds[0]];
+    const rng = createRng(seed);
+    const players = assignSeats(playerIds, ['player1', 'player2'] as const, firstPlayer, rng);
 
     const boards: { [playerId: string]: PlayerBoard } = {};
-    boards[shuffled[0]] = generateBoard();
-    boards[shuffled[1]] = generateBoard();
+    boards[players.player1] = generateBoard(rng);
+    boards[players.player2] = generateBoard(rng);
 
     return {
       boards,
-      currentTurn: shuffled[0], // player1 goes first
-      players: {
-        player1: shuffled[0],
-        player2: shuffled[1],
-      },
+      currentTurn: players.player1, // player1 goes first
+      players,
       winner: null,
       winReason: null,
       lastShot: null,
     };
   },
 
+  parseMove(data: unknown): NavalBattleMove | null {
+    if (!isRecord(data) || data.type !== 'fire' || !isPosition(data.target)) return null;
+    return { type: 'fire', target: toPosition(data.target) };
+  },
+
   validateMove(state: NavalBattleState, playerId: string, move: NavalBattleMove): string | null {
     if (state.winner) return 'Game is already over';
 
@@ -207,7 +311,7 @@ export const navalbattleEngine: GameEngine<NavalBattleState, NavalBattleMove> =
       return 'It is not your turn';
     }
 
-    const { row, col } = move.to;
+    const { row, col } = move.target;
 
     // Validate position bounds
     if (!Number.isInteger(row) || !Number.isInteger(col) || !isInBounds(row, col)) {
@@ -228,7 +332,7 @@ export const navalbattleEngine: GameEngine<NavalBattleState, NavalBattleMove> =
   },
 
   applyMove(state: NavalBattleState, playerId: string, move: NavalBattleMove): NavalBattleState {
-    const { row, col } = move.to;
+    const { row, col } = move.target;
     const opponentId = getOpponentId(state, playerId);
 
     // Deep clone the boards
@@ -296,35 +400,43 @@ export const navalbattleEngine: GameEngine<NavalBattleState, NavalBattleMove> =
     // This game has HIDDEN INFORMATION.
     // Players can only see their own ships, and hits/misses on the opponent's board.
 
+    if (!state.boards[playerId]) {
+      // Spectators see both fleets the way an opponent does, from player 1's side
+      const { player1, player2 } = state.players;
+      const firstBoard = state.boards[player1];
+      return {
+        myBoard: {
+          grid: visibleGrid(firstBoard).map(row => row.map(cell => (cell === 'unknown' ? 'empty' : cell))),
+          ships: firstBoard.ships.map(ship => ({
+            name: ship.name,
+            size: ship.size,
+            positions: [],
+            hits: ship.sunk ? ship.size : 0,
+            sunk: ship.sunk,
+          })),
+        },
+        opponentBoard: {
+          grid: visibleGrid(state.boards[player2]),
+        },
+        currentTurn: state.currentTurn,
+        myId: player1,
+        spectator: true,
+        winner: state.winner,
+        winReason: state.winReason,
+        lastShot: state.lastShot,
+        opponentShipsSunk: sunkShips(state.boards[player2]),
+      };
+    }
+
     const opponentId = getOpponentId(state, playerId);
     const myBoard = state.boards[playerId];
     const opponentBoard = state.boards[opponentId];
 
-    // Build the opponent's visible grid: only show hits and misses, not ship positions
-    const opponentVisibleGrid: ('unknown' | 'hit' | 'miss')[][] = Array(BOARD_SIZE)
-      .fill(null)
-      .map(() => Array(BOARD_SIZE).fill('unknown' as const));
-
-    for (let r = 0; r < BOARD_SIZE; r++) {
-      for (let c = 0; c < BOARD_SIZE; c++) {
-        const cell = opponentBoard.grid[r][c];
-        if (cell === 'hit') {
-          opponentVisibleGrid[r][c] = 'hit';
-        } else if (cell === 'miss') {
-          opponentVisibleGrid[r][c] = 'miss';
-        }
-        // 'empty' and 'ship' both appear as 'unknown' to the opponent
-      }
-    }
+    // 'empty' and 'ship' both appear as 'unknown' to the opponent
+    const opponentVisibleGrid = visibleGrid(opponentBoard);
 
     // Only reveal sunk ship names and sizes to the opponent (not positions)
-    const opponentShipsSunk = opponentBoard.ships
-      .filter(ship => ship.sunk)
-      .map(ship => ({
-        name: ship.name,
-        size: ship.size,
-        sunk: true,
-      }));
+    const opponentShipsSunk = sunkShips(opponentBoard);
 
     return {
       myBoard: {
@@ -354,4 +466,12 @@ export const navalbattleEngine: GameEngine<NavalBattleState, NavalBattleMove> =
     // Game is still in progress
     return null;
   },
+
+  getActivePlayers(state: NavalBattleState): string[] {
+    return state.winner ? [] : [state.currentTurn];
+  },
+
+  chooseMove(state: NavalBattleState, playerId: string, difficulty: BotDifficulty): NavalBattleMove {
+    return { type: 'fire', target: chooseTarget(state, playerId, difficulty) };
+  },
 };
@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest';
+import { MAX_SEED, createRng, parseSeed, shuffle } from './random';
+import { assignSeats } from './seats';
+
+describe('seeded generator', () => {
+  it('repeats its sequence for the same seed', () => {
+    const a = createRng(12345);
+    const b = createRng(12345);
+    const draws = Array.from({ length: 20 }, () => a.next());
+    expect(Array.from({ length: 20 }, () => b.next())).toEqual(draws);
+    expect(new Set(draws).size).toBe(20);
+    expect(draws.every(x => x >= 0 && x < 1)).toBe(true);
+  });
+
+  it('continues from a stored state', () => {
+    const rng = createRng(99);
+    rng.next();
+    const resumed = createRng(rng.state);
+    expect(resumed.next()).toBe(rng.next());
+  });
+
+  it('draws integers in range', () => {
+    const rng = createRng(1);
+    const rolls = Array.from({ length: 600 }, () => rng.int(6));
+    expect(new Set(rolls)).toEqual(new Set([0, 1, 2, 3, 4, 5]));
+  });
+
+  it('shuffles into a new array, the same way for the same seed', () => {
+    const items = [1, 2, 3, 4, 5, 6, 7, 8];
+    const shuffled = shuffle(items, createRng(5));
+    expect(shuffled).toEqual(shuffle(items, createRng(5)));
+    expect([...shuffled].sort()).toEqual(items);
+    expect(items).toEqual([1, 2, 3, 4, 5, 6, 7, 8]);
+  });
+
+  it('seats players the same way for the same seed', () => {
+    const seats = ['a', 'b', 'c', 'd'] as const;
+    const ids = ['p1', 'p2', 'p3', 'p4'];
+    expect(assignSeats(ids, seats, undefined, createRng(3))).toEqual(assignSeats(ids, seats, undefined, createRng(3)));
+  });
+});
+
+describe('parseSeed', () => {
+  it('accepts whole numbers in range and treats no seed as random', () => {
+    expect(parseSeed(0)).toBe(0);
+    expect(parseSeed(MAX_SEED)).toBe(MAX_SEED);
+    expect(parseSeed(undefined)).toBeNull();
+    expect(parseSeed(null)).toBeNull();
+  });
+
+  it('rejects anything else', () => {
+    expect(parseSeed(-1)).toMatch(/Seed must be/);
+    expect(parseSeed(MAX_SEED + 1)).toMatch(/Seed must be/);
+    expect(parseSeed(1.5)).toMatch(/Seed must be/);
+    expect(parseSeed('42')).toMatch(/Seed must be/);
+  });
+});
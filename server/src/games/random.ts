@@ -0,0 +1,61 @@
+import { isInteger } from './schema';
+
+// ---- Seeded Randomness ----
+// Engines draw everything random (seats, fleets, dice, shuffles, the cut)
+// from a small seeded generator instead of Math.random, so one seed always
+// deals the same game. Games that keep drawing after the deal store the
+// generator's state in their game state and advance it with each draw, so
+// a state always rolls the same next dice.
+
+export type RngState = number; // 32-bit mulberry32 state
+
+export interface Rng {
+  next(): number; // [0, 1)
+  int(n: number): number; // 0..n-1
+  readonly state: RngState; // where the sequence has got to, to store back in the game state
+}
+
+export const MAX_SEED = 2 ** 32 - 1;
+
+/** A fresh seed for a game nobody asked to reproduce. */
+export function randomSeed(): number {
+  return Math.floor(Math.random() * (MAX_SEED + 1));
+}
+
+/** A generator continuing from `state` (a seed, or a state stored earlier); random when omitted. */
+export function createRng(state: RngState = randomSeed()): Rng {
+  let s = state >>> 0;
+  const rng: Rng = {
+    next() {
+      s = (s + 0x6d2b79f5) >>> 0;
+      let t = s;
+      t = Math.imul(t ^ (t >>> 15), t | 1);
+      t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+      return ((t ^ (t >>> 14)) >>> 0) / 2 ** 32;
+    },
+    int(n) {
+      return Math.floor(rng.next() * n);
+    },
+    get state() {
+      return s;
+    },
+  };
+  return rng;
+}
+
+/** Fisher-Yates shuffle into a new array. */
+export function shuffle<T>(items: readonly T[], rng: Rng): T[] {
+  const shuffled = [...items];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = rng.int(i + 1);
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return shuffled;
+}
+
+/** Validate a client-supplied seed; null means deal at random. */
+export function parseSeed(data: unknown): number | null | string {
+  if (data === undefined || data === null || data === '') return null;
+  if (!isInteger(data) || data < 0 || data > MAX_SEED) return `Seed must be a whole number from 0 to ${MAX_SEED}`;
+  return data;
+}
@@ -0,0 +1,347 @@
+import {
+  GameDefinition,
+  GameEngine,
+  GameInfo,
+  GameMove,
+  GameOptions,
+  GameType,
+} from '../types';
+import { isRecord } from './schema';
+import { checkersEngine } from './checkers';
+import { CHESS_VARIANTS, chessEngine } from './chess';
+import { connect4Engine } from './connect4';
+import { reversiEngine } from './reversi';
+import { tictactoeEngine } from './tictactoe';
+import { gomokuEngine } from './gomoku';
+import { mancalaEngine } from './mancala';
+import { dotsboxesEngine } from './dotsboxes';
+import { navalbattleEngine } from './navalbattle';
+import { goEngine } from './go';
+import { backgammonEngine } from './backgammon';
+import { cribbageEngine } from './cribbage';
+
+// ---- Game Registry ----
+// Single source of truth for which games exist. The socket handlers, the
+// REST API and the client's game picker all read from here.
+
+const registry = new Map<GameType, GameDefinition>();
+
+export function registerGame(definition: GameDefinition): void {
+  if (registry.has(definition.id)) {
+    throw new Error(`Game already registered: ${definition.id}`);
+  }
+  if (definition.minPlayers < 1 || definition.maxPlayers < definition.minPlayers) {
+    throw new Error(`Invalid player counts for ${definition.id}`);
+  }
+  registry.set(definition.id, definition);
+}
+
+export function isRegisteredGame(id: unknown): id is GameType {
+  return typeof id === 'string' && registry.has(id as GameType);
+}
+
+export function getGameDefinition(id: GameType): GameDefinition {
+  const definition = registry.get(id);
+  if (!definition) throw new Error(`Unknown game type: ${id}`);
+  return definition;
+}
+
+export function getEngine(id: GameType): GameEngine<unknown, GameMove> {
+  return getGameDefinition(id).engine;
+}
+
+export function listGames(): GameDefinition[] {
+  return Array.from(registry.values());
+}
+
+/** Public metadata for a game (everything except the engine). */
+export function toGameInfo(definition: GameDefinition): GameInfo {
+  const { id, name, description, minPlayers, maxPlayers, rules, options } = definition;
+  return { id, name, description, minPlayers, maxPlayers, rules, options };
+}
+
+/** Check that a game can be played with this many seated players; returns an error message or null. */
+export function validateSeatCount(id: GameType, count: number): string | null {
+  const { name, minPlayers, maxPlayers } = getGameDefinition(id);
+  if (count < minPlayers) return `${name} needs at least ${minPlayers} players`;
+  if (count > maxPlayers) return `${name} allows at most ${maxPlayers} players`;
+  return null;
+}
+
+/**
+ * Check client-supplied options against a game's option schema.
+ * Unknown keys are dropped and missing keys take their defaults.
+ * Returns the resolved options, or an error message.
+ */
+export function resolveGameOptions(id: GameType, raw: unknown): GameOptions | string {
+  const { options: schema } = getGameDefinition(id);
+  const input = isRecord(raw) ? raw : {};
+  const resolved: GameOptions = {};
+
+  for (const option of schema) {
+    const value = input[option.key];
+    if (value === undefined) {
+      resolved[option.key] = option.default;
+      continue;
+    }
+
+    switch (option.type) {
+      case 'select':
+        if (typeof value !== 'string' || !option.choices.some(c => c.value === value)) {
+          return `Invalid value for ${option.label}`;
+        }
+        break;
+      case 'number':
+        if (typeof value !== 'number' || !Number.isFinite(value) || value < option.min || value > option.max) {
+          return `${option.label} must be between ${option.min} and ${option.max}`;
+        }
+        break;
+      case 'boolean':
+        if (typeof value !== 'boolean') return `Invalid value for ${option.label}`;
+        break;
+      case 'text':
+        if (typeof value !== 'string' || value.length > option.maxLength) {
+          return `${option.label} must be at most ${option.maxLength} characters`;
+        }
+        break;
+    }
+    resolved[option.key] = value;
+  }
+
+  const error = getGameDefinition(id).engine.validateOptions?.(resolved);
+  return error ?? resolved;
+}
+
+// ---- Built-in Games ----
+
+registerGame({
+  id: 'checkers',
+  name: 'Checkers',
+  description: 'Classic American Checkers on an 8x8 board',
+  minPlayers: 2,
+  maxPlayers: 2,
+  rules: [
+    'Players take turns moving pieces diagonally on dark squares.',
+    'Regular pieces move forward only; kings can move in any diagonal direction.',
+    'Capture opponent pieces by jumping over them diagonally.',
+    'If a capture is available, you must take it.',
+    'Multi-jumps: if another capture is available after jumping, you must continue.',
+    'Reach the opposite end of the board to promote a piece to a king.',
+    'Win by capturing all opponent pieces or leaving them with no legal moves.',
+  ],
+  options: [],
+  engine: checkersEngine,
+});
+
+registerGame({
+  id: 'chess',
+  name: 'Chess',
+  description: 'The ultimate strategy game',
+  minPlayers: 2,
+  maxPlayers: 2,
+  rules: [
+    'Each piece type moves differently: pawns forward, rooks in lines, knights in L-shapes, bishops diagonally, queens any direction, kings one square.',
+    'Capture opponent pieces by moving onto their square.',
+    'Pawns promote to a queen, rook, bishop or knight of your choice when they reach the opposite end.',
+    'Castling: move the king two squares toward a rook to swap them (neither can have moved, no pieces between, king not in or through check).',
+    'En passant: capture a pawn that just moved two squares by moving diagonally behind it.',
+    'Check: your king is under attack. You must escape check on your next move.',
+    'Checkmate: your king is in check with no escape — you lose.',
+    'Stalemate (no legal moves but not in check) is a draw.',
+    'Either player may claim a draw when the same position occurs three times, or after 50 moves each without a capture or pawn move.',
+    'Five repetitions, 75 moves each without a capture or pawn move, or too little material to mate end the game as a draw automatically.',
+    'Chess960: the back rank is shuffled; castle by moving your king onto the rook.',
+    'King of the Hill: you also win by getting your king to d4, d5, e4 or e5.',
+    'Three-check: you also win by giving check three times.',
+    'Atomic: a capture blows up the capturing piece and every piece except pawns around it; blowing up the enemy king wins.',
+    'Horde: white\'s 36 pawns have no king and must mate; black wins by capturing them all.',
+  ],
+  options: [
+    { key: 'variant', label: 'Variant', type: 'select', choices: CHESS_VARIANTS, default: 'standard' },
+    { key: 'fen', label: 'Start from FEN (optional)', type: 'text', maxLength: 100, default: '' },
+    { key: 'pgn', label: 'Import PGN (optional)', type: 'text', maxLength: 20000, multiline: true, default: '' },
+  ],
+  engine: chessEngine,
+});
+
+registerGame({
+  id: 'connect4',
+  name: 'Four in a Row',
+  description: 'Drop pieces and line up four to win',
+  minPlayers: 2,
+  maxPlayers: 2,
+  rules: [
+    'Players take turns dropping a colored disc into one of 7 columns.',
+    'Pieces fall to the lowest available space in the column.',
+    'The first player to connect 4 discs in a row wins — horizontally, vertically, or diagonally.',
+    'If the board fills up with no winner, the game is a draw.',
+    'Red always goes first.',
+  ],
+  options: [],
+  engine: connect4Engine,
+});
+
+registerGame({
+  id: 'reversi',
+  name: 'Reversi',
+  description: 'Flip your way to victory',
+  minPlayers: 2,
+  maxPlayers: 2,
+  rules: [
+    'Players take turns placing a disc on the board.',
+    'You must place your disc so that it sandwiches at least one row of opponent discs between your new disc and another of your discs.',
+    'All sandwiched opponent discs are flipped to your color — horizontally, vertically, and diagonally.',
+    'If you have no valid moves, your turn is skipped.',
+    'The game ends when neither player can move or the board is full.',
+    'The player with the most discs on the board wins.',
+    'Black always goes first.',
+  ],
+  options: [],
+  engine: reversiEngine,
+});
+
+registerGame({
+  id: 'tictactoe',
+  name: 'Tic-Tac-Toe',
+  description: 'Classic X and O on a 3x3 grid',
+  minPlayers: 2,
+  maxPlayers: 2,
+  rules: [
+    'Players take turns placing their mark (X or O) on a 3x3 grid.',
+    'The first player to get three marks in a row wins — horizontally, vertically, or diagonally.',
+    'If all nine squares are filled with no winner, the game is a draw.',
+    'X always goes first.',
+  ],
+  options: [],
+  engine: tictactoeEngine,
+});
+
+registerGame({
+  id: 'gomoku',
+  name: 'Gomoku',
+  description: 'Get five in a row on a 15x15 board',
+  minPlayers: 2,
+  maxPlayers: 2,
+  rules: [
+    'Players take turns placing a stone on a 15x15 board.',
+    'The first player to get exactly five stones in a row wins — horizontally, vertically, or diagonally.',
+    'Black always goes first.',
+    'Strategy tip: control the center and build multiple threats at once.',
+  ],
+  options: [],
+  engine: gomokuEngine,
+});
+
+registerGame({
+  id: 'mancala',
+  name: 'Mancala',
+  description: 'Ancient stone-sowing strategy game',
+  minPlayers: 2,
+  maxPlayers: 2,
+  rules: [
+    'Each player has 6 pits and a store (mancala) on their right side.',
+    'On your turn, pick up all stones from one of your pits and sow them counter-clockwise, one per pit.',
+    'Include your own store when sowing, but skip your opponent\'s store.',
+    'If your last stone lands in your store, you get another turn.',
+    'If your last stone lands in an empty pit on your side, capture that stone and all stones in the opposite pit.',
+    'The game ends when one side is completely empty. Remaining stones go to that player\'s opponent.',
+    'The player with the most stones in their store wins.',
+  ],
+  options: [],
+  engine: mancalaEngine,
+});
+
+registerGame({
+  id: 'dotsboxes',
+  name: 'Dots & Boxes',
+  description: 'Connect dots to claim boxes',
+  minPlayers: 2,
+  maxPlayers: 2,
+  rules: [
+    'Players take turns drawing a line between two adjacent dots on a grid.',
+    'When you complete the fourth side of a box, you claim it and get a bonus turn.',
+    'The game ends when all lines have been drawn.',
+    'The player who claimed the most boxes wins.',
+    'Strategy tip: avoid giving your opponent easy boxes by being careful about drawing third sides.',
+  ],
+  options: [],
+  engine: dotsboxesEngine,
+});
+
+registerGame({
+  id: 'navalbattle',
+  name: 'Naval Battle',
+  description: 'Find and sink your opponent\'s fleet',
+  minPlayers: 2,
+  maxPlayers: 2,
+  rules: [
+    'Each player has a fleet of ships placed randomly on a 10x10 grid.',
+    'Players take turns firing at coordinates on the opponent\'s grid.',
+    'A hit is marked when you strike a ship; a miss when you hit open water.',
+    'When all squares of a ship are hit, it is sunk.',
+    'The first player to sink all of the opponent\'s ships wins.',
+    'You cannot see your opponent\'s ships until you hit them.',
+  ],
+  options: [],
+  engine: navalbattleEngine,
+});
+
+registerGame({
+  id: 'go',
+  name: 'Go',
+  description: 'Ancient strategy game on a 9x9 board',
+  minPlayers: 2,
+  maxPlayers: 2,
+  rules: [
+    'Two players (Black and White) take turns placing stones on empty intersections of a 9x9 grid.',
+    'Black always plays first.',
+    'A group of connected stones is captured and removed when it has no empty adjacent intersections (liberties).',
+    'Suicide is not allowed: you cannot place a stone that would have no liberties, unless it captures opponent stones.',
+    'Ko rule: you cannot make a move that recreates the exact previous board position.',
+    'You may pass your turn instead of placing a stone.',
+    'The game ends when both players pass consecutively.',
+    'Scoring uses Chinese area rules: count your stones on the board plus empty territory you surround. White receives 6.5 komi (compensation for going second), or the komi of an imported SGF game.',
+  ],
+  options: [
+    { key: 'sgf', label: 'Import SGF (optional)', type: 'text', maxLength: 20000, multiline: true, default: '' },
+  ],
+  engine: goEngine,
+});
+
+registerGame({
+  id: 'backgammon',
+  name: 'Backgammon',
+  description: 'Classic dice-and-strategy race game',
+  minPlayers: 2,
+  maxPlayers: 2,
+  rules: [
+    'Each player has 15 checkers that move along 24 points based on dice rolls.',
+    'Roll two dice at the start of your turn. Doubles give you 4 moves instead of 2.',
+    'Move your checkers toward your home board, then bear them off.',
+    'You cannot land on a point occupied by 2 or more opponent checkers.',
+    'Landing on a single opponent checker sends it to the bar — it must re-enter before other moves.',
+    'When all your checkers are in your home board, you can start bearing them off.',
+    'The first player to bear off all 15 checkers wins.',
+  ],
+  options: [],
+  engine: backgammonEngine,
+});
+
+registerGame({
+  id: 'cribbage',
+  name: 'Cribbage',
+  description: 'Classic card game of pegging and counting',
+  minPlayers: 2,
+  maxPlayers: 2,
+  rules: [
+    'Each player is dealt 6 cards and discards 2 to the crib (belongs to the dealer).',
+    'A starter card is cut from the deck. If it\'s a Jack, the dealer scores 2 points.',
+    'Pegging: players alternate playing cards, keeping a running total up to 31. Score points for 15s, 31s, pairs, and runs.',
+    'If you can\'t play without exceeding 31, say "Go" — opponent gets 1 point and the count resets.',
+    'After pegging, count your hand: 15s (2 pts), pairs (2 pts), runs (length), flushes (4-5 pts), and nobs (Jack of starter suit, 1 pt).',
+    'Non-dealer counts first, then dealer, then dealer counts the crib.',
+    'First player to reach 121 points wins — even mid-count!',
+  ],
+  options: [],
+  engine: cribbageEngine,
+});
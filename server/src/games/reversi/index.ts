@@ -1,12 +1,16 @@
-import { GameEngine, Position } from '../../types';
+import { BotDifficulty, GameEngine, GameOptions, Position } from '../../types';
+import { isRecord, isPosition, toPosition } from '../schema';
+import { assignSeats } from '../seats';
+import { createRng } from '../random';
+import { SearchGame, WIN_SCORE, searchMove } from '../../bots';
 
 // ---- Reversi Types ----
 
 export type ReversiColor = 'black' | 'white';
 
 export interface ReversiMove {
-  from: Position; // unused, will be {row:0,col:0}
-  to: Position;   // the position to place a piece
+  type: 'place';
+  position: Position; // the position to place a piece
 }
 
 export interface ReversiState {
@@ -176,12 +180,65 @@ function isBoardFull(board: (ReversiColor | null)[][]): boolean {
   return true;
 }
 
+// ---- Computer Opponent ----
+
+const BOT_DEPTH: Record<BotDifficulty, number> = { easy: 1, medium: 3, hard: 5 };
+
+// Classic square weights: corners are permanent, squares next to them give corners away
+const SQUARE_WEIGHTS: number[][] = [
+  [100, -20, 10, 5, 5, 10, -20, 100],
+  [-20, -50, -2, -2, -2, -2, -50, -20],
+  [10, -2, 1, 1, 1, 1, -2, 10],
+  [5, -2, 1, 0, 0, 1, -2, 5],
+  [5, -2, 1, 0, 0, 1, -2, 5],
+  [10, -2, 1, 1, 1, 1, -2, 10],
+  [-20, -50, -2, -2, -2, -2, -50, -20],
+  [100, -20, 10, 5, 5, 10, -20, 100],
+];
+
+function botSearch(botColor: ReversiColor): SearchGame<ReversiState, ReversiMove> {
+  const opponent = getOpponent(botColor);
+
+  const finalScore = (state: ReversiState): number => {
+    const diff = state.scores[botColor] - state.scores[opponent];
+    return diff > 0 ? WIN_SCORE : diff < 0 ? -WIN_SCORE : 0;
+  };
+
+  return {
+    moves: state =>
+      [...state.validMoves]
+        .sort((a, b) => SQUARE_WEIGHTS[b.row][b.col] - SQUARE_WEIGHTS[a.row][a.col])
+        .map(position => ({ type: 'place', position })),
+    play: (state, move) => reversiEngine.applyMove(state, state.players[state.currentTurn], move),
+    botToMove: state => state.currentTurn === botColor,
+    evaluate: state => {
+      if (state.validMoves.length === 0) return finalScore(state);
+
+      let score = 0;
+      for (let row = 0; row < BOARD_SIZE; row++) {
+        for (let col = 0; col < BOARD_SIZE; col++) {
+          const cell = state.board[row][col];
+          if (cell === botColor) score += SQUARE_WEIGHTS[row][col];
+          else if (cell === opponent) score -= SQUARE_WEIGHTS[row][col];
+        }
+      }
+      // Mobility: having more moves than the opponent is worth a little
+      const mobility = state.validMoves.length * 5;
+      return score + (state.currentTurn === botColor ? mobility : -mobility);
+    },
+    finalScore,
+  };
+}
+
 // ---- Game Engine ----
 
+const SEATS: readonly ReversiColor[] = ['black', 'white']; // in turn order
+
 export const reversiEngine: GameEngine<ReversiState, ReversiMove> = {
-  initGame(playerIds: [string, string]): ReversiState {
+  initGame(playerIds: string[], _options?: GameOptions, firstPlayer?: string, seed?: number): ReversiState {
     // Randomly assign colors
-    const shuffled = Math.random() < 0.5 ? playerIds : [playerIds[1], playerIds[0]];
+    const players = assignSeats(playerIds, SEATS, firstPlayer, createRng(seed));
+
     const board = createInitialBoard();
     const scores = countPieces(board);
     const validMoves = getValidMovesForPlayer(board, 'black');
@@ -189,10 +246,7 @@ export const reversiEngine: GameEngine<ReversiState, ReversiMove> = {
     return {
       board,
       currentTurn: 'black', // black always goes first in Reversi
-      players: {
-        black: shuffled[0],
-        white: shuffled[1],
-      },
+      players,
       winner: null,
       winReason: null,
       scores,
@@ -203,6 +257,11 @@ export const reversiEngine: GameEngine<ReversiState, ReversiMove> = {
     };
   },
 
+  parseMove(data: unknown): ReversiMove | null {
+    if (!isRecord(data) || data.type !== 'place' || !isPosition(data.position)) return null;
+    return { type: 'place', position: toPosition(data.position) };
+  },
+
   validateMove(state: ReversiState, playerId: string, move: ReversiMove): string | null {
     if (state.winner) return 'Game is already over';
 
@@ -210,7 +269,7 @@ export const reversiEngine: GameEngine<ReversiState, ReversiMove> = {
     if (!color) return 'You are not a player in this game';
     if (color !== state.currentTurn) return 'It is not your turn';
 
-    const { row, col } = move.to;
+    const { row, col } = move.position;
 
     // Validate position bounds
     if (!isInBounds(row, col) || !Number.isInteger(row) || !Number.isInteger(col)) {
@@ -233,7 +292,7 @@ export const reversiEngine: GameEngine<ReversiState, ReversiMove> = {
 
   applyMove(state: ReversiState, playerId: string, move: ReversiMove): ReversiState {
     const color = getPlayerColor(state, playerId)!;
-    const { row, col } = move.to;
+    const { row, col } = move.position;
     const newBoard = cloneBoard(state.board);
 
     // Get all cells to flip
@@ -337,4 +396,13 @@ export const reversiEngine: GameEngine<ReversiState, ReversiMove> = {
       };
     }
   },
+
+  getActivePlayers(state: ReversiState): string[] {
+    return state.winner ? [] : [state.players[state.currentTurn]];
+  },
+
+  chooseMove(state: ReversiState, playerId: string, difficulty: BotDifficulty): ReversiMove {
+    const color = getPlayerColor(state, playerId)!;
+    return searchMove(botSearch(color), state, BOT_DEPTH[difficulty], difficulty);
+  },
 };
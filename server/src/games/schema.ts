@@ -0,0 +1,21 @@
+import { Position } from '../types';
+
+// ---- Move Payload Guards ----
+// Shared by each engine's parseMove to check untrusted socket payloads.
+
+export function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+export function isInteger(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value);
+}
+
+export function isPosition(value: unknown): value is Position {
+  return isRecord(value) && isInteger(value.row) && isInteger(value.col);
+}
+
+/** Copy a position so engines never hold on to the client's object. */
+export function toPosition(value: Position): Position {
+  return { row: value.row, col: value.col };
+}
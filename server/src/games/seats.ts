@@ -0,0 +1,41 @@
+import { Rng, createRng, shuffle } from './random';
+
+// ---- Seats and Turn Order ----
+// Engines name their seats (colours, marks, player numbers) and list them in
+// turn order; these helpers deal players into those seats and pass the turn
+// around, so nothing outside an engine assumes there are exactly two.
+
+/**
+ * Deal the players into the seats in random order, one player per seat.
+ * `first`, when given, always gets the first seat (the one that moves first).
+ * Pass the game's seeded generator to make the deal reproducible.
+ */
+export function assignSeats<S extends string | number>(
+  playerIds: readonly string[],
+  seats: readonly S[],
+  first?: string,
+  rng: Rng = createRng(),
+): Record<S, string> {
+  if (playerIds.length !== seats.length) {
+    throw new Error(`Expected ${seats.length} players, got ${playerIds.length}`);
+  }
+  if (first !== undefined && !playerIds.includes(first)) {
+    throw new Error(`Unknown first player: ${first}`);
+  }
+
+  const shuffled = shuffle(playerIds.filter(id => id !== first), rng);
+  if (first !== undefined) shuffled.unshift(first);
+
+  const assignment = {} as Record<S, string>;
+  seats.forEach((seat, i) => {
+    assignment[seat] = shuffled[i];
+  });
+  return assignment;
+}
+
+/** The seat that plays after `current`, wrapping around the table. */
+export function nextSeat<S>(order: readonly S[], current: S): S {
+  const index = order.indexOf(current);
+  if (index === -1) throw new Error(`Unknown seat: ${String(current)}`);
+  return order[(index + 1) % order.length];
+}
@@ -1,12 +1,16 @@
-import { GameEngine, Position } from '../../types';
+import { BotDifficulty, GameEngine, GameOptions, Position } from '../../types';
+import { isRecord, isPosition, toPosition } from '../schema';
+import { assignSeats, nextSeat } from '../seats';
+import { createRng } from '../random';
+import { SearchGame, WIN_SCORE, searchMove } from '../../bots';
 
 // ---- Tic-Tac-Toe Types ----
 
 export type TicTacToeMark = 'X' | 'O';
 
 export interface TicTacToeMove {
-  from: Position; // unused, kept for interface consistency
-  to: Position;   // the cell to place the mark in
+  type: 'place';
+  position: Position; // the cell to place the mark in
 }
 
 export interface TicTacToeState {
@@ -81,25 +85,61 @@ function findWinningLine(board: (TicTacToeMark | null)[][]): { mark: TicTacToeMa
   return null;
 }
 
+// ---- Computer Opponent ----
+
+// The whole game tree is small enough for the hard bot to search to the end
+const BOT_DEPTH: Record<BotDifficulty, number> = { easy: 1, medium: 3, hard: 9 };
+
+function botSearch(botMark: TicTacToeMark): SearchGame<TicTacToeState, TicTacToeMove> {
+  // Only finished games score: a win, a loss, or nothing yet
+  const score = (state: TicTacToeState): number => {
+    const line = findWinningLine(state.board);
+    if (!line) return 0;
+    return line.mark === botMark ? WIN_SCORE : -WIN_SCORE;
+  };
+
+  return {
+    moves: state => {
+      if (findWinningLine(state.board)) return [];
+      const moves: TicTacToeMove[] = [];
+      for (let row = 0; row < SIZE; row++) {
+        for (let col = 0; col < SIZE; col++) {
+          if (state.board[row][col] === null) moves.push({ type: 'place', position: { row, col } });
+        }
+      }
+      return moves;
+    },
+    play: (state, move) => tictactoeEngine.applyMove(state, state.players[state.currentTurn], move),
+    botToMove: state => state.currentTurn === botMark,
+    evaluate: score,
+    finalScore: score,
+  };
+}
+
 // ---- Game Engine ----
 
+const SEATS: readonly TicTacToeMark[] = ['X', 'O']; // in turn order
+
 export const tictactoeEngine: GameEngine<TicTacToeState, TicTacToeMove> = {
-  initGame(playerIds: [string, string]): TicTacToeState {
+  initGame(playerIds: string[], _options?: GameOptions, firstPlayer?: string, seed?: number): TicTacToeState {
     // Randomly assign X and O
-    const shuffled = Math.random() < 0.5 ? playerIds : [playerIds[1], playerIds[0]];
+    const players = assignSeats(playerIds, SEATS, firstPlayer, createRng(seed));
+
     return {
       board: createEmptyBoard(),
       currentTurn: 'X', // X always goes first
-      players: {
-        X: shuffled[0],
-        O: shuffled[1],
-      },
+      players,
       winner: null,
       winReason: null,
       winningCells: null,
     };
   },
 
+  parseMove(data: unknown): TicTacToeMove | null {
+    if (!isRecord(data) || data.type !== 'place' || !isPosition(data.position)) return null;
+    return { type: 'place', position: toPosition(data.position) };
+  },
+
   validateMove(state: TicTacToeState, playerId: string, move: TicTacToeMove): string | null {
     if (state.winner) return 'Game is already over';
 
@@ -107,7 +147,7 @@ export const tictactoeEngine: GameEngine<TicTacToeState, TicTacToeMove> = {
     if (!mark) return 'You are not a player in this game';
     if (mark !== state.currentTurn) return 'It is not your turn';
 
-    const { row, col } = move.to;
+    const { row, col } = move.position;
 
     // Validate bounds
     if (
@@ -126,13 +166,13 @@ export const tictactoeEngine: GameEngine<TicTacToeState, TicTacToeMove> = {
   },
 
   applyMove(state: TicTacToeState, playerId: string, move: TicTacToeMove): TicTacToeState {
-    const { row, col } = move.to;
+    const { row, col } = move.position;
     const mark = getPlayerMark(state, playerId)!;
     const newBoard = cloneBoard(state.board);
 
     newBoard[row][col] = mark;
 
-    const nextTurn: TicTacToeMark = state.currentTurn === 'X' ? 'O' : 'X';
+    const nextTurn = nextSeat(SEATS, state.currentTurn);
 
     // Detect winning line after placing the mark
     const winLine = findWinningLine(newBoard);
@@ -177,4 +217,13 @@ export const tictactoeEngine: GameEngine<TicTacToeState, TicTacToeMove> = {
 
     return null;
   },
+
+  getActivePlayers(state: TicTacToeState): string[] {
+    return state.winner ? [] : [state.players[state.currentTurn]];
+  },
+
+  chooseMove(state: TicTacToeState, playerId: string, difficulty: BotDifficulty): TicTacToeMove {
+    const mark = getPlayerMark(state, playerId)!;
+    return searchMove(botSearch(mark), state, BOT_DEPTH[difficulty], difficulty);
+  },
 };
@@ -0,0 +1,146 @@
+import { describe, it, expect } from 'vitest';
+import { Room } from '../types';
+import { makeRoom } from '../testing';
+import { tictactoeEngine, TicTacToeMove, TicTacToeState } from '../games/tictactoe';
+import {
+  MAX_COMMENT_LENGTH,
+  annotateMove,
+  hashState,
+  listMoves,
+  parseAnnotation,
+  recordMove,
+  resetHistory,
+  rollback,
+  takebackLength,
+} from './index';
+
+const P1 = 'player-1';
+const P2 = 'player-2';
+
+function startRoom(initialState: unknown = tictactoeEngine.initGame([P1, P2])): Room {
+  const room = makeRoom({ creatorId: P1, gameState: initialState });
+  resetHistory(room);
+  return room;
+}
+
+function play(room: Room, playerId: string, row: number, col: number) {
+  const move: TicTacToeMove = { type: 'place', position: { row, col } };
+  room.gameState = tictactoeEngine.applyMove(room.gameState as TicTacToeState, playerId, move);
+  return recordMove(room, playerId, move);
+}
+
+// ============================================================
+// Recording
+// ============================================================
+
+describe('recordMove', () => {
+  it('logs the move, player and resulting state hash', () => {
+    const room = startRoom();
+    const record = play(room, P1, 1, 1);
+
+    expect(room.moveHistory).toEqual([record]);
+    expect(record.playerId).toBe(P1);
+    expect(record.move).toEqual({ type: 'place', position: { row: 1, col: 1 } });
+    expect(record.stateHash).toBe(hashState(room.gameState));
+    expect(room.stateHistory).toHaveLength(2);
+  });
+
+  it('hashes equal states identically', () => {
+    // Seats are assigned randomly, so both rooms start from the same deal
+    const a = startRoom();
+    const b = startRoom(structuredClone(a.gameState));
+    expect(play(a, P1, 0, 0).stateHash).toBe(play(b, P1, 0, 0).stateHash);
+    expect(play(a, P2, 2, 2).stateHash).not.toBe(play(b, P2, 1, 1).stateHash);
+  });
+});
+
+// ============================================================
+// Takebacks
+// ============================================================
+
+describe('takeback', () => {
+  it('has nothing to take back before a player moves', () => {
+    const room = startRoom();
+    expect(takebackLength(room, P1)).toBe(0);
+    play(room, P1, 0, 0);
+    expect(takebackLength(room, P2)).toBe(0);
+  });
+
+  it('undoes just the last move when the requester moved last', () => {
+    const room = startRoom();
+    play(room, P1, 0, 0);
+    const afterFirst = room.gameState;
+    play(room, P2, 1, 1);
+
+    const count = takebackLength(room, P2);
+    expect(count).toBe(1);
+    rollback(room, count);
+
+    expect(room.gameState).toEqual(afterFirst);
+    expect(room.moveHistory).toHaveLength(1);
+    expect(room.stateHistory).toHaveLength(2);
+  });
+
+  it('undoes the opponent reply too when the requester moved earlier', () => {
+    const room = startRoom();
+    const initial = room.gameState;
+    play(room, P1, 0, 0);
+    play(room, P2, 1, 1);
+
+    const count = takebackLength(room, P1);
+    expect(count).toBe(2);
+    rollback(room, count);
+
+    expect(room.gameState).toEqual(initial);
+    expect(room.moveHistory).toEqual([]);
+    expect(room.stateHistory).toEqual([initial]);
+  });
+});
+
+// ============================================================
+// Annotations
+// ============================================================
+
+describe('annotations', () => {
+  const notated = {
+    ...tictactoeEngine,
+    describeMove: (_state: TicTacToeState, move: TicTacToeMove) => `${move.position.row}${move.position.col}`,
+  };
+
+  it('accepts glyphs and comments, and reads an empty one as clearing', () => {
+    expect(parseAnnotation({ glyph: '??', comment: '  hangs the corner ' })).toEqual({
+      glyph: '??',
+      comment: 'hangs the corner',
+    });
+    expect(parseAnnotation({ glyph: '!' })).toEqual({ glyph: '!', comment: '' });
+    expect(parseAnnotation({ glyph: null, comment: ' ' })).toBeNull();
+    expect(parseAnnotation({ glyph: '?!' })).toBe('Unknown annotation glyph');
+    expect(parseAnnotation({ comment: 42 })).toBe('Comment must be text');
+    expect(parseAnnotation({ comment: 'x'.repeat(MAX_COMMENT_LENGTH + 1) })).toMatch(/limited/);
+    expect(parseAnnotation('!')).toBe('Invalid annotation');
+  });
+
+  it('lists the moves with their annotations', () => {
+    const room = startRoom();
+    play(room, P1, 1, 1);
+    play(room, P2, 0, 0);
+
+    expect(annotateMove(room, 1, { glyph: '?', comment: 'the edge was better' })).toBeNull();
+    expect(listMoves(room, notated)).toEqual([
+      { label: '11', playerId: P1, annotation: null },
+      { label: '00', playerId: P2, annotation: { glyph: '?', comment: 'the edge was better' } },
+    ]);
+
+    annotateMove(room, 1, null);
+    expect(room.moveHistory[1].annotation).toBeUndefined();
+  });
+
+  it('refuses moves that were not played and games without notation', () => {
+    const room = startRoom();
+    play(room, P1, 1, 1);
+    expect(annotateMove(room, 1, { glyph: '!', comment: '' })).toBe('No such move');
+    expect(annotateMove(room, -1, null)).toBe('No such move');
+    expect(annotateMove(room, '0', null)).toBe('No such move');
+    expect(listMoves(room, tictactoeEngine)).toBeNull();
+  });
+});
@@ -0,0 +1,91 @@
+import { createHash } from 'crypto';
+import { AnnotationGlyph, GameEngine, GameMove, MoveAnnotation, MoveListEntry, MoveRecord, Room } from '../types';
+import { isInteger, isRecord } from '../games/schema';
+
+// ---- Move History ----
+// Every applied move is logged with a snapshot of the state it produced, so a
+// takeback can restore an earlier position without the engine's help (and
+// without replaying dice rolls or shuffles).
+
+export function hashState(state: unknown): string {
+  return createHash('sha1').update(JSON.stringify(state)).digest('hex');
+}
+
+/** Start a fresh log from the room's current (initial) game state. */
+export function resetHistory(room: Room): void {
+  room.moveHistory = [];
+  room.stateHistory = [room.gameState];
+  room.gameStartedAt = Date.now();
+  room.pendingTakeback = null;
+}
+
+/** Log a move that has just been applied to room.gameState. */
+export function recordMove(room: Room, playerId: string, move: GameMove): MoveRecord {
+  const record: MoveRecord = {
+    move,
+    playerId,
+    timestamp: Date.now(),
+    stateHash: hashState(room.gameState),
+  };
+  room.moveHistory.push(record);
+  room.stateHistory.push(room.gameState);
+  return record;
+}
+
+/**
+ * How many moves a takeback by this player would undo: everything back to and
+ * including their most recent move. 0 means they have nothing to take back.
+ */
+export function takebackLength(room: Room, playerId: string): number {
+  for (let i = room.moveHistory.length - 1; i >= 0; i--) {
+    if (room.moveHistory[i].playerId === playerId) {
+      return room.moveHistory.length - i;
+    }
+  }
+  return 0;
+}
+
+/** Drop the last `count` moves and restore the state before them. */
+export function rollback(room: Room, count: number): void {
+  const keep = room.moveHistory.length - count;
+  room.moveHistory.splice(keep);
+  room.stateHistory.splice(keep + 1);
+  room.gameState = room.stateHistory[keep];
+}
+
+// ---- Annotations ----
+// Once a game is over its players can mark up the move list for review: a
+// glyph judging a move and a free-text comment, kept on the move's record.
+
+export const ANNOTATION_GLYPHS: readonly AnnotationGlyph[] = ['!!', '!', '?', '??'];
+export const MAX_COMMENT_LENGTH = 500;
+
+/** Validate a client-supplied annotation; null clears the move's annotation. */
+export function parseAnnotation(data: unknown): MoveAnnotation | null | string {
+  if (!isRecord(data)) return 'Invalid annotation';
+  const glyph = ANNOTATION_GLYPHS.find(g => g === data.glyph) ?? null;
+  if (glyph === null && data.glyph !== null && data.glyph !== undefined) return 'Unknown annotation glyph';
+  if (data.comment !== undefined && typeof data.comment !== 'string') return 'Comment must be text';
+  const comment = (data.comment ?? '').trim();
+  if (comment.length > MAX_COMMENT_LENGTH) return `Comments are limited to ${MAX_COMMENT_LENGTH} characters`;
+  return glyph || comment ? { glyph, comment } : null;
+}
+
+/** Set or clear the annotation on the move at `index`; the error when there is no such move. */
+export function annotateMove(room: Room, index: unknown, annotation: MoveAnnotation | null): string | null {
+  if (!isInteger(index) || index < 0 || index >= room.moveHistory.length) return 'No such move';
+  const record = room.moveHistory[index];
+  if (annotation) record.annotation = annotation;
+  else delete record.annotation;
+  return null;
+}
+
+/** The room's moves in the engine's notation, with their annotations; null when it has none. */
+export function listMoves<TState, TMove>(room: Room, engine: GameEngine<TState, TMove>): MoveListEntry[] | null {
+  if (!engine.describeMove) return null;
+  return room.moveHistory.map((record, i) => ({
+    label: engine.describeMove!(room.stateHistory[i] as TState, record.move as TMove),
+    playerId: record.playerId,
+    annotation: record.annotation ?? null,
+  }));
+}
@@ -3,24 +3,69 @@ import { createServer } from 'http';
 import { Server } from 'socket.io';
 import cors from 'cors';
 import {
+  Account,
   ClientToServerEvents,
   ServerToClientEvents,
+  GameMove,
+  GameOptions,
+  GameResult,
   GameType,
-  GameEngine,
-  Position,
+  LeaderboardEntry,
+  MatchState,
+  Player,
+  Room,
+  RatingChange,
+  RoomRole,
+  Tournament,
+  TournamentRound,
 } from './types';
 import {
   createRoom,
+  deleteRoom,
   getRoom,
   getActiveRoomCount,
   joinRoom,
+  addBot,
+  removePlayerFromRoom,
   reconnectPlayer,
   disconnectPlayer,
   findRoomBySocketId,
+  findSpectatorBySocketId,
   addChatMessage,
   getPlayersInfo,
+  getSpectatorsInfo,
+  setAllowSpectators,
   updateSocketIndex,
+  listRooms,
+  initRoomStorage,
+  saveRoom,
 } from './rooms';
+import {
+  createAccountStoreFromEnv,
+  createArchiveStoreFromEnv,
+  createRatingStoreFromEnv,
+  createReplayStoreFromEnv,
+  createStoreFromEnv,
+  createTournamentStoreFromEnv,
+} from './storage';
+import {
+  annotateMove,
+  listMoves,
+  parseAnnotation,
+  recordMove,
+  resetHistory,
+  rollback,
+  takebackLength,
+} from './history';
+import {
+  clockView,
+  createClock,
+  nextTimeout,
+  parseTimeControl,
+  remainingTime,
+  stopClock,
+  updateClock,
+} from './clock';
 import {
   getStats,
   incrementRoomsCreated,
@@ -28,36 +73,79 @@ import {
   incrementGamesCompleted,
   incrementMovesMade,
 } from './stats';
-import { checkersEngine } from './games/checkers';
-import { chessEngine } from './games/chess';
-import { connect4Engine } from './games/connect4';
-import { reversiEngine } from './games/reversi';
-import { tictactoeEngine } from './games/tictactoe';
-import { gomokuEngine } from './games/gomoku';
-import { mancalaEngine } from './games/mancala';
-import { dotsboxesEngine } from './games/dotsboxes';
-import { navalbattleEngine } from './games/navalbattle';
-import { goEngine } from './games/go';
-import { backgammonEngine } from './games/backgammon';
-import { cribbageEngine } from './games/cribbage';
-
-function getEngine(gameType: GameType): GameEngine<unknown, { from: Position; to: Position }> {
-  switch (gameType) {
-    case 'checkers': return checkersEngine;
-    case 'chess': return chessEngine;
-    case 'connect4': return connect4Engine;
-    case 'reversi': return reversiEngine;
-    case 'tictactoe': return tictactoeEngine;
-    case 'gomoku': return gomokuEngine;
-    case 'mancala': return mancalaEngine;
-    case 'dotsboxes': return dotsboxesEngine;
-    case 'navalbattle': return navalbattleEngine;
-    case 'go': return goEngine;
-    case 'backgammon': return backgammonEngine;
-    case 'cribbage': return cribbageEngine;
-    default: throw new Error(`Unknown game type: ${gameType}`);
-  }
+import {
+  getEngine,
+  getGameDefinition,
+  isRegisteredGame,
+  listGames,
+  resolveGameOptions,
+  toGameInfo,
+  validateSeatCount,
+} from './games/registry';
+import { createRng, parseSeed, randomSeed } from './games/random';
+import { isBotDifficulty } from './bots';
+import { QueueEntry, joinQueue, leaveQueue, listPublicRooms } from './lobby';
+import { annotateReplay, getReplay, initReplayStorage, saveReplay } from './replays';
+import {
+  getAccount,
+  getAccountIdForToken,
+  initAccountStorage,
+  registerAccount,
+  signIn,
+  signOut,
+  toAccountInfo,
+} from './accounts';
+import { getLeaderboard, getRatingsForAccount, initRatingStorage, recordRatedGame } from './ratings';
+import {
+  createMatch,
+  describeMatchScore,
+  matchFirstPlayer,
+  nextMatchGameType,
+  parseMatchFormat,
+  recordMatchGame,
+} from './match';
+import {
+  archiveGame,
+  getArchivedGame,
+  getHeadToHead,
+  initArchiveStorage,
+  listGamesForAccount,
+  toSummary,
+} from './archive';
+import {
+  createTournament,
+  getStandings,
+  getTournament,
+  initTournamentStorage,
+  joinTournament,
+  leaveTournament,
+  listTournaments,
+  recordTournamentGame,
+  saveTournament,
+  startTournament,
+} from './tournaments';
+import {
+  gameOverNotifications,
+  isCorrespondenceRoom,
+  listCorrespondenceGames,
+  turnNotifications,
+} from './correspondence';
+import { createNotifierFromEnv, initNotifier, notify } from './notify';
+
+const restoredRooms = initRoomStorage(createStoreFromEnv());
+if (restoredRooms > 0) {
+  console.log(`Restored ${restoredRooms} room(s) from storage`);
+}
+
+const accountCount = initAccountStorage(createAccountStoreFromEnv());
+if (accountCount > 0) {
+  console.log(`Loaded ${accountCount} account(s) from storage`);
 }
+initRatingStorage(createRatingStoreFromEnv());
+initArchiveStorage(createArchiveStoreFromEnv());
+initReplayStorage(createReplayStoreFromEnv());
+initTournamentStorage(createTournamentStoreFromEnv());
+initNotifier(createNotifierFromEnv());
 
 const PORT = parseInt(process.env.PORT || '3001', 10);
 const CLIENT_URL = process.env.CLIENT_URL || 'http://localhost:3000';
@@ -80,6 +168,16 @@ app.get('/health', (_req, res) => {
   res.json({ status: 'ok' });
 });
 
+// Public rooms waiting for players (the live version is the lobby:rooms event)
+app.get('/api/rooms', (req, res) => {
+  const { gameType } = req.query;
+  if (gameType !== undefined && !isRegisteredGame(gameType)) {
+    res.status(400).json({ error: 'Invalid game type' });
+    return;
+  }
+  res.json(listPublicRooms(listRooms(), gameType));
+});
+
 // REST endpoint for checking room status (used when loading join page)
 app.get('/api/rooms/:code', (req, res) => {
   const room = getRoom(req.params.code);
@@ -87,26 +185,268 @@ app.get('/api/rooms/:code', (req, res) => {
     res.status(404).json({ error: 'Room not found' });
     return;
   }
+  // A signed-in player who already holds a seat can go straight back to it
+  const accountId = getAccountIdForToken(bearerToken(req));
+  const seated = accountId !== null && [...room.players, ...room.spectators].some(p => p.accountId === accountId);
   res.json({
     code: room.code,
     gameType: room.gameType,
     status: room.status,
     playerCount: room.players.length,
-    isFull: room.players.length >= 2,
+    isFull: room.players.length >= getGameDefinition(room.gameType).maxPlayers,
+    allowSpectators: room.allowSpectators,
+    spectatorCount: room.spectators.length,
+    seated,
+  });
+});
+
+// ---- Accounts ----
+
+/** The sign-in token from an `Authorization: Bearer <token>` header, if any. */
+function bearerToken(req: express.Request): string | undefined {
+  const header = req.headers.authorization;
+  return header?.startsWith('Bearer ') ? header.slice('Bearer '.length) : undefined;
+}
+
+app.post('/api/accounts', (req, res) => {
+  const result = registerAccount(req.body?.username, req.body?.password);
+  if ('error' in result) {
+    res.status(400).json({ error: result.error });
+    return;
+  }
+  res.status(201).json({ token: result.token, account: toAccountInfo(result.account) });
+});
+
+app.post('/api/accounts/login', (req, res) => {
+  const result = signIn(req.body?.username, req.body?.password, req.ip ?? '');
+  if ('error' in result) {
+    res.status(result.locked ? 429 : 401).json({ error: result.error });
+    return;
+  }
+  res.json({ token: result.token, account: toAccountInfo(result.account) });
+});
+
+app.post('/api/accounts/logout', (req, res) => {
+  const token = bearerToken(req);
+  if (token) signOut(token);
+  res.status(204).end();
+});
+
+/** The signed-in account behind a request; replies 401 with `message` and returns null for guests. */
+function requireAccount(req: express.Request, res: express.Response, message: string) {
+  const accountId = getAccountIdForToken(bearerToken(req));
+  const account = accountId ? getAccount(accountId) : null;
+  if (!account) res.status(401).json({ error: message });
+  return account;
+}
+
+app.get('/api/accounts/me', (req, res) => {
+  const accountId = getAccountIdForToken(bearerToken(req));
+  const account = accountId ? getAccount(accountId) : null;
+  if (!account) {
+    res.status(401).json({ error: 'Not signed in' });
+    return;
+  }
+  res.json(toAccountInfo(account));
+});
+
+app.get('/api/accounts/:id', (req, res) => {
+  const account = getAccount(req.params.id);
+  if (!account) {
+    res.status(404).json({ error: 'Account not found' });
+    return;
+  }
+  res.json(toAccountInfo(account));
+});
+
+// An account's rating in every game it has played rated
+app.get('/api/accounts/:id/ratings', (req, res) => {
+  if (!getAccount(req.params.id)) {
+    res.status(404).json({ error: 'Account not found' });
+    return;
+  }
+  res.json(getRatingsForAccount(req.params.id));
+});
+
+// ---- Game History ----
+
+const HISTORY_DEFAULT = 50;
+const HISTORY_MAX = 200;
+
+// An account's finished games, newest first; `before` (a finishedAt) pages back
+app.get('/api/accounts/:id/games', (req, res) => {
+  if (!getAccount(req.params.id)) {
+    res.status(404).json({ error: 'Account not found' });
+    return;
+  }
+  const { gameType, before } = req.query;
+  if (gameType !== undefined && !isRegisteredGame(gameType)) {
+    res.status(400).json({ error: 'Invalid game type' });
+    return;
+  }
+  const limit = Math.min(Number(req.query.limit) || HISTORY_DEFAULT, HISTORY_MAX);
+  const games = listGamesForAccount(req.params.id, {
+    gameType,
+    limit,
+    before: before !== undefined ? Number(before) || undefined : undefined,
+  });
+  res.json(games.map(toSummary));
+});
+
+app.get('/api/accounts/:id/head-to-head/:opponentId', (req, res) => {
+  if (!getAccount(req.params.id) || !getAccount(req.params.opponentId)) {
+    res.status(404).json({ error: 'Account not found' });
+    return;
+  }
+  const { gameType } = req.query;
+  if (gameType !== undefined && !isRegisteredGame(gameType)) {
+    res.status(400).json({ error: 'Invalid game type' });
+    return;
+  }
+  res.json(getHeadToHead(req.params.id, req.params.opponentId, gameType));
+});
+
+// One archived game, including its final position
+app.get('/api/archive/:id', (req, res) => {
+  const game = getArchivedGame(req.params.id);
+  if (!game) {
+    res.status(404).json({ error: 'Game not found' });
+    return;
+  }
+  res.json(game);
+});
+
+// ---- Leaderboards ----
+
+const LEADERBOARD_DEFAULT = 50;
+const LEADERBOARD_MAX = 100;
+
+app.get('/api/ratings/:gameType', (req, res) => {
+  const { gameType } = req.params;
+  if (!isRegisteredGame(gameType)) {
+    res.status(400).json({ error: 'Invalid game type' });
+    return;
+  }
+  const limit = Math.min(Number(req.query.limit) || LEADERBOARD_DEFAULT, LEADERBOARD_MAX);
+  const entries: LeaderboardEntry[] = getLeaderboard(gameType, limit).map((r, i) => ({
+    rank: i + 1,
+    accountId: r.accountId,
+    username: getAccount(r.accountId)?.username ?? 'Unknown',
+    rating: Math.round(r.rating),
+    rd: Math.round(r.rd),
+    games: r.games,
+    wins: r.wins,
+    losses: r.losses,
+    draws: r.draws,
+  }));
+  res.json(entries);
+});
+
+// ---- Tournaments ----
+
+const TOURNAMENT_SIGN_IN = 'Sign in to take part in tournaments';
+
+function tournamentView(tournament: Tournament) {
+  return { tournament, standings: getStandings(tournament) };
+}
+
+app.get('/api/tournaments', (_req, res) => {
+  res.json(listTournaments());
+});
+
+app.post('/api/tournaments', (req, res) => {
+  const account = requireAccount(req, res, TOURNAMENT_SIGN_IN);
+  if (!account) return;
+  const result = createTournament(account.id, req.body ?? {});
+  if ('error' in result) {
+    res.status(400).json({ error: result.error });
+    return;
+  }
+  res.status(201).json(tournamentView(result));
+});
+
+app.get('/api/tournaments/:id', (req, res) => {
+  const tournament = getTournament(req.params.id);
+  if (!tournament) {
+    res.status(404).json({ error: 'Tournament not found' });
+    return;
+  }
+  res.json(tournamentView(tournament));
+});
+
+/**
+ * Apply a signed-in participant's change to a tournament and push the new
+ * state to everyone following it.
+ */
+function updateTournament(
+  id: string,
+  req: express.Request,
+  res: express.Response,
+  change: (id: string, account: Account) => Tournament | { error: string },
+): void {
+  if (!getTournament(id)) {
+    res.status(404).json({ error: 'Tournament not found' });
+    return;
+  }
+  const account = requireAccount(req, res, TOURNAMENT_SIGN_IN);
+  if (!account) return;
+  const result = change(id, account);
+  if ('error' in result) {
+    res.status(400).json({ error: result.error });
+    return;
+  }
+  broadcastTournament(result);
+  res.json(tournamentView(result));
+}
+
+app.post('/api/tournaments/:id/join', (req, res) => {
+  updateTournament(req.params.id, req, res, (id, account) => joinTournament(id, account.id, account.username));
+});
+
+// Withdraw before the tournament starts
+app.post('/api/tournaments/:id/leave', (req, res) => {
+  updateTournament(req.params.id, req, res, (id, account) => leaveTournament(id, account.id));
+});
+
+// Organizer only: close registration and open the first round's rooms
+app.post('/api/tournaments/:id/start', (req, res) => {
+  updateTournament(req.params.id, req, res, (id, account) => {
+    const started = startTournament(id, account.id);
+    if ('error' in started) return started;
+    openTournamentRound(started.tournament, started.round);
+    return started.tournament;
   });
 });
 
+// ---- Correspondence ----
+
+// The signed-in player's unfinished correspondence games, the ones waiting on their move first
+app.get('/api/correspondence', (req, res) => {
+  const account = requireAccount(req, res, 'Sign in to see your correspondence games');
+  if (!account) return;
+  res.json(listCorrespondenceGames(listRooms(), account.id));
+});
+
+// A finished game for the replay viewer
+app.get('/api/replays/:id', (req, res) => {
+  const replay = getReplay(req.params.id);
+  if (!replay) {
+    res.status(404).json({ error: 'Replay not found' });
+    return;
+  }
+  res.json(replay);
+});
+
+// Game catalogue (used by the client's game picker)
+app.get('/api/games', (_req, res) => {
+  res.json(listGames().map(toGameInfo));
+});
+
 // Stats endpoint
 app.get('/api/stats', (_req, res) => {
   res.json({ ...getStats(), activeRooms: getActiveRoomCount() });
 });
 
-// Valid game types (must match GameType union)
-const VALID_GAME_TYPES: Set<string> = new Set([
-  'checkers', 'chess', 'connect4', 'reversi', 'tictactoe', 'gomoku',
-  'mancala', 'dotsboxes', 'navalbattle', 'go', 'backgammon', 'cribbage',
-]);
-
 // Rate limiting
 const lastEventTime = new Map<string, number>();
 
@@ -121,14 +461,710 @@ function isRateLimited(socketId: string, minIntervalMs = 100): boolean {
 // Disconnection timers
 const disconnectTimers = new Map<string, NodeJS.Timeout>();
 
+// How long a player who drops out of a game in progress has to come back
+const DISCONNECT_FORFEIT_MS = 60_000;
+
+/** Forfeit the game for a disconnected player unless they reconnect in time. */
+function scheduleDisconnectForfeit(room: Room, player: Player): void {
+  const timerId = `${room.code}:${player.id}`;
+  clearTimeout(disconnectTimers.get(timerId));
+  const timer = setTimeout(() => {
+    disconnectTimers.delete(timerId);
+
+    // Check if still disconnected
+    const currentRoom = getRoom(room.code);
+    if (!currentRoom) return;
+
+    if (currentRoom.status !== 'playing') return;
+
+    const disconnectedPlayer = currentRoom.players.find(p => p.id === player.id);
+    if (!disconnectedPlayer || disconnectedPlayer.connected) return;
+
+    // Forfeit — the other player wins
+    const reason = `${player.name} disconnected (forfeit)`;
+    finishGame(currentRoom, dropoutResult(currentRoom, player.id, reason));
+  }, DISCONNECT_FORFEIT_MS);
+
+  disconnectTimers.set(timerId, timer);
+}
+
+/**
+ * A player's view of the room's game, with the clock attached when the room is timed.
+ * Spectators pass their own id, which no engine knows, so they get the view that
+ * hides every player's private information.
+ */
+function playerView(room: Room, playerId: string): unknown {
+  const view = getEngine(room.gameType).getState(room.gameState, playerId);
+  if (!room.timeControl || !room.clock || !view || typeof view !== 'object') return view;
+  return { ...view, clock: clockView(room.timeControl, room.clock, Date.now()) };
+}
+
+/** Send every player and spectator their own view of the current game state. */
+function broadcastState(room: Room): void {
+  for (const p of [...room.players, ...room.spectators]) {
+    if (p.socketId) {
+      io.to(p.socketId).emit('game:state', playerView(room, p.id));
+    }
+  }
+}
+
+function roomJoinedData(room: Room, player: Player, role: RoomRole) {
+  return {
+    players: getPlayersInfo(room),
+    spectators: getSpectatorsInfo(room),
+    playerId: player.id,
+    role,
+    sessionToken: player.sessionToken,
+    roomStatus: room.status,
+    creatorId: room.creatorId,
+    gameType: room.gameType,
+    allowSpectators: room.allowSpectators,
+    rated: room.rated,
+    match: room.match,
+  };
+}
+
+// Socket.IO room for clients browsing the public lobby (room codes are upper case)
+const LOBBY_CHANNEL = 'lobby';
+
+/** Send the lobby its new room list after a public room appears, fills, starts or empties. */
+function notifyLobby(room: Room): void {
+  if (!room.isPublic) return;
+  io.to(LOBBY_CHANNEL).emit('lobby:rooms', { rooms: listPublicRooms(listRooms()) });
+}
+
+function broadcastSpectators(room: Room): void {
+  io.to(room.code).emit('room:spectators', {
+    spectators: getSpectatorsInfo(room),
+    allowSpectators: room.allowSpectators,
+  });
+}
+
+// Every socket signed in to an account, so news can reach all of its tabs
+function accountChannel(accountId: string): string {
+  return `account:${accountId}`;
+}
+
+/** Refresh the correspondence game lists of everyone seated in the room. */
+function broadcastCorrespondence(room: Room): void {
+  if (!isCorrespondenceRoom(room)) return;
+  for (const player of room.players) {
+    if (!player.accountId) continue;
+    io.to(accountChannel(player.accountId)).emit('correspondence:games', {
+      games: listCorrespondenceGames(listRooms(), player.accountId),
+    });
+  }
+}
+
+// ---- Clocks ----
+
+const clockTimers = new Map<string, NodeJS.Timeout>();
+const MAX_TIMER_MS = 2_147_483_647; // setTimeout's limit (~24.8 days)
+
+/** Start fresh clocks for a new game (no-op for untimed rooms). */
+function startClock(room: Room): void {
+  if (!room.timeControl) {
+    room.clock = null;
+    return;
+  }
+  const active = getEngine(room.gameType).getActivePlayers(room.gameState);
+  room.clock = createClock(room.timeControl, room.players.map(p => p.id), active, Date.now());
+  scheduleClockCheck(room);
+}
+
+/** Hand the clock over after the game state changed (move or takeback). */
+function advanceClock(room: Room): void {
+  if (!room.timeControl || !room.clock) return;
+  const active = getEngine(room.gameType).getActivePlayers(room.gameState);
+  updateClock(room.clock, room.timeControl, active, Date.now());
+  scheduleClockCheck(room);
+}
+
+function scheduleClockCheck(room: Room): void {
+  const existing = clockTimers.get(room.code);
+  if (existing) clearTimeout(existing);
+  clockTimers.delete(room.code);
+
+  if (!room.clock || room.status !== 'playing') return;
+  const next = nextTimeout(room.clock, Date.now());
+  if (!next) return;
+
+  const delay = Math.min(Math.max(next.inMs, 0), MAX_TIMER_MS);
+  clockTimers.set(room.code, setTimeout(() => checkClock(room.code), delay));
+}
+
+/** Flag a player whose time has run out, or re-arm the timer. */
+function checkClock(code: string): boolean {
+  clockTimers.delete(code);
+  const room = getRoom(code);
+  if (!room || room.status !== 'playing' || !room.clock) return false;
+
+  const next = nextTimeout(room.clock, Date.now());
+  if (!next) return false;
+  if (next.inMs > 0) {
+    scheduleClockCheck(room);
+    return false;
+  }
+
+  const loser = room.players.find(p => p.id === next.playerId);
+  finishGame(room, dropoutResult(room, next.playerId, `${loser?.name} ran out of time`));
+  return true;
+}
+
+/**
+ * The result when one player leaves the game early (resignation, forfeit,
+ * flag fall): the only player left wins. With more seats there is no single
+ * player left, so the game ends without a winner.
+ */
+function dropoutResult(room: Room, loserId: string, reason: string): GameResult {
+  const others = room.players.filter(p => p.id !== loserId);
+  return { winner: others.length === 1 ? others[0].id : null, reason };
+}
+
+/**
+ * End the room's game: every way a game can finish (checkWinner, forfeit,
+ * resignation, agreed draw) goes through here so stats, persistence and the
+ * game:over broadcast stay consistent.
+ */
+function finishGame(room: Room, result: GameResult): void {
+  if (result.winner && room.gameState && typeof room.gameState === 'object') {
+    const stateObj = room.gameState as Record<string, unknown>;
+    stateObj.winner = result.winner;
+    stateObj.winReason = result.reason ?? null;
+  }
+  room.status = 'finished';
+  room.pendingTakeback = null;
+  room.drawOfferBy = null;
+  if (room.clock) stopClock(room.clock, Date.now());
+  scheduleClockCheck(room); // clears any pending timeout
+  scheduleBotMove(room); // and any computer move still to come
+  incrementGamesCompleted();
+  const replay = saveReplay(room, result);
+  room.replayId = replay.id;
+  saveRoom(room);
+  archiveGame(room, result, replay);
+  const ratings = rateGame(room, result);
+
+  // Send final state
+  broadcastState(room);
+
+  let outcome: string;
+  if (result.winner) {
+    const winnerPlayer = room.players.find(p => p.id === result.winner);
+    const reason = result.reason ?? 'Game over';
+    io.to(room.code).emit('game:over', {
+      winner: result.winner,
+      winnerName: winnerPlayer?.name || 'Unknown',
+      reason,
+      replayId: replay.id,
+      ratings,
+    });
+    outcome = `${winnerPlayer?.name} wins — ${reason}`;
+  } else {
+    const reason = result.reason ?? 'Draw';
+    io.to(room.code).emit('game:over', {
+      winner: '',
+      winnerName: 'Draw',
+      reason,
+      replayId: replay.id,
+      ratings,
+    });
+    outcome = reason;
+  }
+
+  const text = `Game over! ${outcome}`;
+  addChatMessage(room, null, text, true);
+  io.to(room.code).emit('chat:system', { text, timestamp: Date.now() });
+  if (ratings) io.to(room.code).emit('room:players', { players: getPlayersInfo(room) });
+  if (room.match) scoreMatchGame(room, room.match, result);
+  if (room.tournamentId) reportTournamentGame(room, room.tournamentId, result);
+  notify(gameOverNotifications(room, outcome, Date.now()));
+  broadcastCorrespondence(room);
+}
+
+/** Add a finished game to the room's series and announce the score. */
+function scoreMatchGame(room: Room, match: MatchState, result: GameResult): void {
+  if (match.finished) return;
+  recordMatchGame(match, room.gameType, result.winner);
+  saveRoom(room);
+
+  const nameOf = (id: string) => room.players.find(p => p.id === id)?.name ?? 'Unknown';
+  const score = describeMatchScore(match, nameOf);
+  let text: string;
+  if (!match.finished) {
+    text = `Match score: ${score}`;
+  } else if (match.winner) {
+    text = `${nameOf(match.winner)} wins the match! ${score}`;
+  } else {
+    text = `The match is drawn, ${score}`;
+  }
+
+  io.to(room.code).emit('room:match', { match });
+  addChatMessage(room, null, text, true);
+  io.to(room.code).emit('chat:system', { text, timestamp: Date.now() });
+}
+
+/**
+ * The series the room's next game belongs to: the one in progress, or a fresh
+ * one once it is over or the players have changed. Null without a match format.
+ */
+function matchForNextGame(room: Room): MatchState | null {
+  if (!room.matchFormat) return null;
+  const playerIds = room.players.map(p => p.id);
+  const current = room.match;
+  const samePlayers =
+    current !== null &&
+    current.playerIds.length === playerIds.length &&
+    playerIds.every(id => current.playerIds.includes(id));
+  if (current && !current.finished && samePlayers) return current;
+  return createMatch(room.matchFormat, playerIds, createRng(room.seed ?? randomSeed()));
+}
+
+/**
+ * Update the players' ratings after a rated game. Returns each player's new
+ * rating and change, or null when the game doesn't count (unrated room, or a
+ * seat without its own account).
+ */
+function rateGame(room: Room, result: GameResult): Record<string, RatingChange> | null {
+  if (!room.rated) return null;
+  const accountIds = room.players.map(p => p.accountId);
+  if (accountIds.some(id => !id) || new Set(accountIds).size !== accountIds.length) return null;
+
+  const winnerAccount = room.players.find(p => p.id === result.winner)?.accountId ?? null;
+  const before = getPlayersInfo(room);
+  const after = recordRatedGame(room.gameType, accountIds as string[], winnerAccount);
+
+  const changes: Record<string, RatingChange> = {};
+  room.players.forEach((player, i) => {
+    const rating = Math.round(after[i].rating);
+    changes[player.id] = { rating, change: rating - (before[i].rating ?? rating) };
+  });
+  return changes;
+}
+
+/** Deal a fresh game of the room's game type to everyone seated. */
+function startGame(room: Room, next?: { gameType: GameType; options: GameOptions }): string | null {
+  // A decathlon picks the next event, played with that game's default options;
+  // otherwise it's the room's game again unless the host switched to another one
+  const match = matchForNextGame(room);
+  const event = room.matchFormat && nextMatchGameType(room.matchFormat, match);
+  const gameType = next?.gameType ?? (event || room.gameType);
+  const options = next
+    ? next.options
+    : gameType === room.gameType
+      ? room.options
+      : resolveGameOptions(gameType, undefined);
+  if (typeof options === 'string') return options;
+
+  const seatError = validateSeatCount(gameType, room.players.length);
+  if (seatError) return seatError;
+
+  const engine = getEngine(gameType);
+  if (!engine.chooseMove && room.players.some(p => p.bot)) {
+    return `${getGameDefinition(gameType).name} has no computer opponent`;
+  }
+
+  const seed = room.seed ?? randomSeed();
+  let gameState;
+  try {
+    gameState = engine.initGame(room.players.map(p => p.id), options, match ? matchFirstPlayer(match) : undefined, seed);
+  } catch (err) {
+    console.error(`[startGame] Engine error in ${gameType}:`, err);
+    return 'Failed to initialize game';
+  }
+  room.gameType = gameType;
+  room.options = options;
+  room.match = match;
+  if (match) io.to(room.code).emit('room:match', { match });
+  room.gameState = gameState;
+  room.gameSeed = seed;
+  room.status = 'playing';
+  resetHistory(room);
+  startClock(room);
+  incrementGamesStarted(room.gameType);
+  saveRoom(room);
+  notify(turnNotifications(room, [], Date.now()));
+  broadcastCorrespondence(room);
+  return null;
+}
+
+/**
+ * Play a move for a seated player, human or computer, and tell everyone.
+ * Returns an error for the mover, or null once the move is made (or the
+ * mover turned out to have lost on time).
+ */
+function makeMove(room: Room, player: Player, move: GameMove): string | null {
+  const engine = getEngine(room.gameType);
+
+  // A move that arrives after the mover's flag fell loses on time
+  if (room.clock && remainingTime(room.clock, player.id, Date.now()) <= 0 && checkClock(room.code)) {
+    return null;
+  }
+
+  const error = engine.validateMove(room.gameState, player.id, move);
+  if (error) return error;
+  const previouslyActive = engine.getActivePlayers(room.gameState);
+
+  let newState;
+  try {
+    newState = engine.applyMove(room.gameState, player.id, move);
+  } catch (err) {
+    console.error(`[game:move] Engine error in ${room.gameType}:`, err);
+    return 'Game engine error';
+  }
+  room.gameState = newState;
+  room.lastActivity = Date.now();
+  recordMove(room, player.id, move);
+  advanceClock(room);
+  incrementMovesMade();
+
+  // Playing on withdraws any open takeback request or draw offer
+  if (room.pendingTakeback) {
+    room.pendingTakeback = null;
+    io.to(room.code).emit('game:takeback-resolved', { accepted: false });
+  }
+  if (room.drawOfferBy) {
+    room.drawOfferBy = null;
+    io.to(room.code).emit('game:draw-declined');
+  }
+
+  // Send updated state to all players
+  broadcastState(room);
+
+  // Check for winner
+  let winResult;
+  try {
+    winResult = engine.checkWinner(newState);
+  } catch (err) {
+    console.error(`[game:move] Winner check error in ${room.gameType}:`, err);
+    // Don't return — game state was already updated and sent to players
+  }
+  if (winResult) {
+    finishGame(room, winResult);
+    return null;
+  }
+
+  saveRoom(room);
+  scheduleBotMove(room);
+  notify(turnNotifications(room, previouslyActive, Date.now()));
+  broadcastCorrespondence(room);
+  return null;
+}
+
+/** Undo the requester's last move if the responder agrees. */
+function resolveTakeback(room: Room, responder: Player, accept: boolean): void {
+  if (!room.pendingTakeback) return;
+  const { requesterId } = room.pendingTakeback;
+  room.pendingTakeback = null;
+  const requester = room.players.find(p => p.id === requesterId);
+
+  if (!accept) {
+    saveRoom(room);
+    io.to(room.code).emit('game:takeback-resolved', { accepted: false });
+    addChatMessage(room, null, `${responder.name} declined the takeback`, true);
+    io.to(room.code).emit('chat:system', {
+      text: `${responder.name} declined the takeback`,
+      timestamp: Date.now(),
+    });
+    return;
+  }
+
+  const undone = takebackLength(room, requesterId);
+  rollback(room, undone);
+  advanceClock(room);
+  room.lastActivity = Date.now();
+  saveRoom(room);
+
+  broadcastState(room);
+
+  io.to(room.code).emit('game:takeback-resolved', { accepted: true });
+
+  const text = `${responder.name} accepted the takeback — ${undone} move${undone === 1 ? '' : 's'} undone for ${requester?.name}`;
+  addChatMessage(room, null, text, true);
+  io.to(room.code).emit('chat:system', { text, timestamp: Date.now() });
+
+  scheduleBotMove(room);
+  broadcastCorrespondence(room);
+}
+
+function declineDraw(room: Room, player: Player): void {
+  room.drawOfferBy = null;
+  saveRoom(room);
+
+  io.to(room.code).emit('game:draw-declined');
+
+  addChatMessage(room, null, `${player.name} declined the draw`, true);
+  io.to(room.code).emit('chat:system', {
+    text: `${player.name} declined the draw`,
+    timestamp: Date.now(),
+  });
+}
+
+// ---- Computer Opponents ----
+
+const botTimers = new Map<string, NodeJS.Timeout>();
+const BOT_MOVE_DELAY_MS = 700; // lets the previous move render before the reply lands
+
+/** Queue a move for the first computer player whose turn it is, replacing any queued one. */
+function scheduleBotMove(room: Room): void {
+  const existing = botTimers.get(room.code);
+  if (existing) clearTimeout(existing);
+  botTimers.delete(room.code);
+
+  if (room.status !== 'playing' || !room.gameState) return;
+  const active = getEngine(room.gameType).getActivePlayers(room.gameState);
+  const bot = room.players.find(p => p.bot && active.includes(p.id));
+  if (!bot) return;
+
+  botTimers.set(room.code, setTimeout(() => playBotMove(room.code, bot.id), BOT_MOVE_DELAY_MS));
+}
+
+function playBotMove(code: string, botId: string): void {
+  botTimers.delete(code);
+  const room = getRoom(code);
+  if (!room || room.status !== 'playing' || !room.gameState) return;
+
+  const engine = getEngine(room.gameType);
+  const bot = room.players.find(p => p.id === botId);
+  if (!bot?.bot || !engine.chooseMove || !engine.getActivePlayers(room.gameState).includes(bot.id)) return;
+
+  let error: string | null;
+  try {
+    error = makeMove(room, bot, engine.chooseMove(room.gameState, bot.id, bot.bot));
+  } catch (err) {
+    error = err instanceof Error ? err.message : String(err);
+  }
+
+  // A bot that can't produce a legal move resigns rather than stalling the game
+  if (error) {
+    console.error(`[bot] ${room.gameType} bot failed in room ${code}: ${error}`);
+    finishGame(room, dropoutResult(room, bot.id, `${bot.name} resigned`));
+  }
+}
+
+// ---- Tournament Games ----
+
+// How long players see a drawn knockout game before it is replayed
+const KNOCKOUT_REPLAY_DELAY_MS = 5000;
+
+// How long a dealt tournament game waits for its players to sit down
+const TOURNAMENT_NO_SHOW_MS = 10 * 60_000;
+
+function tournamentChannel(id: string): string {
+  return `tournament:${id}`;
+}
+
+function broadcastTournament(tournament: Tournament): void {
+  io.to(tournamentChannel(tournament.id)).emit('tournament:update', tournamentView(tournament));
+}
+
+/**
+ * A tournament game that was never played: a draw, except in a knockout,
+ * which needs someone to go through, so the first seat does.
+ */
+function unplayedTournamentResult(room: Room, tournament: Tournament, reason: string): GameResult {
+  const winner = tournament.format === 'single-elimination' ? room.players[0].id : null;
+  return { winner, reason };
+}
+
+/**
+ * Give a tournament game's players until the deadline to sit down. Whoever
+ * hasn't by then forfeits; a player who came and went has the usual
+ * disconnect timer instead. If nobody came the game goes unplayed.
+ */
+function scheduleNoShowDeadline(room: Room, delayMs = TOURNAMENT_NO_SHOW_MS): void {
+  const timerId = `${room.code}:no-show`;
+  clearTimeout(disconnectTimers.get(timerId));
+  disconnectTimers.set(
+    timerId,
+    setTimeout(() => {
+      disconnectTimers.delete(timerId);
+      const current = getRoom(room.code);
+      if (!current || current.status !== 'playing' || !current.tournamentId) return;
+      const tournament = getTournament(current.tournamentId);
+      if (!tournament) return;
+
+      const absent = current.players.filter(
+        p => !p.connected && !disconnectTimers.has(`${current.code}:${p.id}`),
+      );
+      if (absent.length === 0) return;
+      if (absent.length === current.players.length) {
+        const reason = 'Neither player turned up';
+        finishGame(current, unplayedTournamentResult(current, tournament, reason));
+        return;
+      }
+      const [loser] = absent;
+      const reason = `${loser.name} didn't turn up (forfeit)`;
+      finishGame(current, dropoutResult(current, loser.id, reason));
+    }, delayMs),
+  );
+}
+
+/**
+ * Open a room for each game of a tournament round and deal it straight away.
+ * Both seats belong to the players' accounts, so they sit down by opening
+ * the room while signed in, before the no-show deadline. A game that can't
+ * be set up is scored as unplayed rather than holding up the round.
+ */
+function openTournamentRound(tournament: Tournament, round: TournamentRound): void {
+  const nameOf = (accountId: string) => tournament.participants.find(p => p.accountId === accountId)?.name ?? 'Unknown';
+  const unplayed: { room: Room; error: string }[] = [];
+  for (const pairing of round.pairings) {
+    const [first, second] = pairing.players;
+    if (second === null) continue; // a bye
+
+    const { room } = createRoom(tournament.gameType, tournament.options, nameOf(first), {
+      accountId: first,
+    });
+    room.tournamentId = tournament.id;
+    pairing.roomCode = room.code;
+    incrementRoomsCreated();
+    addChatMessage(room, null, `${tournament.name}, round ${round.number}: ${nameOf(first)} vs ${nameOf(second)}`, true);
+
+    const joined = joinRoom(room.code, nameOf(second), false, second);
+    const setupError = 'error' in joined ? joined.error : startGame(room);
+    for (const player of room.players) {
+      player.connected = false;
+      player.disconnectedAt = Date.now();
+    }
+    saveRoom(room);
+    if (setupError) {
+      console.error(`[tournament] Could not set up a game in room ${room.code}: ${setupError}`);
+      unplayed.push({ room, error: setupError });
+      continue;
+    }
+    scheduleNoShowDeadline(room);
+  }
+  saveTournament(tournament);
+
+  // Scored once the round is saved, since the last of them may pair the next one
+  for (const { room, error } of unplayed) {
+    const reason = `The game couldn't be set up: ${error}`;
+    addChatMessage(room, null, reason, true);
+    reportTournamentGame(room, tournament.id, unplayedTournamentResult(room, tournament, reason));
+  }
+}
+
+/** Pass a tournament game's result on; replay a drawn knockout game or open the next round. */
+function reportTournamentGame(room: Room, tournamentId: string, result: GameResult): void {
+  const winner = result.winner ? (room.players.find(p => p.id === result.winner)?.accountId ?? null) : null;
+  const outcome = recordTournamentGame(tournamentId, room.code, winner);
+  if (!outcome) return;
+  const { tournament, replay, round } = outcome;
+
+  if (replay) {
+    const text = 'Knockout games need a winner, so this one will be replayed';
+    addChatMessage(room, null, text, true);
+    io.to(room.code).emit('chat:system', { text, timestamp: Date.now() });
+    setTimeout(() => replayTournamentGame(room.code), KNOCKOUT_REPLAY_DELAY_MS);
+    return;
+  }
+
+  if (round) openTournamentRound(tournament, round);
+  if (tournament.status === 'finished') {
+    const champion = tournament.participants.find(p => p.accountId === tournament.winner);
+    const text = `${champion?.name ?? 'Nobody'} wins ${tournament.name}!`;
+    addChatMessage(room, null, text, true);
+    io.to(room.code).emit('chat:system', { text, timestamp: Date.now() });
+  }
+  broadcastTournament(tournament);
+}
+
+function replayTournamentGame(code: string): void {
+  const room = getRoom(code);
+  if (!room || room.status !== 'finished') return;
+  if (startGame(room)) return;
+  scheduleNoShowDeadline(room);
+
+  addChatMessage(room, null, 'New game started!', true);
+  broadcastState(room);
+  io.to(room.code).emit('game:started');
+  io.to(room.code).emit('game:restarted');
+  io.to(room.code).emit('chat:system', { text: 'New game started!', timestamp: Date.now() });
+}
+
+// ---- Quick Match ----
+
+/**
+ * Seat a matched group in a fresh private room with the game's default
+ * options and start right away. Players whose socket has gone since they
+ * queued are skipped, and the rest go back in the queue if too few remain.
+ * If the room can't seat someone, the host is told and the others requeue.
+ */
+function startMatch(gameType: GameType, group: Omit<QueueEntry, 'queuedAt'>[]): void {
+  const present = group.filter(e => io.sockets.sockets.has(e.socketId));
+  if (present.length < group.length) {
+    for (const entry of present) {
+      const regroup = joinQueue(gameType, { ...entry, queuedAt: Date.now() });
+      if (regroup) startMatch(gameType, regroup);
+    }
+    return;
+  }
+
+  const [first, ...rest] = group;
+  const options = resolveGameOptions(gameType, undefined);
+  if (typeof options === 'string') return; // defaults always resolve
+  const { room, player: host } = createRoom(gameType, options, first.playerName, {
+    accountId: first.accountId,
+  });
+  const seated = [{ socketId: first.socketId, player: host }];
+  for (const entry of rest) {
+    const joined = joinRoom(room.code, entry.playerName, false, entry.accountId);
+    if ('error' in joined) {
+      // Give up on the room: the host hears why, everyone else waits for another match
+      console.error(`[match] Could not seat ${entry.playerName} in room ${room.code}: ${joined.error}`);
+      deleteRoom(room.code);
+      io.to(first.socketId).emit('room:error', { message: joined.error });
+      for (const other of rest) {
+        const regroup = joinQueue(gameType, { ...other, queuedAt: Date.now() });
+        if (regroup) startMatch(gameType, regroup);
+      }
+      return;
+    }
+    seated.push({ socketId: entry.socketId, player: joined.player });
+  }
+
+  for (const { socketId, player } of seated) {
+    player.socketId = socketId;
+    updateSocketIndex(socketId, room.code, player.id);
+    io.sockets.sockets.get(socketId)?.join(room.code);
+  }
+  incrementRoomsCreated();
+  addChatMessage(room, null, `Quick match: ${seated.map(s => s.player.name).join(' vs ')}`, true);
+
+  const startError = startGame(room);
+  if (startError) {
+    // The room stays in the lobby state so the host can try to start it
+    console.error(`[match] Could not start ${gameType} in room ${room.code}: ${startError}`);
+  } else {
+    addChatMessage(room, null, 'Game started!', true);
+  }
+
+  // Like room:created, everything the room page needs arrives before it loads
+  for (const { socketId, player } of seated) {
+    io.to(socketId).emit('room:joined', roomJoinedData(room, player, 'player'));
+    if (room.status === 'playing') io.to(socketId).emit('game:state', playerView(room, player.id));
+    io.to(socketId).emit('chat:history', room.chatMessages);
+    io.to(socketId).emit('match:found', {
+      roomCode: room.code,
+      playerId: player.id,
+      sessionToken: player.sessionToken,
+    });
+  }
+}
+
 io.on('connection', (socket) => {
   console.log(`Socket connected: ${socket.id}`);
 
+  // Signed-in players send their account token; guests have none
+  const accountId = getAccountIdForToken(socket.handshake.auth?.authToken);
+  if (accountId) socket.join(accountChannel(accountId));
+
   // Immediately associate socket with player if auth info provided
   // This ensures socketId is always up-to-date, even after silent reconnections
   const { sessionToken, roomCode: authRoomCode } = socket.handshake.auth || {};
-  if (sessionToken && authRoomCode) {
-    const reconnResult = reconnectPlayer(authRoomCode.toUpperCase(), sessionToken);
+  if ((sessionToken || accountId) && authRoomCode) {
+    const reconnResult = reconnectPlayer(authRoomCode.toUpperCase(), sessionToken, accountId);
     if ('room' in reconnResult) {
       const { room, player } = reconnResult;
       player.socketId = socket.id;
@@ -147,7 +1183,7 @@ io.on('connection', (socket) => {
   }
 
   // --- Room Creation ---
-  socket.on('room:create', ({ playerName, gameType }) => {
+  socket.on('room:create', ({ playerName, gameType, options, timeControl, allowSpectators, isPublic, rated, match, seed }) => {
     if (isRateLimited(socket.id, 2000)) {
       socket.emit('room:error', { message: 'Too many requests, slow down' });
       return;
@@ -158,12 +1194,59 @@ io.on('connection', (socket) => {
       return;
     }
 
-    if (!VALID_GAME_TYPES.has(gameType)) {
+    if (!isRegisteredGame(gameType)) {
       socket.emit('room:error', { message: 'Invalid game type' });
       return;
     }
 
-    const { room, player } = createRoom(gameType, playerName.trim());
+    const gameOptions = resolveGameOptions(gameType, options);
+    if (typeof gameOptions === 'string') {
+      socket.emit('room:error', { message: gameOptions });
+      return;
+    }
+
+    const parsedTimeControl = parseTimeControl(timeControl);
+    if (typeof parsedTimeControl === 'string') {
+      socket.emit('room:error', { message: parsedTimeControl });
+      return;
+    }
+
+    const matchFormat = parseMatchFormat(match, gameType);
+    if (typeof matchFormat === 'string') {
+      socket.emit('room:error', { message: matchFormat });
+      return;
+    }
+
+    if (rated === true && !accountId) {
+      socket.emit('room:error', { message: 'Sign in to create a rated game' });
+      return;
+    }
+
+    const gameSeed = parseSeed(seed);
+    if (typeof gameSeed === 'string') {
+      socket.emit('room:error', { message: gameSeed });
+      return;
+    }
+    // Whoever knows the seed knows every roll and deal to come
+    if (gameSeed !== null && rated === true) {
+      socket.emit('room:error', { message: 'Rated games are always dealt at random' });
+      return;
+    }
+
+    if (parsedTimeControl?.type === 'correspondence' && !accountId) {
+      socket.emit('room:error', { message: 'Sign in to create a correspondence game' });
+      return;
+    }
+
+    const { room, player } = createRoom(gameType, gameOptions, playerName.trim(), {
+      timeControl: parsedTimeControl,
+      allowSpectators: allowSpectators !== false,
+      isPublic: isPublic === true,
+      rated: rated === true,
+      matchFormat,
+      seed: gameSeed,
+      accountId,
+    });
     player.socketId = socket.id;
     updateSocketIndex(socket.id, room.code, player.id);
     socket.join(room.code);
@@ -177,20 +1260,15 @@ io.on('connection', (socket) => {
       sessionToken: player.sessionToken,
     });
 
-    socket.emit('room:joined', {
-      players: getPlayersInfo(room),
-      playerId: player.id,
-      sessionToken: player.sessionToken,
-      roomStatus: room.status,
-      creatorId: room.creatorId,
-      gameType: room.gameType,
-    });
+    socket.emit('room:joined', roomJoinedData(room, player, 'player'));
 
     socket.emit('chat:history', room.chatMessages);
+    notifyLobby(room);
+    broadcastCorrespondence(room);
   });
 
   // --- Room Joining ---
-  socket.on('room:join', ({ roomCode, playerName, sessionToken }) => {
+  socket.on('room:join', ({ roomCode, playerName, sessionToken, spectate }) => {
     if (isRateLimited(socket.id, 2000)) {
       socket.emit('room:error', { message: 'Too many requests, slow down' });
       return;
@@ -198,11 +1276,11 @@ io.on('connection', (socket) => {
 
     const code = roomCode.toUpperCase();
 
-    // Try reconnection first
-    if (sessionToken) {
-      const reconnResult = reconnectPlayer(code, sessionToken);
+    // Try reconnection first, by session token or by the signed-in account
+    if (sessionToken || accountId) {
+      const reconnResult = reconnectPlayer(code, sessionToken, accountId);
       if ('room' in reconnResult) {
-        const { room, player } = reconnResult;
+        const { room, player, role } = reconnResult;
         player.socketId = socket.id;
         updateSocketIndex(socket.id, room.code, player.id);
         socket.join(room.code);
@@ -215,24 +1293,21 @@ io.on('connection', (socket) => {
           disconnectTimers.delete(timerId);
         }
 
-        socket.emit('room:joined', {
-          players: getPlayersInfo(room),
-          playerId: player.id,
-          sessionToken: player.sessionToken,
-          roomStatus: room.status,
-          creatorId: room.creatorId,
-          gameType: room.gameType,
-        });
+        socket.emit('room:joined', roomJoinedData(room, player, role));
 
-        socket.to(room.code).emit('room:player-reconnected', {
-          playerName: player.name,
-          players: getPlayersInfo(room),
-        });
+        if (role === 'spectator') {
+          broadcastSpectators(room);
+        } else {
+          socket.to(room.code).emit('room:player-reconnected', {
+            playerName: player.name,
+            players: getPlayersInfo(room),
+          });
+          notifyLobby(room);
+        }
 
         // Send current game state if game is in progress
         if (room.status === 'playing' && room.gameState) {
-          const engine = getEngine(room.gameType);
-          socket.emit('game:state', engine.getState(room.gameState, player.id));
+          socket.emit('game:state', playerView(room, player.id));
         }
 
         socket.emit('chat:history', room.chatMessages);
@@ -241,44 +1316,146 @@ io.on('connection', (socket) => {
       }
     }
 
-    // New join
-    if (!playerName || playerName.trim().length < 3 || playerName.trim().length > 20) {
-      socket.emit('room:error', { message: 'Display name must be 3-20 characters' });
+    // New join
+    if (!playerName || playerName.trim().length < 3 || playerName.trim().length > 20) {
+      socket.emit('room:error', { message: 'Display name must be 3-20 characters' });
+      return;
+    }
+
+    const result = joinRoom(code, playerName.trim(), spectate === true, accountId);
+    if ('error' in result) {
+      socket.emit('room:error', { message: result.error });
+      return;
+    }
+
+    const { room, player, role } = result;
+    player.socketId = socket.id;
+    updateSocketIndex(socket.id, room.code, player.id);
+    socket.join(room.code);
+
+    const joinText = role === 'spectator' ? `${player.name} is spectating` : `${player.name} joined the room`;
+    addChatMessage(room, null, joinText, true);
+
+    socket.emit('room:joined', roomJoinedData(room, player, role));
+
+    if (role === 'spectator') {
+      broadcastSpectators(room);
+      if (room.status === 'playing' && room.gameState) {
+        socket.emit('game:state', playerView(room, player.id));
+      }
+    } else {
+      socket.to(room.code).emit('room:player-joined', {
+        playerName: player.name,
+        players: getPlayersInfo(room),
+      });
+      notifyLobby(room);
+      broadcastCorrespondence(room);
+    }
+
+    socket.emit('chat:history', room.chatMessages);
+    io.to(room.code).emit('chat:system', {
+      text: joinText,
+      timestamp: Date.now(),
+    });
+  });
+
+  // --- Spectator Setting ---
+  socket.on('room:set-spectators', ({ allow }) => {
+    const found = findRoomBySocketId(socket.id);
+    if (!found) return;
+
+    const { room, player } = found;
+    if (player.id !== room.creatorId) {
+      socket.emit('room:error', { message: 'Only the room creator can change spectator settings' });
+      return;
+    }
+
+    // Anyone already watching keeps their place; this only affects new spectators
+    setAllowSpectators(room, allow === true);
+    broadcastSpectators(room);
+  });
+
+  // --- Computer Players ---
+  socket.on('room:add-bot', ({ difficulty }) => {
+    if (isRateLimited(socket.id, 1000)) {
+      socket.emit('room:error', { message: 'Too many requests, slow down' });
+      return;
+    }
+
+    const found = findRoomBySocketId(socket.id);
+    if (!found) return;
+
+    const { room, player } = found;
+    if (player.id !== room.creatorId) {
+      socket.emit('room:error', { message: 'Only the room creator can add computer players' });
+      return;
+    }
+
+    if (room.status === 'playing') {
+      socket.emit('room:error', { message: 'Cannot add players during a game' });
+      return;
+    }
+
+    if (!getEngine(room.gameType).chooseMove) {
+      socket.emit('room:error', { message: `${getGameDefinition(room.gameType).name} has no computer opponent` });
+      return;
+    }
+
+    if (!isBotDifficulty(difficulty)) {
+      socket.emit('room:error', { message: 'Invalid difficulty' });
+      return;
+    }
+
+    const result = addBot(room.code, difficulty);
+    if ('error' in result) {
+      socket.emit('room:error', { message: result.error });
+      return;
+    }
+
+    const text = `${result.player.name} joined the room`;
+    addChatMessage(room, null, text, true);
+
+    io.to(room.code).emit('room:player-joined', {
+      playerName: result.player.name,
+      players: getPlayersInfo(room),
+    });
+    io.to(room.code).emit('chat:system', { text, timestamp: Date.now() });
+    notifyLobby(room);
+  });
+
+  socket.on('room:remove-bot', ({ playerId }) => {
+    const found = findRoomBySocketId(socket.id);
+    if (!found) return;
+
+    const { room, player } = found;
+    if (player.id !== room.creatorId) {
+      socket.emit('room:error', { message: 'Only the room creator can remove computer players' });
       return;
     }
 
-    const result = joinRoom(code, playerName.trim());
-    if ('error' in result) {
-      socket.emit('room:error', { message: result.error });
+    if (room.status === 'playing') {
+      socket.emit('room:error', { message: 'Cannot remove players during a game' });
       return;
     }
 
-    const { room, player } = result;
-    player.socketId = socket.id;
-    updateSocketIndex(socket.id, room.code, player.id);
-    socket.join(room.code);
+    const bot = room.players.find(p => p.id === playerId && p.bot);
+    if (!bot) {
+      socket.emit('room:error', { message: 'Computer player not found' });
+      return;
+    }
 
-    addChatMessage(room, null, `${player.name} joined the room`, true);
+    // The creator is still seated, so the room survives
+    removePlayerFromRoom(room.code, bot.id);
 
-    socket.emit('room:joined', {
-      players: getPlayersInfo(room),
-      playerId: player.id,
-      sessionToken: player.sessionToken,
-      roomStatus: room.status,
-      creatorId: room.creatorId,
-      gameType: room.gameType,
-    });
+    const text = `${bot.name} left the room`;
+    addChatMessage(room, null, text, true);
 
-    socket.to(room.code).emit('room:player-joined', {
-      playerName: player.name,
+    io.to(room.code).emit('room:player-left', {
+      playerName: bot.name,
       players: getPlayersInfo(room),
     });
-
-    socket.emit('chat:history', room.chatMessages);
-    io.to(room.code).emit('chat:system', {
-      text: `${player.name} joined the room`,
-      timestamp: Date.now(),
-    });
+    io.to(room.code).emit('chat:system', { text, timestamp: Date.now() });
+    notifyLobby(room);
   });
 
   // --- Game Start ---
@@ -300,9 +1477,10 @@ io.on('connection', (socket) => {
       return;
     }
 
-    if (room.players.length < 2) {
-      console.log(`[game:start] ERROR: not enough players`);
-      socket.emit('room:error', { message: 'Need 2 players to start' });
+    const seatError = validateSeatCount(room.gameType, room.players.length);
+    if (seatError) {
+      console.log(`[game:start] ERROR: ${seatError}`);
+      socket.emit('room:error', { message: seatError });
       return;
     }
 
@@ -311,30 +1489,18 @@ io.on('connection', (socket) => {
       return;
     }
 
-    const engine = getEngine(room.gameType);
-    const playerIds: [string, string] = [room.players[0].id, room.players[1].id];
-
-    let gameState;
-    try {
-      gameState = engine.initGame(playerIds);
-    } catch (err) {
-      console.error(`[game:start] Engine error in ${room.gameType}:`, err);
-      socket.emit('room:error', { message: 'Failed to initialize game' });
+    const startError = startGame(room);
+    if (startError) {
+      socket.emit('room:error', { message: startError });
       return;
     }
-    room.gameState = gameState;
-    room.status = 'playing';
-    incrementGamesStarted(room.gameType);
+    notifyLobby(room);
 
     addChatMessage(room, null, 'Game started!', true);
 
     // Send game state to each player individually
-    for (const p of room.players) {
-      console.log(`[game:start] sending game:state to ${p.name} (socketId=${p.socketId})`);
-      if (p.socketId) {
-        io.to(p.socketId).emit('game:state', engine.getState(room.gameState, p.id));
-      }
-    }
+    console.log(`[game:start] sending game:state to ${room.players.map(p => `${p.name} (socketId=${p.socketId})`).join(', ')}`);
+    broadcastState(room);
 
     // Also broadcast game:started to the entire room as a reliable fallback
     // (room broadcast uses socket.join membership, not stored socketIds)
@@ -344,28 +1510,21 @@ io.on('connection', (socket) => {
       text: 'Game started!',
       timestamp: Date.now(),
     });
+
+    scheduleBotMove(room);
   });
 
   // --- Game Move ---
-  socket.on('game:move', ({ from, to }) => {
+  socket.on('game:move', (data) => {
     if (isRateLimited(socket.id, 100)) {
       socket.emit('room:error', { message: 'Too fast, slow down' });
       return;
     }
 
-    // Validate move input types
-    if (!from || !to ||
-        typeof from.row !== 'number' || typeof from.col !== 'number' ||
-        typeof to.row !== 'number' || typeof to.col !== 'number' ||
-        !isFinite(from.row) || !isFinite(from.col) ||
-        !isFinite(to.row) || !isFinite(to.col)) {
-      socket.emit('room:error', { message: 'Invalid move format' });
-      return;
-    }
-
     const found = findRoomBySocketId(socket.id);
     if (!found) {
-      socket.emit('room:error', { message: 'Not in a room' });
+      const message = findSpectatorBySocketId(socket.id) ? 'Spectators cannot make moves' : 'Not in a room';
+      socket.emit('room:error', { message });
       return;
     }
 
@@ -377,109 +1536,290 @@ io.on('connection', (socket) => {
     }
 
     const engine = getEngine(room.gameType);
-    const move = { from, to };
 
-    const error = engine.validateMove(room.gameState, player.id, move);
+    // Each engine checks the payload against its own move schema
+    const move = engine.parseMove(data);
+    if (!move) {
+      socket.emit('room:error', { message: 'Invalid move format' });
+      return;
+    }
+
+    const error = makeMove(room, player, move);
     if (error) {
       socket.emit('room:error', { message: error });
+    }
+  });
+
+  // --- Game State Request (fallback for missed game:state) ---
+  socket.on('game:request-state', () => {
+    const found = findRoomBySocketId(socket.id);
+    const watching = found ? null : findSpectatorBySocketId(socket.id);
+    const room = found?.room ?? watching?.room;
+    const player = found?.player ?? watching?.spectator;
+    if (!room || !player) return;
+
+    if (room.status === 'playing' && room.gameState) {
+      console.log(`[game:request-state] sending state to ${player.name}`);
+      socket.emit('game:state', playerView(room, player.id));
+    }
+  });
+
+  // --- Game Export (players and spectators) ---
+  socket.on('game:export', () => {
+    if (isRateLimited(socket.id, 1000)) {
+      socket.emit('room:error', { message: 'Too many requests, slow down' });
       return;
     }
 
-    let newState;
-    try {
-      newState = engine.applyMove(room.gameState, player.id, move);
-    } catch (err) {
-      console.error(`[game:move] Engine error in ${room.gameType}:`, err);
-      socket.emit('room:error', { message: 'Game engine error' });
+    const found = findRoomBySocketId(socket.id);
+    const watching = found ? null : findSpectatorBySocketId(socket.id);
+    const room = found?.room ?? watching?.room;
+    if (!room) return;
+
+    const { name, engine } = getGameDefinition(room.gameType);
+    if (!engine.exportGame) {
+      socket.emit('room:error', { message: `${name} games can't be exported` });
+      return;
+    }
+    if (!room.gameState || room.stateHistory.length === 0) {
+      socket.emit('room:error', { message: 'No game to export' });
       return;
     }
-    room.gameState = newState;
-    room.lastActivity = Date.now();
-    incrementMovesMade();
 
-    // Send updated state to all players
-    for (const p of room.players) {
-      if (p.socketId) {
-        io.to(p.socketId).emit('game:state', engine.getState(newState, p.id));
-      }
+    const { extension, content } = engine.exportGame({
+      states: room.stateHistory,
+      moves: room.moveHistory.map(record => record.move),
+      playerNames: Object.fromEntries(room.players.map(p => [p.id, p.name])),
+      finished: room.status === 'finished',
+      annotations: room.moveHistory.map(record => record.annotation ?? null),
+    });
+    socket.emit('game:exported', { filename: `${room.gameType}-${room.code}.${extension}`, content });
+  });
+
+  // --- Move List (for review) ---
+  socket.on('game:move-list', () => {
+    if (isRateLimited(socket.id, 500)) {
+      socket.emit('room:error', { message: 'Too many requests, slow down' });
+      return;
     }
 
-    // Check for winner
-    let winResult;
-    try {
-      winResult = engine.checkWinner(newState);
-    } catch (err) {
-      console.error(`[game:move] Winner check error in ${room.gameType}:`, err);
-      // Don't return — game state was already updated and sent to players
-    }
-    if (winResult && winResult.winner) {
-      const stateObj = newState as Record<string, unknown>;
-      stateObj.winner = winResult.winner;
-      stateObj.winReason = winResult.reason ?? null;
-      room.status = 'finished';
-      incrementGamesCompleted();
-
-      const winnerId = winResult.winner;
-      const winReason = winResult.reason ?? 'Game over';
-      const winnerPlayer = room.players.find(p => p.id === winnerId);
-
-      // Send final state
-      for (const p of room.players) {
-        if (p.socketId) {
-          io.to(p.socketId).emit('game:state', engine.getState(newState, p.id));
-        }
-      }
+    const found = findRoomBySocketId(socket.id);
+    const watching = found ? null : findSpectatorBySocketId(socket.id);
+    const room = found?.room ?? watching?.room;
+    if (!room) return;
+
+    const { name, engine } = getGameDefinition(room.gameType);
+    const moves = listMoves(room, engine);
+    if (!moves) {
+      socket.emit('room:error', { message: `${name} games have no move list` });
+      return;
+    }
+    socket.emit('game:move-list', { moves });
+  });
 
-      io.to(room.code).emit('game:over', {
-        winner: winnerId,
-        winnerName: winnerPlayer?.name || 'Unknown',
-        reason: winReason,
-      });
+  // --- Annotate a Move ---
+  // Players mark up the finished game; everyone in the room sees the list change
+  socket.on('game:annotate', data => {
+    if (isRateLimited(socket.id, 500)) {
+      socket.emit('room:error', { message: 'Too many requests, slow down' });
+      return;
+    }
 
-      addChatMessage(room, null, `Game over! ${winnerPlayer?.name} wins — ${winResult.reason}`, true);
-      io.to(room.code).emit('chat:system', {
-        text: `Game over! ${winnerPlayer?.name} wins — ${winResult.reason}`,
-        timestamp: Date.now(),
-      });
+    const found = findRoomBySocketId(socket.id);
+    if (!found) {
+      const message = findSpectatorBySocketId(socket.id) ? 'Spectators cannot annotate moves' : 'Not in a room';
+      socket.emit('room:error', { message });
+      return;
     }
 
-    // Handle draw (winner is null but game is over)
-    if (winResult && !winResult.winner) {
-      room.status = 'finished';
-      incrementGamesCompleted();
-      const drawReason = winResult.reason ?? 'Draw';
+    const { room } = found;
+    if (room.status !== 'finished') {
+      socket.emit('room:error', { message: 'Moves can be annotated once the game is over' });
+      return;
+    }
 
-      for (const p of room.players) {
-        if (p.socketId) {
-          io.to(p.socketId).emit('game:state', engine.getState(newState, p.id));
-        }
-      }
+    const { name, engine } = getGameDefinition(room.gameType);
+    if (!engine.describeMove) {
+      socket.emit('room:error', { message: `${name} games have no move list` });
+      return;
+    }
 
-      io.to(room.code).emit('game:over', {
-        winner: '',
-        winnerName: 'Draw',
-        reason: drawReason,
-      });
+    const annotation = parseAnnotation(data);
+    if (typeof annotation === 'string') {
+      socket.emit('room:error', { message: annotation });
+      return;
+    }
+    const error = annotateMove(room, data.index, annotation);
+    if (error) {
+      socket.emit('room:error', { message: error });
+      return;
+    }
+    saveRoom(room);
+    annotateReplay(room);
+    io.to(room.code).emit('game:move-list', { moves: listMoves(room, engine)! });
+  });
+
+  // --- Takeback Request ---
+  socket.on('game:takeback-request', () => {
+    if (isRateLimited(socket.id, 1000)) {
+      socket.emit('room:error', { message: 'Too many requests, slow down' });
+      return;
+    }
+
+    const found = findRoomBySocketId(socket.id);
+    if (!found) return;
+
+    const { room, player } = found;
+    if (room.status !== 'playing') {
+      socket.emit('room:error', { message: 'Game is not in progress' });
+      return;
+    }
+
+    if (room.pendingTakeback) {
+      socket.emit('room:error', { message: 'A takeback request is already pending' });
+      return;
+    }
+
+    if (takebackLength(room, player.id) === 0) {
+      socket.emit('room:error', { message: 'You have no move to take back' });
+      return;
+    }
+
+    room.pendingTakeback = { requesterId: player.id };
+    saveRoom(room);
+
+    io.to(room.code).emit('game:takeback-requested', {
+      playerId: player.id,
+      playerName: player.name,
+    });
+
+    addChatMessage(room, null, `${player.name} asked to take back their last move`, true);
+    io.to(room.code).emit('chat:system', {
+      text: `${player.name} asked to take back their last move`,
+      timestamp: Date.now(),
+    });
+
+    // Computer opponents always agree
+    const bot = room.players.find(p => p.bot && p.id !== player.id);
+    if (bot) resolveTakeback(room, bot, true);
+  });
+
+  // --- Takeback Response ---
+  socket.on('game:takeback-response', ({ accept }) => {
+    const found = findRoomBySocketId(socket.id);
+    if (!found) return;
+
+    const { room, player } = found;
+    if (room.status !== 'playing' || !room.pendingTakeback) {
+      socket.emit('room:error', { message: 'No takeback request to answer' });
+      return;
+    }
+
+    if (player.id === room.pendingTakeback.requesterId) {
+      socket.emit('room:error', { message: 'Waiting for your opponent to answer' });
+      return;
+    }
 
-      addChatMessage(room, null, `Game over! ${drawReason}`, true);
-      io.to(room.code).emit('chat:system', {
-        text: `Game over! ${drawReason}`,
-        timestamp: Date.now(),
+    resolveTakeback(room, player, accept);
+  });
+
+  // --- Resign ---
+  socket.on('game:resign', () => {
+    const found = findRoomBySocketId(socket.id);
+    if (!found) return;
+
+    const { room, player } = found;
+    if (room.status !== 'playing') {
+      socket.emit('room:error', { message: 'Game is not in progress' });
+      return;
+    }
+
+    finishGame(room, dropoutResult(room, player.id, `${player.name} resigned`));
+  });
+
+  // --- Draw Offer ---
+  socket.on('game:offer-draw', () => {
+    if (isRateLimited(socket.id, 1000)) {
+      socket.emit('room:error', { message: 'Too many requests, slow down' });
+      return;
+    }
+
+    const found = findRoomBySocketId(socket.id);
+    if (!found) return;
+
+    const { room, player } = found;
+    if (room.status !== 'playing') {
+      socket.emit('room:error', { message: 'Game is not in progress' });
+      return;
+    }
+
+    if (room.drawOfferBy) {
+      socket.emit('room:error', {
+        message: room.drawOfferBy === player.id ? 'You already offered a draw' : 'Your opponent has offered a draw',
       });
+      return;
+    }
+
+    room.drawOfferBy = player.id;
+    saveRoom(room);
+
+    io.to(room.code).emit('game:draw-offered', { playerId: player.id, playerName: player.name });
+
+    addChatMessage(room, null, `${player.name} offered a draw`, true);
+    io.to(room.code).emit('chat:system', {
+      text: `${player.name} offered a draw`,
+      timestamp: Date.now(),
+    });
+
+    // Computer opponents always play on
+    const bot = room.players.find(p => p.bot && p.id !== player.id);
+    if (bot) declineDraw(room, bot);
+  });
+
+  socket.on('game:accept-draw', () => {
+    const found = findRoomBySocketId(socket.id);
+    if (!found) return;
+
+    const { room, player } = found;
+    if (room.status !== 'playing' || !room.drawOfferBy || room.drawOfferBy === player.id) {
+      socket.emit('room:error', { message: 'No draw offer to accept' });
+      return;
     }
+
+    finishGame(room, { winner: null, reason: 'Draw agreed' });
   });
 
-  // --- Game State Request (fallback for missed game:state) ---
-  socket.on('game:request-state', () => {
+  socket.on('game:decline-draw', () => {
     const found = findRoomBySocketId(socket.id);
     if (!found) return;
 
     const { room, player } = found;
-    if (room.status === 'playing' && room.gameState) {
-      const engine = getEngine(room.gameType);
-      console.log(`[game:request-state] sending state to ${player.name}`);
-      socket.emit('game:state', engine.getState(room.gameState, player.id));
+    if (room.status !== 'playing' || !room.drawOfferBy || room.drawOfferBy === player.id) {
+      socket.emit('room:error', { message: 'No draw offer to decline' });
+      return;
+    }
+
+    declineDraw(room, player);
+  });
+
+  // Draws a player can claim on their own, e.g. chess's threefold repetition
+  socket.on('game:claim-draw', () => {
+    const found = findRoomBySocketId(socket.id);
+    if (!found) return;
+
+    const { room, player } = found;
+    if (room.status !== 'playing' || !room.gameState) {
+      socket.emit('room:error', { message: 'Game is not in progress' });
+      return;
+    }
+
+    const reason = getEngine(room.gameType).claimDraw?.(room.gameState, player.id) ?? null;
+    if (!reason) {
+      socket.emit('room:error', { message: 'There is no draw to claim' });
+      return;
     }
+
+    finishGame(room, { winner: null, reason: `${reason} Claimed by ${player.name}.` });
   });
 
   // --- Game Restart ---
@@ -488,7 +1828,6 @@ io.on('connection', (socket) => {
     if (!found) return;
 
     const { room, player } = found;
-    if (room.players.length < 2) return;
 
     if (player.id !== room.creatorId) {
       socket.emit('room:error', { message: 'Only the room creator can restart the game' });
@@ -500,44 +1839,51 @@ io.on('connection', (socket) => {
       return;
     }
 
-    const engine = getEngine(room.gameType);
-    const playerIds: [string, string] = [room.players[0].id, room.players[1].id];
+    if (room.tournamentId) {
+      socket.emit('room:error', { message: 'The tournament decides the next game' });
+      return;
+    }
 
-    let gameState;
-    try {
-      gameState = engine.initGame(playerIds);
-    } catch (err) {
-      console.error(`[game:restart] Engine error in ${room.gameType}:`, err);
-      socket.emit('room:error', { message: 'Failed to initialize game' });
+    const seatError = validateSeatCount(room.gameType, room.players.length);
+    if (seatError) {
+      socket.emit('room:error', { message: seatError });
+      return;
+    }
+
+    const previousGameType = room.gameType;
+    const startError = startGame(room);
+    if (startError) {
+      socket.emit('room:error', { message: startError });
       return;
     }
-    room.gameState = gameState;
-    room.status = 'playing';
-    incrementGamesStarted(room.gameType);
 
     addChatMessage(room, null, 'New game started!', true);
 
-    for (const p of room.players) {
-      if (p.socketId) {
-        io.to(p.socketId).emit('game:state', engine.getState(room.gameState, p.id));
-      }
+    // The next event of a decathlon: clients switch board components before game:state
+    const switched = room.gameType !== previousGameType;
+    if (switched) {
+      io.to(room.code).emit('game:restarted', { gameType: room.gameType });
+      io.to(room.code).emit('room:players', { players: getPlayersInfo(room) });
     }
 
+    broadcastState(room);
+
     io.to(room.code).emit('game:started');
-    io.to(room.code).emit('game:restarted');
+    if (!switched) io.to(room.code).emit('game:restarted');
     io.to(room.code).emit('chat:system', {
       text: 'New game started!',
       timestamp: Date.now(),
     });
+
+    scheduleBotMove(room);
   });
 
   // --- Game Switch (different game type) ---
-  socket.on('game:switch-game', ({ gameType: newGameType }) => {
+  socket.on('game:switch-game', ({ gameType: newGameType, options }) => {
     const found = findRoomBySocketId(socket.id);
     if (!found) return;
 
     const { room, player } = found;
-    if (room.players.length < 2) return;
 
     if (player.id !== room.creatorId) {
       socket.emit('room:error', { message: 'Only the room creator can switch the game' });
@@ -549,53 +1895,112 @@ io.on('connection', (socket) => {
       return;
     }
 
-    if (!VALID_GAME_TYPES.has(newGameType)) {
+    if (room.tournamentId) {
+      socket.emit('room:error', { message: 'The tournament decides the next game' });
+      return;
+    }
+
+    if (!isRegisteredGame(newGameType)) {
       socket.emit('room:error', { message: 'Invalid game type' });
       return;
     }
 
-    const engine = getEngine(newGameType as GameType);
-    const playerIds: [string, string] = [room.players[0].id, room.players[1].id];
+    if (room.matchFormat?.type === 'decathlon') {
+      socket.emit('room:error', { message: 'The decathlon decides which game is next' });
+      return;
+    }
+    if (room.match && !room.match.finished) {
+      socket.emit('room:error', { message: 'Finish the match before switching games' });
+      return;
+    }
 
-    let gameState;
-    try {
-      gameState = engine.initGame(playerIds);
-    } catch (err) {
-      console.error(`[game:switch-game] Engine error in ${newGameType}:`, err);
-      socket.emit('room:error', { message: 'Failed to initialize game' });
+    const gameOptions = resolveGameOptions(newGameType, options);
+    if (typeof gameOptions === 'string') {
+      socket.emit('room:error', { message: gameOptions });
       return;
     }
 
-    room.gameType = newGameType as GameType;
-    room.gameState = gameState;
-    room.status = 'playing';
-    incrementGamesStarted(room.gameType);
+    // A fresh series of the new game, if the room plays matches
+    const startError = startGame(room, { gameType: newGameType, options: gameOptions });
+    if (startError) {
+      socket.emit('room:error', { message: startError });
+      return;
+    }
+    notifyLobby(room);
 
-    // Game name lookup for chat message
-    const GAME_NAMES: Record<string, string> = {
-      checkers: 'Checkers', chess: 'Chess', connect4: 'Four in a Row',
-      reversi: 'Reversi', tictactoe: 'Tic-Tac-Toe', gomoku: 'Gomoku',
-      mancala: 'Mancala', dotsboxes: 'Dots & Boxes', navalbattle: 'Naval Battle',
-      go: 'Go', backgammon: 'Backgammon', cribbage: 'Cribbage',
-    };
-    const gameName = GAME_NAMES[newGameType] || newGameType;
+    const gameName = getGameDefinition(newGameType).name;
 
     addChatMessage(room, null, `Switched to ${gameName}! New game started!`, true);
 
     // Emit gameType change BEFORE game:state so clients switch board components first
     io.to(room.code).emit('game:restarted', { gameType: newGameType });
+    io.to(room.code).emit('room:players', { players: getPlayersInfo(room) }); // ratings are per game
 
-    for (const p of room.players) {
-      if (p.socketId) {
-        io.to(p.socketId).emit('game:state', engine.getState(room.gameState, p.id));
-      }
-    }
+    broadcastState(room);
 
     io.to(room.code).emit('game:started');
     io.to(room.code).emit('chat:system', {
       text: `Switched to ${gameName}! New game started!`,
       timestamp: Date.now(),
     });
+
+    scheduleBotMove(room);
+  });
+
+  // --- Public Lobby ---
+  socket.on('lobby:subscribe', () => {
+    socket.join(LOBBY_CHANNEL);
+    socket.emit('lobby:rooms', { rooms: listPublicRooms(listRooms()) });
+  });
+
+  socket.on('lobby:unsubscribe', () => {
+    socket.leave(LOBBY_CHANNEL);
+  });
+
+  // --- Tournaments ---
+  socket.on('tournament:subscribe', ({ tournamentId }) => {
+    const tournament = getTournament(tournamentId);
+    if (!tournament) {
+      socket.emit('room:error', { message: 'Tournament not found' });
+      return;
+    }
+    socket.join(tournamentChannel(tournament.id));
+    socket.emit('tournament:update', tournamentView(tournament));
+  });
+
+  socket.on('tournament:unsubscribe', ({ tournamentId }) => {
+    socket.leave(tournamentChannel(tournamentId));
+  });
+
+  // --- Quick Match ---
+  socket.on('match:join', ({ playerName, gameType }) => {
+    if (isRateLimited(socket.id, 2000)) {
+      socket.emit('room:error', { message: 'Too many requests, slow down' });
+      return;
+    }
+
+    if (!playerName || playerName.trim().length < 3 || playerName.trim().length > 20) {
+      socket.emit('room:error', { message: 'Display name must be 3-20 characters' });
+      return;
+    }
+
+    if (!isRegisteredGame(gameType)) {
+      socket.emit('room:error', { message: 'Invalid game type' });
+      return;
+    }
+
+    const group = joinQueue(gameType, {
+      socketId: socket.id,
+      playerName: playerName.trim(),
+      accountId,
+      queuedAt: Date.now(),
+    });
+    socket.emit('match:queued', { gameType });
+    if (group) startMatch(gameType, group);
+  });
+
+  socket.on('match:leave', () => {
+    if (leaveQueue(socket.id)) socket.emit('match:left');
   });
 
   // --- Chat ---
@@ -622,11 +2027,18 @@ io.on('connection', (socket) => {
   socket.on('disconnect', () => {
     console.log(`Socket disconnected: ${socket.id}`);
     lastEventTime.delete(socket.id);
+    leaveQueue(socket.id);
 
     const result = disconnectPlayer(socket.id);
     if (!result) return;
 
-    const { room, player } = result;
+    const { room, player, role } = result;
+
+    // Spectators have nothing to forfeit
+    if (role === 'spectator') {
+      broadcastSpectators(room);
+      return;
+    }
 
     addChatMessage(room, null, `${player.name} disconnected`, true);
 
@@ -634,56 +2046,17 @@ io.on('connection', (socket) => {
       playerName: player.name,
       players: getPlayersInfo(room),
     });
+    notifyLobby(room);
 
     io.to(room.code).emit('chat:system', {
       text: `${player.name} disconnected`,
       timestamp: Date.now(),
     });
 
-    // Start forfeit timer if game is in progress
-    if (room.status === 'playing') {
-      const timerId = `${room.code}:${player.id}`;
-      const timer = setTimeout(() => {
-        disconnectTimers.delete(timerId);
-
-        // Check if still disconnected
-        const currentRoom = getRoom(room.code);
-        if (!currentRoom) return;
-
-        const disconnectedPlayer = currentRoom.players.find(p => p.id === player.id);
-        if (!disconnectedPlayer || disconnectedPlayer.connected) return;
-
-        // Forfeit — the other player wins
-        const otherPlayer = currentRoom.players.find(p => p.id !== player.id);
-        if (!otherPlayer) return;
-
-        if (currentRoom.gameState && typeof currentRoom.gameState === 'object') {
-          try {
-            const state = currentRoom.gameState as Record<string, unknown>;
-            state.winner = otherPlayer.id;
-            state.winReason = `${player.name} disconnected (forfeit)`;
-          } catch (err) {
-            console.error(`[forfeit] Error updating game state:`, err);
-          }
-        }
-        currentRoom.status = 'finished';
-        incrementGamesCompleted();
-
-        addChatMessage(currentRoom, null, `${player.name} forfeited (disconnected for too long)`, true);
-
-        io.to(currentRoom.code).emit('game:over', {
-          winner: otherPlayer.id,
-          winnerName: otherPlayer.name,
-          reason: `${player.name} disconnected (forfeit)`,
-        });
-
-        io.to(currentRoom.code).emit('chat:system', {
-          text: `${player.name} forfeited (disconnected for too long)`,
-          timestamp: Date.now(),
-        });
-      }, 60_000); // 60 second timeout
-
-      disconnectTimers.set(timerId, timer);
+    // Start forfeit timer if game is in progress; correspondence games are
+    // meant to be left and come back to, so only their clocks decide them
+    if (room.status === 'playing' && !isCorrespondenceRoom(room)) {
+      scheduleDisconnectForfeit(room, player);
     }
   });
 });
@@ -697,6 +2070,23 @@ process.on('unhandledRejection', (reason) => {
   console.error('Unhandled rejection:', reason);
 });
 
+// Re-arm clocks, computer players and forfeits for games restored from storage.
+// Everyone comes back disconnected: tournament players get the no-show window
+// to sit down again, anyone else the usual time to reconnect.
+for (const room of listRooms()) {
+  if (room.status === 'playing') {
+    scheduleClockCheck(room);
+    scheduleBotMove(room);
+    if (room.tournamentId) {
+      scheduleNoShowDeadline(room);
+    } else if (!isCorrespondenceRoom(room)) {
+      for (const player of room.players) {
+        if (!player.bot && !player.connected) scheduleDisconnectForfeit(room, player);
+      }
+    }
+  }
+}
+
 httpServer.listen(PORT, () => {
   console.log(`Server running on port ${PORT}`);
 });
@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest';
+import { Room } from '../types';
+import { makePlayer, makeRoom } from '../testing';
+import { isListed, joinQueue, leaveQueue, listPublicRooms } from './index';
+
+// A public room waiting for a second player
+function openRoom(code: string, overrides: Partial<Room> = {}): Room {
+  return makeRoom({
+    code,
+    status: 'waiting',
+    isPublic: true,
+    players: [makePlayer('host')],
+    ...overrides,
+  });
+}
+
+describe('public lobby', () => {
+  it('lists public rooms that are waiting for players', () => {
+    expect(isListed(openRoom('AAAAAA'))).toBe(true);
+    expect(isListed(openRoom('AAAAAA', { isPublic: false }))).toBe(false);
+    expect(isListed(openRoom('AAAAAA', { status: 'playing' }))).toBe(false);
+    expect(isListed(openRoom('AAAAAA', { players: [makePlayer('host'), makePlayer('guest')] }))).toBe(false);
+  });
+
+  it('hides rooms whose people have all left', () => {
+    expect(isListed(openRoom('AAAAAA', { players: [makePlayer('host', { connected: false })] }))).toBe(false);
+  });
+
+  it('lists rooms oldest first and filters by game', () => {
+    const rooms = [
+      openRoom('NEWEST', { createdAt: 3 }),
+      openRoom('OLDEST', { createdAt: 1, gameType: 'chess' }),
+      openRoom('MIDDLE', { createdAt: 2 }),
+    ];
+    expect(listPublicRooms(rooms).map(r => r.code)).toEqual(['OLDEST', 'MIDDLE', 'NEWEST']);
+    expect(listPublicRooms(rooms, 'chess').map(r => r.code)).toEqual(['OLDEST']);
+
+    const [info] = listPublicRooms(rooms, 'chess');
+    expect(info).toEqual({
+      code: 'OLDEST',
+      gameType: 'chess',
+      hostName: 'Player host',
+      playerCount: 1,
+      maxPlayers: 2,
+      timeControl: null,
+      rated: false,
+      createdAt: 1,
+    });
+  });
+});
+
+describe('quick match', () => {
+  const entry = (socketId: string) => ({ socketId, playerName: socketId, accountId: null, queuedAt: 0 });
+
+  it('pairs players in the order they queued', () => {
+    expect(joinQueue('connect4', entry('a'))).toBeNull();
+    expect(joinQueue('connect4', entry('b'))?.map(e => e.socketId)).toEqual(['a', 'b']);
+    expect(joinQueue('connect4', entry('c'))).toBeNull();
+    expect(leaveQueue('c')).toBe('connect4');
+  });
+
+  it('keeps separate queues per game', () => {
+    expect(joinQueue('chess', entry('a'))).toBeNull();
+    expect(joinQueue('go', entry('b'))).toBeNull();
+    expect(leaveQueue('a')).toBe('chess');
+    expect(leaveQueue('b')).toBe('go');
+  });
+
+  it('moves a player who queues again to the new game', () => {
+    expect(joinQueue('chess', entry('a'))).toBeNull();
+    expect(joinQueue('reversi', entry('a'))).toBeNull();
+    expect(joinQueue('chess', entry('b'))).toBeNull();
+    expect(joinQueue('reversi', entry('c'))?.map(e => e.socketId)).toEqual(['a', 'c']);
+    expect(leaveQueue('b')).toBe('chess');
+  });
+
+  it('forgets players who leave', () => {
+    expect(joinQueue('mancala', entry('a'))).toBeNull();
+    expect(leaveQueue('a')).toBe('mancala');
+    expect(leaveQueue('a')).toBeNull();
+    expect(joinQueue('mancala', entry('b'))).toBeNull();
+    expect(leaveQueue('b')).toBe('mancala');
+  });
+});
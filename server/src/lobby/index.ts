@@ -0,0 +1,79 @@
+import { GameType, PublicRoomInfo, Room } from '../types';
+import { getGameDefinition } from '../games/registry';
+
+// ---- Public Lobby ----
+// Rooms created as public are listed while they wait for players; a room
+// drops off once it is full, starts, or its host is gone.
+
+/** Whether a stranger could join this room from the lobby right now. */
+export function isListed(room: Room): boolean {
+  return (
+    room.isPublic &&
+    room.status === 'waiting' &&
+    room.players.length < getGameDefinition(room.gameType).maxPlayers &&
+    room.players.some(p => !p.bot && p.connected)
+  );
+}
+
+export function toPublicRoomInfo(room: Room): PublicRoomInfo {
+  const host = room.players.find(p => p.id === room.creatorId) ?? room.players[0];
+  return {
+    code: room.code,
+    gameType: room.gameType,
+    hostName: host?.name ?? 'Unknown',
+    playerCount: room.players.length,
+    maxPlayers: getGameDefinition(room.gameType).maxPlayers,
+    timeControl: room.timeControl,
+    rated: room.rated,
+    createdAt: room.createdAt,
+  };
+}
+
+/** The listed rooms, oldest first, optionally for one game only. */
+export function listPublicRooms(rooms: Room[], gameType?: GameType): PublicRoomInfo[] {
+  return rooms
+    .filter(room => isListed(room) && (!gameType || room.gameType === gameType))
+    .sort((a, b) => a.createdAt - b.createdAt)
+    .map(toPublicRoomInfo);
+}
+
+// ---- Quick Match ----
+// One first-come-first-served queue per game. As soon as a queue holds enough
+// players for a game they are taken off it together and get a fresh room.
+
+export interface QueueEntry {
+  socketId: string;
+  playerName: string;
+  accountId: string | null;
+  queuedAt: number;
+}
+
+const queues = new Map<GameType, QueueEntry[]>();
+
+/**
+ * Queue a player for a game, replacing any place they held in another queue.
+ * Returns the group to seat once the queue has enough players, otherwise null.
+ */
+export function joinQueue(gameType: GameType, entry: QueueEntry): QueueEntry[] | null {
+  leaveQueue(entry.socketId);
+
+  const queue = queues.get(gameType) ?? [];
+  queue.push(entry);
+  queues.set(gameType, queue);
+
+  const needed = getGameDefinition(gameType).minPlayers;
+  if (queue.length < needed) return null;
+  return queue.splice(0, needed);
+}
+
+/** Take a player out of whichever queue they are in; returns that game, if any. */
+export function leaveQueue(socketId: string): GameType | null {
+  for (const [gameType, queue] of queues) {
+    const index = queue.findIndex(e => e.socketId === socketId);
+    if (index !== -1) {
+      queue.splice(index, 1);
+      return gameType;
+    }
+  }
+  return null;
+}
@@ -0,0 +1,88 @@
+import { describe, it, expect } from 'vitest';
+import { createRng } from '../games/random';
+import {
+  createMatch,
+  describeMatchScore,
+  matchFirstPlayer,
+  nextMatchGameType,
+  parseMatchFormat,
+  recordMatchGame,
+} from './index';
+
+describe('parseMatchFormat', () => {
+  it('accepts best of 3, 5 or 7 and standalone games', () => {
+    expect(parseMatchFormat(undefined, 'chess')).toBeNull();
+    expect(parseMatchFormat({ type: 'best-of', games: 5 }, 'chess')).toEqual({ type: 'best-of', games: 5 });
+    expect(parseMatchFormat({ type: 'best-of', games: 4 }, 'chess')).toBe('A match is best of 3, 5 or 7 games');
+    expect(parseMatchFormat('best-of', 'chess')).toBe('Invalid match format');
+  });
+
+  it('checks the games of a decathlon', () => {
+    expect(parseMatchFormat({ type: 'decathlon', gameTypes: ['chess', 'go'] }, 'chess')).toEqual({
+      type: 'decathlon',
+      gameTypes: ['chess', 'go'],
+    });
+    expect(parseMatchFormat({ type: 'decathlon', gameTypes: ['chess'] }, 'chess')).toBe('A decathlon has 2-10 games');
+    expect(parseMatchFormat({ type: 'decathlon', gameTypes: ['chess', 'poker'] }, 'chess')).toBe('Invalid game type');
+    expect(parseMatchFormat({ type: 'decathlon', gameTypes: ['go', 'chess'] }, 'chess')).toBe(
+      "A decathlon starts with the room's game",
+    );
+  });
+});
+
+describe('match play', () => {
+  it('takes the first-move order from the seed', () => {
+    const format = { type: 'best-of', games: 3 } as const;
+    const players = ['a', 'b', 'c', 'd'];
+    const order = createMatch(format, players, createRng(42)).playerIds;
+    expect(createMatch(format, players, createRng(42)).playerIds).toEqual(order);
+    expect([...order].sort()).toEqual(players);
+  });
+
+  it('alternates who moves first', () => {
+    const match = createMatch({ type: 'best-of', games: 5 }, ['a', 'b']);
+    const first = matchFirstPlayer(match);
+    recordMatchGame(match, 'chess', null);
+    expect(matchFirstPlayer(match)).not.toBe(first);
+    recordMatchGame(match, 'chess', null);
+    expect(matchFirstPlayer(match)).toBe(first);
+  });
+
+  it('ends a best-of match once the leader cannot be caught', () => {
+    const match = createMatch({ type: 'best-of', games: 5 }, ['a', 'b']);
+    recordMatchGame(match, 'chess', 'a');
+    recordMatchGame(match, 'chess', 'b');
+    recordMatchGame(match, 'chess', 'a');
+    expect(match.finished).toBe(false);
+    recordMatchGame(match, 'chess', 'a');
+    expect(match).toMatchObject({ finished: true, winner: 'a', scores: { a: 3, b: 1 } });
+
+    recordMatchGame(match, 'chess', 'b'); // ignored once decided
+    expect(match.results).toHaveLength(4);
+  });
+
+  it('counts draws as half a point and can end level', () => {
+    const match = createMatch({ type: 'best-of', games: 3 }, ['a', 'b']);
+    recordMatchGame(match, 'chess', 'a');
+    recordMatchGame(match, 'chess', null);
+    recordMatchGame(match, 'chess', 'b');
+    expect(match).toMatchObject({ finished: true, winner: null, scores: { a: 1.5, b: 1.5 } });
+    expect(describeMatchScore(match, id => id.toUpperCase())).toMatch(/^[AB] 1½ – 1½ [AB]$/);
+  });
+
+  it('plays every event of a decathlon in order', () => {
+    const format = { type: 'decathlon' as const, gameTypes: ['chess' as const, 'go' as const, 'tictactoe' as const] };
+    const match = createMatch(format, ['a', 'b']);
+    expect(nextMatchGameType(format, null)).toBe('chess');
+
+    recordMatchGame(match, 'chess', 'a');
+    recordMatchGame(match, 'go', 'a');
+    expect(match.finished).toBe(false); // already decided, but every event is played
+    expect(nextMatchGameType(format, match)).toBe('tictactoe');
+
+    recordMatchGame(match, 'tictactoe', 'b');
+    expect(match).toMatchObject({ finished: true, winner: 'a' });
+    expect(nextMatchGameType(format, match)).toBe('chess'); // a new match starts over
+    expect(nextMatchGameType({ type: 'best-of', games: 3 }, match)).toBeNull();
+  });
+});
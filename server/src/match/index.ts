@@ -0,0 +1,115 @@
+import { GameType, MatchFormat, MatchState } from '../types';
+import { isRegisteredGame } from '../games/registry';
+import { Rng, createRng, shuffle } from '../games/random';
+
+// ---- Match Play ----
+// A room can play a series instead of standalone games: best of 3/5/7 of its
+// game, or a "decathlon" of one game of each listed type. Wins score a point
+// and draws half a point each; players take turns moving first.
+
+const BEST_OF = [3, 5, 7];
+const MAX_DECATHLON_GAMES = 10;
+
+/** Check a match format from the client. Null means standalone games. */
+export function parseMatchFormat(raw: unknown, gameType: GameType): MatchFormat | null | string {
+  if (raw === undefined || raw === null) return null;
+  if (typeof raw !== 'object') return 'Invalid match format';
+  const format = raw as Record<string, unknown>;
+
+  switch (format.type) {
+    case 'best-of':
+      if (typeof format.games !== 'number' || !BEST_OF.includes(format.games)) {
+        return 'A match is best of 3, 5 or 7 games';
+      }
+      return { type: 'best-of', games: format.games as 3 | 5 | 7 };
+    case 'decathlon': {
+      const { gameTypes } = format;
+      if (!Array.isArray(gameTypes) || gameTypes.length < 2 || gameTypes.length > MAX_DECATHLON_GAMES) {
+        return `A decathlon has 2-${MAX_DECATHLON_GAMES} games`;
+      }
+      if (!gameTypes.every(isRegisteredGame)) return 'Invalid game type';
+      if (gameTypes[0] !== gameType) return "A decathlon starts with the room's game";
+      return { type: 'decathlon', gameTypes: [...gameTypes] };
+    }
+    default:
+      return 'Invalid match format';
+  }
+}
+
+/** How many games the match lasts if nobody clinches it early. */
+export function matchLength(format: MatchFormat): number {
+  return format.type === 'best-of' ? format.games : format.gameTypes.length;
+}
+
+/**
+ * Start a series between the seated players, in random order for moving first.
+ * Pass the room's seeded generator so a seed reproduces the whole series.
+ */
+export function createMatch(
+  format: MatchFormat,
+  playerIds: string[],
+  rng: Rng = createRng(),
+): MatchState {
+  return {
+    format,
+    playerIds: shuffle(playerIds, rng),
+    scores: Object.fromEntries(playerIds.map(id => [id, 0])),
+    results: [],
+    finished: false,
+    winner: null,
+  };
+}
+
+/** Who moves first in the match's next game. */
+export function matchFirstPlayer(match: MatchState): string {
+  return match.playerIds[match.results.length % match.playerIds.length];
+}
+
+/**
+ * The game type of the room's next game: the next event of a decathlon (or
+ * the first, once a match is over), or null to keep playing the same game.
+ */
+export function nextMatchGameType(format: MatchFormat, match: MatchState | null): GameType | null {
+  if (format.type !== 'decathlon') return null;
+  const played = match && !match.finished ? match.results.length : 0;
+  return format.gameTypes[played];
+}
+
+/**
+ * Score a finished game. A best-of match ends as soon as the leader can't be
+ * caught; a decathlon plays every event. Level scores at the end are a drawn match.
+ */
+export function recordMatchGame(match: MatchState, gameType: GameType, winner: string | null): void {
+  if (match.finished) return;
+  match.results.push({ gameType, winner });
+  if (winner === null) {
+    for (const id of match.playerIds) match.scores[id] += 0.5;
+  } else if (winner in match.scores) {
+    match.scores[winner] += 1;
+  }
+
+  const remaining = matchLength(match.format) - match.results.length;
+  const [leader, runnerUp] = [...match.playerIds].sort((a, b) => match.scores[b] - match.scores[a]);
+  const lead = match.scores[leader] - match.scores[runnerUp];
+
+  if (remaining <= 0 || (match.format.type === 'best-of' && lead > remaining)) {
+    match.finished = true;
+    match.winner = lead > 0 ? leader : null;
+  }
+}
+
+/** Points as players say them: 2, 2½, ½. */
+export function formatPoints(points: number): string {
+  const whole = Math.floor(points);
+  if (points === whole) return String(whole);
+  return whole === 0 ? '½' : `${whole}½`;
+}
+
+/** The series score for chat, e.g. "Alice 2 – 1 Bob". */
+export function describeMatchScore(match: MatchState, nameOf: (playerId: string) => string): string {
+  const [first, second] = match.playerIds;
+  if (match.playerIds.length === 2) {
+    return `${nameOf(first)} ${formatPoints(match.scores[first])} – ${formatPoints(match.scores[second])} ${nameOf(second)}`;
+  }
+  return match.playerIds.map(id => `${nameOf(id)} ${formatPoints(match.scores[id])}`).join(', ');
+}
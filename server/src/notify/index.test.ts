@@ -0,0 +1,42 @@
+import { describe, it, expect, vi } from 'vitest';
+import { Notification } from '../types';
+import { createLogNotifier, createWebhookNotifier } from './index';
+
+const notification: Notification = {
+  type: 'your-turn',
+  accountId: 'acc-1',
+  playerName: 'Alice',
+  roomCode: 'ABCDEF',
+  gameType: 'chess',
+  text: 'Your move in Chess against Bob',
+  deadline: 1000,
+  sentAt: 1,
+};
+
+describe('notifiers', () => {
+  it('logs notifications', async () => {
+    const lines: string[] = [];
+    await createLogNotifier(line => lines.push(line)).send(notification);
+    expect(lines).toEqual(['[notify] Alice (acc-1): Your move in Chess against Bob']);
+  });
+
+  it('posts notifications to a webhook as JSON', async () => {
+    const post = vi.fn(async () => new Response(null, { status: 204 }));
+    await createWebhookNotifier('https://example.test/hook', post).send(notification);
+    expect(post).toHaveBeenCalledWith('https://example.test/hook', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(notification),
+    });
+  });
+
+  it('drops a notification the webhook fails to take', async () => {
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const post = vi.fn(async () => {
+      throw new Error('connection refused');
+    });
+    await expect(createWebhookNotifier('https://example.test/hook', post).send(notification)).resolves.toBeUndefined();
+    expect(error).toHaveBeenCalled();
+    error.mockRestore();
+  });
+});
@@ -0,0 +1,54 @@
+import { Notification } from '../types';
+
+// ---- Notifications ----
+// Players away from a slow game hear about it through a notifier. The
+// transport is pluggable: the built-in ones write to the server log or POST
+// each notification as JSON to a webhook, which can pass it on by email,
+// chat or push. Delivery is best effort and never holds up the game.
+
+export interface Notifier {
+  send(notification: Notification): Promise<void>;
+}
+
+/** Writes notifications to the server log; the default for local dev and tests. */
+export function createLogNotifier(log: (line: string) => void = console.log): Notifier {
+  return {
+    async send(notification) {
+      log(`[notify] ${notification.playerName} (${notification.accountId}): ${notification.text}`);
+    },
+  };
+}
+
+/** POSTs each notification to `url`; failures are logged and dropped. */
+export function createWebhookNotifier(url: string, post: typeof fetch = fetch): Notifier {
+  return {
+    async send(notification) {
+      try {
+        const res = await post(url, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(notification),
+        });
+        if (!res.ok) console.error(`[notify] webhook answered ${res.status}`);
+      } catch (err) {
+        console.error('[notify] webhook failed:', err);
+      }
+    },
+  };
+}
+
+/** Pick a notifier from the environment: `NOTIFY_WEBHOOK_URL` posts there, otherwise log. */
+export function createNotifierFromEnv(): Notifier {
+  const url = process.env.NOTIFY_WEBHOOK_URL;
+  return url ? createWebhookNotifier(url) : createLogNotifier();
+}
+
+let notifier: Notifier = createLogNotifier();
+
+export function initNotifier(next: Notifier): void {
+  notifier = next;
+}
+
+export function notify(notifications: Notification[]): void {
+  for (const notification of notifications) void notifier.send(notification);
+}
@@ -0,0 +1,76 @@
+import { beforeEach, describe, it, expect } from 'vitest';
+import { createMemoryRatingStore } from '../storage';
+import {
+  DEFAULT_RATING,
+  getLeaderboard,
+  getRating,
+  glicko2Update,
+  initRatingStorage,
+  recordRatedGame,
+} from './index';
+
+describe('glicko2Update', () => {
+  it('matches the worked example from the Glicko-2 paper', () => {
+    const updated = glicko2Update({ rating: 1500, rd: 200, volatility: 0.06 }, [
+      { opponent: { rating: 1400, rd: 30, volatility: 0.06 }, score: 1 },
+      { opponent: { rating: 1550, rd: 100, volatility: 0.06 }, score: 0 },
+      { opponent: { rating: 1700, rd: 300, volatility: 0.06 }, score: 0 },
+    ]);
+    expect(updated.rating).toBeCloseTo(1464.06, 1);
+    expect(updated.rd).toBeCloseTo(151.52, 1);
+    expect(updated.volatility).toBeCloseTo(0.059996, 6);
+  });
+
+  it('only widens the deviation for a period without games', () => {
+    const updated = glicko2Update({ rating: 1600, rd: 100, volatility: 0.06 }, []);
+    expect(updated.rating).toBe(1600);
+    expect(updated.rd).toBeGreaterThan(100);
+  });
+});
+
+describe('ratings', () => {
+  beforeEach(() => {
+    initRatingStorage(createMemoryRatingStore());
+  });
+
+  it('starts accounts unrated', () => {
+    expect(getRating('a', 'chess')).toMatchObject({ rating: DEFAULT_RATING, rd: 350, games: 0 });
+  });
+
+  it('moves the winner up and the loser down by the same amount from equal ratings', () => {
+    const [a, b] = recordRatedGame('chess', ['a', 'b'], 'a');
+    expect(a.rating - DEFAULT_RATING).toBeCloseTo(DEFAULT_RATING - b.rating, 6);
+    expect(a.rating).toBeGreaterThan(DEFAULT_RATING);
+    expect(a).toMatchObject({ games: 1, wins: 1, losses: 0, draws: 0 });
+    expect(b).toMatchObject({ games: 1, wins: 0, losses: 1, draws: 0 });
+    expect(getRating('a', 'go').games).toBe(0); // per game type
+  });
+
+  it('pulls ratings together on a draw', () => {
+    const [aBefore, bBefore] = recordRatedGame('chess', ['a', 'b'], 'a');
+    const [a, b] = recordRatedGame('chess', ['a', 'b'], null);
+    expect(a.rating).toBeLessThan(aBefore.rating);
+    expect(b.rating).toBeGreaterThan(bBefore.rating);
+    expect(a).toMatchObject({ games: 2, draws: 1 });
+    expect(b).toMatchObject({ games: 2, draws: 1 });
+  });
+
+  it('ranks the leaderboard by rating and skips other games', () => {
+    recordRatedGame('chess', ['a', 'b'], 'a');
+    recordRatedGame('chess', ['c', 'b'], 'b');
+    recordRatedGame('go', ['d', 'e'], 'd');
+    const board = getLeaderboard('chess', 10);
+    expect(board.map(r => r.accountId)).toEqual(['a', 'b', 'c']);
+    expect(getLeaderboard('chess', 1)).toHaveLength(1);
+  });
+
+  it('reloads ratings from the store', async () => {
+    const store = createMemoryRatingStore();
+    initRatingStorage(store);
+    recordRatedGame('chess', ['a', 'b'], 'a');
+    await Promise.resolve();
+
+    expect(initRatingStorage(store)).toBe(2);
+    expect(getRating('a', 'chess').wins).toBe(1);
+  });
+});
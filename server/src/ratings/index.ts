@@ -0,0 +1,190 @@
+import { GameType, Rating } from '../types';
+import { RatingStore, createMemoryRatingStore } from '../storage';
+
+// ---- Glicko-2 ----
+// Glickman's Glicko-2 (http://www.glicko.net/glicko/glicko2.pdf), with every
+// rated game treated as its own rating period. Ratings are on the familiar
+// Glicko scale (1500 start) and converted to the Glicko-2 scale for the maths.
+
+export const DEFAULT_RATING = 1500;
+export const DEFAULT_RD = 350;
+export const DEFAULT_VOLATILITY = 0.06;
+
+const TAU = 0.5; // how fast volatility may change
+const SCALE = 173.7178;
+const EPSILON = 0.000001;
+
+export interface Glicko {
+  rating: number;
+  rd: number;
+  volatility: number;
+}
+
+// score: 1 win, 0.5 draw, 0 loss, from the player's side
+export interface GlickoResult {
+  opponent: Glicko;
+  score: number;
+}
+
+function g(phi: number): number {
+  return 1 / Math.sqrt(1 + (3 * phi * phi) / (Math.PI * Math.PI));
+}
+
+function expectedScore(mu: number, muOpponent: number, phiOpponent: number): number {
+  return 1 / (1 + Math.exp(-g(phiOpponent) * (mu - muOpponent)));
+}
+
+/** The new volatility, found with the Illinois variant of regula falsi (step 5 of the paper). */
+function newVolatility(phi: number, volatility: number, v: number, delta: number): number {
+  const a = Math.log(volatility * volatility);
+  const f = (x: number) => {
+    const ex = Math.exp(x);
+    const d = phi * phi + v + ex;
+    return (ex * (delta * delta - phi * phi - v - ex)) / (2 * d * d) - (x - a) / (TAU * TAU);
+  };
+
+  let A = a;
+  let B: number;
+  if (delta * delta > phi * phi + v) {
+    B = Math.log(delta * delta - phi * phi - v);
+  } else {
+    let k = 1;
+    while (f(a - k * TAU) < 0) k++;
+    B = a - k * TAU;
+  }
+
+  let fA = f(A);
+  let fB = f(B);
+  while (Math.abs(B - A) > EPSILON) {
+    const C = A + ((A - B) * fA) / (fB - fA);
+    const fC = f(C);
+    if (fC * fB <= 0) {
+      A = B;
+      fA = fB;
+    } else {
+      fA /= 2;
+    }
+    B = C;
+    fB = fC;
+  }
+  return Math.exp(A / 2);
+}
+
+/** One rating period for a player: their rating after the given results. */
+export function glicko2Update(player: Glicko, results: GlickoResult[]): Glicko {
+  const mu = (player.rating - DEFAULT_RATING) / SCALE;
+  const phi = player.rd / SCALE;
+
+  // Sitting a period out only makes the rating less certain
+  if (results.length === 0) {
+    const rd = Math.sqrt(phi * phi + player.volatility * player.volatility) * SCALE;
+    return { ...player, rd: Math.min(rd, DEFAULT_RD) };
+  }
+
+  let vInverse = 0;
+  let improvement = 0;
+  for (const { opponent, score } of results) {
+    const muJ = (opponent.rating - DEFAULT_RATING) / SCALE;
+    const phiJ = opponent.rd / SCALE;
+    const e = expectedScore(mu, muJ, phiJ);
+    vInverse += g(phiJ) * g(phiJ) * e * (1 - e);
+    improvement += g(phiJ) * (score - e);
+  }
+  const v = 1 / vInverse;
+  const delta = v * improvement;
+
+  const volatility = newVolatility(phi, player.volatility, v, delta);
+  const phiStar = Math.sqrt(phi * phi + volatility * volatility);
+  const phiNew = 1 / Math.sqrt(1 / (phiStar * phiStar) + 1 / v);
+  const muNew = mu + phiNew * phiNew * improvement;
+
+  return {
+    rating: muNew * SCALE + DEFAULT_RATING,
+    rd: Math.min(phiNew * SCALE, DEFAULT_RD),
+    volatility,
+  };
+}
+
+// ---- Ratings ----
+// One rating per account per game type, kept in a store like the accounts.
+
+const ratings = new Map<string, Rating>(); // by `${accountId}:${gameType}`
+let store: RatingStore = createMemoryRatingStore();
+
+const keyFor = (accountId: string, gameType: GameType) => `${accountId}:${gameType}`;
+
+/** Switch to the given store and load the ratings it holds. */
+export function initRatingStorage(ratingStore: RatingStore): number {
+  store = ratingStore;
+  ratings.clear();
+  for (const rating of store.load().ratings) ratings.set(keyFor(rating.accountId, rating.gameType), rating);
+  return ratings.size;
+}
+
+function persist(): void {
+  void store.save({ ratings: Array.from(ratings.values()) });
+}
+
+/** An account's rating in a game; accounts that never played it start unrated. */
+export function getRating(accountId: string, gameType: GameType): Rating {
+  return (
+    ratings.get(keyFor(accountId, gameType)) ?? {
+      accountId,
+      gameType,
+      rating: DEFAULT_RATING,
+      rd: DEFAULT_RD,
+      volatility: DEFAULT_VOLATILITY,
+      games: 0,
+      wins: 0,
+      losses: 0,
+      draws: 0,
+      updatedAt: 0,
+    }
+  );
+}
+
+/** Every game an account has a rating in. */
+export function getRatingsForAccount(accountId: string): Rating[] {
+  return Array.from(ratings.values()).filter(r => r.accountId === accountId);
+}
+
+/**
+ * Rate a finished game between accounts. Everyone plays everyone: the winner
+ * beat each other player, and with no winner every pairing is a draw. All
+ * players are updated from the ratings they had before the game.
+ */
+export function recordRatedGame(gameType: GameType, accountIds: string[], winner: string | null): Rating[] {
+  const before = accountIds.map(id => getRating(id, gameType));
+  const now = Date.now();
+
+  const after = before.map(player => {
+    const results = before
+      .filter(opponent => opponent.accountId !== player.accountId)
+      .map(opponent => ({
+        opponent,
+        score: winner === null ? 0.5 : winner === player.accountId ? 1 : winner === opponent.accountId ? 0 : 0.5,
+      }));
+    const updated: Rating = {
+      ...player,
+      ...glicko2Update(player, results),
+      games: player.games + 1,
+      wins: player.wins + (winner === player.accountId ? 1 : 0),
+      losses: player.losses + (winner !== null && winner !== player.accountId ? 1 : 0),
+      draws: player.draws + (winner === null ? 1 : 0),
+      updatedAt: now,
+    };
+    return updated;
+  });
+
+  for (const rating of after) ratings.set(keyFor(rating.accountId, gameType), rating);
+  persist();
+  return after;
+}
+
+/** The best-rated accounts in a game, highest first. */
+export function getLeaderboard(gameType: GameType, limit: number): Rating[] {
+  return Array.from(ratings.values())
+    .filter(r => r.gameType === gameType && r.games > 0)
+    .sort((a, b) => b.rating - a.rating || a.rd - b.rd)
+    .slice(0, limit);
+}
@@ -0,0 +1,102 @@
+import { describe, it, expect, vi } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { GameType, Room } from '../types';
+import { makePlayer, makeRoom } from '../testing';
+import { getEngine } from '../games/registry';
+import { annotateMove, recordMove, resetHistory } from '../history';
+import { createFileReplayStore, createMemoryReplayStore } from '../storage';
+import { annotateReplay, getReplay, hasReplay, initReplayStorage, saveReplay } from './index';
+
+function startRoom(gameType: GameType): Room {
+  const players = [makePlayer('a'), makePlayer('b')];
+  const room = makeRoom({
+    code: 'REPLAY',
+    gameType,
+    players,
+    gameState: getEngine(gameType).initGame(players.map(p => p.id)),
+  });
+  resetHistory(room);
+  return room;
+}
+
+describe('replays', () => {
+  it('keeps every position with the move that led to it', () => {
+    const room = startRoom('tictactoe');
+    const engine = getEngine('tictactoe');
+    const first = engine.getActivePlayers(room.gameState)[0];
+    const move = { type: 'place' as const, position: { row: 1, col: 1 } };
+    room.gameState = engine.applyMove(room.gameState, first, move);
+    recordMove(room, first, move);
+
+    const replay = saveReplay(room, { winner: null, reason: 'Draw agreed' });
+    expect(replay.gameType).toBe('tictactoe');
+    expect(replay.players).toEqual([{ id: 'a', name: 'Player a' }, { id: 'b', name: 'Player b' }]);
+    expect(replay.reason).toBe('Draw agreed');
+    expect(replay.steps).toHaveLength(2);
+    expect(replay.steps[0].move).toBeNull();
+    expect(replay.steps[1].move?.playerId).toBe(first);
+    expect(getReplay(replay.id)).toEqual(replay);
+  });
+
+  it('stores what a spectator would see', () => {
+    const room = startRoom('navalbattle');
+    const replay = saveReplay(room, { winner: 'a', reason: 'Player b resigned' });
+    expect(replay.steps[0].state).toEqual(getEngine('navalbattle').getState(room.gameState, 'spectator'));
+  });
+
+  it('picks up annotations added after the game', () => {
+    const room = startRoom('tictactoe');
+    const engine = getEngine('tictactoe');
+    const first = engine.getActivePlayers(room.gameState)[0];
+    const move = { type: 'place' as const, position: { row: 0, col: 0 } };
+    room.gameState = engine.applyMove(room.gameState, first, move);
+    recordMove(room, first, move);
+    room.replayId = saveReplay(room, { winner: null, reason: 'Draw agreed' }).id;
+
+    annotateMove(room, 0, { glyph: '?', comment: 'The centre is stronger' });
+    annotateReplay(room);
+    expect(getReplay(room.replayId)?.steps[1].move?.annotation).toEqual({
+      glyph: '?',
+      comment: 'The centre is stronger',
+    });
+
+    annotateMove(room, 0, null);
+    annotateReplay(room);
+    expect(getReplay(room.replayId)?.steps[1].move).not.toHaveProperty('annotation');
+  });
+
+  it('annotates a file-backed replay before its file is written', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'replays-'));
+    try {
+      initReplayStorage(createFileReplayStore(dir));
+      const room = startRoom('tictactoe');
+      const engine = getEngine('tictactoe');
+      const first = engine.getActivePlayers(room.gameState)[0];
+      const move = { type: 'place' as const, position: { row: 1, col: 1 } };
+      room.gameState = engine.applyMove(room.gameState, first, move);
+      recordMove(room, first, move);
+      room.replayId = saveReplay(room, { winner: null, reason: 'Draw agreed' }).id;
+
+      const annotation = { glyph: '!' as const, comment: 'Takes the centre' };
+      expect(hasReplay(room.replayId)).toBe(true);
+      annotateMove(room, 0, annotation);
+      annotateReplay(room);
+      expect(getReplay(room.replayId)?.steps[1].move?.annotation).toEqual(annotation);
+
+      // And it's on disk once the writes have landed
+      const id = room.replayId;
+      await vi.waitFor(() => {
+        expect(createFileReplayStore(dir).load(id)?.steps[1].move?.annotation).toEqual(annotation);
+      });
+    } finally {
+      initReplayStorage(createMemoryReplayStore());
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('finds nothing for unknown ids', () => {
+    expect(getReplay('missing')).toBeNull();
+  });
+});
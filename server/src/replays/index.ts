@@ -0,0 +1,68 @@
+import { v4 as uuidv4 } from 'uuid';
+import { GameResult, MoveRecord, Replay, ReplayStep, Room } from '../types';
+import { getEngine } from '../games/registry';
+import { ReplayStore, createMemoryReplayStore } from '../storage';
+
+// ---- Replays ----
+// Finished games are kept as the spectator's view of every position, so a
+// replay link can be shared without giving away hidden information such as
+// ship positions or hands. They live in the replay store, which keeps them
+// across restarts when storage is file-backed.
+
+// Not a seat in any game, so every engine hands back its spectator view
+const REPLAY_VIEWER = 'replay';
+
+function toReplayMove({ playerId, timestamp, annotation }: MoveRecord): ReplayStep['move'] {
+  return { playerId, timestamp, ...(annotation && { annotation }) };
+}
+
+let store: ReplayStore = createMemoryReplayStore();
+
+/** Switch to the given store; replays are read from it as they are opened. */
+export function initReplayStorage(replayStore: ReplayStore): void {
+  store = replayStore;
+}
+
+/** Record a room's just-finished game and return the replay. */
+export function saveReplay(room: Room, result: GameResult): Replay {
+  const engine = getEngine(room.gameType);
+  const replay: Replay = {
+    id: uuidv4(),
+    gameType: room.gameType,
+    players: room.players.map(p => ({ id: p.id, name: p.name })),
+    winner: result.winner,
+    reason: result.reason ?? (result.winner ? 'Game over' : 'Draw'),
+    steps: room.stateHistory.map((state, i) => {
+      const record = i > 0 ? room.moveHistory[i - 1] : null;
+      return {
+        state: engine.getState(state, REPLAY_VIEWER),
+        move: record ? toReplayMove(record) : null,
+      };
+    }),
+    seed: room.gameSeed,
+    finishedAt: Date.now(),
+  };
+
+  void store.save(replay);
+  return replay;
+}
+
+/** Copy the room's move annotations into the replay of the game it just finished. */
+export function annotateReplay(room: Room): void {
+  const replay = room.replayId ? store.load(room.replayId) : null;
+  if (!replay) return;
+  replay.steps.forEach((step, i) => {
+    const record = i > 0 ? room.moveHistory[i - 1] : null;
+    if (record) step.move = toReplayMove(record);
+  });
+  void store.save(replay);
+}
+
+export function getReplay(id: string): Replay | null {
+  return store.load(id);
+}
+
+/** Whether a replay can still be opened; the in-memory store drops the oldest. */
+export function hasReplay(id: string): boolean {
+  return store.has(id);
+}
@@ -1,9 +1,65 @@
 import { v4 as uuidv4 } from 'uuid';
-import { Room, Player, GameType, ChatMessage } from '../types';
+import {
+  Room,
+  Player,
+  PlayerInfo,
+  RoomRole,
+  GameType,
+  GameOptions,
+  TimeControl,
+  ChatMessage,
+  BotDifficulty,
+  MatchFormat,
+} from '../types';
+import { getGameDefinition } from '../games/registry';
+import { RoomStore, createMemoryStore } from '../storage';
+import { getRating } from '../ratings';
+import { isCorrespondenceRoom } from '../correspondence';
 
 const rooms = new Map<string, Room>();
 const socketIndex = new Map<string, { roomCode: string; playerId: string }>();
 
+// How long a disconnected spectator keeps their place in the spectator list
+const SPECTATOR_GRACE_MS = 5 * 60 * 1000;
+// How long a room with nobody in it survives, and a correspondence room that
+// isn't mid-game (a game in progress stays until its clock ends it)
+const STALE_ROOM_MS = 5 * 60 * 1000;
+const STALE_CORRESPONDENCE_ROOM_MS = 7 * 24 * 60 * 60 * 1000;
+let store: RoomStore = createMemoryStore();
+
+/**
+ * Switch to the given store and load whatever rooms it holds.
+ * Restored players start disconnected and rejoin with their session token;
+ * computer players have no socket, so they stay connected.
+ */
+export function initRoomStorage(roomStore: RoomStore): number {
+  store = roomStore;
+  const now = Date.now();
+  for (const room of store.loadAll()) {
+    for (const player of [...room.players, ...room.spectators]) {
+      if (player.bot) continue;
+      player.socketId = null;
+      player.connected = false;
+      player.disconnectedAt = now;
+    }
+    // Give everyone the full stale-room window to come back
+    room.lastActivity = now;
+    rooms.set(room.code, room);
+  }
+  return rooms.size;
+}
+
+/** Persist a room after anything in it (players, gameState, chat) changes. */
+export function saveRoom(room: Room): void {
+  void store.save(room);
+}
+
+/** Drop a room outright, e.g. one that could not be set up. */
+export function deleteRoom(code: string): void {
+  rooms.delete(code);
+  void store.remove(code);
+}
+
 function generateRoomCode(): string {
   const chars = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789'; // excluded confusing chars
   let code = '';
@@ -15,7 +71,31 @@ function generateRoomCode(): string {
   return code;
 }
 
-export function createRoom(gameType: GameType, playerName: string): { room: Room; player: Player } {
+// Room settings beyond the game and its host; anything left out takes the default shown
+export interface CreateRoomOptions {
+  timeControl?: TimeControl | null; // null = untimed
+  allowSpectators?: boolean; // true
+  isPublic?: boolean; // false; public rooms are listed in the lobby
+  rated?: boolean; // false
+  matchFormat?: MatchFormat | null; // null = a single game
+  seed?: number | null; // null = a fresh random seed per game
+  accountId?: string | null; // the host's, when signed in
+}
+
+export function createRoom(
+  gameType: GameType,
+  options: GameOptions,
+  playerName: string,
+  {
+    timeControl = null,
+    allowSpectators = true,
+    isPublic = false,
+    rated = false,
+    matchFormat = null,
+    seed = null,
+    accountId = null,
+  }: CreateRoomOptions = {},
+): { room: Room; player: Player } {
   const code = generateRoomCode();
   const playerId = uuidv4();
   const sessionToken = uuidv4();
@@ -27,24 +107,48 @@ export function createRoom(gameType: GameType, playerName: string): { room: Room
     sessionToken,
     connected: true,
     disconnectedAt: null,
+    ...(accountId && { accountId }),
   };
 
   const room: Room = {
     code,
     gameType,
+    options,
+    timeControl,
+    clock: null,
     status: 'waiting',
     players: [player],
+    spectators: [],
+    allowSpectators,
+    isPublic,
+    rated,
+    matchFormat,
+    match: null,
+    tournamentId: null,
     creatorId: playerId,
     gameState: null,
+    moveHistory: [],
+    stateHistory: [],
+    gameStartedAt: null,
+    seed,
+    gameSeed: null,
+    replayId: null,
+    pendingTakeback: null,
+    drawOfferBy: null,
     chatMessages: [],
     createdAt: Date.now(),
     lastActivity: Date.now(),
   };
 
   rooms.set(code, room);
+  saveRoom(room);
   return { room, player };
 }
 
+export function listRooms(): Room[] {
+  return Array.from(rooms.values());
+}
+
 export function getActiveRoomCount(): number {
   return rooms.size;
 }
@@ -53,10 +157,21 @@ export function getRoom(code: string): Room | undefined {
   return rooms.get(code.toUpperCase());
 }
 
-export function joinRoom(code: string, playerName: string): { room: Room; player: Player } | { error: string } {
+/** Take a seat in the room, or join its spectators when `spectate` is set. */
+export function joinRoom(
+  code: string,
+  playerName: string,
+  spectate = false,
+  accountId: string | null = null,
+): { room: Room; player: Player; role: RoomRole } | { error: string } {
   const room = rooms.get(code.toUpperCase());
   if (!room) return { error: 'Room not found' };
-  if (room.players.length >= 2) return { error: 'Room is full' };
+  if (spectate && !room.allowSpectators) return { error: 'Spectating is disabled for this room' };
+  if (!spectate && room.players.length >= getGameDefinition(room.gameType).maxPlayers) {
+    return { error: 'Room is full' };
+  }
+  if (!spectate && room.rated && !accountId) return { error: 'Sign in to play a rated game' };
+  if (!spectate && isCorrespondenceRoom(room) && !accountId) return { error: 'Sign in to play a correspondence game' };
 
   const playerId = uuidv4();
   const sessionToken = uuidv4();
@@ -68,31 +183,74 @@ export function joinRoom(code: string, playerName: string): { room: Room; player
     sessionToken,
     connected: true,
     disconnectedAt: null,
+    ...(accountId && { accountId }),
+  };
+
+  if (spectate) {
+    room.spectators.push(player);
+  } else {
+    room.players.push(player);
+  }
+  room.lastActivity = Date.now();
+  saveRoom(room);
+  return { room, player, role: spectate ? 'spectator' : 'player' };
+}
+
+const DIFFICULTY_LABELS: Record<BotDifficulty, string> = { easy: 'Easy', medium: 'Medium', hard: 'Hard' };
+
+/** Seat a computer player. It has no socket or session and is always connected. */
+export function addBot(code: string, difficulty: BotDifficulty): { room: Room; player: Player } | { error: string } {
+  const room = rooms.get(code.toUpperCase());
+  if (!room) return { error: 'Room not found' };
+  if (room.players.length >= getGameDefinition(room.gameType).maxPlayers) {
+    return { error: 'Room is full' };
+  }
+  if (room.rated) return { error: 'Computer opponents cannot play rated games' };
+
+  const botNumber = room.players.filter(p => p.bot).length + 1;
+  const player: Player = {
+    id: uuidv4(),
+    name: `Computer${botNumber > 1 ? ` ${botNumber}` : ''} (${DIFFICULTY_LABELS[difficulty]})`,
+    socketId: null,
+    sessionToken: uuidv4(),
+    connected: true,
+    disconnectedAt: null,
+    bot: difficulty,
   };
 
   room.players.push(player);
   room.lastActivity = Date.now();
+  saveRoom(room);
   return { room, player };
 }
 
+/**
+ * Put a returning player or spectator back in their place, found by the
+ * session token from their tab or, failing that, by their account.
+ */
 export function reconnectPlayer(
   code: string,
-  sessionToken: string
-): { room: Room; player: Player } | { error: string } {
+  sessionToken: string | undefined,
+  accountId: string | null = null,
+): { room: Room; player: Player; role: RoomRole } | { error: string } {
   const room = rooms.get(code.toUpperCase());
   if (!room) return { error: 'Room not found' };
 
-  const player = room.players.find(p => p.sessionToken === sessionToken);
-  if (!player) return { error: 'Session not found' };
+  const found =
+    (sessionToken ? findMember(room, p => p.sessionToken === sessionToken) : null) ??
+    (accountId ? findMember(room, p => p.accountId === accountId) : null);
+  if (!found) return { error: 'Session not found' };
 
+  const { player, role } = found;
   player.connected = true;
   player.disconnectedAt = null;
   room.lastActivity = Date.now();
+  saveRoom(room);
 
-  return { room, player };
+  return { room, player, role };
 }
 
-export function disconnectPlayer(socketId: string): { room: Room; player: Player } | null {
+export function disconnectPlayer(socketId: string): { room: Room; player: Player; role: RoomRole } | null {
   const entry = socketIndex.get(socketId);
   if (!entry) return null;
 
@@ -102,18 +260,20 @@ export function disconnectPlayer(socketId: string): { room: Room; player: Player
     return null;
   }
 
-  const player = room.players.find(p => p.id === entry.playerId);
-  if (!player) {
+  const found = findMember(room, p => p.id === entry.playerId);
+  if (!found) {
     socketIndex.delete(socketId);
     return null;
   }
 
+  const { player, role } = found;
   player.connected = false;
   player.disconnectedAt = Date.now();
   player.socketId = null;
   socketIndex.delete(socketId);
   room.lastActivity = Date.now();
-  return { room, player };
+  saveRoom(room);
+  return { room, player, role };
 }
 
 export function removePlayerFromRoom(roomCode: string, playerId: string): Room | null {
@@ -124,14 +284,24 @@ export function removePlayerFromRoom(roomCode: string, playerId: string): Room |
   room.lastActivity = Date.now();
 
   if (room.players.length === 0) {
-    rooms.delete(roomCode);
+    deleteRoom(roomCode);
     return null;
   }
 
+  saveRoom(room);
   return room;
 }
 
-export function findRoomBySocketId(socketId: string): { room: Room; player: Player } | null {
+/** Look someone up among a room's players first, then its spectators. */
+function findMember(room: Room, match: (p: Player) => boolean): { player: Player; role: RoomRole } | null {
+  const player = room.players.find(match);
+  if (player) return { player, role: 'player' };
+  const spectator = room.spectators.find(match);
+  if (spectator) return { player: spectator, role: 'spectator' };
+  return null;
+}
+
+function findMemberBySocketId(socketId: string): { room: Room; player: Player; role: RoomRole } | null {
   const entry = socketIndex.get(socketId);
   if (!entry) return null;
 
@@ -141,13 +311,32 @@ export function findRoomBySocketId(socketId: string): { room: Room; player: Play
     return null;
   }
 
-  const player = room.players.find(p => p.id === entry.playerId);
-  if (!player) {
+  const found = findMember(room, p => p.id === entry.playerId);
+  if (!found) {
     socketIndex.delete(socketId);
     return null;
   }
 
-  return { room, player };
+  return { room, ...found };
+}
+
+/** The room and seated player behind a socket; spectators are not found here, so they can't act on the game. */
+export function findRoomBySocketId(socketId: string): { room: Room; player: Player } | null {
+  const found = findMemberBySocketId(socketId);
+  if (!found || found.role !== 'player') return null;
+  return { room: found.room, player: found.player };
+}
+
+export function findSpectatorBySocketId(socketId: string): { room: Room; spectator: Player } | null {
+  const found = findMemberBySocketId(socketId);
+  if (!found || found.role !== 'spectator') return null;
+  return { room: found.room, spectator: found.player };
+}
+
+export function setAllowSpectators(room: Room, allow: boolean): void {
+  room.allowSpectators = allow;
+  room.lastActivity = Date.now();
+  saveRoom(room);
 }
 
 export function updateSocketIndex(socketId: string, roomCode: string, playerId: string): void {
@@ -167,14 +356,26 @@ export function addChatMessage(room: Room, playerName: string | null, text: stri
     isSystem,
   };
   room.chatMessages.push(message);
+  saveRoom(room);
   return message;
 }
 
-export function getPlayersInfo(room: Room) {
+export function getPlayersInfo(room: Room): PlayerInfo[] {
   return room.players.map(p => ({
     id: p.id,
     name: p.name,
     connected: p.connected,
+    bot: p.bot ?? null,
+    accountId: p.accountId ?? null,
+    rating: p.accountId ? Math.round(getRating(p.accountId, room.gameType).rating) : null,
+  }));
+}
+
+export function getSpectatorsInfo(room: Room) {
+  return room.spectators.map(p => ({
+    id: p.id,
+    name: p.name,
+    connected: p.connected,
   }));
 }
 
@@ -182,15 +383,29 @@ export function getPlayersInfo(room: Room) {
 setInterval(() => {
   const now = Date.now();
   for (const [code, room] of rooms.entries()) {
-    const allDisconnected = room.players.every(p => !p.connected);
-    if (allDisconnected && now - room.lastActivity > 5 * 60 * 1000) {
-      // Clean up socket index entries for this room's players
-      for (const player of room.players) {
+    // Forget spectators who left and never came back
+    const staleSpectators = room.spectators.filter(
+      p => !p.connected && p.disconnectedAt !== null && now - p.disconnectedAt > SPECTATOR_GRACE_MS,
+    );
+    if (staleSpectators.length > 0) {
+      room.spectators = room.spectators.filter(p => !staleSpectators.includes(p));
+      saveRoom(room);
+    }
+
+    // Computer players don't keep a room alive on their own. Tournament games
+    // settle no-shows with their own deadline and correspondence games wait
+    // however long it takes their players to turn up, so neither is swept.
+    const allDisconnected = room.players.every(p => p.bot || !p.connected);
+    const awaitingPlayers = (!!room.tournamentId || isCorrespondenceRoom(room)) && room.status === 'playing';
+    const staleAfter = isCorrespondenceRoom(room) ? STALE_CORRESPONDENCE_ROOM_MS : STALE_ROOM_MS;
+    if (allDisconnected && !awaitingPlayers && now - room.lastActivity > staleAfter) {
+      // Clean up socket index entries for this room's players and spectators
+      for (const player of [...room.players, ...room.spectators]) {
         if (player.socketId) {
           socketIndex.delete(player.socketId);
         }
       }
-      rooms.delete(code);
+      deleteRoom(code);
       console.log(`Cleaned up stale room: ${code}`);
     }
   }
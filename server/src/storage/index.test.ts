@@ -0,0 +1,154 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { Replay, Room } from '../types';
+import { makePlayer, makeRoom } from '../testing';
+import { createFileReplayStore, createFileStore, createMemoryReplayStore, createMemoryStore } from './index';
+
+function makeStoredRoom(code: string): Room {
+  return makeRoom({
+    code,
+    players: [
+      makePlayer('p1', { name: 'Alice', socketId: 'sock-1', sessionToken: 't1' }),
+      makePlayer('p2', { name: 'Bob', socketId: 'sock-2', sessionToken: 't2' }),
+    ],
+    spectators: [makePlayer('s1', { name: 'Carol', socketId: 'sock-3', sessionToken: 't3' })],
+    gameState: { board: [['X', null, null], [null, 'O', null], [null, null, null]], currentTurn: 'X' },
+    chatMessages: [{ id: 'm1', playerName: 'Alice', text: 'gl', timestamp: 1, isSystem: false }],
+    lastActivity: 2,
+  });
+}
+
+function makeReplay(id: string): Replay {
+  return {
+    id,
+    gameType: 'tictactoe',
+    players: [{ id: 'p1', name: 'Alice' }, { id: 'p2', name: 'Bob' }],
+    winner: 'p1',
+    reason: 'Three in a row',
+    steps: [{ state: { board: [] }, move: null }],
+    seed: 7,
+    finishedAt: 3,
+  };
+}
+
+// ============================================================
+// Memory store
+// ============================================================
+
+describe('createMemoryStore', () => {
+  it('returns saved rooms as independent copies', async () => {
+    const store = createMemoryStore();
+    const room = makeStoredRoom('ABC123');
+    await store.save(room);
+    room.status = 'finished';
+
+    const [loaded] = store.loadAll();
+    expect(loaded.status).toBe('playing');
+    expect(loaded.players[0].socketId).toBeNull();
+    expect(loaded.spectators[0].socketId).toBeNull();
+  });
+
+  it('forgets removed rooms', async () => {
+    const store = createMemoryStore();
+    await store.save(makeStoredRoom('ABC123'));
+    await store.remove('ABC123');
+    expect(store.loadAll()).toEqual([]);
+  });
+});
+
+// ============================================================
+// File store
+// ============================================================
+
+describe('createFileStore', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'rooms-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('round-trips rooms, game state and chat across instances', async () => {
+    const room = makeStoredRoom('ABC123');
+    await createFileStore(dir).save(room);
+
+    const [loaded] = createFileStore(dir).loadAll();
+    expect(loaded.gameState).toEqual(room.gameState);
+    expect(loaded.chatMessages).toEqual(room.chatMessages);
+    expect(loaded.players.map(p => p.sessionToken)).toEqual(['t1', 't2']);
+    expect(loaded.players.every(p => p.socketId === null)).toBe(true);
+  });
+
+  it('keeps the latest of several quick saves', async () => {
+    const store = createFileStore(dir);
+    const room = makeStoredRoom('ABC123');
+    const writes = [1, 2, 3].map(n => {
+      room.lastActivity = n;
+      return store.save(room);
+    });
+    await Promise.all(writes);
+    expect(store.loadAll()[0].lastActivity).toBe(3);
+  });
+
+  it('removes room files', async () => {
+    const store = createFileStore(dir);
+    await store.save(makeStoredRoom('ABC123'));
+    await store.remove('ABC123');
+    expect(store.loadAll()).toEqual([]);
+  });
+
+  it('skips unreadable files', () => {
+    fs.writeFileSync(path.join(dir, 'BROKEN.json'), '{not json');
+    expect(createFileStore(dir).loadAll()).toEqual([]);
+  });
+});
+
+// ============================================================
+// Replay stores
+// ============================================================
+
+describe('createMemoryReplayStore', () => {
+  it('keeps only the most recent replays', async () => {
+    const store = createMemoryReplayStore(2);
+    for (const id of ['a', 'b', 'c']) await store.save(makeReplay(id));
+    expect(store.has('a')).toBe(false);
+    expect(store.load('a')).toBeNull();
+    expect(store.load('c')).toEqual(makeReplay('c'));
+  });
+});
+
+describe('createFileReplayStore', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'replays-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('round-trips replays across instances', async () => {
+    await createFileReplayStore(dir).save(makeReplay('abc-123'));
+    const store = createFileReplayStore(dir);
+    expect(store.has('abc-123')).toBe(true);
+    expect(store.load('abc-123')).toEqual(makeReplay('abc-123'));
+    expect(store.load('missing')).toBeNull();
+  });
+
+  it('never reads outside its folder', () => {
+    fs.writeFileSync(path.join(dir, '..', 'outside.json'), JSON.stringify(makeReplay('outside')));
+    try {
+      const store = createFileReplayStore(dir);
+      expect(store.load('../outside')).toBeNull();
+      expect(store.has('../outside')).toBe(false);
+    } finally {
+      fs.rmSync(path.join(dir, '..', 'outside.json'), { force: true });
+    }
+  });
+});
@@ -0,0 +1,296 @@
+import fs from 'fs';
+import path from 'path';
+import { Account, ArchivedGame, Rating, Replay, Room, Tournament } from '../types';
+
+// ---- Room Storage ----
+// Rooms (including gameState and chat) are mirrored to a store so a restart
+// doesn't wipe games in progress. The rooms module stays the live copy; the
+// store is only read once at boot.
+
+export interface RoomStore {
+  loadAll(): Room[];
+  save(room: Room): Promise<void>;
+  remove(code: string): Promise<void>;
+}
+
+/** Keeps nothing between restarts; the default for local dev and tests. */
+export function createMemoryStore(): RoomStore {
+  const saved = new Map<string, string>();
+
+  return {
+    loadAll() {
+      return Array.from(saved.values()).map(json => JSON.parse(json) as Room);
+    },
+    async save(room) {
+      saved.set(room.code, serializeRoom(room));
+    },
+    async remove(code) {
+      saved.delete(code);
+    },
+  };
+}
+
+// Writes for the same key are chained so an older snapshot can't land last
+function createWriteQueue(kind: string): (key: string, write: () => Promise<void>) => Promise<void> {
+  const pending = new Map<string, Promise<void>>();
+
+  return (key, write) => {
+    const previous = pending.get(key) ?? Promise.resolve();
+    const next = previous.then(write).catch(err => {
+      console.error(`[storage] failed to write ${kind} ${key}:`, err);
+    });
+    pending.set(key, next);
+    next.then(() => {
+      if (pending.get(key) === next) pending.delete(key);
+    });
+    return next;
+  };
+}
+
+async function writeAtomically(file: string, json: string): Promise<void> {
+  await fs.promises.writeFile(`${file}.tmp`, json);
+  await fs.promises.rename(`${file}.tmp`, file);
+}
+
+/** One JSON file per room under `dir`, replaced atomically on every save. */
+export function createFileStore(dir: string): RoomStore {
+  fs.mkdirSync(dir, { recursive: true });
+  const enqueue = createWriteQueue('room');
+  const fileFor = (code: string) => path.join(dir, `${code}.json`);
+
+  return {
+    loadAll() {
+      const rooms: Room[] = [];
+      for (const file of fs.readdirSync(dir)) {
+        if (!file.endsWith('.json')) continue;
+        try {
+          rooms.push(JSON.parse(fs.readFileSync(path.join(dir, file), 'utf8')) as Room);
+        } catch (err) {
+          console.error(`[storage] skipping unreadable room file ${file}:`, err);
+        }
+      }
+      return rooms;
+    },
+    save(room) {
+      const json = serializeRoom(room);
+      return enqueue(room.code, () => writeAtomically(fileFor(room.code), json));
+    },
+    remove(code) {
+      return enqueue(code, () => fs.promises.rm(fileFor(code), { force: true }));
+    },
+  };
+}
+
+function storageDir(): string {
+  return process.env.STORAGE_DIR || path.join(process.cwd(), 'data');
+}
+
+/** Pick a backend from the environment: `STORAGE=file` (with `STORAGE_DIR`) or in-memory. */
+export function createStoreFromEnv(): RoomStore {
+  if (process.env.STORAGE === 'file') return createFileStore(storageDir());
+  return createMemoryStore();
+}
+
+// Socket ids only mean something to the process that issued them
+function serializeRoom(room: Room): string {
+  return JSON.stringify({
+    ...room,
+    players: room.players.map(p => ({ ...p, socketId: null })),
+    spectators: room.spectators.map(p => ({ ...p, socketId: null })),
+  });
+}
+
+// ---- Document Storage ----
+// Small whole-file documents (accounts, ratings) that are rewritten on every
+// change. Same STORAGE settings as rooms, each in its own folder under
+// STORAGE_DIR so they are never read as rooms.
+
+export interface DocumentStore<T> {
+  load(): T;
+  save(data: T): Promise<void>;
+}
+
+export function createMemoryDocumentStore<T>(empty: T): DocumentStore<T> {
+  let saved = JSON.stringify(empty);
+
+  return {
+    load() {
+      return JSON.parse(saved) as T;
+    },
+    async save(data) {
+      saved = JSON.stringify(data);
+    },
+  };
+}
+
+/** The whole document in one JSON file, replaced atomically on every save. */
+export function createFileDocumentStore<T>(file: string, empty: T): DocumentStore<T> {
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  let pending = Promise.resolve();
+
+  return {
+    load() {
+      if (!fs.existsSync(file)) return empty;
+      return JSON.parse(fs.readFileSync(file, 'utf8')) as T;
+    },
+    save(data) {
+      const json = JSON.stringify(data);
+      pending = pending
+        .then(() => writeAtomically(file, json))
+        .catch(err => {
+          console.error(`[storage] failed to write ${path.basename(file)}:`, err);
+        });
+      return pending;
+    },
+  };
+}
+
+function createDocumentStoreFromEnv<T>(name: string, empty: T): DocumentStore<T> {
+  if (process.env.STORAGE === 'file') {
+    return createFileDocumentStore(path.join(storageDir(), name, `${name}.json`), empty);
+  }
+  return createMemoryDocumentStore(empty);
+}
+
+// Accounts and their sign-in sessions
+export interface AccountData {
+  accounts: Account[];
+  sessions: Record<string, AccountSession>; // SHA-256 of a sign-in token -> its session
+}
+
+export interface AccountSession {
+  accountId: string;
+  expiresAt: number;
+}
+
+export type AccountStore = DocumentStore<AccountData>;
+
+export function createMemoryAccountStore(): AccountStore {
+  return createMemoryDocumentStore<AccountData>({ accounts: [], sessions: {} });
+}
+
+export function createAccountStoreFromEnv(): AccountStore {
+  return createDocumentStoreFromEnv<AccountData>('accounts', { accounts: [], sessions: {} });
+}
+
+// Per-account, per-game ratings
+export interface RatingData {
+  ratings: Rating[];
+}
+
+export type RatingStore = DocumentStore<RatingData>;
+
+export function createMemoryRatingStore(): RatingStore {
+  return createMemoryDocumentStore<RatingData>({ ratings: [] });
+}
+
+export function createRatingStoreFromEnv(): RatingStore {
+  return createDocumentStoreFromEnv<RatingData>('ratings', { ratings: [] });
+}
+
+// Every finished game
+export interface ArchiveData {
+  games: ArchivedGame[];
+}
+
+export type ArchiveStore = DocumentStore<ArchiveData>;
+
+export function createMemoryArchiveStore(): ArchiveStore {
+  return createMemoryDocumentStore<ArchiveData>({ games: [] });
+}
+
+export function createArchiveStoreFromEnv(): ArchiveStore {
+  return createDocumentStoreFromEnv<ArchiveData>('archive', { games: [] });
+}
+
+// Tournaments, finished ones included
+export interface TournamentData {
+  tournaments: Tournament[];
+}
+
+export type TournamentStore = DocumentStore<TournamentData>;
+
+export function createMemoryTournamentStore(): TournamentStore {
+  return createMemoryDocumentStore<TournamentData>({ tournaments: [] });
+}
+
+export function createTournamentStoreFromEnv(): TournamentStore {
+  return createDocumentStoreFromEnv<TournamentData>('tournaments', { tournaments: [] });
+}
+
+// ---- Replay Storage ----
+// Replays back links that get shared, so they outlive restarts. Each one is
+// its own file, read when someone opens it rather than all held in memory.
+// The in-memory backend has nowhere else to put them and keeps only the
+// most recent.
+
+export interface ReplayStore {
+  load(id: string): Replay | null;
+  has(id: string): boolean;
+  save(replay: Replay): Promise<void>;
+}
+
+export const MAX_MEMORY_REPLAYS = 1000;
+
+export function createMemoryReplayStore(limit = MAX_MEMORY_REPLAYS): ReplayStore {
+  const saved = new Map<string, string>();
+
+  return {
+    load(id) {
+      const json = saved.get(id);
+      return json ? (JSON.parse(json) as Replay) : null;
+    },
+    has(id) {
+      return saved.has(id);
+    },
+    async save(replay) {
+      // Re-inserting moves an updated replay to the back, and Maps iterate oldest first
+      saved.delete(replay.id);
+      saved.set(replay.id, JSON.stringify(replay));
+      if (saved.size > limit) saved.delete(saved.keys().next().value!);
+    },
+  };
+}
+
+/** One JSON file per replay under `dir`, read from memory until the file is written. */
+export function createFileReplayStore(dir: string): ReplayStore {
+  fs.mkdirSync(dir, { recursive: true });
+  const enqueue = createWriteQueue('replay');
+  const unwritten = new Map<string, string>(); // id -> JSON still on its way to disk
+  // Ids come from replay links, so nothing that could step outside `dir`
+  const fileFor = (id: string) => (/^[\w-]+$/.test(id) ? path.join(dir, `${id}.json`) : null);
+
+  return {
+    load(id) {
+      const json = unwritten.get(id);
+      if (json) return JSON.parse(json) as Replay;
+      const file = fileFor(id);
+      if (!file || !fs.existsSync(file)) return null;
+      try {
+        return JSON.parse(fs.readFileSync(file, 'utf8')) as Replay;
+      } catch (err) {
+        console.error(`[storage] unreadable replay ${id}:`, err);
+        return null;
+      }
+    },
+    has(id) {
+      if (unwritten.has(id)) return true;
+      const file = fileFor(id);
+      return !!file && fs.existsSync(file);
+    },
+    async save(replay) {
+      const file = fileFor(replay.id);
+      if (!file) throw new Error(`Invalid replay id ${replay.id}`);
+      const json = JSON.stringify(replay);
+      unwritten.set(replay.id, json);
+      await enqueue(replay.id, () => writeAtomically(file, json));
+      // A later save may have replaced it in the meantime
+      if (unwritten.get(replay.id) === json) unwritten.delete(replay.id);
+    },
+  };
+}
+
+export function createReplayStoreFromEnv(): ReplayStore {
+  if (process.env.STORAGE === 'file') return createFileReplayStore(path.join(storageDir(), 'replays'));
+  return createMemoryReplayStore();
+}
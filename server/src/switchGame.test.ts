@@ -1,54 +1,39 @@
 import { describe, it, expect } from 'vitest';
-import { GameType, GameEngine, Position } from './types';
+import { GameType, GameDefinition } from './types';
+import {
+  getEngine,
+  getGameDefinition,
+  isRegisteredGame,
+  listGames,
+  registerGame,
+  resolveGameOptions,
+  toGameInfo,
+  validateSeatCount,
+} from './games/registry';
+import { assignSeats, nextSeat } from './games/seats';
 import { checkersEngine } from './games/checkers';
 import { chessEngine } from './games/chess';
 import { connect4Engine } from './games/connect4';
-import { reversiEngine } from './games/reversi';
 import { tictactoeEngine } from './games/tictactoe';
-import { gomokuEngine } from './games/gomoku';
-import { mancalaEngine } from './games/mancala';
-import { dotsboxesEngine } from './games/dotsboxes';
 import { navalbattleEngine } from './games/navalbattle';
 import { goEngine } from './games/go';
-import { backgammonEngine } from './games/backgammon';
 import { cribbageEngine } from './games/cribbage';
 
-type AnyEngine = GameEngine<unknown, { from: Position; to: Position }>;
-
-const ENGINES: Record<GameType, AnyEngine> = {
-  checkers: checkersEngine,
-  chess: chessEngine,
-  connect4: connect4Engine,
-  reversi: reversiEngine,
-  tictactoe: tictactoeEngine,
-  gomoku: gomokuEngine,
-  mancala: mancalaEngine,
-  dotsboxes: dotsboxesEngine,
-  navalbattle: navalbattleEngine,
-  go: goEngine,
-  backgammon: backgammonEngine,
-  cribbage: cribbageEngine,
-};
-
-function getEngine(gameType: GameType): AnyEngine {
-  return ENGINES[gameType];
-}
-
 const PLAYER_IDS: [string, string] = ['player-1', 'player-2'];
-const ALL_GAME_TYPES: GameType[] = [
-  'checkers', 'chess', 'connect4', 'reversi', 'tictactoe', 'gomoku',
-  'mancala', 'dotsboxes', 'navalbattle', 'go', 'backgammon', 'cribbage',
-];
+// Every registered game is covered automatically
+const ALL_GAME_TYPES: GameType[] = listGames().map(g => g.id);
 
 describe('getEngine', () => {
   it.each(ALL_GAME_TYPES)('returns a working engine for %s', (gameType) => {
     const engine = getEngine(gameType);
     expect(engine).toBeDefined();
     expect(typeof engine.initGame).toBe('function');
+    expect(typeof engine.parseMove).toBe('function');
     expect(typeof engine.validateMove).toBe('function');
     expect(typeof engine.applyMove).toBe('function');
     expect(typeof engine.getState).toBe('function');
     expect(typeof engine.checkWinner).toBe('function');
+    expect(typeof engine.getActivePlayers).toBe('function');
   });
 
   it.each(ALL_GAME_TYPES)('initGame produces valid state for %s', (gameType) => {
@@ -67,6 +52,54 @@ describe('getEngine', () => {
   });
 });
 
+describe('getActivePlayers', () => {
+  it.each(ALL_GAME_TYPES)('names a seated player on a fresh %s game', (gameType) => {
+    const engine = getEngine(gameType);
+    const active = engine.getActivePlayers(engine.initGame(PLAYER_IDS));
+    expect(active.length).toBeGreaterThan(0);
+    for (const id of active) {
+      expect(PLAYER_IDS).toContain(id);
+    }
+  });
+
+  it('runs both clocks while cribbage players discard', () => {
+    const state = cribbageEngine.initGame(PLAYER_IDS);
+    expect([...cribbageEngine.getActivePlayers(state)].sort()).toEqual([...PLAYER_IDS].sort());
+
+    const afterDiscard = cribbageEngine.applyMove(state, PLAYER_IDS[0], { type: 'discard', cards: [0, 1] });
+    expect(cribbageEngine.getActivePlayers(afterDiscard)).toEqual([PLAYER_IDS[1]]);
+  });
+});
+
+describe('parseMove', () => {
+  const MALFORMED: unknown[] = [null, undefined, 42, 'move', [], {}, { type: 'bogus' }];
+
+  it.each(ALL_GAME_TYPES)('rejects malformed payloads for %s', (gameType) => {
+    const engine = getEngine(gameType);
+    for (const payload of MALFORMED) {
+      expect(engine.parseMove(payload)).toBeNull();
+    }
+  });
+
+  it('rejects the legacy coordinate payload', () => {
+    const legacy = { from: { row: 0, col: 0 }, to: { row: 0, col: 3 } };
+    expect(connect4Engine.parseMove(legacy)).toBeNull();
+    expect(goEngine.parseMove(legacy)).toBeNull();
+  });
+
+  it('accepts typed payloads and drops unknown fields', () => {
+    expect(connect4Engine.parseMove({ type: 'drop', col: 3, extra: true })).toEqual({ type: 'drop', col: 3 });
+    expect(goEngine.parseMove({ type: 'pass' })).toEqual({ type: 'pass' });
+    expect(cribbageEngine.parseMove({ type: 'discard', cards: [0, 5] })).toEqual({ type: 'discard', cards: [0, 5] });
+  });
+
+  it('rejects non-integer coordinates', () => {
+    expect(tictactoeEngine.parseMove({ type: 'place', position: { row: 1.5, col: 0 } })).toBeNull();
+    expect(navalbattleEngine.parseMove({ type: 'fire', target: { row: '1', col: 0 } })).toBeNull();
+    expect(cribbageEngine.parseMove({ type: 'discard', cards: [0] })).toBeNull();
+  });
+});
+
 describe('game switch state transitions', () => {
   it('can switch from one game type to another', () => {
     // Simulate: start with checkers, switch to chess
@@ -115,22 +148,150 @@ describe('game switch state transitions', () => {
   });
 });
 
-describe('validation', () => {
-  it('invalid game type is not in the engines map', () => {
-    const invalidType = 'notarealgame' as GameType;
-    expect(ENGINES[invalidType]).toBeUndefined();
+describe('spectator views', () => {
+  it.each(ALL_GAME_TYPES)('getState serves a spectator for %s', (gameType) => {
+    const engine = getEngine(gameType);
+    const state = engine.initGame(PLAYER_IDS);
+    expect(engine.getState(state, 'spectator')).toBeDefined();
+  });
+
+  it('never shows a spectator naval battle ship positions', () => {
+    const state = navalbattleEngine.initGame(PLAYER_IDS);
+    const view = navalbattleEngine.getState(state, 'spectator') as {
+      myBoard: { grid: string[][]; ships: { positions: unknown[] }[] };
+      opponentBoard: { grid: string[][] };
+    };
+    expect(view.myBoard.grid.flat()).not.toContain('ship');
+    expect(view.opponentBoard.grid.flat()).not.toContain('ship');
+    expect(view.myBoard.ships.every(ship => ship.positions.length === 0)).toBe(true);
+  });
+});
+
+describe('registry', () => {
+  it('registers every built-in game', () => {
+    expect(ALL_GAME_TYPES).toHaveLength(12);
+    expect(new Set(ALL_GAME_TYPES).size).toBe(ALL_GAME_TYPES.length);
+  });
+
+  it.each(ALL_GAME_TYPES)('has complete metadata for %s', (gameType) => {
+    const definition = getGameDefinition(gameType);
+    expect(definition.id).toBe(gameType);
+    expect(definition.name.length).toBeGreaterThan(0);
+    expect(definition.description.length).toBeGreaterThan(0);
+    expect(definition.rules.length).toBeGreaterThan(0);
+    expect(definition.minPlayers).toBeGreaterThanOrEqual(1);
+    expect(definition.maxPlayers).toBeGreaterThanOrEqual(definition.minPlayers);
+  });
+
+  it.each(ALL_GAME_TYPES)('default options are valid for %s', (gameType) => {
+    const defaults = resolveGameOptions(gameType, undefined);
+    expect(typeof defaults).toBe('object');
+    expect(resolveGameOptions(gameType, defaults)).toEqual(defaults);
   });
 
-  it('VALID_GAME_TYPES set matches all engine keys', () => {
-    const VALID_GAME_TYPES = new Set([
-      'checkers', 'chess', 'connect4', 'reversi', 'tictactoe', 'gomoku',
-      'mancala', 'dotsboxes', 'navalbattle', 'go', 'backgammon', 'cribbage',
-    ]);
+  it('toGameInfo strips the engine', () => {
+    const info = toGameInfo(getGameDefinition('chess'));
+    expect(info.name).toBe('Chess');
+    expect('engine' in info).toBe(false);
+  });
+
+  it('rejects duplicate registrations', () => {
+    const duplicate: GameDefinition = { ...getGameDefinition('checkers') };
+    expect(() => registerGame(duplicate)).toThrow('already registered');
+  });
 
-    const engineKeys = Object.keys(ENGINES);
-    expect(engineKeys.length).toBe(VALID_GAME_TYPES.size);
-    for (const key of engineKeys) {
-      expect(VALID_GAME_TYPES.has(key)).toBe(true);
+  it('checks the seat count against each game', () => {
+    expect(validateSeatCount('tictactoe', 1)).toMatch('at least 2');
+    expect(validateSeatCount('tictactoe', 2)).toBeNull();
+    expect(validateSeatCount('tictactoe', 3)).toMatch('at most 2');
+  });
+});
+
+describe('seats', () => {
+  it('deals every player into exactly one seat', () => {
+    const players = ['a', 'b', 'c', 'd'];
+    const seats = assignSeats(players, ['north', 'east', 'south', 'west'] as const);
+    expect(Object.values(seats).sort()).toEqual(players);
+  });
+
+  it('rejects the wrong number of players', () => {
+    expect(() => assignSeats(['a', 'b', 'c'], ['red', 'black'] as const)).toThrow('Expected 2 players');
+  });
+
+  it('puts a chosen first player in the first seat', () => {
+    for (let i = 0; i < 10; i++) {
+      expect(assignSeats(['a', 'b', 'c'], ['red', 'green', 'blue'] as const, 'c').red).toBe('c');
+    }
+    expect(() => assignSeats(['a', 'b'], ['red', 'black'] as const, 'z')).toThrow('Unknown first player');
+  });
+
+  it.each(ALL_GAME_TYPES)('%s lets the chosen first player move first', (gameType) => {
+    const engine = getEngine(gameType);
+    for (const first of PLAYER_IDS) {
+      const active = engine.getActivePlayers(engine.initGame([...PLAYER_IDS], undefined, first));
+      expect(active).toContain(first);
+      if (active.length === 1) expect(active).toEqual([first]);
     }
   });
+
+  it('passes the turn around the table', () => {
+    const order = ['north', 'east', 'south', 'west'];
+    expect(nextSeat(order, 'east')).toBe('south');
+    expect(nextSeat(order, 'west')).toBe('north');
+    expect(nextSeat([1, 2], 2)).toBe(1);
+  });
+
+  it.each(ALL_GAME_TYPES)('%s refuses to start with the wrong number of players', (gameType) => {
+    expect(() => getEngine(gameType).initGame(['only-one'])).toThrow();
+  });
+});
+
+describe('computer opponents', () => {
+  it.each(ALL_GAME_TYPES)('%s bots only play legal moves', (gameType) => {
+    const engine = getEngine(gameType);
+    expect(typeof engine.chooseMove).toBe('function');
+
+    let state = engine.initGame(PLAYER_IDS);
+    for (let ply = 0; ply < 20 && !engine.checkWinner(state); ply++) {
+      const [playerId] = engine.getActivePlayers(state);
+      if (!playerId) break;
+      const move = engine.chooseMove!(state, playerId, 'easy');
+      expect(engine.validateMove(state, playerId, move)).toBeNull();
+      state = engine.applyMove(state, playerId, move);
+    }
+  });
+
+  it('takes a win and blocks a loss at tic-tac-toe', () => {
+    const state = tictactoeEngine.initGame(PLAYER_IDS);
+    const me = state.players.X;
+    state.board = [
+      ['X', 'X', null],
+      ['O', 'O', null],
+      [null, null, null],
+    ];
+    expect(tictactoeEngine.chooseMove!(state, me, 'hard')).toEqual({ type: 'place', position: { row: 0, col: 2 } });
+
+    state.board[0][1] = null;
+    state.board[2][0] = 'X';
+    expect(tictactoeEngine.chooseMove!(state, me, 'hard')).toEqual({ type: 'place', position: { row: 1, col: 2 } });
+  });
+
+  it('blocks a three at connect four', () => {
+    const state = connect4Engine.initGame(PLAYER_IDS);
+    const opponent = state.currentTurn === 'red' ? 'yellow' : 'red';
+    for (const col of [0, 1, 2]) state.board[5][col] = opponent;
+    state.board[4][0] = state.currentTurn;
+    state.board[4][1] = state.currentTurn;
+    const move = connect4Engine.chooseMove!(state, state.players[state.currentTurn], 'hard');
+    expect(move).toEqual({ type: 'drop', col: 3 });
+  });
+});
+
+describe('validation', () => {
+  it('unknown game types are not registered', () => {
+    expect(isRegisteredGame('notarealgame')).toBe(false);
+    expect(isRegisteredGame(42)).toBe(false);
+    expect(isRegisteredGame('chess')).toBe(true);
+    expect(() => getEngine('notarealgame' as GameType)).toThrow('Unknown game type');
+  });
 });
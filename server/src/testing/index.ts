@@ -0,0 +1,52 @@
+import { Player, Room } from '../types';
+
+// ---- Test Fixtures ----
+// Rooms and players for unit tests, with every field filled in, so a test only
+// spells out what it cares about and a new Room field is added in one place.
+
+/** A connected guest with no socket; override any field. */
+export function makePlayer(id: string, overrides: Partial<Player> = {}): Player {
+  return {
+    id,
+    name: `Player ${id}`,
+    socketId: null,
+    sessionToken: `t-${id}`,
+    connected: true,
+    disconnectedAt: null,
+    ...overrides,
+  };
+}
+
+/** An untimed, private tic-tac-toe room in play, with no players or game yet; override any field. */
+export function makeRoom(overrides: Partial<Room> = {}): Room {
+  return {
+    code: 'ABC123',
+    gameType: 'tictactoe',
+    options: {},
+    timeControl: null,
+    clock: null,
+    status: 'playing',
+    players: [],
+    spectators: [],
+    allowSpectators: true,
+    isPublic: false,
+    rated: false,
+    matchFormat: null,
+    match: null,
+    tournamentId: null,
+    creatorId: overrides.players?.[0]?.id ?? '',
+    gameState: null,
+    moveHistory: [],
+    stateHistory: [],
+    gameStartedAt: null,
+    seed: null,
+    gameSeed: null,
+    replayId: null,
+    pendingTakeback: null,
+    drawOfferBy: null,
+    chatMessages: [],
+    createdAt: 1,
+    lastActivity: 1,
+    ...overrides,
+  };
+}
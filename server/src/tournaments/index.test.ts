@@ -0,0 +1,152 @@
+import { beforeEach, describe, it, expect } from 'vitest';
+import { Tournament } from '../types';
+import { createMemoryTournamentStore } from '../storage';
+import {
+  createTournament,
+  getStandings,
+  initTournamentStorage,
+  joinTournament,
+  leaveTournament,
+  recordTournamentGame,
+  saveTournament,
+  startTournament,
+} from './index';
+
+function create(format: Tournament['format'], players: string[], size = players.length): Tournament {
+  const tournament = createTournament(players[0], {
+    name: 'Game night',
+    gameType: 'tictactoe',
+    format,
+    size,
+  });
+  if ('error' in tournament) throw new Error(tournament.error);
+  for (const id of players) joinTournament(tournament.id, id, id.toUpperCase());
+  return tournament;
+}
+
+/** Start the tournament and give every game of each round a room, as the server does. */
+function start(tournament: Tournament) {
+  const started = startTournament(tournament.id, tournament.organizerId);
+  if ('error' in started) throw new Error(started.error);
+  openRooms(tournament);
+  return started.round;
+}
+
+let nextRoom = 0;
+function openRooms(tournament: Tournament): void {
+  const round = tournament.rounds[tournament.rounds.length - 1];
+  for (const pairing of round.pairings) {
+    if (pairing.players[1] !== null) pairing.roomCode = `ROOM${nextRoom++}`;
+  }
+  saveTournament(tournament);
+}
+
+/** Play out the current round, the first-listed player winning every game. */
+function playRound(tournament: Tournament) {
+  const round = tournament.rounds[tournament.rounds.length - 1];
+  let result = null;
+  for (const pairing of round.pairings.filter(p => !p.finished)) {
+    result = recordTournamentGame(tournament.id, pairing.roomCode as string, pairing.players[0]);
+  }
+  if (result?.round) openRooms(tournament);
+  return result;
+}
+
+describe('tournaments', () => {
+  beforeEach(() => {
+    initTournamentStorage(createMemoryTournamentStore());
+  });
+
+  it('validates the organizer form', () => {
+    const form = { name: 'Game night', gameType: 'chess', format: 'swiss', size: 8 };
+    expect(createTournament('org', { ...form, name: 'GN' })).toEqual({
+      error: 'Tournament name must be 3-40 characters',
+    });
+    expect(createTournament('org', { ...form, format: 'ladder' })).toEqual({
+      error: 'Invalid tournament format',
+    });
+    expect(createTournament('org', { ...form, size: 1 })).toEqual({
+      error: 'A tournament has 2-32 players',
+    });
+    expect(createTournament('org', { ...form, gameType: 'poker' })).toEqual({
+      error: 'Invalid game type',
+    });
+    expect(createTournament('org', form)).toMatchObject({
+      status: 'registering',
+      participants: [],
+      size: 8,
+    });
+  });
+
+  it('takes registrations until it is full or started', () => {
+    const tournament = create('round-robin', ['a', 'b'], 3);
+    expect(joinTournament(tournament.id, 'a', 'A')).toEqual({
+      error: 'You are already registered',
+    });
+    leaveTournament(tournament.id, 'a');
+    expect(tournament.participants.map(p => [p.accountId, p.seed])).toEqual([['b', 1]]);
+
+    joinTournament(tournament.id, 'c', 'C');
+    joinTournament(tournament.id, 'd', 'D');
+    expect(joinTournament(tournament.id, 'e', 'E')).toEqual({ error: 'Tournament is full' });
+    expect(startTournament(tournament.id, 'b')).toEqual({
+      error: 'Only the organizer can start the tournament',
+    });
+
+    start(tournament);
+    expect(joinTournament(tournament.id, 'a', 'A')).toEqual({ error: 'Registration is closed' });
+  });
+
+  it('plays a round-robin through to the end', () => {
+    const tournament = create('round-robin', ['a', 'b', 'c', 'd']);
+    expect(start(tournament).pairings).toHaveLength(2);
+
+    expect(playRound(tournament)?.round?.number).toBe(2);
+    expect(playRound(tournament)?.round?.number).toBe(3);
+    const last = playRound(tournament);
+    expect(last?.round).toBeNull();
+    expect(tournament.status).toBe('finished');
+    expect(tournament.winner).toBe(getStandings(tournament)[0].accountId);
+    expect(getStandings(tournament).reduce((sum, s) => sum + s.points, 0)).toBe(6);
+  });
+
+  it('replays drawn knockout games and advances the winners', () => {
+    const tournament = create('single-elimination', ['a', 'b', 'c']);
+    const first = start(tournament);
+    expect(first.pairings.map(p => p.players)).toEqual([
+      ['a', null],
+      ['b', 'c'],
+    ]);
+
+    const game = first.pairings[1];
+    expect(recordTournamentGame(tournament.id, game.roomCode as string, null)).toMatchObject({
+      replay: true,
+    });
+    expect(game.finished).toBe(false);
+
+    const next = recordTournamentGame(tournament.id, game.roomCode as string, 'c');
+    expect(next?.round?.pairings.map(p => p.players)).toEqual([['a', 'c']]);
+    openRooms(tournament);
+
+    const final = tournament.rounds[1].pairings[0];
+    recordTournamentGame(tournament.id, final.roomCode as string, 'c');
+    expect(tournament.status).toBe('finished');
+    expect(tournament.winner).toBe('c');
+  });
+
+  it('ignores results from rooms that are not in the current round', () => {
+    const tournament = create('swiss', ['a', 'b', 'c', 'd']);
+    start(tournament);
+    expect(recordTournamentGame(tournament.id, 'ELSEWHERE', 'a')).toBeNull();
+    expect(recordTournamentGame('missing', 'ROOM0', 'a')).toBeNull();
+  });
+
+  it('reloads tournaments from the store', async () => {
+    const store = createMemoryTournamentStore();
+    initTournamentStorage(store);
+    create('swiss', ['a', 'b']);
+    await Promise.resolve();
+
+    expect(initTournamentStorage(store)).toBe(1);
+  });
+});
@@ -0,0 +1,232 @@
+import { v4 as uuidv4 } from 'uuid';
+import { Tournament, TournamentFormat, TournamentRound, TournamentStanding, TournamentSummary } from '../types';
+import { getGameDefinition, isRegisteredGame, resolveGameOptions } from '../games/registry';
+import { TournamentStore, createMemoryTournamentStore } from '../storage';
+import {
+  Pair,
+  computeStandings,
+  eliminationFirstRound,
+  eliminationNextRound,
+  playedPairs,
+  roundCount,
+  roundRobinPairs,
+  swissPairs,
+} from './pairing';
+
+// ---- Tournaments ----
+// A tournament sits above rooms: signed-in players register, the organizer
+// starts it, and each round the server pairs everyone up. The caller opens a
+// room for every pairing and reports the results back; once a round is
+// complete the next one is paired, until the last one decides the winner.
+
+const tournaments = new Map<string, Tournament>();
+let store: TournamentStore = createMemoryTournamentStore();
+
+const FORMATS: TournamentFormat[] = ['round-robin', 'swiss', 'single-elimination'];
+const MIN_SIZE = 2;
+const MAX_SIZE = 32;
+
+/** Switch to the given store and load the tournaments it holds. */
+export function initTournamentStorage(tournamentStore: TournamentStore): number {
+  store = tournamentStore;
+  tournaments.clear();
+  for (const tournament of store.load().tournaments) tournaments.set(tournament.id, tournament);
+  return tournaments.size;
+}
+
+/** Persist after changing a tournament, e.g. giving its pairings their rooms. */
+export function saveTournament(tournament: Tournament): void {
+  tournaments.set(tournament.id, tournament);
+  void store.save({ tournaments: Array.from(tournaments.values()) });
+}
+
+export function getTournament(id: string): Tournament | null {
+  return tournaments.get(id) ?? null;
+}
+
+/** Every tournament, newest first. */
+export function listTournaments(): TournamentSummary[] {
+  return Array.from(tournaments.values())
+    .sort((a, b) => b.createdAt - a.createdAt)
+    .map(t => ({
+      id: t.id,
+      name: t.name,
+      gameType: t.gameType,
+      format: t.format,
+      size: t.size,
+      playerCount: t.participants.length,
+      status: t.status,
+      createdAt: t.createdAt,
+    }));
+}
+
+export function getStandings(tournament: Tournament): TournamentStanding[] {
+  return computeStandings(tournament);
+}
+
+interface TournamentInput {
+  name?: unknown;
+  gameType?: unknown;
+  format?: unknown;
+  size?: unknown;
+  options?: unknown;
+}
+
+/** Create a tournament from the organizer's form. It opens for registration. */
+export function createTournament(organizerId: string, input: TournamentInput): Tournament | { error: string } {
+  const name = typeof input.name === 'string' ? input.name.trim() : '';
+  if (name.length < 3 || name.length > 40) return { error: 'Tournament name must be 3-40 characters' };
+  if (!isRegisteredGame(input.gameType)) return { error: 'Invalid game type' };
+  const gameType = input.gameType;
+  const definition = getGameDefinition(gameType);
+  if (definition.minPlayers > 2 || definition.maxPlayers < 2) {
+    return { error: `${definition.name} can't be played one against one` };
+  }
+  if (!FORMATS.includes(input.format as TournamentFormat)) return { error: 'Invalid tournament format' };
+  const size = input.size;
+  if (typeof size !== 'number' || !Number.isInteger(size) || size < MIN_SIZE || size > MAX_SIZE) {
+    return { error: `A tournament has ${MIN_SIZE}-${MAX_SIZE} players` };
+  }
+  const options = resolveGameOptions(gameType, input.options);
+  if (typeof options === 'string') return { error: options };
+
+  const tournament: Tournament = {
+    id: uuidv4(),
+    name,
+    gameType,
+    options,
+    format: input.format as TournamentFormat,
+    size,
+    organizerId,
+    participants: [],
+    rounds: [],
+    totalRounds: 0,
+    status: 'registering',
+    winner: null,
+    createdAt: Date.now(),
+    startedAt: null,
+    finishedAt: null,
+  };
+  saveTournament(tournament);
+  return tournament;
+}
+
+export function joinTournament(id: string, accountId: string, name: string): Tournament | { error: string } {
+  const tournament = tournaments.get(id);
+  if (!tournament) return { error: 'Tournament not found' };
+  if (tournament.status !== 'registering') return { error: 'Registration is closed' };
+  if (tournament.participants.some(p => p.accountId === accountId)) return { error: 'You are already registered' };
+  if (tournament.participants.length >= tournament.size) return { error: 'Tournament is full' };
+
+  tournament.participants.push({ accountId, name, seed: tournament.participants.length + 1 });
+  saveTournament(tournament);
+  return tournament;
+}
+
+export function leaveTournament(id: string, accountId: string): Tournament | { error: string } {
+  const tournament = tournaments.get(id);
+  if (!tournament) return { error: 'Tournament not found' };
+  if (tournament.status !== 'registering') return { error: 'The tournament has started' };
+  if (!tournament.participants.some(p => p.accountId === accountId)) return { error: 'You are not registered' };
+
+  tournament.participants = tournament.participants
+    .filter(p => p.accountId !== accountId)
+    .map((p, i) => ({ ...p, seed: i + 1 }));
+  saveTournament(tournament);
+  return tournament;
+}
+
+/**
+ * Close registration and pair the first round. The caller opens rooms for
+ * the returned round's games (byes are already scored).
+ */
+export function startTournament(
+  id: string,
+  accountId: string,
+): { tournament: Tournament; round: TournamentRound } | { error: string } {
+  const tournament = tournaments.get(id);
+  if (!tournament) return { error: 'Tournament not found' };
+  if (tournament.organizerId !== accountId) return { error: 'Only the organizer can start the tournament' };
+  if (tournament.status !== 'registering') return { error: 'The tournament has already started' };
+  if (tournament.participants.length < MIN_SIZE) return { error: `A tournament needs at least ${MIN_SIZE} players` };
+
+  tournament.status = 'running';
+  tournament.startedAt = Date.now();
+  tournament.totalRounds = roundCount(tournament.format, tournament.participants.length);
+  const round = pairNextRound(tournament);
+  saveTournament(tournament);
+  return { tournament, round };
+}
+
+function pairNextRound(tournament: Tournament): TournamentRound {
+  const seeded = tournament.participants.map(p => p.accountId);
+  let pairs: Pair[];
+  switch (tournament.format) {
+    case 'round-robin':
+      pairs = roundRobinPairs(seeded, tournament.rounds.length);
+      break;
+    case 'swiss': {
+      const ranked = computeStandings(tournament).map(s => s.accountId);
+      const hadBye = new Set(
+        tournament.rounds.flatMap(r => r.pairings.filter(p => p.players[1] === null).map(p => p.players[0])),
+      );
+      pairs = swissPairs(ranked, playedPairs(tournament), hadBye);
+      break;
+    }
+    case 'single-elimination': {
+      const previous = tournament.rounds[tournament.rounds.length - 1];
+      pairs = previous
+        ? eliminationNextRound(previous.pairings.map(p => p.winner as string))
+        : eliminationFirstRound(seeded);
+      break;
+    }
+  }
+
+  const round: TournamentRound = {
+    number: tournament.rounds.length + 1,
+    pairings: pairs.map(players => ({
+      players,
+      roomCode: null,
+      finished: players[1] === null,
+      winner: players[1] === null ? players[0] : null,
+    })),
+  };
+  tournament.rounds.push(round);
+  return round;
+}
+
+/**
+ * Score the game played in `roomCode`. A drawn knockout game has to be
+ * replayed (`replay`); otherwise, once the round is complete, the next one
+ * is paired (`round`) or the tournament finishes.
+ */
+export function recordTournamentGame(
+  id: string,
+  roomCode: string,
+  winner: string | null,
+): { tournament: Tournament; replay: boolean; round: TournamentRound | null } | null {
+  const tournament = tournaments.get(id);
+  if (!tournament || tournament.status !== 'running') return null;
+  const current = tournament.rounds[tournament.rounds.length - 1];
+  const pairing = current?.pairings.find(p => p.roomCode === roomCode && !p.finished);
+  if (!pairing) return null;
+
+  if (winner === null && tournament.format === 'single-elimination') {
+    return { tournament, replay: true, round: null };
+  }
+  pairing.finished = true;
+  pairing.winner = winner;
+
+  let round: TournamentRound | null = null;
+  if (current.pairings.every(p => p.finished)) {
+    if (tournament.rounds.length < tournament.totalRounds) {
+      round = pairNextRound(tournament);
+    } else {
+      tournament.status = 'finished';
+      tournament.finishedAt = Date.now();
+      tournament.winner = computeStandings(tournament)[0]?.accountId ?? null;
+    }
+  }
+  saveTournament(tournament);
+  return { tournament, replay: false, round };
+}
@@ -0,0 +1,152 @@
+import { describe, it, expect } from 'vitest';
+import { Tournament } from '../types';
+import {
+  bracketOrder,
+  computeStandings,
+  eliminationFirstRound,
+  roundCount,
+  roundRobinPairs,
+  swissPairs,
+} from './pairing';
+
+function key([a, b]: [string, string | null]): string {
+  return [a, b ?? 'bye'].sort().join('-');
+}
+
+function makeTournament(format: Tournament['format'], results: [string, string | null, string | null][][]): Tournament {
+  const ids = ['a', 'b', 'c', 'd'];
+  return {
+    id: 't',
+    name: 'Test',
+    gameType: 'chess',
+    options: {},
+    format,
+    size: ids.length,
+    organizerId: 'a',
+    participants: ids.map((accountId, i) => ({
+      accountId,
+      name: accountId.toUpperCase(),
+      seed: i + 1,
+    })),
+    rounds: results.map((games, i) => ({
+      number: i + 1,
+      pairings: games.map(([a, b, winner]) => ({
+        players: [a, b],
+        roomCode: null,
+        finished: true,
+        winner,
+      })),
+    })),
+    totalRounds: 3,
+    status: 'running',
+    winner: null,
+    createdAt: 0,
+    startedAt: 0,
+    finishedAt: null,
+  };
+}
+
+describe('round-robin', () => {
+  it('pairs everyone with everyone exactly once', () => {
+    for (const players of [
+      ['a', 'b', 'c', 'd'],
+      ['a', 'b', 'c', 'd', 'e'],
+    ]) {
+      const seen = new Set<string>();
+      for (let round = 0; round < roundCount('round-robin', players.length); round++) {
+        const pairs = roundRobinPairs(players, round);
+        expect(new Set(pairs.flat().filter(Boolean)).size).toBe(players.length);
+        for (const pair of pairs) {
+          if (pair[1] !== null) {
+            expect(seen.has(key(pair))).toBe(false);
+            seen.add(key(pair));
+          }
+        }
+      }
+      expect(seen.size).toBe((players.length * (players.length - 1)) / 2);
+    }
+  });
+
+  it('gives each player of an odd field one bye', () => {
+    const byes = [0, 1, 2].map(round => roundRobinPairs(['a', 'b', 'c'], round).find(p => p[1] === null)?.[0]);
+    expect(byes.sort()).toEqual(['a', 'b', 'c']);
+  });
+});
+
+describe('swiss', () => {
+  it('pairs down the standings and avoids rematches', () => {
+    expect(swissPairs(['a', 'b', 'c', 'd'], new Set(), new Set())).toEqual([
+      ['a', 'b'],
+      ['c', 'd'],
+    ]);
+    expect(swissPairs(['a', 'b', 'c', 'd'], new Set(['a|b', 'c|d']), new Set())).toEqual([
+      ['a', 'c'],
+      ['b', 'd'],
+    ]);
+  });
+
+  it('backtracks when the greedy pairing would strand two players who have met', () => {
+    // a-b and c-d are free, but a-c first would leave b-d, who have played
+    expect(swissPairs(['a', 'b', 'c', 'd'], new Set(['b|d']), new Set())).toEqual([
+      ['a', 'b'],
+      ['c', 'd'],
+    ]);
+    expect(swissPairs(['a', 'b', 'c', 'd'], new Set(['a|b', 'c|d', 'b|d']), new Set())).toEqual([
+      ['a', 'd'],
+      ['b', 'c'],
+    ]);
+  });
+
+  it('gives the bye to the lowest-ranked player without one', () => {
+    expect(swissPairs(['a', 'b', 'c'], new Set(), new Set())).toContainEqual(['c', null]);
+    expect(swissPairs(['a', 'b', 'c'], new Set(), new Set(['c']))).toContainEqual(['b', null]);
+  });
+});
+
+describe('single elimination', () => {
+  it('keeps the top seeds apart until late', () => {
+    expect(bracketOrder(4)).toEqual([1, 4, 2, 3]);
+    expect(bracketOrder(8)).toEqual([1, 8, 4, 5, 2, 7, 3, 6]);
+  });
+
+  it('gives the byes to the top seeds', () => {
+    expect(eliminationFirstRound(['s1', 's2', 's3', 's4', 's5', 's6'])).toEqual([
+      ['s1', null],
+      ['s4', 's5'],
+      ['s2', null],
+      ['s3', 's6'],
+    ]);
+    expect(roundCount('single-elimination', 6)).toBe(3);
+  });
+});
+
+describe('standings', () => {
+  it('scores wins, draws and byes and breaks ties', () => {
+    const tournament = makeTournament('round-robin', [
+      [
+        ['a', 'b', 'a'],
+        ['c', 'd', null],
+      ],
+      [
+        ['a', 'c', 'c'],
+        ['b', 'd', 'b'],
+      ],
+    ]);
+    const standings = computeStandings(tournament);
+    expect(standings.map(s => [s.accountId, s.points])).toEqual([
+      ['c', 1.5],
+      ['a', 1],
+      ['b', 1],
+      ['d', 0.5],
+    ]);
+    // a and b are level: a beat b (1 point), b beat d (0.5 points)
+    expect(standings[1]).toMatchObject({ wins: 1, losses: 1, sonnebornBerger: 1, buchholz: 2.5 });
+    expect(standings[2]).toMatchObject({ sonnebornBerger: 0.5 });
+  });
+
+  it('counts a bye as a win and falls back to seed order', () => {
+    const standings = computeStandings(makeTournament('swiss', [[['d', null, 'd']]]));
+    expect(standings.map(s => s.accountId)).toEqual(['d', 'a', 'b', 'c']);
+    expect(standings[0]).toMatchObject({ rank: 1, points: 1, wins: 1, buchholz: 0 });
+  });
+});
@@ -0,0 +1,223 @@
+import { Tournament, TournamentFormat, TournamentStanding } from '../types';
+
+// ---- Tournament Pairing ----
+// Who plays whom each round, and the standings that come out of it. Pairings
+// are account ids; a null second player is a bye.
+
+export type Pair = [string, string | null];
+
+/** How many rounds a tournament of `players` participants lasts. */
+export function roundCount(format: TournamentFormat, players: number): number {
+  switch (format) {
+    case 'round-robin':
+      return players % 2 === 0 ? players - 1 : players;
+    case 'swiss':
+      return Math.min(Math.ceil(Math.log2(players)), players - 1);
+    case 'single-elimination':
+      return Math.ceil(Math.log2(players));
+  }
+}
+
+/**
+ * Round `round` (from 0) of a round-robin by the circle method: the first
+ * player stays put and everyone else rotates one place a round. With an odd
+ * number of players whoever meets the empty slot has the bye.
+ */
+export function roundRobinPairs(players: string[], round: number): Pair[] {
+  const slots: (string | null)[] = players.length % 2 === 0 ? [...players] : [...players, null];
+  const rest = slots.slice(1);
+  const shift = round % rest.length;
+  const order = [slots[0], ...rest.slice(rest.length - shift), ...rest.slice(0, rest.length - shift)];
+
+  const pairs: Pair[] = [];
+  for (let i = 0; i < order.length / 2; i++) {
+    const a = order[i];
+    const b = order[order.length - 1 - i];
+    if (a === null) pairs.push([b as string, null]);
+    else pairs.push([a, b]);
+  }
+  return pairs;
+}
+
+function pairKey(a: string, b: string): string {
+  return a < b ? `${a}|${b}` : `${b}|${a}`;
+}
+
+/**
+ * Swiss pairings for players listed best first: the lowest-ranked player who
+ * hasn't had one gets the bye, then everyone meets the best-placed player
+ * they haven't played yet. Rematches are only allowed when no other pairing
+ * of the whole field exists.
+ */
+export function swissPairs(ranked: string[], played: Set<string>, hadBye: Set<string>): Pair[] {
+  const pool = [...ranked];
+  const byes: Pair[] = [];
+  if (pool.length % 2 === 1) {
+    const byeIndex = findLastIndex(pool, id => !hadBye.has(id));
+    const [bye] = pool.splice(byeIndex === -1 ? pool.length - 1 : byeIndex, 1);
+    byes.push([bye, null]);
+  }
+
+  let pairs = pairWithoutRematches(pool, played);
+  if (!pairs) {
+    pairs = [];
+    for (let i = 0; i < pool.length; i += 2) pairs.push([pool[i], pool[i + 1]]);
+  }
+  return [...pairs, ...byes];
+}
+
+function findLastIndex<T>(items: T[], test: (item: T) => boolean): number {
+  for (let i = items.length - 1; i >= 0; i--) {
+    if (test(items[i])) return i;
+  }
+  return -1;
+}
+
+// Backtracking search: the top player takes the first opponent that still
+// lets the rest of the field pair up
+function pairWithoutRematches(pool: string[], played: Set<string>): Pair[] | null {
+  if (pool.length === 0) return [];
+  const [top, ...others] = pool;
+  for (let i = 0; i < others.length; i++) {
+    if (played.has(pairKey(top, others[i]))) continue;
+    const rest = pairWithoutRematches([...others.slice(0, i), ...others.slice(i + 1)], played);
+    if (rest) return [[top, others[i]], ...rest];
+  }
+  return null;
+}
+
+/**
+ * Bracket positions of the seeds, so the top seeds can only meet late:
+ * 4 players give 1, 4, 2, 3 (1 v 4 and 2 v 3).
+ */
+export function bracketOrder(size: number): number[] {
+  let order = [1];
+  while (order.length < size) {
+    const total = order.length * 2 + 1;
+    order = order.flatMap(seed => [seed, total - seed]);
+  }
+  return order;
+}
+
+/**
+ * First round of a knockout for players listed by seed. The bracket is
+ * rounded up to a power of two and the missing places are byes, which
+ * fall to the top seeds.
+ */
+export function eliminationFirstRound(seeded: string[]): Pair[] {
+  const size = 2 ** Math.ceil(Math.log2(seeded.length));
+  const order = bracketOrder(size);
+  const pairs: Pair[] = [];
+  for (let i = 0; i < size; i += 2) {
+    pairs.push([seeded[order[i] - 1], seeded[order[i + 1] - 1] ?? null]);
+  }
+  return pairs;
+}
+
+/** Next knockout round: the winners of neighbouring pairings meet. */
+export function eliminationNextRound(winners: string[]): Pair[] {
+  const pairs: Pair[] = [];
+  for (let i = 0; i < winners.length; i += 2) pairs.push([winners[i], winners[i + 1] ?? null]);
+  return pairs;
+}
+
+/**
+ * Standings from the finished pairings, best first. Level players are split
+ * by Sonneborn-Berger then wins in a round-robin, by Buchholz then
+ * Sonneborn-Berger in a Swiss, and by seed last of all.
+ */
+export function computeStandings(tournament: Tournament): TournamentStanding[] {
+  const rows = new Map<string, TournamentStanding>();
+  const seeds = new Map<string, number>();
+  for (const p of tournament.participants) {
+    seeds.set(p.accountId, p.seed);
+    rows.set(p.accountId, {
+      rank: 0,
+      accountId: p.accountId,
+      name: p.name,
+      points: 0,
+      wins: 0,
+      draws: 0,
+      losses: 0,
+      buchholz: 0,
+      sonnebornBerger: 0,
+    });
+  }
+
+  const games: { a: string; b: string; winner: string | null }[] = [];
+  for (const round of tournament.rounds) {
+    for (const { players, finished, winner } of round.pairings) {
+      if (!finished) continue;
+      const [a, b] = players;
+      const row = rows.get(a);
+      if (b === null) {
+        if (row) {
+          row.points += 1;
+          row.wins += 1;
+        }
+        continue;
+      }
+      games.push({ a, b, winner });
+      for (const id of [a, b]) {
+        const r = rows.get(id);
+        if (!r) continue;
+        if (winner === null) {
+          r.points += 0.5;
+          r.draws += 1;
+        } else if (winner === id) {
+          r.points += 1;
+          r.wins += 1;
+        } else {
+          r.losses += 1;
+        }
+      }
+    }
+  }
+
+  const pointsOf = (id: string) => rows.get(id)?.points ?? 0;
+  for (const { a, b, winner } of games) {
+    for (const [me, opponent] of [
+      [a, b],
+      [b, a],
+    ]) {
+      const row = rows.get(me);
+      if (!row) continue;
+      row.buchholz += pointsOf(opponent);
+      if (winner === me) row.sonnebornBerger += pointsOf(opponent);
+      else if (winner === null) row.sonnebornBerger += pointsOf(opponent) / 2;
+    }
+  }
+
+  const tiebreaks = (r: TournamentStanding): number[] => {
+    switch (tournament.format) {
+      case 'round-robin':
+        return [r.points, r.sonnebornBerger, r.wins];
+      case 'swiss':
+        return [r.points, r.buchholz, r.sonnebornBerger];
+      case 'single-elimination':
+        return [r.points]; // rounds survived
+    }
+  };
+
+  const sorted = Array.from(rows.values()).sort((x, y) => {
+    const kx = tiebreaks(x);
+    const ky = tiebreaks(y);
+    for (let i = 0; i < kx.length; i++) {
+      if (kx[i] !== ky[i]) return ky[i] - kx[i];
+    }
+    return (seeds.get(x.accountId) ?? 0) - (seeds.get(y.accountId) ?? 0);
+  });
+  return sorted.map((row, i) => ({ ...row, rank: i + 1 }));
+}
+
+/** Every pair of players who have already met, for avoiding Swiss rematches. */
+export function playedPairs(tournament: Tournament): Set<string> {
+  const played = new Set<string>();
+  for (const round of tournament.rounds) {
+    for (const { players } of round.pairings) {
+      const [a, b] = players;
+      if (b !== null) played.add(pairKey(a, b));
+    }
+  }
+  return played;
+}
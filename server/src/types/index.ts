@@ -1,11 +1,109 @@
+import type { ChessMove } from '../games/chess';
+import type { Connect4Move } from '../games/connect4';
+import type { ReversiMove } from '../games/reversi';
+import type { TicTacToeMove } from '../games/tictactoe';
+import type { GomokuMove } from '../games/gomoku';
+import type { MancalaMove } from '../games/mancala';
+import type { DotsBoxesMove } from '../games/dotsboxes';
+import type { NavalBattleMove } from '../games/navalbattle';
+import type { GoMove } from '../games/go';
+import type { BackgammonMove } from '../games/backgammon';
+import type { CribbageMove } from '../games/cribbage';
+import type { CheckersPiece, PieceColor, Position } from 'yourturn-shared';
+
 // ---- Common Game Interface ----
 
 export interface GameEngine<TState, TMove> {
-  initGame(playerIds: [string, string]): TState;
+  initGame(playerIds: string[], options?: GameOptions, firstPlayer?: string, seed?: number): TState; // one id per seat, minPlayers..maxPlayers of them; firstPlayer moves first (random otherwise); the same seed deals the same game
+  parseMove(data: unknown): TMove | null; // null = malformed payload for this game
   validateMove(state: TState, playerId: string, move: TMove): string | null; // null = valid, string = error
   applyMove(state: TState, playerId: string, move: TMove): TState;
   getState(state: TState, playerId: string): unknown; // player-specific view if needed
-  checkWinner(state: TState): { winner: string | null; reason?: string } | null;
+  checkWinner(state: TState): GameResult | null;
+  getActivePlayers(state: TState): string[]; // whose clock runs; several during simultaneous phases
+  claimDraw?(state: TState, playerId: string): string | null; // the reason playerId may claim a draw now, null = none
+  chooseMove?(state: TState, playerId: string, difficulty: BotDifficulty): TMove; // computer opponent; must return a legal move
+  validateOptions?(options: GameOptions): string | null; // checks beyond the option schema, e.g. a start position
+  exportGame?(record: GameRecord<TState, TMove>): GameExport; // standard file format for the game, e.g. PGN
+  describeMove?(state: TState, move: TMove): string; // the move in the game's own notation, e.g. SAN; lists the moves for review
+}
+
+// Everything an export needs: states[0] is the start position and states[i + 1] follows moves[i]
+export interface GameRecord<TState, TMove> {
+  states: TState[];
+  moves: TMove[];
+  playerNames: Record<string, string>;
+  finished: boolean;
+  annotations?: (MoveAnnotation | null)[]; // by move, as the players marked it up after the game
+}
+
+export interface GameExport {
+  extension: string;
+  content: string;
+}
+
+export type BotDifficulty = 'easy' | 'medium' | 'hard';
+
+// winner null = draw
+export interface GameResult {
+  winner: string | null;
+  reason?: string;
+}
+
+// ---- Game Registry Types ----
+
+export type GameOptionValue = string | number | boolean;
+export type GameOptions = Record<string, GameOptionValue>;
+
+export type GameOptionSchema =
+  | { key: string; label: string; type: 'select'; choices: { value: string; label: string }[]; default: string }
+  | { key: string; label: string; type: 'number'; min: number; max: number; default: number }
+  | { key: string; label: string; type: 'boolean'; default: boolean }
+  | { key: string; label: string; type: 'text'; maxLength: number; multiline?: boolean; default: string };
+
+// Public description of a game, as served by GET /api/games
+export interface GameInfo {
+  id: GameType;
+  name: string;
+  description: string;
+  minPlayers: number;
+  maxPlayers: number;
+  rules: string[];
+  options: GameOptionSchema[];
+}
+
+export interface GameDefinition extends GameInfo {
+  engine: GameEngine<unknown, GameMove>;
+}
+
+// ---- Time Control Types ----
+
+export type TimeControl =
+  | { type: 'fischer'; initialMs: number; incrementMs: number } // increment added after each move
+  | { type: 'bronstein'; initialMs: number; delayMs: number } // time used is refunded up to the delay
+  | { type: 'per-move'; moveMs: number } // fresh budget every move
+  | { type: 'correspondence'; days: number }; // days per move
+
+// ---- Match Types ----
+
+// A series of games in one room: best of N of the same game, or one game of
+// each listed type ("decathlon")
+export type MatchFormat =
+  | { type: 'best-of'; games: 3 | 5 | 7 }
+  | { type: 'decathlon'; gameTypes: GameType[] };
+
+export interface MatchState {
+  format: MatchFormat;
+  playerIds: string[]; // the order players take turns moving first, game by game
+  scores: Record<string, number>; // points by player id: 1 per win, 1/2 per draw
+  results: { gameType: GameType; winner: string | null }[];
+  finished: boolean;
+  winner: string | null; // once finished; null = drawn match
+}
+
+export interface ClockState {
+  remainingMs: Record<string, number>; // as of turnStartedAt for running clocks
+  turnStartedAt: Record<string, number | null>; // null = clock stopped
 }
 
 // ---- Room Types ----
@@ -19,22 +117,88 @@ export interface Player {
   sessionToken: string;
   connected: boolean;
   disconnectedAt: number | null;
+  bot?: BotDifficulty; // computer player: never has a socket and is always connected
+  accountId?: string; // signed-in player; the same account can sit in many rooms
+}
+
+// Public view of a seated player, as sent in the room events
+export interface PlayerInfo {
+  id: string;
+  name: string;
+  connected: boolean;
+  bot: BotDifficulty | null;
+  accountId: string | null;
+  rating: number | null; // signed-in player's rating in the room's game
 }
 
 export type RoomStatus = 'waiting' | 'playing' | 'finished';
 
+export type RoomRole = 'player' | 'spectator';
+
 export interface Room {
   code: string;
   gameType: GameType;
+  options: GameOptions;
+  timeControl: TimeControl | null;
+  clock: ClockState | null;
   status: RoomStatus;
   players: Player[];
+  spectators: Player[]; // watch only: no seat, no moves, spectator-safe game view
+  allowSpectators: boolean;
+  isPublic: boolean; // listed in the public lobby while waiting for players
+  rated: boolean; // results update the players' ratings; every seat must be signed in
+  matchFormat: MatchFormat | null; // null = standalone games
+  match: MatchState | null; // the series in progress (or just finished)
+  tournamentId: string | null; // the tournament this room's game is a pairing of
   creatorId: string;
   gameState: unknown;
+  moveHistory: MoveRecord[];
+  stateHistory: unknown[]; // [initial state, state after move 1, ...]; last entry === gameState
+  gameStartedAt: number | null; // when the current game was dealt
+  seed: number | null; // deal every game from this seed; null = a fresh random seed per game
+  gameSeed: number | null; // the seed the current game was dealt from; secret until it ends
+  replayId: string | null; // the last finished game's replay, kept in step with its annotations
+  pendingTakeback: { requesterId: string } | null;
+  drawOfferBy: string | null; // player id with an open draw offer
   chatMessages: ChatMessage[];
   createdAt: number;
   lastActivity: number;
 }
 
+// A waiting public room, as listed in the lobby
+export interface PublicRoomInfo {
+  code: string;
+  gameType: GameType;
+  hostName: string;
+  playerCount: number;
+  maxPlayers: number;
+  timeControl: TimeControl | null;
+  rated: boolean;
+  createdAt: number;
+}
+
+export interface MoveRecord {
+  move: GameMove;
+  playerId: string;
+  timestamp: number;
+  stateHash: string; // hash of the state this move produced
+  annotation?: MoveAnnotation; // added in review once the game is over
+}
+
+export type AnnotationGlyph = '!!' | '!' | '?' | '??';
+
+export interface MoveAnnotation {
+  glyph: AnnotationGlyph | null;
+  comment: string; // '' = none
+}
+
+// One move of a finished game as the review panel lists it
+export interface MoveListEntry {
+  label: string;
+  playerId: string;
+  annotation: MoveAnnotation | null;
+}
+
 export interface ChatMessage {
   id: string;
   playerName: string | null; // null for system messages
@@ -43,21 +207,212 @@ export interface ChatMessage {
   isSystem: boolean;
 }
 
-// ---- Checkers Types ----
+// A finished game, kept for step-through viewing at /replay/:id
+export interface Replay {
+  id: string;
+  gameType: GameType;
+  players: { id: string; name: string }[];
+  winner: string | null; // null = draw
+  reason: string;
+  steps: ReplayStep[];
+  seed: number | null; // create a room with this seed to deal the same game again
+  finishedAt: number;
+}
+
+// One position in a replay: the spectator's view of it and the move that led there
+export interface ReplayStep {
+  state: unknown;
+  // null for the starting position; annotations are copied over as players add them
+  move: { playerId: string; timestamp: number; annotation?: MoveAnnotation } | null;
+}
+
+// A finished game in the permanent archive. Unlike replays only the final
+// position (spectator's view) is kept, but the record outlives restarts.
+export interface ArchivedGame {
+  id: string;
+  gameType: GameType;
+  players: { id: string; name: string; accountId: string | null }[];
+  winner: string | null; // player id; null = draw
+  reason: string;
+  moveCount: number;
+  rated: boolean;
+  startedAt: number;
+  finishedAt: number;
+  durationMs: number;
+  finalState: unknown;
+  replayId: string;
+  seed: number | null; // what the game was dealt from (missing from games archived before seeds)
+}
+
+// What the game lists return: everything but the final position
+export type ArchivedGameSummary = Omit<ArchivedGame, 'finalState' | 'replayId'> & {
+  replayId: string | null; // null once the replay is no longer kept
+};
 
-export type PieceColor = 'red' | 'black';
+// One account's record against another, from the first account's side
+export interface HeadToHead {
+  accountId: string;
+  opponentId: string;
+  games: number;
+  wins: number;
+  losses: number;
+  draws: number;
+}
+
+// ---- Account Types ----
+
+export interface Account {
+  id: string;
+  username: string;
+  passwordHash: string; // scrypt, hex
+  salt: string;
+  createdAt: number;
+}
+
+// What anyone may see about an account
+export interface AccountInfo {
+  id: string;
+  username: string;
+  createdAt: number;
+}
+
+// ---- Rating Types ----
+
+// Glicko-2 rating of one account in one game
+export interface Rating {
+  accountId: string;
+  gameType: GameType;
+  rating: number;
+  rd: number; // rating deviation: how unsure the rating still is
+  volatility: number;
+  games: number;
+  wins: number;
+  losses: number;
+  draws: number;
+  updatedAt: number;
+}
 
-export interface CheckersPiece {
-  color: PieceColor;
-  isKing: boolean;
+export interface LeaderboardEntry {
+  rank: number;
+  accountId: string;
+  username: string;
+  rating: number;
+  rd: number;
+  games: number;
+  wins: number;
+  losses: number;
+  draws: number;
 }
 
-export interface Position {
-  row: number;
-  col: number;
+// How a rated game moved one player's rating
+export interface RatingChange {
+  rating: number;
+  change: number;
 }
 
+// ---- Tournament Types ----
+
+export type TournamentFormat = 'round-robin' | 'swiss' | 'single-elimination';
+
+export type TournamentStatus = 'registering' | 'running' | 'finished';
+
+export interface TournamentParticipant {
+  accountId: string;
+  name: string;
+  seed: number; // 1 = first to register
+}
+
+// One game of a round. A bye (no second player) scores a win without playing.
+export interface TournamentPairing {
+  players: [string, string | null]; // account ids
+  roomCode: string | null;
+  finished: boolean;
+  winner: string | null; // account id once finished; null = draw
+}
+
+export interface TournamentRound {
+  number: number; // from 1
+  pairings: TournamentPairing[];
+}
+
+// A competition above rooms: the server pairs the participants each round
+// and opens a room for every game
+export interface Tournament {
+  id: string;
+  name: string;
+  gameType: GameType;
+  options: GameOptions;
+  format: TournamentFormat;
+  size: number; // places; the organizer may start before they are all taken
+  organizerId: string; // account id
+  participants: TournamentParticipant[];
+  rounds: TournamentRound[]; // started so far, oldest first
+  totalRounds: number; // known once the tournament starts
+  status: TournamentStatus;
+  winner: string | null; // account id, once finished
+  createdAt: number;
+  startedAt: number | null;
+  finishedAt: number | null;
+}
+
+// What the tournament list returns
+export interface TournamentSummary {
+  id: string;
+  name: string;
+  gameType: GameType;
+  format: TournamentFormat;
+  size: number;
+  playerCount: number;
+  status: TournamentStatus;
+  createdAt: number;
+}
+
+// A participant's line in the standings. Wins and byes score 1 point and
+// draws 1/2; the tiebreaks order players level on points.
+export interface TournamentStanding {
+  rank: number;
+  accountId: string;
+  name: string;
+  points: number;
+  wins: number;
+  draws: number;
+  losses: number;
+  buchholz: number; // sum of the opponents' points
+  sonnebornBerger: number; // points of beaten opponents plus half those of drawn ones
+}
+
+// ---- Correspondence Types ----
+
+// One of a signed-in player's open correspondence games, as listed across
+// all their rooms so they can see where they are to move
+export interface CorrespondenceGame {
+  roomCode: string;
+  gameType: GameType;
+  status: RoomStatus; // waiting for an opponent, or playing
+  opponents: string[]; // names of the other seats
+  yourTurn: boolean;
+  deadline: number | null; // when the player to move runs out of time; null until the game starts
+  lastActivity: number;
+}
+
+// Something a player away from the board should hear about
+export interface Notification {
+  type: 'your-turn' | 'game-over';
+  accountId: string;
+  playerName: string; // their name in the room
+  roomCode: string;
+  gameType: GameType;
+  text: string;
+  deadline: number | null; // for 'your-turn': when their time to move runs out
+  sentAt: number;
+}
+
+// ---- Checkers Types ----
+
+export type { Position, PieceColor, CheckersPiece } from 'yourturn-shared';
+
 export interface CheckersMove {
+  type: 'move';
   from: Position;
   to: Position;
 }
@@ -78,32 +433,102 @@ export interface CheckersState {
   mustContinueFrom: Position | null; // for multi-jumps
 }
 
+// ---- Move Payloads ----
+// Each engine owns its move shape; every shape carries a `type` discriminator.
+
+export interface MovePayloads {
+  checkers: CheckersMove;
+  chess: ChessMove;
+  connect4: Connect4Move;
+  reversi: ReversiMove;
+  tictactoe: TicTacToeMove;
+  gomoku: GomokuMove;
+  mancala: MancalaMove;
+  dotsboxes: DotsBoxesMove;
+  navalbattle: NavalBattleMove;
+  go: GoMove;
+  backgammon: BackgammonMove;
+  cribbage: CribbageMove;
+}
+
+export type GameMove<T extends GameType = GameType> = MovePayloads[T];
+
 // ---- Socket Event Types ----
 
 export interface ClientToServerEvents {
-  'room:create': (data: { playerName: string; gameType: GameType }) => void;
-  'room:join': (data: { roomCode: string; playerName: string; sessionToken?: string }) => void;
-  'game:move': (data: { from: Position; to: Position }) => void;
+  'room:create': (data: {
+    playerName: string;
+    gameType: GameType;
+    options?: GameOptions;
+    timeControl?: TimeControl | null;
+    allowSpectators?: boolean;
+    isPublic?: boolean;
+    rated?: boolean;
+    match?: MatchFormat | null;
+    seed?: number | null;
+  }) => void;
+  'room:join': (data: { roomCode: string; playerName: string; sessionToken?: string; spectate?: boolean }) => void;
+  'room:set-spectators': (data: { allow: boolean }) => void;
+  'room:add-bot': (data: { difficulty: BotDifficulty }) => void;
+  'room:remove-bot': (data: { playerId: string }) => void;
+  'game:move': (data: GameMove) => void;
   'game:start': () => void;
   'game:restart': () => void;
-  'game:switch-game': (data: { gameType: GameType }) => void;
+  'game:switch-game': (data: { gameType: GameType; options?: GameOptions }) => void;
   'game:request-state': () => void;
+  'game:takeback-request': () => void;
+  'game:takeback-response': (data: { accept: boolean }) => void;
+  'game:resign': () => void;
+  'game:offer-draw': () => void;
+  'game:accept-draw': () => void;
+  'game:decline-draw': () => void;
+  'game:claim-draw': () => void;
+  'game:export': () => void;
+  'game:move-list': () => void;
+  'game:annotate': (data: { index: number; glyph: AnnotationGlyph | null; comment: string }) => void;
   'chat:message': (data: { text: string }) => void;
+  'lobby:subscribe': () => void;
+  'lobby:unsubscribe': () => void;
+  'match:join': (data: { playerName: string; gameType: GameType }) => void;
+  'match:leave': () => void;
+  'tournament:subscribe': (data: { tournamentId: string }) => void;
+  'tournament:unsubscribe': (data: { tournamentId: string }) => void;
 }
 
 export interface ServerToClientEvents {
   'room:created': (data: { roomCode: string; playerId: string; sessionToken: string }) => void;
-  'room:joined': (data: { players: { id: string; name: string; connected: boolean }[]; playerId: string; sessionToken: string; roomStatus: RoomStatus; creatorId: string; gameType: GameType }) => void;
-  'room:player-joined': (data: { playerName: string; players: { id: string; name: string; connected: boolean }[] }) => void;
-  'room:player-left': (data: { playerName: string; players: { id: string; name: string; connected: boolean }[] }) => void;
-  'room:player-reconnected': (data: { playerName: string; players: { id: string; name: string; connected: boolean }[] }) => void;
-  'room:player-disconnected': (data: { playerName: string; players: { id: string; name: string; connected: boolean }[] }) => void;
+  'room:joined': (data: { players: PlayerInfo[]; spectators: { id: string; name: string; connected: boolean }[]; playerId: string; role: RoomRole; sessionToken: string; roomStatus: RoomStatus; creatorId: string; gameType: GameType; allowSpectators: boolean; rated: boolean; match: MatchState | null }) => void;
+  'room:player-joined': (data: { playerName: string; players: PlayerInfo[] }) => void;
+  'room:player-left': (data: { playerName: string; players: PlayerInfo[] }) => void;
+  'room:player-reconnected': (data: { playerName: string; players: PlayerInfo[] }) => void;
+  'room:player-disconnected': (data: { playerName: string; players: PlayerInfo[] }) => void;
+  'room:players': (data: { players: PlayerInfo[] }) => void;
+  'room:match': (data: { match: MatchState }) => void;
+  'room:spectators': (data: { spectators: { id: string; name: string; connected: boolean }[]; allowSpectators: boolean }) => void;
   'room:error': (data: { message: string }) => void;
   'game:state': (state: unknown) => void;
   'game:started': () => void;
-  'game:over': (data: { winner: string; winnerName: string; reason: string }) => void;
+  'game:over': (data: {
+    winner: string;
+    winnerName: string;
+    reason: string;
+    replayId: string;
+    ratings: Record<string, RatingChange> | null; // by player id, for rated games
+  }) => void;
   'game:restarted': (data?: { gameType?: GameType }) => void;
+  'game:takeback-requested': (data: { playerId: string; playerName: string }) => void;
+  'game:takeback-resolved': (data: { accepted: boolean }) => void;
+  'game:draw-offered': (data: { playerId: string; playerName: string }) => void;
+  'game:draw-declined': () => void;
+  'game:exported': (data: { filename: string; content: string }) => void;
+  'game:move-list': (data: { moves: MoveListEntry[] }) => void;
   'chat:message': (data: { playerName: string; text: string; timestamp: number }) => void;
   'chat:system': (data: { text: string; timestamp: number }) => void;
   'chat:history': (data: ChatMessage[]) => void;
+  'lobby:rooms': (data: { rooms: PublicRoomInfo[] }) => void;
+  'match:queued': (data: { gameType: GameType }) => void;
+  'match:left': () => void;
+  'match:found': (data: { roomCode: string; playerId: string; sessionToken: string }) => void;
+  'tournament:update': (data: { tournament: Tournament; standings: TournamentStanding[] }) => void;
+  'correspondence:games': (data: { games: CorrespondenceGame[] }) => void;
 }
@@ -0,0 +1,17 @@
+// ---- Board Types ----
+
+export interface Position {
+  row: number;
+  col: number;
+}
+
+// ---- Board Helpers ----
+// Chess and checkers both play on an 8x8 grid of pieces or nulls.
+
+export function isInBounds(pos: Position): boolean {
+  return pos.row >= 0 && pos.row < 8 && pos.col >= 0 && pos.col < 8;
+}
+
+export function cloneBoard<T extends object>(board: (T | null)[][]): (T | null)[][] {
+  return board.map(row => row.map(cell => (cell ? { ...cell } : null)));
+}
@@ -1,14 +1,24 @@
-import { CheckersState, CheckersPiece, Position } from './types';
+import { Position, isInBounds } from './board';
 
-function isInBounds(pos: Position): boolean {
-  return pos.row >= 0 && pos.row < 8 && pos.col >= 0 && pos.col < 8;
+// ---- Checkers Types ----
+
+export type PieceColor = 'red' | 'black';
+
+export interface CheckersPiece {
+  color: PieceColor;
+  isKing: boolean;
+}
+
+/** What the move rules read from a game: the server's state and the players' view of it both fit. */
+export interface CheckersPosition {
+  board: (CheckersPiece | null)[][];
+  currentTurn: PieceColor;
+  mustContinueFrom: Position | null; // the piece partway through a multi-jump
 }
 
-function getJumpsForPiece(
-  board: (CheckersPiece | null)[][],
-  pos: Position,
-  piece: CheckersPiece,
-): Position[] {
+// ---- Move Generation ----
+
+export function getJumpsForPiece(board: (CheckersPiece | null)[][], pos: Position, piece: CheckersPiece): Position[] {
   const jumps: Position[] = [];
   // Kings can jump in any direction; regular pieces only jump forward
   const directions: number[] = [];
@@ -40,11 +50,7 @@ function getJumpsForPiece(
   return jumps;
 }
 
-function getSimpleMovesForPiece(
-  board: (CheckersPiece | null)[][],
-  pos: Position,
-  piece: CheckersPiece,
-): Position[] {
+function getSimpleMovesForPiece(board: (CheckersPiece | null)[][], pos: Position, piece: CheckersPiece): Position[] {
   const moves: Position[] = [];
   const directions: number[] = [];
 
@@ -63,7 +69,7 @@ function getSimpleMovesForPiece(
   return moves;
 }
 
-function playerHasJumps(board: (CheckersPiece | null)[][], color: string): boolean {
+export function playerHasJumps(board: (CheckersPiece | null)[][], color: PieceColor): boolean {
   for (let row = 0; row < 8; row++) {
     for (let col = 0; col < 8; col++) {
       const piece = board[row][col];
@@ -77,11 +83,35 @@ function playerHasJumps(board: (CheckersPiece | null)[][], color: string): boole
   return false;
 }
 
-/** Client-side move calculation for highlighting valid destinations */
-export function getValidMoves(state: CheckersState, pos: Position): Position[] {
+export function playerHasAnyMoves(board: (CheckersPiece | null)[][], color: PieceColor): boolean {
+  for (let row = 0; row < 8; row++) {
+    for (let col = 0; col < 8; col++) {
+      const piece = board[row][col];
+      if (piece && piece.color === color) {
+        if (getJumpsForPiece(board, { row, col }, piece).length > 0) return true;
+        if (getSimpleMovesForPiece(board, { row, col }, piece).length > 0) return true;
+      }
+    }
+  }
+  return false;
+}
+
+export function playerHasPieces(board: (CheckersPiece | null)[][], color: PieceColor): boolean {
+  for (let row = 0; row < 8; row++) {
+    for (let col = 0; col < 8; col++) {
+      const piece = board[row][col];
+      if (piece && piece.color === color) return true;
+    }
+  }
+  return false;
+}
+
+/** Legal destinations for the piece at `pos`, which must belong to the player to move. */
+export function getCheckersMoves(state: CheckersPosition, pos: Position): Position[] {
   const piece = state.board[pos.row]?.[pos.col];
   if (!piece || piece.color !== state.currentTurn) return [];
 
+  // If we must continue a multi-jump with a specific piece
   if (state.mustContinueFrom) {
     if (pos.row !== state.mustContinueFrom.row || pos.col !== state.mustContinueFrom.col) {
       return [];
@@ -89,6 +119,7 @@ export function getValidMoves(state: CheckersState, pos: Position): Position[] {
     return getJumpsForPiece(state.board, pos, piece);
   }
 
+  // If any piece can jump, only jumps are allowed (mandatory capture)
   const hasJumps = playerHasJumps(state.board, state.currentTurn);
   if (hasJumps) {
     return getJumpsForPiece(state.board, pos, piece);
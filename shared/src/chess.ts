@@ -0,0 +1,433 @@
+import { Position, cloneBoard, isInBounds } from './board';
+
+// ---- Chess Types ----
+
+export type ChessPieceType = 'pawn' | 'rook' | 'knight' | 'bishop' | 'queen' | 'king';
+export type ChessColor = 'white' | 'black';
+export type ChessVariant = 'standard' | 'chess960' | 'kingOfTheHill' | 'threeCheck' | 'atomic' | 'horde';
+
+export interface ChessPiece {
+  type: ChessPieceType;
+  color: ChessColor;
+  hasMoved: boolean;
+}
+
+/** What the move rules read from a game: the server's state and the players' view of it both fit. */
+export interface ChessPosition {
+  board: (ChessPiece | null)[][];
+  currentTurn: ChessColor;
+  enPassantTarget: Position | null;
+  variant: ChessVariant;
+}
+
+// ---- Helpers ----
+
+export function oppositeColor(color: ChessColor): ChessColor {
+  return color === 'white' ? 'black' : 'white';
+}
+
+export function findKing(board: (ChessPiece | null)[][], color: ChessColor): Position | null {
+  for (let row = 0; row < 8; row++) {
+    for (let col = 0; col < 8; col++) {
+      const piece = board[row][col];
+      if (piece && piece.type === 'king' && piece.color === color) {
+        return { row, col };
+      }
+    }
+  }
+  return null;
+}
+
+function isUnmoved(board: (ChessPiece | null)[][], row: number, col: number, type: ChessPieceType, color: ChessColor): boolean {
+  const piece = board[row][col];
+  return !!piece && piece.type === type && piece.color === color && !piece.hasMoved;
+}
+
+// ---- Attack / Threat Detection ----
+
+/**
+ * Checks whether a given square is attacked by any piece of the given color.
+ * This is a raw check that does not consider pins or legality of moves.
+ */
+function isSquareAttackedBy(board: (ChessPiece | null)[][], pos: Position, byColor: ChessColor): boolean {
+  // Check knight attacks
+  const knightOffsets = [
+    [-2, -1], [-2, 1], [-1, -2], [-1, 2],
+    [1, -2], [1, 2], [2, -1], [2, 1],
+  ];
+  for (const [dr, dc] of knightOffsets) {
+    const r = pos.row + dr;
+    const c = pos.col + dc;
+    if (isInBounds({ row: r, col: c })) {
+      const piece = board[r][c];
+      if (piece && piece.color === byColor && piece.type === 'knight') return true;
+    }
+  }
+
+  // Check pawn attacks
+  const pawnDir = byColor === 'white' ? 1 : -1; // white pawns attack upward (lower row numbers)
+  for (const dc of [-1, 1]) {
+    const r = pos.row + pawnDir;
+    const c = pos.col + dc;
+    if (isInBounds({ row: r, col: c })) {
+      const piece = board[r][c];
+      if (piece && piece.color === byColor && piece.type === 'pawn') return true;
+    }
+  }
+
+  // Check king attacks (adjacent squares)
+  for (let dr = -1; dr <= 1; dr++) {
+    for (let dc = -1; dc <= 1; dc++) {
+      if (dr === 0 && dc === 0) continue;
+      const r = pos.row + dr;
+      const c = pos.col + dc;
+      if (isInBounds({ row: r, col: c })) {
+        const piece = board[r][c];
+        if (piece && piece.color === byColor && piece.type === 'king') return true;
+      }
+    }
+  }
+
+  // Check sliding pieces (rook, bishop, queen) along lines
+  // Rook/Queen: horizontal and vertical
+  const rookDirs = [[-1, 0], [1, 0], [0, -1], [0, 1]];
+  for (const [dr, dc] of rookDirs) {
+    let r = pos.row + dr;
+    let c = pos.col + dc;
+    while (isInBounds({ row: r, col: c })) {
+      const piece = board[r][c];
+      if (piece) {
+        if (piece.color === byColor && (piece.type === 'rook' || piece.type === 'queen')) return true;
+        break; // blocked by a piece
+      }
+      r += dr;
+      c += dc;
+    }
+  }
+
+  // Bishop/Queen: diagonals
+  const bishopDirs = [[-1, -1], [-1, 1], [1, -1], [1, 1]];
+  for (const [dr, dc] of bishopDirs) {
+    let r = pos.row + dr;
+    let c = pos.col + dc;
+    while (isInBounds({ row: r, col: c })) {
+      const piece = board[r][c];
+      if (piece) {
+        if (piece.color === byColor && (piece.type === 'bishop' || piece.type === 'queen')) return true;
+        break;
+      }
+      r += dr;
+      c += dc;
+    }
+  }
+
+  return false;
+}
+
+export function isKingInCheck(board: (ChessPiece | null)[][], color: ChessColor, variant: ChessVariant = 'standard'): boolean {
+  const kingPos = findKing(board, color);
+  if (!kingPos) return false; // the horde has no king, and an exploded one can't be checked
+  if (variant === 'atomic') {
+    // Touching kings can't take each other: the blast would take both
+    const otherKing = findKing(board, oppositeColor(color));
+    if (otherKing && Math.abs(otherKing.row - kingPos.row) <= 1 && Math.abs(otherKing.col - kingPos.col) <= 1) {
+      return false;
+    }
+  }
+  return isSquareAttackedBy(board, kingPos, oppositeColor(color));
+}
+
+// ---- Pseudo-legal Move Generation ----
+// These generate moves without checking if they leave own king in check.
+
+function getPseudoLegalMoves(state: ChessPosition, pos: Position): Position[] {
+  const { board } = state;
+  const piece = board[pos.row][pos.col];
+  if (!piece) return [];
+
+  switch (piece.type) {
+    case 'pawn': return getPawnMoves(board, pos, piece, state.enPassantTarget, state.variant);
+    case 'rook': return getSlidingMoves(board, pos, piece, [[-1, 0], [1, 0], [0, -1], [0, 1]]);
+    case 'bishop': return getSlidingMoves(board, pos, piece, [[-1, -1], [-1, 1], [1, -1], [1, 1]]);
+    case 'queen': return getSlidingMoves(board, pos, piece, [
+      [-1, 0], [1, 0], [0, -1], [0, 1],
+      [-1, -1], [-1, 1], [1, -1], [1, 1],
+    ]);
+    case 'knight': return getKnightMoves(board, pos, piece);
+    case 'king': return getKingMoves(board, pos, piece, state.variant);
+    default: return [];
+  }
+}
+
+function getPawnMoves(
+  board: (ChessPiece | null)[][],
+  pos: Position,
+  piece: ChessPiece,
+  enPassantTarget: Position | null,
+  variant: ChessVariant,
+): Position[] {
+  const moves: Position[] = [];
+  const dir = piece.color === 'white' ? -1 : 1;
+  const startRow = piece.color === 'white' ? 6 : 1;
+  // The horde's pawns on the first rank may also step two squares
+  const canStepTwo = pos.row === startRow || (variant === 'horde' && pos.row === startRow - dir);
+
+  // Forward one
+  const oneStep = { row: pos.row + dir, col: pos.col };
+  if (isInBounds(oneStep) && !board[oneStep.row][oneStep.col]) {
+    moves.push(oneStep);
+
+    // Forward two from starting position
+    if (canStepTwo) {
+      const twoStep = { row: pos.row + 2 * dir, col: pos.col };
+      if (!board[twoStep.row][twoStep.col]) {
+        moves.push(twoStep);
+      }
+    }
+  }
+
+  // Diagonal captures
+  for (const dc of [-1, 1]) {
+    const target = { row: pos.row + dir, col: pos.col + dc };
+    if (isInBounds(target)) {
+      const targetPiece = board[target.row][target.col];
+      if (targetPiece && targetPiece.color !== piece.color) {
+        moves.push(target);
+      }
+      // En passant
+      if (enPassantTarget && target.row === enPassantTarget.row && target.col === enPassantTarget.col) {
+        moves.push(target);
+      }
+    }
+  }
+
+  return moves;
+}
+
+function getSlidingMoves(
+  board: (ChessPiece | null)[][],
+  pos: Position,
+  piece: ChessPiece,
+  directions: number[][],
+): Position[] {
+  const moves: Position[] = [];
+  for (const [dr, dc] of directions) {
+    let r = pos.row + dr;
+    let c = pos.col + dc;
+    while (isInBounds({ row: r, col: c })) {
+      const target = board[r][c];
+      if (target) {
+        if (target.color !== piece.color) {
+          moves.push({ row: r, col: c });
+        }
+        break;
+      }
+      moves.push({ row: r, col: c });
+      r += dr;
+      c += dc;
+    }
+  }
+  return moves;
+}
+
+function getKnightMoves(
+  board: (ChessPiece | null)[][],
+  pos: Position,
+  piece: ChessPiece,
+): Position[] {
+  const moves: Position[] = [];
+  const offsets = [
+    [-2, -1], [-2, 1], [-1, -2], [-1, 2],
+    [1, -2], [1, 2], [2, -1], [2, 1],
+  ];
+  for (const [dr, dc] of offsets) {
+    const target = { row: pos.row + dr, col: pos.col + dc };
+    if (isInBounds(target)) {
+      const targetPiece = board[target.row][target.col];
+      if (!targetPiece || targetPiece.color !== piece.color) {
+        moves.push(target);
+      }
+    }
+  }
+  return moves;
+}
+
+function getKingMoves(
+  board: (ChessPiece | null)[][],
+  pos: Position,
+  piece: ChessPiece,
+  variant: ChessVariant,
+): Position[] {
+  const moves: Position[] = [];
+  // Normal king moves (one square in any direction)
+  for (let dr = -1; dr <= 1; dr++) {
+    for (let dc = -1; dc <= 1; dc++) {
+      if (dr === 0 && dc === 0) continue;
+      const target = { row: pos.row + dr, col: pos.col + dc };
+      if (isInBounds(target)) {
+        const targetPiece = board[target.row][target.col];
+        // An atomic king can't capture: it would be caught in its own blast
+        if (!targetPiece || (targetPiece.color !== piece.color && variant !== 'atomic')) {
+          moves.push(target);
+        }
+      }
+    }
+  }
+
+  if (!piece.hasMoved && !isKingInCheck(board, piece.color, variant)) {
+    moves.push(...getCastlingMoves(board, pos, piece, variant === 'chess960'));
+  }
+
+  return moves;
+}
+
+// ---- Castling ----
+// The king castles with the unmoved rook on either side of it and always ends
+// on the g- or c-file, the rook beside it on the f- or d-file. In standard
+// chess that is the king stepping two squares; Chess960 spells it as the king
+// moving onto its own rook, since the king may move one square or none.
+
+function castlingSquares(kingCol: number, rookCol: number): { kingTo: number; rookTo: number } {
+  return rookCol > kingCol ? { kingTo: 6, rookTo: 5 } : { kingTo: 2, rookTo: 3 };
+}
+
+/** Column of the unmoved rook the king can castle with on one side, outermost first; null if none. */
+export function findCastlingRook(board: (ChessPiece | null)[][], row: number, kingCol: number, kingside: boolean): number | null {
+  const color = board[row][kingCol]!.color;
+  for (let col = kingside ? 7 : 0; kingside ? col > kingCol : col < kingCol; col += kingside ? -1 : 1) {
+    if (isUnmoved(board, row, col, 'rook', color)) return col;
+  }
+  return null;
+}
+
+function getCastlingMoves(board: (ChessPiece | null)[][], pos: Position, king: ChessPiece, chess960: boolean): Position[] {
+  const moves: Position[] = [];
+  for (const kingside of [true, false]) {
+    const rookCol = findCastlingRook(board, pos.row, pos.col, kingside);
+    if (rookCol === null) continue;
+    const { kingTo, rookTo } = castlingSquares(pos.col, rookCol);
+
+    // Everything the king and rook pass over or land on must be empty, apart from the two of them
+    const low = Math.min(pos.col, rookCol, kingTo, rookTo);
+    const high = Math.max(pos.col, rookCol, kingTo, rookTo);
+    let blocked = false;
+    for (let col = low; col <= high && !blocked; col++) {
+      blocked = col !== pos.col && col !== rookCol && !!board[pos.row][col];
+    }
+    if (blocked) continue;
+
+    // ...and the king may not pass through or land on an attacked square
+    const bare = cloneBoard(board);
+    bare[pos.row][pos.col] = null;
+    bare[pos.row][rookCol] = null;
+    let attacked = false;
+    for (let col = Math.min(pos.col, kingTo); col <= Math.max(pos.col, kingTo) && !attacked; col++) {
+      attacked = isSquareAttackedBy(bare, { row: pos.row, col }, oppositeColor(king.color));
+    }
+    if (attacked) continue;
+
+    moves.push({ row: pos.row, col: chess960 ? rookCol : kingTo });
+  }
+  return moves;
+}
+
+/** The rook column if moving the king from → to castles, otherwise null. */
+export function castlingRookCol(state: ChessPosition, from: Position, to: Position): number | null {
+  const king = state.board[from.row][from.col];
+  if (king?.type !== 'king' || to.row !== from.row) return null;
+  if (state.variant === 'chess960') {
+    const target = state.board[to.row][to.col];
+    return target?.type === 'rook' && target.color === king.color ? to.col : null;
+  }
+  if (Math.abs(to.col - from.col) !== 2) return null;
+  return findCastlingRook(state.board, from.row, from.col, to.col > from.col);
+}
+
+// ---- Legal Move Generation ----
+// Filters pseudo-legal moves to exclude those that leave the king in check.
+
+/**
+ * Move the pieces for from → to on a copy of the board: castling, en passant
+ * and atomic explosions included, promotion left to the caller. `removed`
+ * lists every piece taken off the board, of either color.
+ */
+export function movePieces(state: ChessPosition, from: Position, to: Position): { board: (ChessPiece | null)[][]; removed: ChessPiece[] } {
+  const board = cloneBoard(state.board);
+  const piece = { ...board[from.row][from.col]!, hasMoved: true };
+  const removed: ChessPiece[] = [];
+
+  const rookCol = castlingRookCol(state, from, to);
+  if (rookCol !== null) {
+    const { kingTo, rookTo } = castlingSquares(from.col, rookCol);
+    const rook = board[from.row][rookCol]!;
+    board[from.row][from.col] = null;
+    board[from.row][rookCol] = null;
+    board[from.row][kingTo] = piece;
+    board[from.row][rookTo] = { ...rook, hasMoved: true };
+    return { board, removed };
+  }
+
+  // En passant takes the pawn beside the moving one, on the same row
+  const ep = state.enPassantTarget;
+  if (piece.type === 'pawn' && ep && to.row === ep.row && to.col === ep.col && board[from.row][to.col]) {
+    removed.push(board[from.row][to.col]!);
+    board[from.row][to.col] = null;
+  }
+  if (board[to.row][to.col]) removed.push(board[to.row][to.col]!);
+
+  board[from.row][from.col] = null;
+  board[to.row][to.col] = piece;
+
+  // An atomic capture blows up the capturing piece and every piece but a pawn around it
+  if (state.variant === 'atomic' && removed.length > 0) {
+    for (let row = to.row - 1; row <= to.row + 1; row++) {
+      for (let col = to.col - 1; col <= to.col + 1; col++) {
+        const caught = board[row]?.[col];
+        if (!caught || (caught.type === 'pawn' && (row !== to.row || col !== to.col))) continue;
+        removed.push(caught);
+        board[row][col] = null;
+      }
+    }
+  }
+
+  return { board, removed };
+}
+
+function wouldBeInCheck(state: ChessPosition, from: Position, to: Position, color: ChessColor): boolean {
+  const { board } = movePieces(state, from, to);
+  if (state.variant === 'atomic') {
+    if (!findKing(board, color)) return true; // never blow up your own king
+    if (!findKing(board, oppositeColor(color))) return false; // blowing up theirs wins, check or not
+  }
+  return isKingInCheck(board, color, state.variant);
+}
+
+/**
+ * Get all legal moves for a piece at a given position.
+ * This is the main function used by both server validation and client highlighting.
+ */
+export function getChessMoves(state: ChessPosition, pos: Position): Position[] {
+  const piece = state.board[pos.row]?.[pos.col];
+  if (!piece || piece.color !== state.currentTurn) return [];
+
+  const pseudoMoves = getPseudoLegalMoves(state, pos);
+
+  // Filter out moves that leave the king in check
+  return pseudoMoves.filter(to => !wouldBeInCheck(state, pos, to, piece.color));
+}
+
+// ---- Game Status Checks ----
+
+export function hasAnyLegalMoves(state: ChessPosition, color: ChessColor): boolean {
+  for (let row = 0; row < 8; row++) {
+    for (let col = 0; col < 8; col++) {
+      const piece = state.board[row][col];
+      if (piece && piece.color === color) {
+        const tempState: ChessPosition = { ...state, currentTurn: color };
+        const moves = getChessMoves(tempState, { row, col });
+        if (moves.length > 0) return true;
+      }
+    }
+  }
+  return false;
+}
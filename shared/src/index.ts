@@ -0,0 +1,7 @@
+// Pure game rules shared by the server engines and the client boards, so the
+// moves a board highlights are exactly the moves the server accepts.
+
+export * from './board';
+export * from './chess';
+export * from './checkers';
+export * from './backgammon';